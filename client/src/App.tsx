@@ -11,8 +11,13 @@ import Products from "@/pages/products";
 import Orders from "@/pages/orders";
 import OrderDetails from "@/pages/order-details";
 import Warehouses from "@/pages/warehouses";
+import Purchasing from "@/pages/purchasing";
 import Expenses from "@/pages/expenses";
 import Users from "@/pages/users";
+import Integrations from "@/pages/integrations";
+import Reconciliation from "@/pages/reconciliation";
+import Returns from "@/pages/returns";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -48,11 +53,14 @@ function Router() {
           <Route path="/orders" component={Orders} />
           <Route path="/orders/:id" component={OrderDetails} />
           <Route path="/warehouses" component={Warehouses} />
+          <Route path="/purchasing" component={Purchasing} />
           <Route path="/expenses" component={Expenses} />
           <Route path="/users" component={Users} />
           <Route path="/analytics" component={() => <div className="p-6">Analytics coming soon...</div>} />
-          <Route path="/integrations" component={() => <div className="p-6">Integrations coming soon...</div>} />
-          <Route path="/settings" component={() => <div className="p-6">Settings coming soon...</div>} />
+          <Route path="/integrations" component={Integrations} />
+          <Route path="/returns" component={Returns} />
+          <Route path="/reconciliation" component={Reconciliation} />
+          <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
       </main>
@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getAgingColor } from "@/components/reconciliation/outstanding-cod-card";
+import { Banknote, Download } from "lucide-react";
+import type { OutstandingCod } from "@shared/schema";
+import type { CodAging } from "@shared/payments";
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Cash on delivery still held by couriers, by how long ago it was collected
+export default function CodAgingCard() {
+  const { data } = useQuery<{ aging: CodAging[]; payments: OutstandingCod[] }>({
+    queryKey: ["/api/cod-remittances/outstanding", "all"],
+    queryFn: async () => {
+      const response = await fetch('/api/cod-remittances/outstanding', { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const aging = data?.aging || [];
+  const total = aging.reduce((sum, bucket) => sum + parseFloat(bucket.amount), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="w-5 h-5 text-orange-500" />
+            Unremitted COD
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" asChild data-testid="button-dashboard-export-cod">
+              <a href="/api/cod-remittances/outstanding/export" download>
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+            <Link href="/reconciliation">
+              <Button variant="ghost" size="sm" data-testid="button-view-cod-remittances">
+                View All
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-3xl font-semibold text-foreground mb-4" data-testid="text-unremitted-cod-total">
+          {formatCurrency(total)}
+        </p>
+        <div className="space-y-3">
+          {aging.map((bucket) => (
+            <div key={bucket.key} className="flex items-center justify-between" data-testid={`cod-aging-${bucket.key}`}>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getAgingColor(bucket.key)}`}>
+                {bucket.label}
+              </span>
+              <div className="text-right">
+                <p className="text-sm font-medium">{formatCurrency(bucket.amount)}</p>
+                <p className="text-xs text-muted-foreground">{bucket.count} order(s)</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ChannelInventory } from "@shared/schema";
+
+interface ChannelInventoryCardProps {
+  platformLabels: Record<string, string>;
+}
+
+export default function ChannelInventoryCard({ platformLabels }: ChannelInventoryCardProps) {
+  const [platform, setPlatform] = useState("amazon");
+
+  const { data: listings = [], isLoading } = useQuery<ChannelInventory[]>({
+    queryKey: ["/api/channel-inventory", platform],
+    queryFn: async () => {
+      const response = await fetch(`/api/channel-inventory?platform=${platform}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Channel Stock</CardTitle>
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger className="w-48" data-testid="select-channel-stock-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(platformLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>SKU</TableHead>
+              <TableHead className="text-right">Quantity Sent</TableHead>
+              <TableHead>Result</TableHead>
+              <TableHead>Last Push</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+              </TableRow>
+            ) : listings.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                  No stock has been pushed to {platformLabels[platform]} yet
+                </TableCell>
+              </TableRow>
+            ) : listings.map((listing) => (
+              <TableRow key={listing.id} data-testid={`row-channel-stock-${listing.sku}`}>
+                <TableCell className="font-mono">{listing.sku}</TableCell>
+                <TableCell className="text-right">{listing.lastPushedQuantity}</TableCell>
+                <TableCell>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    listing.lastStatus === 'pushed' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                  }`}>
+                    {listing.lastStatus}
+                  </span>
+                  {listing.lastError && (
+                    <div className="text-xs text-muted-foreground mt-1">{listing.lastError}</div>
+                  )}
+                </TableCell>
+                <TableCell>{listing.lastPushedAt ? new Date(listing.lastPushedAt).toLocaleString() : '-'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Warehouse } from "@shared/schema";
+
+export interface PublicPlatformConnection {
+  platform: string;
+  isEnabled: boolean;
+  stockBuffer: number;
+  warehouseIds: string[];
+  syncCursor: string | null;
+  lastSyncAt: string | null;
+  credentialKeys: string[];
+  hasWebhookSecret: boolean;
+}
+
+interface ChannelSettingsDialogProps {
+  connection: PublicPlatformConnection | null;
+  platformLabel: string;
+  onClose: () => void;
+}
+
+export default function ChannelSettingsDialog({ connection, platformLabel, onClose }: ChannelSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [stockBuffer, setStockBuffer] = useState("0");
+  const [warehouseIds, setWarehouseIds] = useState<string[]>([]);
+  // Left blank to keep the stored secret, which is never sent back to the browser
+  const [webhookSecret, setWebhookSecret] = useState("");
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: !!connection,
+  });
+
+  useEffect(() => {
+    if (connection) {
+      setIsEnabled(connection.isEnabled);
+      setStockBuffer(connection.stockBuffer.toString());
+      setWarehouseIds(connection.warehouseIds);
+      setWebhookSecret("");
+    }
+  }, [connection]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PUT', `/api/platform-connections/${connection!.platform}`, {
+        isEnabled,
+        stockBuffer: parseInt(stockBuffer) || 0,
+        warehouseIds,
+        ...(webhookSecret ? { webhookSecret } : {}),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${platformLabel} settings saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/platform-connections'] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save channel settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWarehouse = (warehouseId: string, checked: boolean) => {
+    setWarehouseIds(prev => checked ? [...prev, warehouseId] : prev.filter(id => id !== warehouseId));
+  };
+
+  return (
+    <Dialog open={!!connection} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{platformLabel} Settings</DialogTitle>
+          <DialogDescription>
+            Controls order sync and the stock quantity offered on {platformLabel}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="channel-enabled">Sync enabled</Label>
+            <Switch
+              id="channel-enabled"
+              checked={isEnabled}
+              onCheckedChange={setIsEnabled}
+              data-testid="switch-channel-enabled"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-buffer">Stock buffer</Label>
+            <Input
+              id="channel-buffer"
+              type="number"
+              min={0}
+              value={stockBuffer}
+              onChange={(e) => setStockBuffer(e.target.value)}
+              data-testid="input-channel-buffer"
+            />
+            <p className="text-xs text-muted-foreground">Units per SKU held back from this channel to avoid overselling.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-webhook-secret">Webhook secret</Label>
+            <Input
+              id="channel-webhook-secret"
+              type="password"
+              autoComplete="off"
+              placeholder={connection?.hasWebhookSecret ? "Configured - enter a new secret to replace it" : "Not configured"}
+              value={webhookSecret}
+              onChange={(e) => setWebhookSecret(e.target.value)}
+              data-testid="input-channel-webhook-secret"
+            />
+            <p className="text-xs text-muted-foreground break-all">
+              Deliveries to {window.location.origin}/api/webhooks/{connection?.platform} must be signed with this secret.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fulfilling warehouses</Label>
+            <p className="text-xs text-muted-foreground">Leave all unticked to sell stock from every warehouse.</p>
+            <div className="space-y-2">
+              {warehouses.map((warehouse) => (
+                <div key={warehouse.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`channel-warehouse-${warehouse.id}`}
+                    checked={warehouseIds.includes(warehouse.id)}
+                    onCheckedChange={(checked) => toggleWarehouse(warehouse.id, checked === true)}
+                    data-testid={`checkbox-channel-warehouse-${warehouse.id}`}
+                  />
+                  <Label htmlFor={`channel-warehouse-${warehouse.id}`} className="font-normal">
+                    {warehouse.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-channel-settings"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
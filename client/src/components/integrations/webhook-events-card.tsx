@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw } from "lucide-react";
+import type { WebhookEvent } from "@shared/schema";
+
+interface WebhookEventsCardProps {
+  platformLabels: Record<string, string>;
+}
+
+const getEventStatusColor = (status: string) => {
+  switch (status) {
+    case 'processed':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'ignored':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+export default function WebhookEventsCard({ platformLabels }: WebhookEventsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const { data, isLoading } = useQuery<{ events: WebhookEvent[]; total: number }>({
+    queryKey: ["/api/webhook-events", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "20" });
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+
+      const response = await fetch(`/api/webhook-events?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/webhook-events/${id}/replay`);
+      return response.json() as Promise<WebhookEvent>;
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhook-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: event.status === 'processed' ? "Event replayed" : `Event ${event.status}`,
+        description: event.lastError ?? `${event.eventType} applied`,
+        variant: event.status === 'failed' ? "destructive" : "default",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to replay webhook event", variant: "destructive" });
+    },
+  });
+
+  const events = data?.events || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Webhook Events</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48" data-testid="select-webhook-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="processed">Processed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="ignored">Ignored</SelectItem>
+              <SelectItem value="received">Received</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Platform</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+              </TableRow>
+            ) : events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No webhook deliveries yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow key={event.id} data-testid={`row-webhook-event-${event.id}`}>
+                  <TableCell className="text-sm">
+                    {event.receivedAt ? new Date(event.receivedAt).toLocaleString() : '-'}
+                  </TableCell>
+                  <TableCell>{platformLabels[event.platform]}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{event.eventType}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{event.eventId}</div>
+                  </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getEventStatusColor(event.status)}`}>
+                      {event.status}
+                    </span>
+                    {event.lastError && (
+                      <div className="text-xs text-muted-foreground mt-1">{event.lastError}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{event.attempts}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => replayMutation.mutate(event.id)}
+                      disabled={replayMutation.isPending}
+                      data-testid={`button-replay-webhook-${event.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Replay
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
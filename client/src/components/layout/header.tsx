@@ -4,6 +4,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import type { SyncRun } from "@shared/schema";
 
 interface HeaderProps {
   title: string;
@@ -18,16 +19,24 @@ export default function Header({ title, subtitle }: HeaderProps) {
     mutationFn: async () => {
       // FolderSync from all platforms
       const platforms = ['amazon', 'flipkart', 'meesho'];
-      const syncPromises = platforms.map(platform =>
-        apiRequest('POST', `/api/sync/${platform}`)
-      );
-      await Promise.all(syncPromises);
+      const syncPromises = platforms.map(async platform => {
+        const response = await apiRequest('POST', `/api/sync/${platform}`);
+        return response.json() as Promise<SyncRun>;
+      });
+      return Promise.all(syncPromises);
     },
-    onSuccess: () => {
+    onSuccess: (runs) => {
+      const created = runs.reduce((sum, run) => sum + run.ordersCreated, 0);
+      const updated = runs.reduce((sum, run) => sum + run.ordersUpdated, 0);
+      const failedPlatforms = runs.filter(run => run.status !== 'succeeded').map(run => run.platform);
       toast({
-        title: "Success",
-        description: "Orders synced successfully from all platforms",
+        title: failedPlatforms.length > 0 ? "Sync finished with errors" : "Success",
+        description: failedPlatforms.length > 0
+          ? `${created} new, ${updated} updated. Problems syncing ${failedPlatforms.join(', ')} - see Integrations for details.`
+          : `Orders synced from all platforms: ${created} new, ${updated} updated`,
+        variant: failedPlatforms.length > 0 ? "destructive" : "default",
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/runs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
     },
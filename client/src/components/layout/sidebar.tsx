@@ -9,7 +9,10 @@ import {
   Users, 
   Settings,
   LogOut,
-  Package
+  Package,
+  Scale,
+  Undo2,
+  Truck
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -17,10 +20,13 @@ const navigation = [
   { name: "Dashboard", href: "/", icon: ChartPie },
   { name: "Products", href: "/products", icon: Package },
   { name: "Orders", href: "/orders", icon: ShoppingCart },
+  { name: "Returns", href: "/returns", icon: Undo2 },
   { name: "Warehouses", href: "/warehouses", icon: Package },
+  { name: "Purchasing", href: "/purchasing", icon: Truck },
   { name: "Analytics", href: "/analytics", icon: BarChart },
   { name: "Expenses", href: "/expenses", icon: Receipt },
   { name: "Integrations", href: "/integrations", icon: Plug },
+  { name: "Reconciliation", href: "/reconciliation", icon: Scale },
   { name: "User Management", href: "/users", icon: Users, adminOnly: true },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
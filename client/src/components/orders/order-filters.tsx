@@ -1,7 +1,7 @@
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Search, Download, FileText } from "lucide-react";
+import { Search, Download, FileText, AlertTriangle } from "lucide-react";
 
 interface OrderFiltersProps {
   filters: {
@@ -10,6 +10,7 @@ interface OrderFiltersProps {
     dateFrom: string;
     dateTo: string;
     search: string;
+    needsReview: string;
   };
   onFilterChange: (key: string, value: string) => void;
   onExport: (format: 'csv' | 'pdf') => void;
@@ -97,6 +98,14 @@ export default function OrderFilters({
           Showing {startIndex}-{endIndex} of {totalOrders} orders
         </p>
         <div className="flex space-x-2">
+          <Button
+            variant={filters.needsReview ? "default" : "outline"}
+            onClick={() => onFilterChange('needsReview', filters.needsReview ? '' : 'true')}
+            data-testid="button-filter-needs-review"
+          >
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Needs review
+          </Button>
           <Button 
             onClick={() => onExport('csv')}
             className="bg-primary text-primary-foreground hover:bg-primary/90"
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, RefreshCw, CheckCircle } from "lucide-react";
+import type { Warehouse } from "@shared/schema";
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface ImportRowResult {
+  rowNumber: number;
+  platformOrderId?: string;
+  productSku?: string;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+}
+
+interface ImportSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  unmappedRows: number;
+  orders: number;
+}
+
+interface ImportPreview {
+  columns: string[];
+  mapping: Record<string, string>;
+  fields: ImportField[];
+  summary: ImportSummary;
+  rows: ImportRowResult[];
+}
+
+interface ImportResult {
+  summary: ImportSummary & { created: number; duplicateOrders: number };
+  errors: ImportRowResult[];
+}
+
+// Radix Select does not allow an empty value, so unmapped fields use a sentinel
+const UNMAPPED = "__unmapped__";
+
+const getRowStatusColor = (status: ImportRowResult['status']) => {
+  switch (status) {
+    case 'valid':
+      return 'bg-green-100 text-green-800';
+    case 'duplicate':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+};
+
+export default function OrderImportDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [platform, setPlatform] = useState('amazon');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setFile(null);
+    setMapping(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const postImport = async (url: string) => {
+    if (!file) throw new Error("Choose a report file first");
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('platform', platform);
+    if (warehouseId) formData.append('warehouseId', warehouseId);
+    if (mapping) formData.append('mapping', JSON.stringify(mapping));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(response.status === 401 ? "401: Unauthorized" : body.message || "Import failed");
+    }
+    return body;
+  };
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => postImport('/api/orders/import/preview') as Promise<ImportPreview>,
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+    },
+    onError: handleError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => postImport('/api/orders/import/commit') as Promise<ImportResult>,
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Import complete",
+        description: `${data.summary.created} orders imported`,
+      });
+    },
+    onError: handleError,
+  });
+
+  const updateMapping = (field: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...(prev || {}) };
+      if (column === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-orders">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Orders
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Orders</DialogTitle>
+          <DialogDescription>
+            Upload an Amazon, Flipkart or Meesho order report (.csv, .txt or .xlsx). Rows are validated before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4" data-testid="import-summary">
+            <div className="flex items-center text-green-700">
+              <CheckCircle className="w-5 h-5 mr-2" />
+              <span className="font-medium">{result.summary.created} orders imported</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div><span className="text-muted-foreground">Rows read:</span> {result.summary.totalRows}</div>
+              <div><span className="text-muted-foreground">Invalid rows:</span> {result.summary.invalidRows}</div>
+              <div><span className="text-muted-foreground">Duplicate rows:</span> {result.summary.duplicateRows}</div>
+              <div><span className="text-muted-foreground">Skipped orders:</span> {result.summary.duplicateOrders}</div>
+            </div>
+            {result.errors.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.errors.length} rows were not imported. Fix them in the report and import it again; orders already imported will be skipped.
+              </p>
+            )}
+            <DialogFooter>
+              <Button onClick={reset} variant="outline" data-testid="button-import-another">Import another file</Button>
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Platform</Label>
+                <Select
+                  value={platform}
+                  onValueChange={(value) => {
+                    setPlatform(value);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger data-testid="select-import-platform">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amazon">Amazon</SelectItem>
+                    <SelectItem value="flipkart">Flipkart</SelectItem>
+                    <SelectItem value="meesho">Meesho</SelectItem>
+                    <SelectItem value="website">My Website</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Fulfilment warehouse</Label>
+                <Select value={warehouseId || UNMAPPED} onValueChange={(value) => setWarehouseId(value === UNMAPPED ? '' : value)}>
+                  <SelectTrigger data-testid="select-import-warehouse">
+                    <SelectValue placeholder="None" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>None</SelectItem>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Report file</Label>
+                <Input
+                  type="file"
+                  accept=".csv,.txt,.tsv,.xlsx"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                  data-testid="input-import-file"
+                />
+              </div>
+            </div>
+
+            {preview && mapping && (
+              <>
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-foreground">Column mapping</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {preview.fields.map((field) => (
+                      <div key={field.key} className="flex items-center gap-3">
+                        <Label className="w-40 text-sm">
+                          {field.label}
+                          {field.required && <span className="text-destructive ml-1">*</span>}
+                        </Label>
+                        <Select value={mapping[field.key] || UNMAPPED} onValueChange={(value) => updateMapping(field.key, value)}>
+                          <SelectTrigger className="flex-1" data-testid={`select-mapping-${field.key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {preview.columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2" data-testid="import-preview-summary">
+                  <Badge variant="outline">{preview.summary.totalRows} rows</Badge>
+                  <Badge className="bg-green-100 text-green-800">{preview.summary.validRows} valid</Badge>
+                  <Badge className="bg-red-100 text-red-800">{preview.summary.invalidRows} with errors</Badge>
+                  <Badge className="bg-yellow-100 text-yellow-800">{preview.summary.duplicateRows} already imported</Badge>
+                  {preview.summary.unmappedRows > 0 && (
+                    <Badge className="bg-orange-100 text-orange-800">
+                      {preview.summary.unmappedRows} unmapped SKUs (flagged for review)
+                    </Badge>
+                  )}
+                  <Badge variant="outline">{preview.summary.orders} orders ready</Badge>
+                </div>
+
+                <div className="rounded-md border max-h-72 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Order ID</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.rowNumber} data-testid={`row-import-${row.rowNumber}`}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.platformOrderId || '-'}</TableCell>
+                          <TableCell>{row.productSku || '-'}</TableCell>
+                          <TableCell>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRowStatusColor(row.status)}`}>
+                              {row.status}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {row.errors.join('; ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!file || previewMutation.isPending}
+                data-testid="button-import-preview"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${previewMutation.isPending ? 'animate-spin' : ''}`} />
+                {preview ? 'Re-validate' : 'Preview'}
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={!preview || preview.summary.orders === 0 || commitMutation.isPending}
+                data-testid="button-import-commit"
+              >
+                {commitMutation.isPending ? 'Importing...' : `Import ${preview?.summary.orders ?? 0} orders`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
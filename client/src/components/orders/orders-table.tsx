@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Eye, Edit, Trash2, ArrowUpDown } from "lucide-react";
+import { Eye, Edit, Trash2, ArrowUpDown, Tag, ClipboardList } from "lucide-react";
 import { Link } from "wouter";
 import type { Order } from "@shared/schema";
 
@@ -79,8 +79,34 @@ export default function OrdersTable({ orders, onSort, sortColumn, sortDirection
     </TableHead>
   );
 
+  // Selections are kept in table order so the printed pages match what's on screen
+  const selectedInOrder = orders.filter(order => selectedOrders.includes(order.id)).map(order => order.id);
+  const documentsUrl = (type: 'packing_slip' | 'label') =>
+    `/api/orders/shipping-documents?type=${type}&ids=${selectedInOrder.join(',')}`;
+
   return (
     <div className="bg-card rounded-lg border border-border overflow-hidden">
+      {selectedInOrder.length > 0 && (
+        <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-muted/30">
+          <span className="text-sm text-muted-foreground" data-testid="text-selected-count">
+            {selectedInOrder.length} selected
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" asChild data-testid="button-batch-packing-slips">
+              <a href={documentsUrl('packing_slip')}>
+                <ClipboardList className="h-4 w-4 mr-1" />
+                Packing Slips
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild data-testid="button-batch-labels">
+              <a href={documentsUrl('label')}>
+                <Tag className="h-4 w-4 mr-1" />
+                Labels
+              </a>
+            </Button>
+          </div>
+        </div>
+      )}
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
@@ -118,6 +144,15 @@ export default function OrdersTable({ orders, onSort, sortColumn, sortDirection
                       #{order.platformOrderId}
                     </Button>
                   </Link>
+                  {order.needsReview && (
+                    <span
+                      className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                      title="A line could not be matched to a product listing"
+                      data-testid={`badge-needs-review-${order.id}`}
+                    >
+                      Needs review
+                    </span>
+                  )}
                 </TableCell>
                 <TableCell>
                   <div>
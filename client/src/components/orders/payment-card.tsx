@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CreditCard, Plus } from "lucide-react";
+import type { Order, OrderPayment, PaymentMethod } from "@shared/schema";
+import { paymentMethodLabels, summarizePayments } from "@shared/payments";
+
+interface PaymentCardProps {
+  order: Order;
+  canRecord: boolean;
+}
+
+const getPaymentStatusColor = (status: Order["paymentStatus"]) => {
+  switch (status) {
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'refunded':
+    case 'partially_refunded':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+const formatAmount = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+// Ledger changes move the order's payment status, so the whole order is refetched
+function useLedgerMutation(orderId: string, mutationFn: () => Promise<Response>, success: string, onDone: () => void) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      onDone();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+function RemittanceDialog({ order, payment, onOpenChange }: { order: Order; payment: OrderPayment; onOpenChange: (open: boolean) => void }) {
+  const [reference, setReference] = useState("");
+
+  const mutation = useLedgerMutation(
+    order.id,
+    () => apiRequest('POST', `/api/payments/${payment.id}/remittance`, { reference }),
+    "Remittance recorded",
+    () => onOpenChange(false)
+  );
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark COD Remitted</DialogTitle>
+          <DialogDescription>
+            {formatAmount(payment.amount)} collected by {payment.gateway || 'the courier'} against AWB {payment.transactionId || '-'}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Remittance reference</Label>
+          <Input
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder="UTR or courier remittance id"
+            data-testid="input-remittance-reference"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending || !reference.trim()}
+            data-testid="button-submit-remittance"
+          >
+            {mutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PaymentEntryDialog({ order, kind, onOpenChange }: { order: Order; kind: OrderPayment["kind"]; onOpenChange: (open: boolean) => void }) {
+  const [method, setMethod] = useState<PaymentMethod | "">("");
+  const [amount, setAmount] = useState("");
+  const [transactionId, setTransactionId] = useState("");
+  const [gateway, setGateway] = useState("");
+
+  const mutation = useLedgerMutation(
+    order.id,
+    () => apiRequest('POST', `/api/orders/${order.id}/payments`, { kind, method, amount, transactionId, gateway }),
+    kind === 'refund' ? "Refund recorded" : "Payment recorded",
+    () => onOpenChange(false)
+  );
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{kind === 'refund' ? "Record Refund" : "Record Payment"}</DialogTitle>
+          <DialogDescription>
+            {kind === 'refund'
+              ? "Refunds can be partial; the order shows as refunded once everything collected has been paid back."
+              : "The order shows as paid once payments cover its total."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger data-testid="select-payment-method">
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Amount</Label>
+              <Input type="number" min={0} step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} data-testid="input-payment-amount" />
+            </div>
+            <div className="space-y-2">
+              <Label>Transaction ID</Label>
+              <Input value={transactionId} onChange={(e) => setTransactionId(e.target.value)} data-testid="input-payment-transaction-id" />
+            </div>
+            <div className="space-y-2">
+              <Label>Gateway</Label>
+              <Input value={gateway} onChange={(e) => setGateway(e.target.value)} placeholder="e.g. razorpay" data-testid="input-payment-gateway" />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending || !method || !amount}
+            data-testid="button-submit-payment"
+          >
+            {mutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function PaymentCard({ order, canRecord }: PaymentCardProps) {
+  const [entryKind, setEntryKind] = useState<OrderPayment["kind"] | null>(null);
+  const [remitting, setRemitting] = useState<OrderPayment | null>(null);
+
+  const { data: payments = [] } = useQuery<OrderPayment[]>({
+    queryKey: ["/api/orders", order.id, "payments"],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${order.id}/payments`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const summary = summarizePayments(order.totalAmount, payments);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <CreditCard className="w-5 h-5 mr-2" />
+            Payment Information
+          </span>
+          {canRecord && (
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setEntryKind('payment')} data-testid="button-record-payment">
+                <Plus className="w-4 h-4 mr-1" />
+                Payment
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setEntryKind('refund')} data-testid="button-record-refund">
+                <Plus className="w-4 h-4 mr-1" />
+                Refund
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <span className="text-sm font-medium">Method:</span>
+          <span className="ml-2 text-sm text-muted-foreground" data-testid="text-payment-method">
+            {order.paymentMethod || 'Not specified'}
+          </span>
+        </div>
+        <div>
+          <span className="text-sm font-medium">Transaction ID:</span>
+          <span className="ml-2 text-sm text-muted-foreground" data-testid="text-transaction-id">
+            {order.transactionId || 'Not available'}
+          </span>
+        </div>
+        <div>
+          <span className="text-sm font-medium">Amount:</span>
+          <span className="ml-2 text-lg font-semibold text-foreground" data-testid="text-total-amount">
+            {formatAmount(order.totalAmount)}
+          </span>
+        </div>
+        <div>
+          <span className="text-sm font-medium">Status:</span>
+          <Badge className={`ml-2 ${getPaymentStatusColor(order.paymentStatus)}`} data-testid="badge-payment-status">
+            {order.paymentStatus.replace('_', ' ')}
+          </Badge>
+        </div>
+
+        {payments.length > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-sm pt-2 border-t border-border">
+              <div>
+                <div className="text-muted-foreground">Collected</div>
+                <div className="font-medium" data-testid="text-payments-collected">{formatAmount(summary.collected)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Refunded</div>
+                <div className="font-medium" data-testid="text-payments-refunded">{formatAmount(summary.refunded)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Outstanding</div>
+                <div className="font-medium" data-testid="text-payments-outstanding">{formatAmount(summary.outstanding)}</div>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                    <TableCell className="text-xs">{new Date(payment.occurredAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="text-sm capitalize">{payment.kind}, {paymentMethodLabels[payment.method]}</div>
+                      {payment.method === 'cod' && payment.kind === 'payment' && (
+                        <div className="text-xs text-muted-foreground">
+                          {payment.codRemittedAt
+                            ? `Remitted ${new Date(payment.codRemittedAt).toLocaleDateString()}, ${payment.codRemittanceReference}`
+                            : 'Awaiting courier remittance'}
+                          {!payment.codRemittedAt && canRecord && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 ml-2 text-xs"
+                              onClick={() => setRemitting(payment)}
+                              data-testid={`button-mark-remitted-${payment.id}`}
+                            >
+                              Mark remitted
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {[payment.gateway, payment.transactionId].filter(Boolean).join(' · ') || '-'}
+                    </TableCell>
+                    <TableCell className={`text-right ${payment.kind === 'refund' ? 'text-red-600' : ''}`}>
+                      {payment.kind === 'refund' ? '-' : ''}{formatAmount(payment.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+      {entryKind && (
+        <PaymentEntryDialog order={order} kind={entryKind} onOpenChange={(open) => !open && setEntryKind(null)} />
+      )}
+      {remitting && (
+        <RemittanceDialog order={order} payment={remitting} onOpenChange={(open) => !open && setRemitting(null)} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, RefreshCw, Truck } from "lucide-react";
+import type { Carrier, Order, ShipmentStatus, ShipmentWithEvents } from "@shared/schema";
+import { PINCODE_PATTERN, carrierLabels, findPincode } from "@shared/shipping";
+
+interface CarrierRate {
+  carrier: Carrier;
+  service: string;
+  cost: number;
+  estimatedDays: number;
+}
+
+interface ShippingCardProps {
+  order: Order;
+  canShip: boolean;
+}
+
+const shipmentStatusLabels: Record<ShipmentStatus, string> = {
+  booked: "Booked",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  rto_in_transit: "Returning to origin",
+  rto_delivered: "Returned to origin",
+  cancelled: "Cancelled",
+};
+
+const getShipmentStatusColor = (status: ShipmentStatus) => {
+  switch (status) {
+    case 'delivered':
+      return 'bg-green-100 text-green-800';
+    case 'rto_in_transit':
+    case 'rto_delivered':
+      return 'bg-orange-100 text-orange-800';
+    case 'booked':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const rateKey = (rate: CarrierRate) => `${rate.carrier}:${rate.service}`;
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+function ShipOrderDialog({ order, open, onOpenChange }: { order: Order; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pincode, setPincode] = useState(findPincode(order) ?? "");
+  const [selected, setSelected] = useState<string | null>(null);
+  const pincodeValid = PINCODE_PATTERN.test(pincode);
+
+  const { data: rates = [], isLoading, error } = useQuery<CarrierRate[]>({
+    queryKey: ["/api/orders", order.id, "shipping-rates", pincode],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${order.id}/shipping-rates?shippingPincode=${pincode}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      return response.json();
+    },
+    enabled: open && pincodeValid,
+    retry: false,
+  });
+
+  const cheapest = rates[0];
+  const fastest = [...rates].sort((a, b) => a.estimatedDays - b.estimatedDays || a.cost - b.cost)[0];
+
+  // Start from the cheapest option whenever a new set of quotes arrives
+  useEffect(() => {
+    setSelected(cheapest ? rateKey(cheapest) : null);
+  }, [cheapest?.carrier, cheapest?.service, cheapest?.cost]);
+
+  const shipMutation = useMutation({
+    mutationFn: async () => {
+      const rate = rates.find(r => rateKey(r) === selected);
+      return await apiRequest('POST', `/api/orders/${order.id}/ship`, {
+        ...(rate ? { carrier: rate.carrier, service: rate.service } : { strategy: 'cheapest' }),
+        ...(pincode !== order.shippingPincode ? { shippingPincode: pincode } : {}),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Courier booked and order marked as shipped" });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to ship order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Ship Order</DialogTitle>
+          <DialogDescription>
+            Compare serviceable couriers for this parcel, then book one. The order moves to shipped once the AWB is issued.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label>Delivery Pincode</Label>
+            <Input
+              value={pincode}
+              maxLength={6}
+              onChange={(e) => setPincode(e.target.value.replace(/\D/g, ''))}
+              data-testid="input-ship-pincode"
+            />
+          </div>
+
+          {!pincodeValid ? (
+            <p className="text-sm text-muted-foreground">Enter the 6-digit delivery pincode to get rates.</p>
+          ) : isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : error ? (
+            <p className="text-sm text-destructive" data-testid="text-rates-error">{errorMessage(error)}</p>
+          ) : rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-rates">
+              No courier serves this pincode from the order's warehouse.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Carrier</TableHead>
+                  <TableHead>Service</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow
+                    key={rateKey(rate)}
+                    className="cursor-pointer"
+                    onClick={() => setSelected(rateKey(rate))}
+                    data-testid={`row-rate-${rate.carrier}-${rate.service}`}
+                  >
+                    <TableCell>
+                      <input type="radio" readOnly checked={selected === rateKey(rate)} />
+                    </TableCell>
+                    <TableCell>
+                      {carrierLabels[rate.carrier]}
+                      {rate === cheapest && <Badge variant="outline" className="ml-2">Cheapest</Badge>}
+                      {rate === fastest && <Badge variant="outline" className="ml-2">Fastest</Badge>}
+                    </TableCell>
+                    <TableCell className="capitalize">{rate.service}</TableCell>
+                    <TableCell className="text-right">{rate.estimatedDays}</TableCell>
+                    <TableCell className="text-right">₹{rate.cost.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => shipMutation.mutate()}
+            disabled={shipMutation.isPending || !selected}
+            data-testid="button-confirm-ship"
+          >
+            {shipMutation.isPending ? "Booking..." : "Book & Ship"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ShippingCard({ order, canShip }: ShippingCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isShipDialogOpen, setIsShipDialogOpen] = useState(false);
+
+  const { data: shipments = [], isLoading } = useQuery<ShipmentWithEvents[]>({
+    queryKey: ["/api/orders", order.id, "shipments"],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${order.id}/shipments`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const shipment = shipments.find(s => s.status !== 'cancelled');
+
+  const trackMutation = useMutation({
+    mutationFn: async (shipmentId: string) => {
+      return await apiRequest('POST', `/api/shipments/${shipmentId}/track`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to refresh tracking",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Truck className="w-5 h-5 mr-2" />
+          Shipping
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-10 bg-muted rounded animate-pulse"></div>
+        ) : shipment ? (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-foreground" data-testid="text-shipment-carrier">
+                  {carrierLabels[shipment.carrier]} <span className="capitalize">{shipment.service}</span>
+                </p>
+                <p className="text-xs text-muted-foreground" data-testid="text-shipment-awb">AWB {shipment.awb}</p>
+              </div>
+              <div className="flex space-x-2">
+                {canShip && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => trackMutation.mutate(shipment.id)}
+                    disabled={trackMutation.isPending}
+                    data-testid="button-refresh-tracking"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-1 ${trackMutation.isPending ? 'animate-spin' : ''}`} />
+                    Track
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" asChild data-testid="button-shipment-label">
+                  <a href={`/api/shipments/${shipment.id}/label`}>
+                    <Download className="w-4 h-4 mr-1" />
+                    Label
+                  </a>
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Badge className={getShipmentStatusColor(shipment.status)} data-testid="badge-shipment-status">
+                {shipmentStatusLabels[shipment.status]}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {shipment.lastTrackedAt ? `Tracked ${new Date(shipment.lastTrackedAt).toLocaleString()}` : 'Not tracked yet'}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="font-medium">Cost:</span>
+                <span className="ml-2 text-muted-foreground" data-testid="text-shipment-cost">
+                  ₹{parseFloat(shipment.cost).toLocaleString()}
+                </span>
+              </div>
+              <div>
+                <span className="font-medium">Weight:</span>
+                <span className="ml-2 text-muted-foreground">{parseFloat(shipment.weightKg)} kg</span>
+              </div>
+              <div>
+                <span className="font-medium">Route:</span>
+                <span className="ml-2 text-muted-foreground">{shipment.fromPincode} → {shipment.toPincode}</span>
+              </div>
+              <div>
+                <span className="font-medium">Expected:</span>
+                <span className="ml-2 text-muted-foreground">
+                  {shipment.estimatedDeliveryAt ? new Date(shipment.estimatedDeliveryAt).toLocaleDateString() : '-'}
+                </span>
+              </div>
+              {shipment.codAmount && (
+                <div>
+                  <span className="font-medium">COD:</span>
+                  <span className="ml-2 text-muted-foreground">₹{parseFloat(shipment.codAmount).toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+          </>
+        ) : order.status === 'processing' && canShip ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">Not yet booked with a courier.</p>
+            <Button size="sm" onClick={() => setIsShipDialogOpen(true)} data-testid="button-ship-order">
+              <Truck className="w-4 h-4 mr-1" />
+              Ship
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {order.trackingNumber ? `Shipped outside the app, tracking ${order.trackingNumber}` : 'No courier booking for this order.'}
+          </p>
+        )}
+      </CardContent>
+      {isShipDialogOpen && (
+        <ShipOrderDialog order={order} open={isShipDialogOpen} onOpenChange={setIsShipDialogOpen} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FileText } from "lucide-react";
+import type { Invoice, Order } from "@shared/schema";
+import { findGstState, gstStates } from "@shared/gst";
+
+interface TaxInvoiceCardProps {
+  order: Order;
+  canIssue: boolean;
+}
+
+const formatAmount = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
+
+export default function TaxInvoiceCard({ order, canIssue }: TaxInvoiceCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const shipToState = findGstState(order.shippingState);
+  const [stateCode, setStateCode] = useState<string>(shipToState?.code ?? "");
+
+  const { data: documents = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/orders", order.id, "invoices"],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${order.id}/invoices`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const invoice = documents.find(document => document.type === 'invoice');
+  const creditNote = documents.find(document => document.type === 'credit_note');
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const issueInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      // Only send the state when it was picked here, so a reported state is never overwritten
+      const body = !shipToState && stateCode ? { shippingState: stateCode } : {};
+      return await apiRequest('POST', `/api/orders/${order.id}/invoice`, body);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Tax invoice issued" });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id] });
+    },
+    onError: (error) => handleError(error, "Failed to issue invoice"),
+  });
+
+  const issueCreditNoteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/orders/${order.id}/credit-note`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Credit note issued" });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id, "invoices"] });
+    },
+    onError: (error) => handleError(error, "Failed to issue credit note"),
+  });
+
+  const describe = (document: Invoice) => (
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-foreground" data-testid={`text-${document.type}-number`}>
+          {document.invoiceNumber}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(document.invoiceDate).toLocaleDateString()} · {document.isInterState ? 'IGST' : 'CGST + SGST'} ·{' '}
+          {formatAmount(document.totalAmount)}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" asChild data-testid={`button-download-${document.type}`}>
+        <a href={`/api/orders/${order.id}/invoice${document.type === 'credit_note' ? '?type=credit_note' : ''}`}>
+          <Download className="w-4 h-4 mr-1" />
+          PDF
+        </a>
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="w-5 h-5 mr-2" />
+          Tax Invoice
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <span className="text-sm font-medium">Ship-to State:</span>
+          <span className="ml-2 text-sm text-muted-foreground" data-testid="text-shipping-state">
+            {shipToState ? `${shipToState.name} (${shipToState.code})` : order.shippingState || 'Not provided'}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="h-10 bg-muted rounded animate-pulse"></div>
+        ) : invoice ? (
+          <>
+            {describe(invoice)}
+            {creditNote ? (
+              <div className="pt-4 border-t border-border">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Credit Note</p>
+                {describe(creditNote)}
+              </div>
+            ) : order.status === 'returned' && canIssue && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => issueCreditNoteMutation.mutate()}
+                disabled={issueCreditNoteMutation.isPending}
+                data-testid="button-issue-credit-note"
+              >
+                {issueCreditNoteMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+              </Button>
+            )}
+          </>
+        ) : order.status === 'cancelled' ? (
+          <p className="text-sm text-muted-foreground">Cancelled orders are not invoiced.</p>
+        ) : canIssue ? (
+          <div className="flex space-x-2">
+            {!shipToState && (
+              <Select value={stateCode} onValueChange={setStateCode}>
+                <SelectTrigger className="flex-1" data-testid="select-invoice-state">
+                  <SelectValue placeholder="Select ship-to state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gstStates.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={() => issueInvoiceMutation.mutate()}
+              disabled={issueInvoiceMutation.isPending || !stateCode}
+              data-testid="button-issue-invoice"
+            >
+              {issueInvoiceMutation.isPending ? "Issuing..." : "Issue Invoice"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No invoice has been issued for this order.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
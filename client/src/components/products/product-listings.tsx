@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Edit, Link2, Plus, Trash2 } from "lucide-react";
+import type { Product, ProductListing, ProductListingWithProduct } from "@shared/schema";
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+// What each marketplace calls its own listing identifier
+const listingIdLabels: Record<string, string> = {
+  amazon: "ASIN",
+  flipkart: "FSN",
+  meesho: "Catalog ID",
+  website: "Listing ID",
+};
+
+interface ListingFormProps {
+  listing: ProductListing | null;
+  products: Product[];
+  onDone: () => void;
+}
+
+function ListingForm({ listing, products, onDone }: ListingFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [platform, setPlatform] = useState<string>(listing?.platform ?? "amazon");
+  const [sellerSku, setSellerSku] = useState(listing?.sellerSku ?? "");
+  const [listingId, setListingId] = useState(listing?.listingId ?? "");
+  const [productId, setProductId] = useState(listing?.productId ?? "");
+  const [packSize, setPackSize] = useState(String(listing?.packSize ?? 1));
+  const [isActive, setIsActive] = useState(listing?.isActive ?? true);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        platform,
+        sellerSku,
+        listingId: listingId.trim() || null,
+        productId,
+        packSize: parseInt(packSize) || 1,
+        isActive,
+      };
+      const response = listing
+        ? await apiRequest('PATCH', `/api/product-listings/${listing.id}`, data)
+        : await apiRequest('POST', '/api/product-listings', data);
+      return response.json() as Promise<ProductListing & { linkedOrders: number }>;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: "Success",
+        description: saved.linkedOrders > 0
+          ? `Listing saved and linked to ${saved.linkedOrders} order(s) awaiting review`
+          : "Listing saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/product-listings'] });
+      if (saved.linkedOrders > 0) {
+        queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      }
+      onDone();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to save listing",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Platform</Label>
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger data-testid="select-listing-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(platformLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Pack Size</Label>
+          <Input
+            type="number"
+            min={1}
+            value={packSize}
+            onChange={(e) => setPackSize(e.target.value)}
+            data-testid="input-listing-pack-size"
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Seller SKU</Label>
+          <Input value={sellerSku} onChange={(e) => setSellerSku(e.target.value)} data-testid="input-listing-seller-sku" />
+        </div>
+        <div className="space-y-2">
+          <Label>{listingIdLabels[platform]} (optional)</Label>
+          <Input value={listingId} onChange={(e) => setListingId(e.target.value)} data-testid="input-listing-id" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Product</Label>
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger data-testid="select-listing-product">
+            <SelectValue placeholder="Select a product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map((product) => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.name} ({product.sku})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Each unit sold on this listing uses {parseInt(packSize) || 1} unit(s) of the product.
+        </p>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch checked={isActive} onCheckedChange={setIsActive} data-testid="switch-listing-active" />
+        <Label>Active</Label>
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!sellerSku.trim() || !productId || saveMutation.isPending}
+          data-testid="button-save-listing"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Listing'}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+export default function ProductListings({ products, canEdit }: { products: Product[]; canEdit: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [platformFilter, setPlatformFilter] = useState("all");
+  const [editing, setEditing] = useState<ProductListing | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: listings = [], isLoading } = useQuery<ProductListingWithProduct[]>({
+    queryKey: ['/api/product-listings', platformFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (platformFilter !== 'all') params.append('platform', platformFilter);
+
+      const response = await fetch(`/api/product-listings?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/product-listings/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Listing removed" });
+      queryClient.invalidateQueries({ queryKey: ['/api/product-listings'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove listing", variant: "destructive" });
+    },
+  });
+
+  const openForm = (listing: ProductListing | null) => {
+    setEditing(listing);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Marketplace Listings ({listings.length})
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={platformFilter} onValueChange={setPlatformFilter}>
+              <SelectTrigger className="w-[180px]" data-testid="select-listings-platform-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Platforms</SelectItem>
+                {Object.entries(platformLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canEdit && (
+              <Button onClick={() => openForm(null)} data-testid="button-add-listing">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Listing
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead>Seller SKU</TableHead>
+                <TableHead>Listing ID</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Pack Size</TableHead>
+                <TableHead>Status</TableHead>
+                {canEdit && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">Loading listings...</TableCell>
+                </TableRow>
+              ) : listings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No listings mapped yet. Orders with unknown SKUs are flagged for review.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                listings.map((listing) => (
+                  <TableRow key={listing.id} data-testid={`row-listing-${listing.id}`}>
+                    <TableCell>{platformLabels[listing.platform]}</TableCell>
+                    <TableCell className="font-mono">{listing.sellerSku}</TableCell>
+                    <TableCell className="font-mono">{listing.listingId || '-'}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{listing.product.name}</div>
+                      <div className="text-sm text-muted-foreground font-mono">{listing.product.sku}</div>
+                    </TableCell>
+                    <TableCell>{listing.packSize > 1 ? `${listing.packSize}-pack` : 'Single'}</TableCell>
+                    <TableCell>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        listing.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {listing.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openForm(listing)}
+                            data-testid={`button-edit-listing-${listing.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(listing.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-listing-${listing.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Listing' : 'Add Listing'}</DialogTitle>
+            <DialogDescription>
+              Map a marketplace SKU or listing ID to a catalogue product.
+            </DialogDescription>
+          </DialogHeader>
+          {isFormOpen && (
+            <ListingForm
+              key={editing?.id ?? 'new'}
+              listing={editing}
+              products={products.filter((product) => product.isActive)}
+              onDone={closeForm}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
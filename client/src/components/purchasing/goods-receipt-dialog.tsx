@@ -0,0 +1,377 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { outstandingQuantity } from "@shared/purchasing";
+import type { Product, PurchaseOrderWithDetails, Supplier, Warehouse } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+interface ReceiptLine {
+  purchaseOrderItemId?: string;
+  productId: string;
+  ordered?: number; // still outstanding on the PO line
+  received: string;
+  rejected: string;
+  unitCost: string;
+  rejectionReason: string;
+}
+
+interface GoodsReceiptDialogProps {
+  purchaseOrder?: PurchaseOrderWithDetails | null; // receives against this order; an ad hoc receipt when not given
+  suppliers: Supplier[];
+  warehouses: Warehouse[];
+  products: Product[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function GoodsReceiptDialog({ purchaseOrder, suppliers, warehouses, products, open, onOpenChange }: GoodsReceiptDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [warehouseId, setWarehouseId] = useState("");
+  const [supplierId, setSupplierId] = useState("");
+  const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
+  const [pickedProductId, setPickedProductId] = useState("");
+  const [updateCostPrice, setUpdateCostPrice] = useState(false);
+  const [closePurchaseOrder, setClosePurchaseOrder] = useState(false);
+
+  // A PO receipt starts with everything still outstanding on each line, the usual case for a complete delivery
+  useEffect(() => {
+    if (!open) return;
+    setWarehouseId(purchaseOrder?.warehouseId ?? "");
+    setSupplierId(purchaseOrder?.supplierId ?? "");
+    setSupplierInvoiceNumber("");
+    setNotes("");
+    setLines(purchaseOrder?.items.map(item => ({
+      purchaseOrderItemId: item.id,
+      productId: item.productId,
+      ordered: outstandingQuantity(item),
+      received: String(outstandingQuantity(item)),
+      rejected: "0",
+      unitCost: item.unitCost,
+      rejectionReason: "",
+    })) ?? []);
+    setPickedProductId("");
+    setUpdateCostPrice(false);
+    setClosePurchaseOrder(false);
+  }, [open, purchaseOrder]);
+
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const quantities = lines.map(line => {
+    const received = parseInt(line.received) || 0;
+    const rejected = parseInt(line.rejected) || 0;
+    return { received, rejected, accepted: received - rejected };
+  });
+
+  const updateLine = (index: number, changes: Partial<ReceiptLine>) =>
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const addLine = (productId: string) => {
+    if (lines.some(line => line.productId === productId)) return;
+    setLines([...lines, {
+      productId,
+      received: "1",
+      rejected: "0",
+      unitCost: productsById.get(productId)?.costPrice ?? "",
+      rejectionReason: "",
+    }]);
+  };
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/goods-receipts', {
+        purchaseOrderId: purchaseOrder?.id,
+        warehouseId: purchaseOrder ? undefined : warehouseId,
+        supplierId: purchaseOrder ? undefined : supplierId || undefined,
+        supplierInvoiceNumber: supplierInvoiceNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+        updateCostPrice,
+        closePurchaseOrder: purchaseOrder ? closePurchaseOrder : undefined,
+        items: lines.map((line, index) => ({
+          purchaseOrderItemId: line.purchaseOrderItemId,
+          productId: line.purchaseOrderItemId ? undefined : line.productId,
+          receivedQuantity: quantities[index].received,
+          acceptedQuantity: quantities[index].accepted,
+          rejectedQuantity: quantities[index].rejected,
+          unitCost: line.unitCost === "" ? undefined : parseFloat(line.unitCost),
+          rejectionReason: line.rejectionReason.trim() || undefined,
+        })),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Goods received and stock booked in" });
+      queryClient.invalidateQueries({ queryKey: ["/api/goods-receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      if (updateCostPrice) queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error) || "Failed to receive goods", variant: "destructive" });
+    },
+  });
+
+  const canSubmit = (!!purchaseOrder || !!warehouseId) && lines.length > 0
+    && quantities.every(q => q.received >= 0 && q.rejected >= 0 && q.accepted >= 0)
+    && (closePurchaseOrder || quantities.some(q => q.received > 0))
+    && lines.every((line, index) => quantities[index].rejected === 0 || !!line.rejectionReason.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{purchaseOrder ? `Receive Goods on ${purchaseOrder.poNumber}` : "Ad Hoc Goods Receipt"}</DialogTitle>
+          <DialogDescription>
+            {purchaseOrder
+              ? `From ${purchaseOrder.supplier.name} into ${purchaseOrder.warehouse.name}. `
+              : "Stock that arrived without a purchase order. "}
+            Accepted units go into stock; rejected units are recorded with a reason and go back to the supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            {!purchaseOrder && (
+              <>
+                <div className="space-y-2">
+                  <Label>Received Into</Label>
+                  <Select value={warehouseId} onValueChange={setWarehouseId}>
+                    <SelectTrigger data-testid="select-grn-warehouse">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Supplier (Optional)</Label>
+                  <Select value={supplierId || "none"} onValueChange={(value) => setSupplierId(value === "none" ? "" : value)}>
+                    <SelectTrigger data-testid="select-grn-supplier">
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No supplier</SelectItem>
+                      {suppliers.filter(supplier => supplier.isActive).map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Supplier Invoice / Challan No.</Label>
+              <Input
+                value={supplierInvoiceNumber}
+                onChange={(e) => setSupplierInvoiceNumber(e.target.value)}
+                placeholder="As printed on the paperwork"
+                data-testid="input-grn-supplier-invoice"
+              />
+            </div>
+          </div>
+
+          {!purchaseOrder && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label>Add product</Label>
+                <Select value={pickedProductId} onValueChange={setPickedProductId}>
+                  <SelectTrigger data-testid="select-grn-product">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>{product.name} ({product.sku})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!pickedProductId}
+                onClick={() => {
+                  addLine(pickedProductId);
+                  setPickedProductId("");
+                }}
+                data-testid="button-add-grn-line"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  {purchaseOrder && <TableHead className="text-right">Outstanding</TableHead>}
+                  <TableHead className="w-24 text-right">Received</TableHead>
+                  <TableHead className="w-24 text-right">Rejected</TableHead>
+                  <TableHead className="text-right">Accepted</TableHead>
+                  <TableHead className="w-28 text-right">Unit Cost (₹)</TableHead>
+                  <TableHead>Rejection Reason</TableHead>
+                  {!purchaseOrder && <TableHead className="w-12"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                      No products added yet
+                    </TableCell>
+                  </TableRow>
+                ) : lines.map((line, index) => {
+                  const product = productsById.get(line.productId);
+                  const { accepted, rejected } = quantities[index];
+                  return (
+                    <TableRow key={line.productId} data-testid={`row-grn-line-${line.productId}`}>
+                      <TableCell>
+                        <div className="font-medium">{product?.name ?? line.productId}</div>
+                        {product && <div className="text-xs text-muted-foreground">{product.sku}</div>}
+                      </TableCell>
+                      {purchaseOrder && <TableCell className="text-right">{line.ordered}</TableCell>}
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={line.received}
+                          onChange={(e) => updateLine(index, { received: e.target.value })}
+                          className="text-right"
+                          data-testid={`input-grn-received-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={line.rejected}
+                          onChange={(e) => updateLine(index, { rejected: e.target.value })}
+                          className="text-right"
+                          data-testid={`input-grn-rejected-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${accepted < 0 || (line.ordered !== undefined && accepted > line.ordered) ? 'text-orange-600' : ''}`}
+                      >
+                        {accepted}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                          className="text-right"
+                          data-testid={`input-grn-cost-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={line.rejectionReason}
+                          onChange={(e) => updateLine(index, { rejectionReason: e.target.value })}
+                          placeholder={rejected > 0 ? "Required" : ""}
+                          disabled={rejected === 0}
+                          data-testid={`input-grn-rejection-reason-${line.productId}`}
+                        />
+                      </TableCell>
+                      {!purchaseOrder && (
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                            data-testid={`button-remove-grn-line-${line.productId}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="grn-update-cost"
+                checked={updateCostPrice}
+                onCheckedChange={(checked) => setUpdateCostPrice(checked === true)}
+                data-testid="checkbox-grn-update-cost"
+              />
+              <Label htmlFor="grn-update-cost">Set each product's cost price to its unit cost on this receipt</Label>
+            </div>
+            {purchaseOrder && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="grn-close-po"
+                  checked={closePurchaseOrder}
+                  onCheckedChange={(checked) => setClosePurchaseOrder(checked === true)}
+                  data-testid="checkbox-grn-close-po"
+                />
+                <Label htmlFor="grn-close-po">Nothing more is coming; close {purchaseOrder.poNumber} even if lines are short</Label>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes (Optional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Condition of the delivery, vehicle number, etc."
+              data-testid="input-grn-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => receiveMutation.mutate()} disabled={!canSubmit || receiveMutation.isPending} data-testid="button-submit-grn">
+            {receiveMutation.isPending ? "Saving..." : "Book In Goods"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
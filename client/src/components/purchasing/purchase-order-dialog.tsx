@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { purchaseOrderTotal } from "@shared/purchasing";
+import type { Product, PurchaseOrderWithDetails, Supplier, Warehouse } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+interface PurchaseOrderLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+interface PurchaseOrderDialogProps {
+  order?: PurchaseOrderWithDetails | null; // edits this draft; creates a new order when not given
+  suppliers: Supplier[];
+  warehouses: Warehouse[];
+  products: Product[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function PurchaseOrderDialog({ order, suppliers, warehouses, products, open, onOpenChange }: PurchaseOrderDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [supplierId, setSupplierId] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [pickedProductId, setPickedProductId] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(order?.supplierId ?? "");
+    setWarehouseId(order?.warehouseId ?? "");
+    setExpectedDate(order?.expectedDate ? toDateInput(new Date(order.expectedDate)) : "");
+    setNotes(order?.notes ?? "");
+    setLines(order?.items.map(item => ({
+      productId: item.productId,
+      quantity: String(item.quantity),
+      unitCost: item.unitCost,
+    })) ?? []);
+    setPickedProductId("");
+  }, [open, order]);
+
+  const productsById = new Map(products.map(product => [product.id, product]));
+  // The supplier's usual products are listed first
+  const productChoices = [...products].sort((a, b) =>
+    Number(b.supplierId === supplierId) - Number(a.supplierId === supplierId) || a.name.localeCompare(b.name)
+  );
+
+  const pickSupplier = (id: string) => {
+    setSupplierId(id);
+    const leadTimeDays = suppliers.find(supplier => supplier.id === id)?.leadTimeDays;
+    if (!expectedDate && leadTimeDays != null) {
+      setExpectedDate(toDateInput(new Date(Date.now() + leadTimeDays * 24 * 60 * 60 * 1000)));
+    }
+  };
+
+  // The agreed cost starts at the product's current cost price and can be changed per line
+  const addLine = (productId: string) => {
+    if (lines.some(line => line.productId === productId)) return;
+    setLines([...lines, { productId, quantity: "1", unitCost: productsById.get(productId)?.costPrice ?? "0" }]);
+  };
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLine>) =>
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        supplierId,
+        warehouseId,
+        expectedDate: expectedDate || null,
+        notes: notes.trim() || null,
+        items: lines.map(line => ({
+          productId: line.productId,
+          quantity: parseInt(line.quantity) || 0,
+          unitCost: parseFloat(line.unitCost) || 0,
+        })),
+      };
+      return order
+        ? await apiRequest('PUT', `/api/purchase-orders/${order.id}`, body)
+        : await apiRequest('POST', '/api/purchase-orders', body);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: order ? "Purchase order updated" : "Draft purchase order created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error) || "Failed to save purchase order", variant: "destructive" });
+    },
+  });
+
+  const total = purchaseOrderTotal(lines.map(line => ({
+    quantity: parseInt(line.quantity) || 0,
+    unitCost: parseFloat(line.unitCost) || 0,
+  })));
+  const canSubmit = !!supplierId && !!warehouseId && lines.length > 0
+    && lines.every(line => (parseInt(line.quantity) || 0) > 0 && line.unitCost !== "" && parseFloat(line.unitCost) >= 0);
+  // Inactive suppliers stay selectable on an existing draft that already uses them
+  const supplierChoices = suppliers.filter(supplier => supplier.isActive || supplier.id === order?.supplierId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order ? `Edit ${order.poNumber}` : "New Purchase Order"}</DialogTitle>
+          <DialogDescription>
+            Saved as a draft with its PO number. Mark it sent once the supplier has it; lines can no longer change after that.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={pickSupplier}>
+                <SelectTrigger data-testid="select-po-supplier">
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {supplierChoices.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Deliver To</Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger data-testid="select-po-warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expected Delivery</Label>
+              <Input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                data-testid="input-po-expected-date"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Add product</Label>
+              <Select value={pickedProductId} onValueChange={setPickedProductId}>
+                <SelectTrigger data-testid="select-po-product">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {productChoices.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku}){supplierId && product.supplierId === supplierId ? ' · usual supplier' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!pickedProductId}
+              onClick={() => {
+                addLine(pickedProductId);
+                setPickedProductId("");
+              }}
+              data-testid="button-add-po-line"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-28 text-right">Quantity</TableHead>
+                  <TableHead className="w-32 text-right">Unit Cost (₹)</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                      No products added yet
+                    </TableCell>
+                  </TableRow>
+                ) : lines.map((line, index) => {
+                  const product = productsById.get(line.productId);
+                  return (
+                    <TableRow key={line.productId} data-testid={`row-po-line-${line.productId}`}>
+                      <TableCell>
+                        <div className="font-medium">{product?.name ?? line.productId}</div>
+                        {product && <div className="text-xs text-muted-foreground">{product.sku}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                          className="text-right"
+                          data-testid={`input-po-line-quantity-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                          className="text-right"
+                          data-testid={`input-po-line-cost-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency((parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          data-testid={`button-remove-po-line-${line.productId}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {lines.length > 0 && (
+            <p className="text-sm text-right font-medium" data-testid="text-po-total">
+              Total before GST: {formatCurrency(total)}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes (Optional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Delivery instructions, quoted reference, etc."
+              data-testid="input-po-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSubmit || saveMutation.isPending} data-testid="button-submit-po">
+            {saveMutation.isPending ? "Saving..." : order ? "Save Draft" : "Create Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { GSTIN_PATTERN } from "@shared/gst";
+import type { Supplier } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+const daysField = z.string().regex(/^\d*$/, "Enter a number of days");
+
+const supplierFormSchema = z.object({
+  name: z.string().trim().min(1, "Supplier name is required"),
+  contactName: z.string(),
+  email: z.string().email("Enter a valid email").or(z.literal("")),
+  phone: z.string(),
+  gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, "Invalid GSTIN").or(z.literal("")),
+  paymentTermsDays: daysField,
+  leadTimeDays: daysField,
+  address: z.string(),
+  notes: z.string(),
+  isActive: z.boolean(),
+});
+
+type SupplierFormData = z.infer<typeof supplierFormSchema>;
+
+const toFormValues = (supplier?: Supplier | null): SupplierFormData => ({
+  name: supplier?.name ?? "",
+  contactName: supplier?.contactName ?? "",
+  email: supplier?.email ?? "",
+  phone: supplier?.phone ?? "",
+  gstin: supplier?.gstin ?? "",
+  paymentTermsDays: supplier?.paymentTermsDays?.toString() ?? "",
+  leadTimeDays: supplier?.leadTimeDays?.toString() ?? "",
+  address: supplier?.address ?? "",
+  notes: supplier?.notes ?? "",
+  isActive: supplier?.isActive ?? true,
+});
+
+interface SupplierDialogProps {
+  supplier?: Supplier | null; // edits this supplier; creates a new one when not given
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SupplierDialog({ supplier, open, onOpenChange }: SupplierDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: toFormValues(supplier),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(supplier));
+  }, [open, supplier, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SupplierFormData) => {
+      // Blank optional fields are stored as empty, not as empty strings
+      const body = {
+        ...data,
+        contactName: data.contactName.trim() || null,
+        email: data.email || null,
+        phone: data.phone.trim() || null,
+        gstin: data.gstin || null,
+        paymentTermsDays: data.paymentTermsDays === "" ? null : parseInt(data.paymentTermsDays),
+        leadTimeDays: data.leadTimeDays === "" ? null : parseInt(data.leadTimeDays),
+        address: data.address.trim() || null,
+        notes: data.notes.trim() || null,
+      };
+      return supplier
+        ? await apiRequest('PATCH', `/api/suppliers/${supplier.id}`, body)
+        : await apiRequest('POST', '/api/suppliers', body);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: supplier ? "Supplier updated" : "Supplier added" });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to save supplier",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{supplier ? `Edit ${supplier.name}` : "Add Supplier"}</DialogTitle>
+          <DialogDescription>Contact and tax details, and the terms purchase orders are placed on.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Supplier name" {...field} data-testid="input-supplier-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contactName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Person</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Who to speak to" {...field} data-testid="input-supplier-contact" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="orders@supplier.com" {...field} data-testid="input-supplier-email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Phone number" {...field} data-testid="input-supplier-phone" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="gstin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input placeholder="15-character GSTIN" maxLength={15} {...field} data-testid="input-supplier-gstin" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} placeholder="Days" {...field} data-testid="input-supplier-payment-terms" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="leadTimeDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lead Time</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} placeholder="Days" {...field} data-testid="input-supplier-lead-time" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Billing / pickup address" {...field} data-testid="input-supplier-address" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Minimum order, bank details, etc." {...field} data-testid="input-supplier-notes" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {supplier && (
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>Inactive suppliers are kept for history but cannot be ordered from</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-supplier-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-supplier">
+                {saveMutation.isPending ? "Saving..." : supplier ? "Save Supplier" : "Add Supplier"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, RefreshCw, CheckCircle } from "lucide-react";
+import type { Carrier, CodRemittance } from "@shared/schema";
+import { carrierLabels } from "@shared/shipping";
+import { getMatchStatusColor } from "./settlement-import-dialog";
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface CodRemittanceRowResult {
+  rowNumber: number;
+  awb?: string;
+  status: 'valid' | 'invalid';
+  matchStatus?: 'matched' | 'mismatch' | 'unmatched';
+  errors: string[];
+}
+
+interface CodRemittanceImportSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  matched: number;
+  mismatch: number;
+  unmatched: number;
+}
+
+interface CodRemittancePreview {
+  columns: string[];
+  mapping: Record<string, string>;
+  fields: ImportField[];
+  summary: CodRemittanceImportSummary;
+  remittances: (Omit<CodRemittance, 'id' | 'createdAt'> & { alreadyImported: boolean })[];
+  rows: CodRemittanceRowResult[];
+}
+
+interface CodRemittanceImportResult {
+  summary: CodRemittanceImportSummary;
+  remittances: CodRemittance[];
+  skipped: string[];
+}
+
+// Radix Select does not allow an empty value, so unmapped fields use a sentinel
+const UNMAPPED = "__unmapped__";
+
+export default function CodRemittanceImportDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [carrier, setCarrier] = useState<Carrier>('delhivery');
+  const [remittanceRef, setRemittanceRef] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [preview, setPreview] = useState<CodRemittancePreview | null>(null);
+  const [result, setResult] = useState<CodRemittanceImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setRemittanceRef('');
+    setMapping(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const postImport = async (url: string) => {
+    if (!file) throw new Error("Choose a report file first");
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('carrier', carrier);
+    if (remittanceRef) formData.append('remittanceRef', remittanceRef);
+    if (mapping) formData.append('mapping', JSON.stringify(mapping));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(response.status === 401 ? "401: Unauthorized" : body.message || "Import failed");
+    }
+    return body;
+  };
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => postImport('/api/cod-remittances/import/preview') as Promise<CodRemittancePreview>,
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+    },
+    onError: handleError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => postImport('/api/cod-remittances/import/commit') as Promise<CodRemittanceImportResult>,
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/cod-remittances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cod-remittances/outstanding'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: "Import complete",
+        description: `${data.remittances.length} remittance(s) imported`,
+      });
+    },
+    onError: handleError,
+  });
+
+  const updateMapping = (field: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...(prev || {}) };
+      if (column === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+  };
+
+  const newRemittances = preview?.remittances.filter(remittance => !remittance.alreadyImported) ?? [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button data-testid="button-import-cod-remittance">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Remittance
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import COD Remittance Report</DialogTitle>
+          <DialogDescription>
+            Upload a courier's COD remittance report (.csv, .txt or .xlsx). Each AWB is matched to the cash collected on delivery; only matching amounts are marked remitted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4" data-testid="cod-remittance-import-summary">
+            <div className="flex items-center text-green-700">
+              <CheckCircle className="w-5 h-5 mr-2" />
+              <span className="font-medium">{result.remittances.length} remittance(s) imported</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div><span className="text-muted-foreground">Matched AWBs:</span> {result.summary.matched}</div>
+              <div><span className="text-muted-foreground">Mismatches:</span> {result.summary.mismatch}</div>
+              <div><span className="text-muted-foreground">Unmatched:</span> {result.summary.unmatched}</div>
+              <div><span className="text-muted-foreground">Invalid rows:</span> {result.summary.invalidRows}</div>
+            </div>
+            {result.skipped.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Already imported and skipped: {result.skipped.join(', ')}
+              </p>
+            )}
+            <DialogFooter>
+              <Button onClick={reset} variant="outline">Import another file</Button>
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Carrier</Label>
+                <Select
+                  value={carrier}
+                  onValueChange={(value) => {
+                    setCarrier(value as Carrier);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger data-testid="select-cod-remittance-carrier">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(carrierLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Remittance reference</Label>
+                <Input
+                  value={remittanceRef}
+                  onChange={(e) => setRemittanceRef(e.target.value)}
+                  placeholder="Used when the report has no UTR"
+                  data-testid="input-cod-remittance-ref"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Report file</Label>
+                <Input
+                  type="file"
+                  accept=".csv,.txt,.tsv,.xlsx"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                  data-testid="input-cod-remittance-file"
+                />
+              </div>
+            </div>
+
+            {preview && mapping && (
+              <>
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-foreground">Column mapping</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {preview.fields.map((field) => (
+                      <div key={field.key} className="flex items-center gap-3">
+                        <Label className="w-40 text-sm">
+                          {field.label}
+                          {field.required && <span className="text-destructive ml-1">*</span>}
+                        </Label>
+                        <Select value={mapping[field.key] || UNMAPPED} onValueChange={(value) => updateMapping(field.key, value)}>
+                          <SelectTrigger className="flex-1" data-testid={`select-cod-remittance-mapping-${field.key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {preview.columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2" data-testid="cod-remittance-preview-summary">
+                  <Badge variant="outline">{preview.summary.totalRows} rows</Badge>
+                  <Badge className="bg-green-100 text-green-800">{preview.summary.matched} matched</Badge>
+                  <Badge className="bg-yellow-100 text-yellow-800">{preview.summary.mismatch} mismatched</Badge>
+                  <Badge className="bg-red-100 text-red-800">{preview.summary.unmatched} without a COD collection</Badge>
+                  {preview.summary.invalidRows > 0 && (
+                    <Badge className="bg-red-100 text-red-800">{preview.summary.invalidRows} invalid</Badge>
+                  )}
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  {preview.remittances.map((remittance) => (
+                    <div key={remittance.remittanceRef} className="flex justify-between">
+                      <span className="font-mono">{remittance.remittanceRef}</span>
+                      <span>
+                        Remitted ₹{remittance.amount}
+                        {remittance.alreadyImported && <span className="text-muted-foreground ml-2">(already imported)</span>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="rounded-md border max-h-72 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>AWB</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.rowNumber} data-testid={`row-cod-remittance-import-${row.rowNumber}`}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell className="font-mono">{row.awb || '-'}</TableCell>
+                          <TableCell>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor(row.matchStatus)}`}>
+                              {row.matchStatus ?? row.status}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {row.errors.join('; ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!file || previewMutation.isPending}
+                data-testid="button-cod-remittance-preview"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${previewMutation.isPending ? 'animate-spin' : ''}`} />
+                {preview ? 'Re-validate' : 'Preview'}
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={newRemittances.length === 0 || commitMutation.isPending}
+                data-testid="button-cod-remittance-commit"
+              >
+                {commitMutation.isPending ? 'Importing...' : `Import ${newRemittances.length} remittance(s)`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
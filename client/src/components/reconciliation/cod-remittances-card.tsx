@@ -0,0 +1,223 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CodRemittanceImportDialog from "./cod-remittance-import-dialog";
+import { getMatchStatusColor } from "./settlement-import-dialog";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import type { CodRemittance, CodRemittanceWithLines } from "@shared/schema";
+import { carrierLabels } from "@shared/shipping";
+
+const PAGE_SIZE = 20;
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function CodRemittanceLines({ remittanceId }: { remittanceId: string }) {
+  const { data: remittance, isLoading } = useQuery<CodRemittanceWithLines>({
+    queryKey: [`/api/cod-remittances/${remittanceId}`],
+    retry: false,
+  });
+
+  if (isLoading || !remittance) {
+    return <p className="text-sm text-muted-foreground">Loading lines...</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>AWB</TableHead>
+          <TableHead className="text-right">Remitted</TableHead>
+          <TableHead className="text-right">Collected</TableHead>
+          <TableHead>Result</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {remittance.lines.map((line) => (
+          <TableRow key={line.id}>
+            <TableCell className="font-mono">
+              {line.orderId ? (
+                <Link href={`/orders/${line.orderId}`} className="text-primary hover:underline">
+                  {line.awb}
+                </Link>
+              ) : line.awb}
+            </TableCell>
+            <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+            <TableCell className="text-right">{line.expectedAmount ? formatCurrency(line.expectedAmount) : '-'}</TableCell>
+            <TableCell>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor(line.matchStatus)}`}>
+                {line.matchStatus}
+              </span>
+              {line.mismatchReason && (
+                <div className="text-xs text-muted-foreground mt-1">{line.mismatchReason}</div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function CodRemittancesCard() {
+  const [carrierFilter, setCarrierFilter] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ remittances: CodRemittance[]; total: number }>({
+    queryKey: ["/api/cod-remittances", carrierFilter, currentPage],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: PAGE_SIZE.toString(),
+        offset: ((currentPage - 1) * PAGE_SIZE).toString(),
+      });
+      if (carrierFilter !== 'all') params.append('carrier', carrierFilter);
+
+      const response = await fetch(`/api/cod-remittances?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const remittances = data?.remittances || [];
+  const totalPages = Math.ceil((data?.total || 0) / PAGE_SIZE);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>COD Remittances</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={carrierFilter}
+              onValueChange={(value) => {
+                setCarrierFilter(value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-48" data-testid="select-cod-remittance-carrier-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Carriers</SelectItem>
+                {Object.entries(carrierLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CodRemittanceImportDialog />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Remitted</TableHead>
+              <TableHead>Carrier</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>AWBs</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+              </TableRow>
+            ) : remittances.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No COD remittances imported yet
+                </TableCell>
+              </TableRow>
+            ) : remittances.map((remittance) => {
+              const isExpanded = expandedId === remittance.id;
+              const remittedAt = remittance.remittedAt ?? remittance.createdAt;
+              return (
+                <Fragment key={remittance.id}>
+                  <TableRow data-testid={`row-cod-remittance-${remittance.id}`}>
+                    <TableCell>{remittedAt ? new Date(remittedAt).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell>{carrierLabels[remittance.carrier]}</TableCell>
+                    <TableCell className="font-mono">{remittance.remittanceRef}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(remittance.amount)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('matched')}`}>
+                          {remittance.matchedCount} matched
+                        </span>
+                        {remittance.mismatchCount > 0 && (
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('mismatch')}`}>
+                            {remittance.mismatchCount} mismatch
+                          </span>
+                        )}
+                        {remittance.unmatchedCount > 0 && (
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('unmatched')}`}>
+                            {remittance.unmatchedCount} unmatched
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(isExpanded ? null : remittance.id)}
+                        data-testid={`button-cod-remittance-details-${remittance.id}`}
+                      >
+                        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-muted/50">
+                        <CodRemittanceLines remittanceId={remittance.id} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-muted-foreground">
+              Page {currentPage} of {totalPages}
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage === 1}
+                data-testid="button-cod-remittances-previous"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage === totalPages}
+                data-testid="button-cod-remittances-next"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
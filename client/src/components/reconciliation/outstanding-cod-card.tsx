@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import type { OutstandingCod } from "@shared/schema";
+import { codAgingBucket, type CodAging, type CodAgingBucket } from "@shared/payments";
+import { carrierLabels } from "@shared/shipping";
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const getAgingColor = (bucket: CodAgingBucket) => {
+  switch (bucket) {
+    case '0-7':
+      return 'bg-green-100 text-green-800';
+    case '8-15':
+      return 'bg-yellow-100 text-yellow-800';
+    case '16-30':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+};
+
+export default function OutstandingCodCard() {
+  const [carrierFilter, setCarrierFilter] = useState("all");
+  const [bucketFilter, setBucketFilter] = useState("all");
+
+  const carrierParams = new URLSearchParams();
+  if (carrierFilter !== 'all') carrierParams.append('carrier', carrierFilter);
+
+  const { data } = useQuery<{ aging: CodAging[]; payments: OutstandingCod[] }>({
+    queryKey: ["/api/cod-remittances/outstanding", carrierFilter],
+    queryFn: async () => {
+      const response = await fetch(`/api/cod-remittances/outstanding?${carrierParams}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const aging = data?.aging || [];
+  const payments = (data?.payments || []).filter(
+    payment => bucketFilter === 'all' || codAgingBucket(payment.ageDays) === bucketFilter
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Unremitted COD ({data?.payments.length ?? 0})</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={carrierFilter} onValueChange={setCarrierFilter}>
+              <SelectTrigger className="w-48" data-testid="select-outstanding-cod-carrier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Carriers</SelectItem>
+                {Object.entries(carrierLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild data-testid="button-export-outstanding-cod">
+              <a href={`/api/cod-remittances/outstanding/export?${carrierParams}`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Clicking a bucket narrows the list to it */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {aging.map((bucket) => (
+            <button
+              key={bucket.key}
+              type="button"
+              onClick={() => setBucketFilter(bucketFilter === bucket.key ? 'all' : bucket.key)}
+              className={`rounded-lg border p-4 text-left transition-colors ${bucketFilter === bucket.key ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'}`}
+              data-testid={`button-cod-aging-${bucket.key}`}
+            >
+              <p className="text-sm text-muted-foreground">{bucket.label}</p>
+              <p className="text-lg font-semibold">{formatCurrency(bucket.amount)}</p>
+              <p className="text-xs text-muted-foreground">{bucket.count} order(s)</p>
+            </button>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Platform</TableHead>
+              <TableHead>Carrier</TableHead>
+              <TableHead>AWB</TableHead>
+              <TableHead>Collected</TableHead>
+              <TableHead>Age</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                  All cash collected on delivery has been remitted
+                </TableCell>
+              </TableRow>
+            ) : payments.map((payment) => (
+              <TableRow key={payment.id} data-testid={`row-outstanding-cod-${payment.id}`}>
+                <TableCell>
+                  <Link href={`/orders/${payment.orderId}`} className="font-mono text-primary hover:underline">
+                    {payment.order.platformOrderId}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">{payment.order.customerName}</div>
+                </TableCell>
+                <TableCell>{platformLabels[payment.order.platform]}</TableCell>
+                <TableCell>{carrierLabels[payment.gateway as keyof typeof carrierLabels] ?? payment.gateway ?? '-'}</TableCell>
+                <TableCell className="font-mono">{payment.transactionId || '-'}</TableCell>
+                <TableCell>{new Date(payment.occurredAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getAgingColor(codAgingBucket(payment.ageDays))}`}>
+                    {payment.ageDays}d
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
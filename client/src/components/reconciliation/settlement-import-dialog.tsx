@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, RefreshCw, CheckCircle } from "lucide-react";
+import type { Settlement } from "@shared/schema";
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface SettlementRowResult {
+  rowNumber: number;
+  platformOrderId?: string;
+  status: 'valid' | 'invalid';
+  matchStatus?: 'matched' | 'mismatch' | 'unmatched';
+  errors: string[];
+}
+
+interface SettlementImportSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  matched: number;
+  mismatch: number;
+  unmatched: number;
+}
+
+interface SettlementPreview {
+  columns: string[];
+  mapping: Record<string, string>;
+  fields: ImportField[];
+  summary: SettlementImportSummary;
+  settlements: (Omit<Settlement, 'id' | 'createdAt'> & { alreadyImported: boolean })[];
+  rows: SettlementRowResult[];
+}
+
+interface SettlementImportResult {
+  summary: SettlementImportSummary;
+  settlements: Settlement[];
+  skipped: string[];
+}
+
+// Radix Select does not allow an empty value, so unmapped fields use a sentinel
+const UNMAPPED = "__unmapped__";
+
+export const getMatchStatusColor = (status?: string) => {
+  switch (status) {
+    case 'matched':
+      return 'bg-green-100 text-green-800';
+    case 'mismatch':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+};
+
+export default function SettlementImportDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [platform, setPlatform] = useState('amazon');
+  const [settlementRef, setSettlementRef] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [preview, setPreview] = useState<SettlementPreview | null>(null);
+  const [result, setResult] = useState<SettlementImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setSettlementRef('');
+    setMapping(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const postImport = async (url: string) => {
+    if (!file) throw new Error("Choose a report file first");
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('platform', platform);
+    if (settlementRef) formData.append('settlementRef', settlementRef);
+    if (mapping) formData.append('mapping', JSON.stringify(mapping));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(response.status === 401 ? "401: Unauthorized" : body.message || "Import failed");
+    }
+    return body;
+  };
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => postImport('/api/settlements/import/preview') as Promise<SettlementPreview>,
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+    },
+    onError: handleError,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => postImport('/api/settlements/import/commit') as Promise<SettlementImportResult>,
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/settlements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/unpaid'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: "Import complete",
+        description: `${data.settlements.length} settlement(s) imported`,
+      });
+    },
+    onError: handleError,
+  });
+
+  const updateMapping = (field: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...(prev || {}) };
+      if (column === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+  };
+
+  const newSettlements = preview?.settlements.filter(settlement => !settlement.alreadyImported) ?? [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button data-testid="button-import-settlement">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Settlement
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Settlement Report</DialogTitle>
+          <DialogDescription>
+            Upload a marketplace payment or settlement report (.csv, .txt or .xlsx). Each line is matched to its order before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4" data-testid="settlement-import-summary">
+            <div className="flex items-center text-green-700">
+              <CheckCircle className="w-5 h-5 mr-2" />
+              <span className="font-medium">{result.settlements.length} settlement(s) imported</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div><span className="text-muted-foreground">Matched lines:</span> {result.summary.matched}</div>
+              <div><span className="text-muted-foreground">Mismatches:</span> {result.summary.mismatch}</div>
+              <div><span className="text-muted-foreground">Unmatched:</span> {result.summary.unmatched}</div>
+              <div><span className="text-muted-foreground">Invalid rows:</span> {result.summary.invalidRows}</div>
+            </div>
+            {result.skipped.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Already imported and skipped: {result.skipped.join(', ')}
+              </p>
+            )}
+            <DialogFooter>
+              <Button onClick={reset} variant="outline">Import another file</Button>
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Platform</Label>
+                <Select
+                  value={platform}
+                  onValueChange={(value) => {
+                    setPlatform(value);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger data-testid="select-settlement-platform">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amazon">Amazon</SelectItem>
+                    <SelectItem value="flipkart">Flipkart</SelectItem>
+                    <SelectItem value="meesho">Meesho</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Settlement reference</Label>
+                <Input
+                  value={settlementRef}
+                  onChange={(e) => setSettlementRef(e.target.value)}
+                  placeholder="Used when the report has no settlement ID"
+                  data-testid="input-settlement-ref"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Report file</Label>
+                <Input
+                  type="file"
+                  accept=".csv,.txt,.tsv,.xlsx"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setMapping(null);
+                    setPreview(null);
+                  }}
+                  data-testid="input-settlement-file"
+                />
+              </div>
+            </div>
+
+            {preview && mapping && (
+              <>
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-foreground">Column mapping</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {preview.fields.map((field) => (
+                      <div key={field.key} className="flex items-center gap-3">
+                        <Label className="w-40 text-sm">
+                          {field.label}
+                          {field.required && <span className="text-destructive ml-1">*</span>}
+                        </Label>
+                        <Select value={mapping[field.key] || UNMAPPED} onValueChange={(value) => updateMapping(field.key, value)}>
+                          <SelectTrigger className="flex-1" data-testid={`select-settlement-mapping-${field.key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {preview.columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2" data-testid="settlement-preview-summary">
+                  <Badge variant="outline">{preview.summary.totalRows} rows</Badge>
+                  <Badge className="bg-green-100 text-green-800">{preview.summary.matched} matched</Badge>
+                  <Badge className="bg-yellow-100 text-yellow-800">{preview.summary.mismatch} mismatched</Badge>
+                  <Badge className="bg-red-100 text-red-800">{preview.summary.unmatched} without an order</Badge>
+                  {preview.summary.invalidRows > 0 && (
+                    <Badge className="bg-red-100 text-red-800">{preview.summary.invalidRows} invalid</Badge>
+                  )}
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  {preview.settlements.map((settlement) => (
+                    <div key={settlement.settlementRef} className="flex justify-between">
+                      <span className="font-mono">{settlement.settlementRef}</span>
+                      <span>
+                        Net payout ₹{settlement.netPayout}
+                        {settlement.alreadyImported && <span className="text-muted-foreground ml-2">(already imported)</span>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="rounded-md border max-h-72 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Order ID</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.rowNumber} data-testid={`row-settlement-import-${row.rowNumber}`}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.platformOrderId || '-'}</TableCell>
+                          <TableCell>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor(row.matchStatus)}`}>
+                              {row.matchStatus ?? row.status}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {row.errors.join('; ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!file || previewMutation.isPending}
+                data-testid="button-settlement-preview"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${previewMutation.isPending ? 'animate-spin' : ''}`} />
+                {preview ? 'Re-validate' : 'Preview'}
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={newSettlements.length === 0 || commitMutation.isPending}
+                data-testid="button-settlement-commit"
+              >
+                {commitMutation.isPending ? 'Importing...' : `Import ${newSettlements.length} settlement(s)`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
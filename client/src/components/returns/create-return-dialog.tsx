@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Undo2 } from "lucide-react";
+import type { OrderReturn, OrderWithHistory, ReturnReason } from "@shared/schema";
+
+export const returnReasonLabels: Record<ReturnReason, string> = {
+  damaged: "Damaged",
+  defective: "Defective",
+  wrong_item: "Wrong item sent",
+  not_as_described: "Not as described",
+  size_or_fit: "Size or fit",
+  no_longer_needed: "No longer needed",
+  undeliverable: "Undeliverable (RTO)",
+  other: "Other",
+};
+
+export const returnSourceLabels: Record<OrderReturn["source"], string> = {
+  customer: "Customer return",
+  courier_rto: "Courier RTO",
+};
+
+// Server errors arrive as "<status>: {"message": ...}"
+export const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export default function CreateReturnDialog({ order }: { order: OrderWithHistory }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<OrderReturn["source"]>("customer");
+  const [reason, setReason] = useState<ReturnReason>("other");
+  const [notes, setNotes] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const items = order.items
+    .map(item => ({ orderItemId: item.id, quantity: parseInt(quantities[item.id] ?? '0') || 0 }))
+    .filter(item => item.quantity > 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/returns', { orderId: order.id, source, reason, notes: notes || undefined, items });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Return created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id, "returns"] });
+      setOpen(false);
+      setQuantities({});
+      setNotes("");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to create return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-create-return">
+          <Undo2 className="w-4 h-4 mr-2" />
+          Return
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Create Return</DialogTitle>
+          <DialogDescription>
+            Record the items coming back. Stock is only booked in after the parcel is received and inspected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as OrderReturn["source"])}>
+                <SelectTrigger data-testid="select-return-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(returnSourceLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)}>
+                <SelectTrigger data-testid="select-return-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(returnReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="w-28 text-right">Returning</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.productName}</div>
+                    {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={item.quantity}
+                      value={quantities[item.id] ?? '0'}
+                      onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      className="text-right"
+                      data-testid={`input-return-quantity-${item.id}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-return-notes" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || items.length === 0}
+            data-testid="button-submit-return"
+          >
+            {createMutation.isPending ? "Creating..." : "Create Return"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
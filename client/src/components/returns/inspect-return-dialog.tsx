@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { InspectionResult, ReturnWithDetails } from "@shared/schema";
+import { errorMessage } from "./create-return-dialog";
+
+export const inspectionResultLabels: Record<InspectionResult, string> = {
+  restock: "Restock",
+  damaged: "Damaged",
+  refurbish: "Refurbish",
+};
+
+interface InspectReturnDialogProps {
+  orderReturn: ReturnWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function InspectReturnDialog({ orderReturn, open, onOpenChange }: InspectReturnDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [results, setResults] = useState<Record<string, { result: InspectionResult; restockQuantity: string }>>(
+    () => Object.fromEntries(orderReturn.items.map(item => [item.id, { result: 'restock', restockQuantity: String(item.quantity) }]))
+  );
+
+  // Anything not marked for restock starts with nothing restocked; raise it for units that pass
+  const setResult = (itemId: string, quantity: number, result: InspectionResult) => {
+    setResults({
+      ...results,
+      [itemId]: { result, restockQuantity: result === 'restock' ? String(quantity) : '0' },
+    });
+  };
+
+  const inspectMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/returns/${orderReturn.id}/inspect`, {
+        items: orderReturn.items.map(item => ({
+          returnItemId: item.id,
+          result: results[item.id].result,
+          restockQuantity: parseInt(results[item.id].restockQuantity) || 0,
+        })),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Inspection recorded and stock updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderReturn.orderId, "returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to record inspection",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Inspect Return - #{orderReturn.order.platformOrderId}</DialogTitle>
+          <DialogDescription>
+            Only the restocked quantity goes back into sellable stock; the rest is written off as damaged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="w-40">Result</TableHead>
+              <TableHead className="w-28 text-right">Restock</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orderReturn.items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.productName}</div>
+                  {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                </TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell>
+                  <Select
+                    value={results[item.id].result}
+                    onValueChange={(value) => setResult(item.id, item.quantity, value as InspectionResult)}
+                  >
+                    <SelectTrigger data-testid={`select-inspection-result-${item.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(inspectionResultLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={item.quantity}
+                    value={results[item.id].restockQuantity}
+                    onChange={(e) => setResults({ ...results, [item.id]: { ...results[item.id], restockQuantity: e.target.value } })}
+                    className="text-right"
+                    data-testid={`input-restock-quantity-${item.id}`}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => inspectMutation.mutate()}
+            disabled={inspectMutation.isPending}
+            data-testid="button-submit-inspection"
+          >
+            {inspectMutation.isPending ? "Saving..." : "Record Inspection"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+import type { BusinessSettings as BusinessSettingsRecord } from "@shared/schema";
+import { gstStates } from "@shared/gst";
+
+export default function BusinessSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [legalName, setLegalName] = useState("");
+  const [gstin, setGstin] = useState("");
+  const [stateCode, setStateCode] = useState("");
+  const [address, setAddress] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+
+  const { data: settings, isLoading } = useQuery<BusinessSettingsRecord | null>({
+    queryKey: ['/api/business-settings'],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setLegalName(settings.legalName);
+    setGstin(settings.gstin);
+    setStateCode(settings.stateCode);
+    setAddress(settings.address);
+    setEmail(settings.email ?? "");
+    setPhone(settings.phone ?? "");
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PUT', '/api/business-settings', {
+        legalName,
+        gstin,
+        stateCode,
+        address,
+        email: email || null,
+        phone: phone || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Business details saved" });
+      queryClient.invalidateQueries({ queryKey: ['/api/business-settings'] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to save business details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The first two digits of a GSTIN are the registration state, so pick it up as it is typed
+  const handleGstinChange = (value: string) => {
+    const upper = value.toUpperCase();
+    setGstin(upper);
+    if (/^\d{2}/.test(upper) && gstStates.some(state => state.code === upper.slice(0, 2))) {
+      setStateCode(upper.slice(0, 2));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Building2 className="w-5 h-5 mr-2" />
+          Business Details
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Printed as the seller on tax invoices. The registration state decides whether an order is billed
+          with CGST and SGST or with IGST.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-48 bg-muted rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-4 max-w-2xl">
+            <div className="space-y-2">
+              <Label>Legal Name</Label>
+              <Input value={legalName} onChange={(e) => setLegalName(e.target.value)} data-testid="input-business-legal-name" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>GSTIN</Label>
+                <Input
+                  value={gstin}
+                  maxLength={15}
+                  placeholder="27ABCDE1234F1Z5"
+                  onChange={(e) => handleGstinChange(e.target.value)}
+                  data-testid="input-business-gstin"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Registration State</Label>
+                <Select value={stateCode} onValueChange={setStateCode}>
+                  <SelectTrigger data-testid="select-business-state">
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gstStates.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Registered Address</Label>
+              <Textarea value={address} onChange={(e) => setAddress(e.target.value)} data-testid="input-business-address" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} data-testid="input-business-email" />
+              </div>
+              <div className="space-y-2">
+                <Label>Phone</Label>
+                <Input value={phone} onChange={(e) => setPhone(e.target.value)} data-testid="input-business-phone" />
+              </div>
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !legalName.trim() || !gstin.trim() || !stateCode || !address.trim()}
+              data-testid="button-save-business-settings"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
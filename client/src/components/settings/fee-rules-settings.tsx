@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Calculator, Edit, Plus, Trash2 } from "lucide-react";
+import type { PlatformFeeRule, ShippingSlab } from "@shared/schema";
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+const categories = ['electronics', 'clothing', 'books', 'home', 'beauty', 'sports', 'toys', 'other'];
+
+// Radix Select does not allow an empty value, so the platform default uses a sentinel
+const ALL_CATEGORIES = "__all__";
+
+interface SlabInput {
+  upToKg: string;
+  fee: string;
+}
+
+const describeSlabs = (slabs: ShippingSlab[]) => {
+  if (slabs.length === 0) return 'None';
+  return [...slabs]
+    .sort((a, b) => (a.upToKg ?? Infinity) - (b.upToKg ?? Infinity))
+    .map(slab => `${slab.upToKg === null ? 'above' : `≤${slab.upToKg}kg`}: ₹${slab.fee}`)
+    .join(', ');
+};
+
+function FeeRuleForm({ rule, onDone }: { rule: PlatformFeeRule | null; onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [platform, setPlatform] = useState<string>(rule?.platform ?? "amazon");
+  const [category, setCategory] = useState<string>(rule?.category ?? ALL_CATEGORIES);
+  const [commissionPercent, setCommissionPercent] = useState(rule?.commissionPercent ?? "0");
+  const [fixedFee, setFixedFee] = useState(rule?.fixedFee ?? "0");
+  const [paymentGatewayPercent, setPaymentGatewayPercent] = useState(rule?.paymentGatewayPercent ?? "0");
+  const [gstOnFeesPercent, setGstOnFeesPercent] = useState(rule?.gstOnFeesPercent ?? "18");
+  const [slabs, setSlabs] = useState<SlabInput[]>(
+    (rule?.shippingSlabs ?? []).map(slab => ({ upToKg: slab.upToKg === null ? '' : String(slab.upToKg), fee: String(slab.fee) }))
+  );
+  const [isActive, setIsActive] = useState(rule?.isActive ?? true);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        platform,
+        category: category === ALL_CATEGORIES ? null : category,
+        commissionPercent,
+        fixedFee,
+        paymentGatewayPercent,
+        gstOnFeesPercent,
+        // A blank weight is the open-ended top slab
+        shippingSlabs: slabs.map(slab => ({
+          upToKg: slab.upToKg.trim() ? parseFloat(slab.upToKg) : null,
+          fee: parseFloat(slab.fee) || 0,
+        })),
+        isActive,
+      };
+      return rule
+        ? await apiRequest('PATCH', `/api/fee-rules/${rule.id}`, data)
+        : await apiRequest('POST', '/api/fee-rules', data);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Fee rule saved" });
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-rules'] });
+      onDone();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to save fee rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSlab = (index: number, field: keyof SlabInput, value: string) => {
+    setSlabs(prev => prev.map((slab, i) => i === index ? { ...slab, [field]: value } : slab));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Platform</Label>
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger data-testid="select-fee-rule-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(platformLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger data-testid="select-fee-rule-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories (default)</SelectItem>
+              {categories.map((value) => (
+                <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Commission (%)</Label>
+          <Input type="number" min={0} step="0.01" value={commissionPercent} onChange={(e) => setCommissionPercent(e.target.value)} data-testid="input-fee-rule-commission" />
+        </div>
+        <div className="space-y-2">
+          <Label>Closing fee per unit (₹)</Label>
+          <Input type="number" min={0} step="0.01" value={fixedFee} onChange={(e) => setFixedFee(e.target.value)} data-testid="input-fee-rule-fixed" />
+        </div>
+        <div className="space-y-2">
+          <Label>Payment gateway (%)</Label>
+          <Input type="number" min={0} step="0.01" value={paymentGatewayPercent} onChange={(e) => setPaymentGatewayPercent(e.target.value)} data-testid="input-fee-rule-gateway" />
+        </div>
+        <div className="space-y-2">
+          <Label>GST on fees (%)</Label>
+          <Input type="number" min={0} step="0.01" value={gstOnFeesPercent} onChange={(e) => setGstOnFeesPercent(e.target.value)} data-testid="input-fee-rule-gst" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Shipping slabs (per unit, by weight)</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setSlabs(prev => [...prev, { upToKg: '', fee: '' }])}
+            data-testid="button-add-shipping-slab"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add slab
+          </Button>
+        </div>
+        {slabs.map((slab, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="0.001"
+              placeholder="Up to kg (blank = any weight)"
+              value={slab.upToKg}
+              onChange={(e) => updateSlab(index, 'upToKg', e.target.value)}
+              data-testid={`input-slab-weight-${index}`}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="Fee (₹)"
+              value={slab.fee}
+              onChange={(e) => updateSlab(index, 'fee', e.target.value)}
+              data-testid={`input-slab-fee-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setSlabs(prev => prev.filter((_, i) => i !== index))}
+              data-testid={`button-remove-slab-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {slabs.length === 0 && (
+          <p className="text-xs text-muted-foreground">No shipping is charged by this rule.</p>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch checked={isActive} onCheckedChange={setIsActive} data-testid="switch-fee-rule-active" />
+        <Label>Active</Label>
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-fee-rule">
+          {saveMutation.isPending ? 'Saving...' : 'Save Rule'}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+export default function FeeRulesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<PlatformFeeRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rules = [], isLoading } = useQuery<PlatformFeeRule[]>({
+    queryKey: ["/api/fee-rules"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/fee-rules/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Fee rule removed" });
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-rules'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove fee rule", variant: "destructive" });
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/fee-rules/recompute');
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: ({ updated }) => {
+      toast({ title: "Fees recalculated", description: `${updated} unsettled order(s) updated` });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to recalculate order fees", variant: "destructive" });
+    },
+  });
+
+  const openForm = (rule: PlatformFeeRule | null) => {
+    setEditing(rule);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Platform Fees</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Used to estimate fees and net profit on new orders until the settlement report arrives.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
+              data-testid="button-recompute-fees"
+            >
+              <Calculator className="w-4 h-4 mr-2" />
+              {recomputeMutation.isPending ? 'Recalculating...' : 'Recalculate unsettled orders'}
+            </Button>
+            <Button onClick={() => openForm(null)} data-testid="button-add-fee-rule">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Platform</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Commission</TableHead>
+              <TableHead className="text-right">Closing Fee</TableHead>
+              <TableHead>Shipping</TableHead>
+              <TableHead className="text-right">Gateway</TableHead>
+              <TableHead className="text-right">GST on Fees</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+              </TableRow>
+            ) : rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                  No fee rules yet. Orders are recorded with no platform fees.
+                </TableCell>
+              </TableRow>
+            ) : rules.map((rule) => (
+              <TableRow key={rule.id} data-testid={`row-fee-rule-${rule.id}`}>
+                <TableCell>{platformLabels[rule.platform]}</TableCell>
+                <TableCell className="capitalize">{rule.category ?? 'All (default)'}</TableCell>
+                <TableCell className="text-right">{rule.commissionPercent}%</TableCell>
+                <TableCell className="text-right">₹{rule.fixedFee}</TableCell>
+                <TableCell className="text-xs">{describeSlabs(rule.shippingSlabs)}</TableCell>
+                <TableCell className="text-right">{rule.paymentGatewayPercent}%</TableCell>
+                <TableCell className="text-right">{rule.gstOnFeesPercent}%</TableCell>
+                <TableCell>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {rule.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openForm(rule)} data-testid={`button-edit-fee-rule-${rule.id}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-fee-rule-${rule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Fee Rule' : 'Add Fee Rule'}</DialogTitle>
+            <DialogDescription>
+              A category rule overrides the platform default for products in that category.
+            </DialogDescription>
+          </DialogHeader>
+          {isFormOpen && <FeeRuleForm key={editing?.id ?? 'new'} rule={editing} onDone={closeForm} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
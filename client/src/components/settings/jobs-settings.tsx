@@ -0,0 +1,428 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Download, Play, Plus, RotateCcw, Trash2 } from "lucide-react";
+import type { Job, JobSchedule, JobType } from "@shared/schema";
+
+const jobTypeLabels: Record<JobType, string> = {
+  platform_order_sync: "Order sync",
+  inventory_push: "Inventory push",
+  report_generation: "Orders report",
+  shipment_tracking: "Shipment tracking",
+};
+
+const getJobStatusColor = (status: string) => {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'running':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+const formatDateTime = (value: Date | string | null) => value ? new Date(value).toLocaleString() : '-';
+
+const describePayload = (type: JobType, payload: Record<string, unknown>) => {
+  if (type === 'report_generation') {
+    return `${String(payload.format ?? 'csv').toUpperCase()}, last ${payload.days ?? 1} day(s)`;
+  }
+  if (type === 'shipment_tracking') {
+    return payload.carrier ? String(payload.carrier) : 'All carriers';
+  }
+  return payload.platform ? String(payload.platform) : 'All platforms';
+};
+
+function ScheduleForm({ onDone }: { onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [type, setType] = useState<JobType>("platform_order_sync");
+  const [cronExpression, setCronExpression] = useState("*/30 * * * *");
+  const [platform, setPlatform] = useState("all");
+  const [carrier, setCarrier] = useState("all");
+  const [format, setFormat] = useState("csv");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const payload = type === 'report_generation'
+        ? { format, days: 1 }
+        : type === 'shipment_tracking'
+          ? carrier === 'all' ? {} : { carrier }
+          : platform === 'all' ? {} : { platform };
+      return await apiRequest('POST', '/api/job-schedules', { name, type, cronExpression, payload });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Schedule created" });
+      queryClient.invalidateQueries({ queryKey: ['/api/job-schedules'] });
+      onDone();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to create schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Name</Label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} data-testid="input-schedule-name" />
+      </div>
+      <div className="space-y-2">
+        <Label>Job</Label>
+        <Select value={type} onValueChange={(value) => setType(value as JobType)}>
+          <SelectTrigger data-testid="select-schedule-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(jobTypeLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {type === 'report_generation' ? (
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={setFormat}>
+            <SelectTrigger data-testid="select-schedule-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="pdf">PDF</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ) : type === 'shipment_tracking' ? (
+        <div className="space-y-2">
+          <Label>Carrier</Label>
+          <Select value={carrier} onValueChange={setCarrier}>
+            <SelectTrigger data-testid="select-schedule-carrier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Carriers</SelectItem>
+              <SelectItem value="delhivery">Delhivery</SelectItem>
+              <SelectItem value="bluedart">Blue Dart</SelectItem>
+              <SelectItem value="xpressbees">Xpressbees</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Platform</Label>
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger data-testid="select-schedule-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Platforms</SelectItem>
+              <SelectItem value="amazon">Amazon</SelectItem>
+              <SelectItem value="flipkart">Flipkart</SelectItem>
+              <SelectItem value="meesho">Meesho</SelectItem>
+              <SelectItem value="website">My Website</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label>Cron expression</Label>
+        <Input value={cronExpression} onChange={(e) => setCronExpression(e.target.value)} data-testid="input-schedule-cron" />
+        <p className="text-xs text-muted-foreground">minute hour day-of-month month day-of-week, e.g. "0 6 * * *" for 6:00 every day</p>
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={!name || !cronExpression || createMutation.isPending}
+          data-testid="button-save-schedule"
+        >
+          {createMutation.isPending ? 'Saving...' : 'Create schedule'}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+export default function JobsSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+
+  const { data: schedules = [] } = useQuery<JobSchedule[]>({
+    queryKey: ["/api/job-schedules"],
+    refetchInterval: 30000,
+  });
+
+  const { data: jobsData } = useQuery<{ jobs: Job[]; total: number }>({
+    queryKey: ["/api/jobs", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+
+      const response = await fetch(`/api/jobs?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    // Jobs change state in the background, so keep the list fresh while the tab is open
+    refetchInterval: 10000,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const invalidateJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/job-schedules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+  };
+
+  const toggleScheduleMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) => {
+      return await apiRequest('PATCH', `/api/job-schedules/${id}`, { isEnabled });
+    },
+    onSuccess: invalidateJobs,
+    onError: (error) => handleError(error, "Failed to update schedule"),
+  });
+
+  const runScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/job-schedules/${id}/run`);
+    },
+    onSuccess: () => {
+      toast({ title: "Queued", description: "The job will start within a few seconds" });
+      invalidateJobs();
+    },
+    onError: (error) => handleError(error, "Failed to queue job"),
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/job-schedules/${id}`);
+    },
+    onSuccess: invalidateJobs,
+    onError: (error) => handleError(error, "Failed to delete schedule"),
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/jobs/${id}/retry`);
+    },
+    onSuccess: invalidateJobs,
+    onError: (error) => handleError(error, "Failed to retry job"),
+  });
+
+  const jobs = jobsData?.jobs || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Schedules</CardTitle>
+            <Dialog open={showScheduleForm} onOpenChange={setShowScheduleForm}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-schedule">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Schedule
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>New Schedule</DialogTitle>
+                </DialogHeader>
+                <ScheduleForm onDone={() => setShowScheduleForm(false)} />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id} data-testid={`row-schedule-${schedule.id}`}>
+                  <TableCell className="font-medium">{schedule.name}</TableCell>
+                  <TableCell>
+                    <div>{jobTypeLabels[schedule.type]}</div>
+                    <div className="text-xs text-muted-foreground">{describePayload(schedule.type, schedule.payload)}</div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{schedule.cronExpression}</TableCell>
+                  <TableCell>{schedule.isEnabled ? formatDateTime(schedule.nextRunAt) : '-'}</TableCell>
+                  <TableCell>{formatDateTime(schedule.lastRunAt)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.isEnabled}
+                      onCheckedChange={(isEnabled) => toggleScheduleMutation.mutate({ id: schedule.id, isEnabled })}
+                      data-testid={`switch-schedule-${schedule.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runScheduleMutation.mutate(schedule.id)}
+                        disabled={runScheduleMutation.isPending}
+                        data-testid={`button-run-schedule-${schedule.id}`}
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        Run now
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                        disabled={deleteScheduleMutation.isPending}
+                        data-testid={`button-delete-schedule-${schedule.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Recent Jobs</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" data-testid="select-job-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="queued">Queued</SelectItem>
+                <SelectItem value="running">Running</SelectItem>
+                <SelectItem value="succeeded">Succeeded</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Finished</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No jobs yet
+                  </TableCell>
+                </TableRow>
+              ) : jobs.map((job) => (
+                <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
+                  <TableCell>{formatDateTime(job.createdAt)}</TableCell>
+                  <TableCell>
+                    <div>{jobTypeLabels[job.type]}</div>
+                    <div className="text-xs text-muted-foreground">{describePayload(job.type, job.payload)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getJobStatusColor(job.status)}`}>
+                      {job.status}
+                    </span>
+                    {job.status === 'queued' && job.attempts > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">retry at {formatDateTime(job.runAt)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                  <TableCell>{formatDateTime(job.finishedAt)}</TableCell>
+                  <TableCell className="max-w-xs text-xs text-muted-foreground truncate" title={job.lastError ?? undefined}>
+                    {job.lastError ?? ''}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end space-x-2">
+                      {job.type === 'report_generation' && job.status === 'succeeded' && (
+                        <Button variant="outline" size="sm" asChild data-testid={`button-download-report-${job.id}`}>
+                          <a href={`/api/jobs/${job.id}/report`}>
+                            <Download className="w-4 h-4 mr-1" />
+                            Report
+                          </a>
+                        </Button>
+                      )}
+                      {job.status === 'failed' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retryJobMutation.mutate(job.id)}
+                          disabled={retryJobMutation.isPending}
+                          data-testid={`button-retry-job-${job.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
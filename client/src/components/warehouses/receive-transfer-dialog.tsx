@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { WarehouseTransferWithDetails } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+interface ReceiveTransferDialogProps {
+  transfer: WarehouseTransferWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ReceiveTransferDialog({ transfer, open, onOpenChange }: ReceiveTransferDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Starts with everything still outstanding on each line, the usual case for a complete delivery
+  const [received, setReceived] = useState<Record<string, string>>(
+    () => Object.fromEntries(transfer.items.map(item => [item.id, String(Math.max(item.quantity - item.receivedQuantity, 0))]))
+  );
+  const [close, setClose] = useState(false);
+  const [varianceNotes, setVarianceNotes] = useState("");
+
+  const lines = transfer.items.map(item => {
+    const now = parseInt(received[item.id]) || 0;
+    return { item, now, total: item.receivedQuantity + now };
+  });
+  const complete = close || lines.every(line => line.total >= line.item.quantity);
+  const hasVariance = lines.some(line =>
+    line.total > line.item.quantity || (complete && line.total !== line.item.quantity)
+  );
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/warehouse-transfers/${transfer.id}/receive`, {
+        items: lines.map(line => ({ transferItemId: line.item.id, receivedQuantity: line.now })),
+        close,
+        varianceNotes: varianceNotes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: complete ? "Transfer received and stock booked in" : "Partial receipt booked in; the rest is still in transit",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to receive transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive Transfer {transfer.challanNumber ?? ''}</DialogTitle>
+          <DialogDescription>
+            From {transfer.fromWarehouse.name} to {transfer.toWarehouse.name}. Enter what arrived in this delivery;
+            lines still short stay in transit until a later receipt or until the transfer is closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Sent</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="w-28 text-right">Now</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map(({ item, total }) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.product.name}</div>
+                  <div className="text-xs text-muted-foreground">{item.product.sku}</div>
+                </TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className={`text-right ${total > item.quantity ? 'text-orange-600' : ''}`}>
+                  {item.receivedQuantity}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={received[item.id]}
+                    onChange={(e) => setReceived({ ...received, [item.id]: e.target.value })}
+                    className="text-right"
+                    data-testid={`input-receive-quantity-${item.id}`}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="close-transfer"
+              checked={close}
+              onCheckedChange={(checked) => setClose(checked === true)}
+              data-testid="checkbox-close-transfer"
+            />
+            <Label htmlFor="close-transfer">Nothing more is coming; close the transfer and write off any shortfall</Label>
+          </div>
+          {hasVariance && (
+            <div className="space-y-2">
+              <Label htmlFor="variance-notes">Reason for the difference</Label>
+              <Textarea
+                id="variance-notes"
+                value={varianceNotes}
+                onChange={(e) => setVarianceNotes(e.target.value)}
+                placeholder="e.g. 2 units damaged in transit"
+                data-testid="input-variance-notes"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => receiveMutation.mutate()}
+            disabled={
+              receiveMutation.isPending
+              || lines.some(line => line.now < 0)
+              || (!close && lines.every(line => line.now === 0))
+              || (hasVariance && !varianceNotes.trim())
+            }
+            data-testid="button-submit-receive-transfer"
+          >
+            {receiveMutation.isPending ? "Saving..." : complete ? "Receive and Close" : "Record Partial Receipt"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Plus, Trash2, Truck, Upload } from "lucide-react";
+import type { InventoryWithDetails, Product, Warehouse } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+interface TransferLine {
+  productId: string;
+  quantity: string;
+}
+
+interface TransferLinesImport {
+  lines: { productId: string; product: Product; quantity: number }[];
+  errors: { rowNumber: number; sku?: string; message: string }[];
+}
+
+interface TransferBuilderDialogProps {
+  warehouses: Warehouse[];
+  products: Product[];
+  defaultFromWarehouseId?: string | null;
+}
+
+export default function TransferBuilderDialog({ warehouses, products, defaultFromWarehouseId }: TransferBuilderDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [fromWarehouseId, setFromWarehouseId] = useState(defaultFromWarehouseId || "");
+  const [toWarehouseId, setToWarehouseId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [pickedProductId, setPickedProductId] = useState("");
+  const [importErrors, setImportErrors] = useState<TransferLinesImport["errors"]>([]);
+  const [isLoadingLines, setIsLoadingLines] = useState(false);
+
+  const { data: sourceInventory = [] } = useQuery<InventoryWithDetails[]>({
+    queryKey: ["/api/inventory", fromWarehouseId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory?warehouseId=${fromWarehouseId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: open && !!fromWarehouseId,
+  });
+
+  const availableAtSource = new Map(sourceInventory.map(item => [item.productId, item.availableQuantity]));
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const reset = () => {
+    setFromWarehouseId(defaultFromWarehouseId || "");
+    setToWarehouseId("");
+    setNotes("");
+    setLines([]);
+    setPickedProductId("");
+    setImportErrors([]);
+  };
+
+  // Lines for a product already on the transfer are added to rather than repeated
+  const addLines = (additions: { productId: string; quantity: number }[]) => {
+    setLines(current => {
+      const merged = [...current];
+      for (const addition of additions) {
+        const existing = merged.findIndex(line => line.productId === addition.productId);
+        if (existing >= 0) {
+          merged[existing] = {
+            ...merged[existing],
+            quantity: String((parseInt(merged[existing].quantity) || 0) + addition.quantity),
+          };
+        } else {
+          merged.push({ productId: addition.productId, quantity: String(addition.quantity) });
+        }
+      }
+      return merged;
+    });
+  };
+
+  // Tops the destination's low-stock products back up to their max level (or min level when no
+  // max is set), counting what is already on its way and never asking for more than the source has
+  const addLowStock = async () => {
+    setIsLoadingLines(true);
+    try {
+      const response = await fetch(`/api/inventory/low-stock?warehouseId=${toWarehouseId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      const lowStock: InventoryWithDetails[] = await response.json();
+      const onTransfer = new Set(lines.map(line => line.productId));
+      const additions = lowStock
+        .filter(item => !onTransfer.has(item.productId))
+        .map(item => {
+          const target = item.maxStockLevel ?? item.minStockLevel ?? 10;
+          const needed = target - item.availableQuantity - item.inTransitQuantity;
+          return { productId: item.productId, quantity: Math.min(needed, availableAtSource.get(item.productId) ?? 0) };
+        })
+        .filter(addition => addition.quantity > 0);
+
+      addLines(additions);
+      toast({
+        title: "Low stock added",
+        description: additions.length > 0
+          ? `${additions.length} product(s) the source warehouse can cover`
+          : "Nothing low on stock that the source warehouse can cover",
+      });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error as Error) || "Failed to load low stock", variant: "destructive" });
+    } finally {
+      setIsLoadingLines(false);
+    }
+  };
+
+  const importLines = async (file: File) => {
+    setIsLoadingLines(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/warehouse-transfers/import-lines', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || "Failed to read the file");
+      }
+
+      const result = body as TransferLinesImport;
+      addLines(result.lines.map(line => ({ productId: line.productId, quantity: line.quantity })));
+      setImportErrors(result.errors);
+      toast({
+        title: "Lines imported",
+        description: `${result.lines.length} product(s) added${result.errors.length > 0 ? `, ${result.errors.length} row(s) skipped` : ''}`,
+      });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsLoadingLines(false);
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/warehouse-transfers', {
+        fromWarehouseId,
+        toWarehouseId,
+        notes: notes.trim() || undefined,
+        items: lines.map(line => ({ productId: line.productId, quantity: parseInt(line.quantity) || 0 })),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Transfer request created successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      setOpen(false);
+      reset();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error) || "Failed to create transfer", variant: "destructive" });
+    },
+  });
+
+  const totalUnits = lines.reduce((sum, line) => sum + (parseInt(line.quantity) || 0), 0);
+  const canSubmit = !!fromWarehouseId && !!toWarehouseId && fromWarehouseId !== toWarehouseId && lines.length > 0
+    && lines.every(line => (parseInt(line.quantity) || 0) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset(); }}>
+      <DialogTrigger asChild>
+        <Button data-testid="button-create-transfer">
+          <Truck className="w-4 h-4 mr-2" />
+          Create Transfer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Warehouse Transfer</DialogTitle>
+          <DialogDescription>
+            Move any number of products in one transfer. Add them one by one, from the destination's low-stock list, or from a CSV with SKU and quantity columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From Warehouse</Label>
+              <Select value={fromWarehouseId} onValueChange={setFromWarehouseId}>
+                <SelectTrigger data-testid="select-from-warehouse">
+                  <SelectValue placeholder="Select source warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To Warehouse</Label>
+              <Select value={toWarehouseId} onValueChange={setToWarehouseId}>
+                <SelectTrigger data-testid="select-to-warehouse">
+                  <SelectValue placeholder="Select destination warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.filter(warehouse => warehouse.id !== fromWarehouseId).map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px] space-y-2">
+              <Label>Add product</Label>
+              <Select value={pickedProductId} onValueChange={setPickedProductId}>
+                <SelectTrigger data-testid="select-transfer-product">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.name} ({product.sku})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!pickedProductId}
+              onClick={() => {
+                addLines([{ productId: pickedProductId, quantity: 1 }]);
+                setPickedProductId("");
+              }}
+              data-testid="button-add-transfer-line"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!fromWarehouseId || !toWarehouseId || isLoadingLines}
+              onClick={addLowStock}
+              data-testid="button-add-low-stock"
+            >
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Add Low Stock
+            </Button>
+            <Button type="button" variant="outline" disabled={isLoadingLines} asChild data-testid="button-import-transfer-lines">
+              <label className="cursor-pointer">
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+                <input
+                  type="file"
+                  accept=".csv,.txt,.tsv,.xlsx"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importLines(file);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-transfer-lines-file"
+                />
+              </label>
+            </Button>
+          </div>
+
+          {importErrors.length > 0 && (
+            <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800" data-testid="transfer-import-errors">
+              {importErrors.slice(0, 10).map((error) => (
+                <div key={`${error.rowNumber}-${error.sku}`}>Row {error.rowNumber}: {error.message}</div>
+              ))}
+              {importErrors.length > 10 && <div>and {importErrors.length - 10} more</div>}
+            </div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">At Source</TableHead>
+                  <TableHead className="w-32 text-right">Quantity</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                      No products added yet
+                    </TableCell>
+                  </TableRow>
+                ) : lines.map((line, index) => {
+                  const product = productsById.get(line.productId);
+                  const available = availableAtSource.get(line.productId) ?? 0;
+                  const short = (parseInt(line.quantity) || 0) > available;
+                  return (
+                    <TableRow key={line.productId} data-testid={`row-transfer-line-${line.productId}`}>
+                      <TableCell>
+                        <div className="font-medium">{product?.name ?? line.productId}</div>
+                        {product && <div className="text-xs text-muted-foreground">{product.sku}</div>}
+                      </TableCell>
+                      <TableCell className={`text-right ${short ? 'text-orange-600' : ''}`}>
+                        {fromWarehouseId ? available : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) => setLines(lines.map((l, i) => i === index ? { ...l, quantity: e.target.value } : l))}
+                          className="text-right"
+                          data-testid={`input-transfer-line-quantity-${line.productId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          data-testid={`button-remove-transfer-line-${line.productId}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {lines.length > 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-transfer-totals">
+              {lines.length} product(s), {totalUnits} unit(s)
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes (Optional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Enter notes"
+              data-testid="input-transfer-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} data-testid="button-cancel-transfer">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-submit-transfer"
+          >
+            {createMutation.isPending ? "Creating..." : "Create Transfer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
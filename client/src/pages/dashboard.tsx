@@ -6,6 +6,7 @@ import Header from "@/components/layout/header";
 import KPICard from "@/components/dashboard/kpi-card";
 import SalesChart from "@/components/dashboard/sales-chart";
 import PlatformChart from "@/components/dashboard/platform-chart";
+import CodAgingCard from "@/components/dashboard/cod-aging-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,7 +15,9 @@ import { Link } from "wouter";
 
 export default function Dashboard() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
+
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -195,6 +198,13 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Cash on delivery awaiting remittance (managers only) */}
+        {canManage && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <CodAgingCard />
+          </div>
+        )}
+
         {/* Recent Orders */}
         <Card>
           <CardHeader>
@@ -0,0 +1,395 @@
+import { Fragment, useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ChannelSettingsDialog, { type PublicPlatformConnection } from "@/components/integrations/channel-settings-dialog";
+import ChannelInventoryCard from "@/components/integrations/channel-inventory-card";
+import WebhookEventsCard from "@/components/integrations/webhook-events-card";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, FolderSync, RotateCcw, Settings } from "lucide-react";
+import type { SyncRun, SyncRunWithUser } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+const getRunStatusColor = (status: string) => {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'partial':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const formatDuration = (run: SyncRun) => {
+  if (!run.startedAt || !run.finishedAt) return '-';
+  const seconds = (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.round(seconds / 60)}m`;
+};
+
+export default function Integrations() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [platformFilter, setPlatformFilter] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [editingConnection, setEditingConnection] = useState<PublicPlatformConnection | null>(null);
+
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: runsData, isLoading } = useQuery<{ runs: SyncRunWithUser[]; total: number }>({
+    queryKey: ["/api/sync/runs", platformFilter, currentPage],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: PAGE_SIZE.toString(),
+        offset: ((currentPage - 1) * PAGE_SIZE).toString(),
+      });
+      if (platformFilter !== 'all') params.append('platform', platformFilter);
+
+      const response = await fetch(`/api/sync/runs?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated && canManage,
+    retry: false,
+  });
+
+  const { data: connections = [] } = useQuery<PublicPlatformConnection[]>({
+    queryKey: ["/api/platform-connections"],
+    enabled: isAuthenticated && isAdmin,
+    retry: false,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const reportRun = (run: SyncRun) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/sync/runs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    toast({
+      title: run.status === 'succeeded' ? "Sync complete" : "Sync finished with errors",
+      description: `${platformLabels[run.platform]}: ${run.ordersCreated} new, ${run.ordersUpdated} updated, ${run.errors.length} failed`,
+      variant: run.status === 'succeeded' ? "default" : "destructive",
+    });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: async (platform: string) => {
+      const response = await apiRequest('POST', `/api/sync/${platform}`);
+      return response.json() as Promise<SyncRun>;
+    },
+    onSuccess: reportRun,
+    onError: (error) => handleMutationError(error, "Failed to sync orders"),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiRequest('POST', `/api/sync/runs/${runId}/retry`);
+      return response.json() as Promise<SyncRun>;
+    },
+    onSuccess: reportRun,
+    onError: (error) => handleMutationError(error, "Failed to retry sync run"),
+  });
+
+  const runs = runsData?.runs || [];
+  const totalRuns = runsData?.total || 0;
+  const totalPages = Math.ceil(totalRuns / PAGE_SIZE);
+
+  if (!authLoading && !canManage) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Integrations" subtitle="Marketplace connections and order sync history" />
+        <div className="p-6 text-muted-foreground">
+          You need manager or admin access to view platform sync history.
+        </div>
+      </div>
+    );
+  }
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Integrations" subtitle="Marketplace connections and order sync history" />
+        <div className="p-6">
+          <div className="bg-card rounded-lg border border-border p-6 animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden">
+      <Header title="Integrations" subtitle="Marketplace connections and order sync history" />
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {/* Per-platform sync */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {['amazon', 'flipkart', 'meesho'].map((platform) => {
+            const lastRun = runs.find(run => run.platform === platform);
+            const connection = connections.find(c => c.platform === platform);
+            return (
+              <Card key={platform}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-lg font-semibold text-foreground">{platformLabels[platform]}</p>
+                      <p className="text-sm text-muted-foreground" data-testid={`text-last-sync-${platform}`}>
+                        {lastRun?.startedAt
+                          ? `Last sync ${new Date(lastRun.startedAt).toLocaleString()}`
+                          : 'No recent syncs'}
+                      </p>
+                      {lastRun && (
+                        <span className={`inline-flex items-center mt-2 px-2.5 py-0.5 rounded-full text-xs font-medium ${getRunStatusColor(lastRun.status)}`}>
+                          {lastRun.status}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-col space-y-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => syncMutation.mutate(platform)}
+                        disabled={syncMutation.isPending}
+                        data-testid={`button-sync-${platform}`}
+                      >
+                        <FolderSync className={`w-4 h-4 mr-2 ${syncMutation.isPending && syncMutation.variables === platform ? 'animate-spin' : ''}`} />
+                        Sync now
+                      </Button>
+                      {isAdmin && connection && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingConnection(connection)}
+                          data-testid={`button-channel-settings-${platform}`}
+                        >
+                          <Settings className="w-4 h-4 mr-2" />
+                          Settings
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Sync history */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Sync History</CardTitle>
+              <Select
+                value={platformFilter}
+                onValueChange={(value) => {
+                  setPlatformFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-48" data-testid="select-sync-platform">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Platforms</SelectItem>
+                  {Object.entries(platformLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Platform</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Created</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                      No sync runs yet
+                    </TableCell>
+                  </TableRow>
+                ) : runs.map((run) => {
+                  const hasDetails = run.errors.length > 0 || !!run.errorMessage;
+                  const isExpanded = expandedRunId === run.id;
+                  return (
+                    <Fragment key={run.id}>
+                      <TableRow data-testid={`row-sync-run-${run.id}`}>
+                        <TableCell>{run.startedAt ? new Date(run.startedAt).toLocaleString() : '-'}</TableCell>
+                        <TableCell>{platformLabels[run.platform]}</TableCell>
+                        <TableCell>
+                          <div className="capitalize">{run.trigger}</div>
+                          {run.triggeredByUser && (
+                            <div className="text-xs text-muted-foreground">
+                              {[run.triggeredByUser.firstName, run.triggeredByUser.lastName].filter(Boolean).join(' ') || run.triggeredByUser.email}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRunStatusColor(run.status)}`}>
+                            {run.status}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{run.ordersCreated}</TableCell>
+                        <TableCell className="text-right">{run.ordersUpdated}</TableCell>
+                        <TableCell className="text-right">{run.ordersSkipped}</TableCell>
+                        <TableCell className="text-right">{run.errors.length}</TableCell>
+                        <TableCell>{formatDuration(run)}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end space-x-2">
+                            {hasDetails && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                                data-testid={`button-sync-details-${run.id}`}
+                              >
+                                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                              </Button>
+                            )}
+                            {(run.status === 'failed' || run.status === 'partial') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => retryMutation.mutate(run.id)}
+                                disabled={retryMutation.isPending}
+                                data-testid={`button-retry-sync-${run.id}`}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Retry
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={10} className="bg-muted/50">
+                            {run.errorMessage && (
+                              <p className="text-sm text-destructive mb-2">Run failed: {run.errorMessage}</p>
+                            )}
+                            {run.errors.length > 0 && (
+                              <ul className="space-y-1 text-sm">
+                                {run.errors.map((error, index) => (
+                                  <li key={`${error.platformOrderId}-${index}`}>
+                                    <span className="font-medium">{error.platformOrderId}</span>
+                                    <span className="text-muted-foreground">: {error.message}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-sm text-muted-foreground">
+                  Page {currentPage} of {totalPages}
+                </p>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    data-testid="button-sync-runs-previous"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                    data-testid="button-sync-runs-next"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <ChannelInventoryCard platformLabels={platformLabels} />
+
+        {isAdmin && <WebhookEventsCard platformLabels={platformLabels} />}
+      </div>
+
+      <ChannelSettingsDialog
+        connection={editingConnection}
+        platformLabel={editingConnection ? platformLabels[editingConnection.platform] : ''}
+        onClose={() => setEditingConnection(null)}
+      />
+    </div>
+  );
+}
@@ -2,16 +2,22 @@ import { useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Header from "@/components/layout/header";
+import TaxInvoiceCard from "@/components/orders/tax-invoice-card";
+import ShippingCard from "@/components/orders/shipping-card";
+import PaymentCard from "@/components/orders/payment-card";
+import CreateReturnDialog from "@/components/returns/create-return-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Check, Truck, Package, Settings, Plus, MapPin, CreditCard } from "lucide-react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Check, Truck, Package, Settings, Plus, MapPin, CreditCard, TrendingUp, Tag, ClipboardList } from "lucide-react";
 import { Link, useRoute } from "wouter";
-import type { OrderWithHistory } from "@shared/schema";
+import type { OrderItem, OrderStatusHistory, OrderWithHistory, ShipmentEvent, ShipmentWithEvents } from "@shared/schema";
+import { calculateOrderTotals } from "@shared/orderTotals";
+import { formatOrderStatus, getNextOrderStatuses, type OrderStatus } from "@shared/orderStatus";
 
 export default function OrderDetails() {
   const { toast } = useToast();
@@ -34,7 +40,7 @@ export default function OrderDetails() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: order, isLoading } = useQuery({
+  const { data: order, isLoading } = useQuery<OrderWithHistory>({
     queryKey: ["/api/orders", orderId],
     queryFn: async () => {
       const response = await fetch(`/api/orders/${orderId}`, {
@@ -51,9 +57,37 @@ export default function OrderDetails() {
     retry: false,
   });
 
+  // Shared with the shipping card; carrier checkpoints are merged into the timeline below
+  const { data: shipments = [] } = useQuery<ShipmentWithEvents[]>({
+    queryKey: ["/api/orders", orderId, "shipments"],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${orderId}/shipments`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!orderId,
+    retry: false,
+  });
+
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ status, notes }: { status: string; notes?: string }) => {
-      return await apiRequest('PATCH', `/api/orders/${orderId}/status`, { status, notes });
+    mutationFn: async ({ status, notes }: { status: OrderStatus; notes?: string }) => {
+      const response = await fetch(`/api/orders/${orderId}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, notes }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(response.status === 401 ? `401: Unauthorized` : error.message || "Failed to update order status");
+      }
+      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -77,7 +111,7 @@ export default function OrderDetails() {
       }
       toast({
         title: "Error",
-        description: "Failed to update order status",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -158,7 +192,25 @@ export default function OrderDetails() {
     }
   };
 
+  // Newest first, like the status history itself
+  const timeline: ({ kind: 'status'; at: Date; index: number; history: OrderStatusHistory } | { kind: 'checkpoint'; at: Date; event: ShipmentEvent })[] = [
+    ...(order.statusHistory ?? []).map((history, index) => ({
+      kind: 'status' as const,
+      at: new Date(history.createdAt!),
+      index,
+      history,
+    })),
+    ...shipments
+      .filter(shipment => shipment.status !== 'cancelled')
+      .flatMap(shipment => shipment.events)
+      .map(event => ({ kind: 'checkpoint' as const, at: new Date(event.occurredAt), event })),
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+
   const canUpdateStatus = user?.role === 'admin' || user?.role === 'manager';
+  const nextStatuses = getNextOrderStatuses(order.status);
+  const items: OrderItem[] = order.items || [];
+  const totals = calculateOrderTotals(items);
+  const formatAmount = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
 
   return (
     <div className="flex-1 overflow-hidden">
@@ -167,13 +219,30 @@ export default function OrderDetails() {
         subtitle="View and manage order information" 
       />
       <div className="flex-1 overflow-auto p-6">
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <Link href="/orders">
             <Button variant="outline" size="sm" data-testid="button-back-to-orders">
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back to Orders
             </Button>
           </Link>
+          <div className="flex space-x-2">
+            {canUpdateStatus && (order.status === 'shipped' || order.status === 'delivered') && (
+              <CreateReturnDialog order={order} />
+            )}
+            <Button variant="outline" size="sm" asChild data-testid="button-packing-slip">
+              <a href={`/api/orders/shipping-documents?type=packing_slip&ids=${order.id}`}>
+                <ClipboardList className="w-4 h-4 mr-2" />
+                Packing Slip
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild data-testid="button-shipping-label">
+              <a href={`/api/orders/shipping-documents?type=label&ids=${order.id}`}>
+                <Tag className="w-4 h-4 mr-2" />
+                Shipping Label
+              </a>
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -186,21 +255,36 @@ export default function OrderDetails() {
               <div className="relative">
                 <div className="absolute left-4 top-0 h-full w-0.5 bg-border"></div>
                 <div className="space-y-6">
-                  {order.statusHistory?.map((history: any, index: number) => (
-                    <div key={history.id} className="relative flex items-center">
-                      <div className={`w-8 h-8 ${getStatusColor(history.status)} rounded-full flex items-center justify-center z-10`}>
-                        {getStatusIcon(history.status)}
+                  {timeline.map((entry) => entry.kind === 'checkpoint' ? (
+                    <div key={entry.event.id} className="relative flex items-center">
+                      <div className="w-8 flex justify-center z-10">
+                        <div className="w-5 h-5 bg-background border border-border rounded-full flex items-center justify-center">
+                          <MapPin className="w-3 h-3 text-muted-foreground" />
+                        </div>
                       </div>
                       <div className="ml-4 flex-1">
-                        <p className="text-sm font-medium text-foreground capitalize" data-testid={`timeline-status-${index}`}>
-                          {history.status.replace('_', ' ')}
+                        <p className="text-xs text-foreground" data-testid={`timeline-checkpoint-${entry.event.id}`}>
+                          {entry.event.description}
+                          {entry.event.location && <span className="text-muted-foreground"> · {entry.event.location}</span>}
                         </p>
-                        <p className="text-xs text-muted-foreground" data-testid={`timeline-date-${index}`}>
-                          {new Date(history.createdAt).toLocaleString()}
+                        <p className="text-xs text-muted-foreground">{entry.at.toLocaleString()}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={entry.history.id} className="relative flex items-center">
+                      <div className={`w-8 h-8 ${getStatusColor(entry.history.status)} rounded-full flex items-center justify-center z-10`}>
+                        {getStatusIcon(entry.history.status)}
+                      </div>
+                      <div className="ml-4 flex-1">
+                        <p className="text-sm font-medium text-foreground capitalize" data-testid={`timeline-status-${entry.index}`}>
+                          {entry.history.status.replace('_', ' ')}
+                        </p>
+                        <p className="text-xs text-muted-foreground" data-testid={`timeline-date-${entry.index}`}>
+                          {entry.at.toLocaleString()}
                         </p>
-                        {history.notes && (
-                          <p className="text-xs text-muted-foreground mt-1" data-testid={`timeline-notes-${index}`}>
-                            {history.notes}
+                        {entry.history.notes && (
+                          <p className="text-xs text-muted-foreground mt-1" data-testid={`timeline-notes-${entry.index}`}>
+                            {entry.history.notes}
                           </p>
                         )}
                       </div>
@@ -212,21 +296,30 @@ export default function OrderDetails() {
               {canUpdateStatus && (
                 <div className="mt-6 pt-6 border-t border-border">
                   <h4 className="text-sm font-medium text-foreground mb-3">Update Status</h4>
-                  <div className="flex space-x-2">
-                    <Select onValueChange={(status) => updateStatusMutation.mutate({ status })}>
-                      <SelectTrigger className="flex-1" data-testid="select-new-status">
-                        <SelectValue placeholder="Select new status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="processing">Processing</SelectItem>
-                        <SelectItem value="shipped">Shipped</SelectItem>
-                        <SelectItem value="delivered">Delivered</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                        <SelectItem value="returned">Returned</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {nextStatuses.length > 0 ? (
+                    <div className="flex space-x-2">
+                      <Select
+                        value=""
+                        disabled={updateStatusMutation.isPending}
+                        onValueChange={(status) => updateStatusMutation.mutate({ status: status as OrderStatus })}
+                      >
+                        <SelectTrigger className="flex-1" data-testid="select-new-status">
+                          <SelectValue placeholder="Select new status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {nextStatuses.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {formatOrderStatus(status)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground" data-testid="text-status-final">
+                      This order is {order.status} and cannot move to another status.
+                    </p>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -271,80 +364,83 @@ export default function OrderDetails() {
             </Card>
 
             {/* Payment Information */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <CreditCard className="w-5 h-5 mr-2" />
-                  Payment Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div>
-                  <span className="text-sm font-medium">Method:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-payment-method">
-                    {order.paymentMethod || 'Not specified'}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Transaction ID:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-transaction-id">
-                    {order.transactionId || 'Not available'}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Amount:</span>
-                  <span className="ml-2 text-lg font-semibold text-foreground" data-testid="text-total-amount">
-                    ₹{parseFloat(order.totalAmount).toLocaleString()}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Status:</span>
-                  <Badge 
-                    className={`ml-2 ${order.paymentStatus === 'paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}
-                    data-testid="badge-payment-status"
-                  >
-                    {order.paymentStatus}
-                  </Badge>
-                </div>
-              </CardContent>
-            </Card>
+            <PaymentCard order={order} canRecord={canUpdateStatus} />
 
-            {/* Product Information */}
+            {/* Line Items */}
             <Card>
               <CardHeader>
-                <CardTitle>Product Information</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div>
-                  <span className="text-sm font-medium">Product:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-product-name">
-                    {order.productName}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">SKU:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-product-sku">
-                    {order.productSku || 'Not specified'}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Quantity:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-product-quantity">
-                    {order.quantity}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Unit Price:</span>
-                  <span className="ml-2 text-sm text-muted-foreground" data-testid="text-unit-price">
-                    ₹{parseFloat(order.unitPrice).toLocaleString()}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-sm font-medium">Platform:</span>
-                  <Badge className="ml-2" data-testid="badge-platform">
+                <CardTitle className="flex items-center justify-between">
+                  <span>Line Items</span>
+                  <Badge data-testid="badge-platform">
                     {order.platform.charAt(0).toUpperCase() + order.platform.slice(1)}
                   </Badge>
-                </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Discount</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item, index) => (
+                      <TableRow key={item.id} data-testid={`row-line-item-${index}`}>
+                        <TableCell>
+                          <div className="font-medium text-foreground" data-testid={`text-item-name-${index}`}>
+                            {item.productName}
+                          </div>
+                          <div className="text-xs text-muted-foreground" data-testid={`text-item-sku-${index}`}>
+                            {item.sku || 'No SKU'}
+                            {item.packSize > 1 && ` · ${item.packSize}-pack`}
+                            {!item.productId && (
+                              <span className="ml-2 text-orange-700" data-testid={`text-item-unmapped-${index}`}>
+                                Not linked to a product
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right" data-testid={`text-item-quantity-${index}`}>
+                          {item.quantity}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(item.unitPrice)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(item.discountAmount)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(item.taxAmount)}</TableCell>
+                        <TableCell className="text-right font-medium" data-testid={`text-item-total-${index}`}>
+                          {formatAmount(item.lineTotal)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={5}>Subtotal</TableCell>
+                      <TableCell className="text-right" data-testid="text-items-subtotal">{formatAmount(totals.subtotal)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={5}>Discount</TableCell>
+                      <TableCell className="text-right">-{formatAmount(totals.discount)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={5}>Tax</TableCell>
+                      <TableCell className="text-right">{formatAmount(totals.tax)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                      <TableCell className="text-right font-semibold" data-testid="text-items-total">{formatAmount(totals.total)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+                {items.length === 0 && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-line-items">
+                    No line items recorded for this order
+                  </p>
+                )}
                 {order.trackingNumber && (
                   <div>
                     <span className="text-sm font-medium">Tracking Number:</span>
@@ -355,6 +451,73 @@ export default function OrderDetails() {
                 )}
               </CardContent>
             </Card>
+
+            <ShippingCard order={order} canShip={canUpdateStatus} />
+
+            <TaxInvoiceCard order={order} canIssue={canUpdateStatus} />
+
+            {/* Profitability */}
+            {canUpdateStatus && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center">
+                      <TrendingUp className="w-5 h-5 mr-2" />
+                      Profitability
+                    </span>
+                    <Badge variant="outline" data-testid="badge-fee-source">
+                      {order.feeBreakdown?.source === 'settlement' ? 'Settled fees' : 'Estimated fees'}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell>Revenue (excl. tax)</TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount((parseFloat(totals.total) - parseFloat(totals.tax)).toFixed(2))}
+                        </TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Product cost</TableCell>
+                        <TableCell className="text-right">-{formatAmount(order.totalCost ?? '0')}</TableCell>
+                      </TableRow>
+                      {order.feeBreakdown && ([
+                        ['Commission', order.feeBreakdown.commission],
+                        ['Closing fee', order.feeBreakdown.fixedFee],
+                        ['Shipping', order.feeBreakdown.shipping],
+                        ['Payment gateway', order.feeBreakdown.paymentGateway],
+                        ['GST on fees', order.feeBreakdown.gstOnFees],
+                      ] as const).filter(([, amount]) => parseFloat(amount) !== 0).map(([label, amount]) => (
+                        <TableRow key={label}>
+                          <TableCell className="text-muted-foreground">{label}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">-{formatAmount(amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell>Platform fees</TableCell>
+                        <TableCell className="text-right" data-testid="text-platform-fees">-{formatAmount(order.platformFees)}</TableCell>
+                      </TableRow>
+                      {parseFloat(order.shippingCost) > 0 && (
+                        <TableRow>
+                          <TableCell>Courier shipping</TableCell>
+                          <TableCell className="text-right" data-testid="text-shipping-cost">-{formatAmount(order.shippingCost)}</TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell className="font-semibold">Net profit</TableCell>
+                        <TableCell className="text-right font-semibold" data-testid="text-net-profit">
+                          {formatAmount(order.profit ?? '0')}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
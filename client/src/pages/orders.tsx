@@ -5,12 +5,13 @@ import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/layout/header";
 import OrderFilters from "@/components/orders/order-filters";
 import OrdersTable from "@/components/orders/orders-table";
+import OrderImportDialog from "@/components/orders/order-import-dialog";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 export default function Orders() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const [currentPage, setCurrentPage] = useState(1);
   const [sortColumn, setSortColumn] = useState('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
@@ -22,6 +23,7 @@ export default function Orders() {
     dateFrom: '',
     dateTo: '',
     search: '',
+    needsReview: '',
   });
 
   useEffect(() => {
@@ -83,11 +85,25 @@ export default function Orders() {
   };
 
   const handleExport = (format: 'csv' | 'pdf') => {
+    const params = new URLSearchParams({ format });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value && value !== 'all') {
+        params.set(key, value);
+      }
+    });
+
+    // The export endpoint streams the file with the same filters as the list, without paging
+    const link = document.createElement('a');
+    link.href = `/api/orders/export?${params}`;
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
     toast({
       title: "Export Started",
       description: `Exporting orders to ${format.toUpperCase()}...`,
     });
-    // TODO: Implement actual export functionality
   };
 
   if (isLoading || ordersLoading) {
@@ -118,6 +134,12 @@ export default function Orders() {
     <div className="flex-1 overflow-hidden">
       <Header title="Orders Management" subtitle="Manage and track all your orders across platforms" />
       <div className="flex-1 overflow-auto p-6">
+        {(user?.role === 'admin' || user?.role === 'manager') && (
+          <div className="flex justify-end mb-4">
+            <OrderImportDialog />
+          </div>
+        )}
+
         <OrderFilters
           filters={filters}
           onFilterChange={handleFilterChange}
@@ -17,6 +17,9 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ProductListings from "@/components/products/product-listings";
+import { GST_RATES } from "@shared/gst";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Package, Plus, Edit, Trash2, Calculator, Search, Filter, BarChart3, DollarSign, Package2 } from "lucide-react";
 
@@ -31,10 +34,12 @@ const productSchema = z.object({
   dimensions: z.string().optional(),
   barcode: z.string().optional(),
   brand: z.string().optional(),
-  supplier: z.string().optional(),
+  supplierId: z.string().nullable().optional(),
+  hsnCode: z.string().regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN code must be 4, 6 or 8 digits").optional().or(z.literal("")),
+  gstRate: z.enum(GST_RATES).optional(),
 });
 
-import type { Product, ProductWithInventory, InventoryWithDetails } from "@shared/schema";
+import type { Product, ProductWithInventory, InventoryWithDetails, Supplier } from "@shared/schema";
 
 export default function Products() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -55,6 +60,11 @@ export default function Products() {
     retry: false,
   });
 
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    retry: false,
+  });
+
   // Filter products based on search and category
   const filteredProducts = products.filter(product => {
     const matchesSearch = searchTerm === "" || 
@@ -204,7 +214,9 @@ export default function Products() {
       dimensions: product.dimensions || "",
       barcode: product.barcode || "",
       brand: product.brand || "",
-      supplier: product.supplier || "",
+      supplierId: product.supplierId,
+      hsnCode: product.hsnCode || "",
+      gstRate: product.gstRate ? String(parseFloat(product.gstRate)) as (typeof GST_RATES)[number] : undefined,
     });
   };
 
@@ -326,13 +338,23 @@ export default function Products() {
                     />
                     <FormField
                       control={createProductForm.control}
-                      name="supplier"
+                      name="supplierId"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Supplier</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Supplier name" {...field} />
-                          </FormControl>
+                          <Select onValueChange={(value) => field.onChange(value === "none" ? null : value)} value={field.value ?? "none"}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-product-supplier">
+                                <SelectValue placeholder="Select supplier" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No usual supplier</SelectItem>
+                              {suppliers.map((supplier) => (
+                                <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -380,6 +402,44 @@ export default function Products() {
                     />
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={createProductForm.control}
+                      name="hsnCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>HSN Code</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. 85183000" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={createProductForm.control}
+                      name="gstRate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>GST Rate</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select rate" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {GST_RATES.map((rate) => (
+                                <SelectItem key={rate} value={rate}>{rate}%</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <div className="grid grid-cols-3 gap-4">
                     <FormField
                       control={createProductForm.control}
@@ -442,329 +502,407 @@ export default function Products() {
           </Dialog>
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="h-5 w-5" />
-            Filters
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex gap-4 items-end">
-            <div className="flex-1">
-              <label htmlFor="search" className="text-sm font-medium">Search Products</label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-                <Input
-                  id="search"
-                  placeholder="Search by name, SKU, or brand..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                  data-testid="input-search-products"
-                />
+      <Tabs defaultValue="products" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="products" data-testid="tab-products">Products</TabsTrigger>
+          <TabsTrigger value="listings" data-testid="tab-listings">Listings</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="products" className="space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5" />
+                Filters
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-4 items-end">
+                <div className="flex-1">
+                  <label htmlFor="search" className="text-sm font-medium">Search Products</label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                    <Input
+                      id="search"
+                      placeholder="Search by name, SKU, or brand..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                      data-testid="input-search-products"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="category" className="text-sm font-medium">Category</label>
+                  <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                    <SelectTrigger className="w-[180px]" data-testid="select-filter-category">
+                      <SelectValue placeholder="All categories" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="">All categories</SelectItem>
+                      <SelectItem value="electronics">Electronics</SelectItem>
+                      <SelectItem value="clothing">Clothing</SelectItem>
+                      <SelectItem value="books">Books</SelectItem>
+                      <SelectItem value="home">Home</SelectItem>
+                      <SelectItem value="beauty">Beauty</SelectItem>
+                      <SelectItem value="sports">Sports</SelectItem>
+                      <SelectItem value="toys">Toys</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {(searchTerm || categoryFilter) && (
+                  <Button 
+                    variant="outline" 
+                    onClick={() => {
+                      setSearchTerm("");
+                      setCategoryFilter("");
+                    }}
+                    data-testid="button-clear-filters"
+                  >
+                    Clear Filters
+                  </Button>
+                )}
               </div>
-            </div>
-            <div>
-              <label htmlFor="category" className="text-sm font-medium">Category</label>
-              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-                <SelectTrigger className="w-[180px]" data-testid="select-filter-category">
-                  <SelectValue placeholder="All categories" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">All categories</SelectItem>
-                  <SelectItem value="electronics">Electronics</SelectItem>
-                  <SelectItem value="clothing">Clothing</SelectItem>
-                  <SelectItem value="books">Books</SelectItem>
-                  <SelectItem value="home">Home</SelectItem>
-                  <SelectItem value="beauty">Beauty</SelectItem>
-                  <SelectItem value="sports">Sports</SelectItem>
-                  <SelectItem value="toys">Toys</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            {(searchTerm || categoryFilter) && (
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setSearchTerm("");
-                  setCategoryFilter("");
-                }}
-                data-testid="button-clear-filters"
-              >
-                Clear Filters
-              </Button>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Products Overview Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Products</CardTitle>
-            <Package className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold" data-testid="metric-total-products">{products.length}</div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+
+          {/* Products Overview Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Products</CardTitle>
+                <Package className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="metric-total-products">{products.length}</div>
+              </CardContent>
+            </Card>
         
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Products</CardTitle>
-            <Package2 className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold" data-testid="metric-active-products">
-              {products.filter(p => p.isActive).length}
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Inventory</CardTitle>
-            <BarChart3 className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold" data-testid="metric-total-inventory">
-              {products.reduce((total, product) => total + getTotalInventory(product), 0)}
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold" data-testid="metric-inventory-value">
-              ₹{products.reduce((total, product) => total + parseFloat(getTotalValue(product)), 0).toFixed(2)}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Active Products</CardTitle>
+                <Package2 className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="metric-active-products">
+                  {products.filter(p => p.isActive).length}
+                </div>
+              </CardContent>
+            </Card>
 
-      {/* Products Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Package className="h-5 w-5" />
-            Products ({filteredProducts.length})
-          </CardTitle>
-        </CardHeader>
-          <CardContent>
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Product</TableHead>
-                    <TableHead>SKU</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Price</TableHead>
-                    <TableHead>Inventory</TableHead>
-                    <TableHead>Value</TableHead>
-                    <TableHead>Brand</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {isLoading ? (
-                    Array.from({ length: 3 }).map((_, i) => (
-                      <TableRow key={i}>
-                        {Array.from({ length: 9 }).map((_, j) => (
-                          <TableCell key={j}>
-                            <div className="h-4 bg-muted rounded animate-pulse"></div>
-                          </TableCell>
-                        ))}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Inventory</CardTitle>
+                <BarChart3 className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="metric-total-inventory">
+                  {products.reduce((total, product) => total + getTotalInventory(product), 0)}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="metric-inventory-value">
+                  ₹{products.reduce((total, product) => total + parseFloat(getTotalValue(product)), 0).toFixed(2)}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Products Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Products ({filteredProducts.length})
+              </CardTitle>
+            </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Inventory</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Brand</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
                       </TableRow>
-                    ))
-                  ) : products.length === 0 ? (
-                    <TableRow>
-                      <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
-                        No products found. Create your first product to get started.
-                      </TableCell>
-                    </TableRow>
-                  ) : (
-                    filteredProducts.map((product) => (
-                      <TableRow key={product.id}>
-                        <TableCell>
-                          <div>
-                            <div className="font-medium">{product.name}</div>
-                            {product.description && (
-                              <div className="text-sm text-muted-foreground truncate max-w-xs">
-                                {product.description}
+                    </TableHeader>
+                    <TableBody>
+                      {isLoading ? (
+                        Array.from({ length: 3 }).map((_, i) => (
+                          <TableRow key={i}>
+                            {Array.from({ length: 9 }).map((_, j) => (
+                              <TableCell key={j}>
+                                <div className="h-4 bg-muted rounded animate-pulse"></div>
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))
+                      ) : products.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                            No products found. Create your first product to get started.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        filteredProducts.map((product) => (
+                          <TableRow key={product.id}>
+                            <TableCell>
+                              <div>
+                                <div className="font-medium">{product.name}</div>
+                                {product.description && (
+                                  <div className="text-sm text-muted-foreground truncate max-w-xs">
+                                    {product.description}
+                                  </div>
+                                )}
                               </div>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="font-mono text-sm">{product.sku}</TableCell>
-                        <TableCell>
-                          <Badge variant="secondary" className="capitalize">
-                            {product.category}
-                          </Badge>
-                        </TableCell>
-                        <TableCell data-testid={`price-${product.id}`}>
-                          ₹{parseFloat(product.unitPrice || "0").toFixed(2)}
-                        </TableCell>
-                        <TableCell data-testid={`inventory-${product.id}`}>
-                          {getTotalInventory(product)} units
-                        </TableCell>
-                        <TableCell data-testid={`value-${product.id}`}>
-                          ₹{getTotalValue(product)}
-                        </TableCell>
-                        <TableCell>{product.brand || "—"}</TableCell>
-                        <TableCell>
-                          <Badge variant={product.isActive ? "default" : "destructive"}>
-                            {product.isActive ? "Active" : "Inactive"}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => openEditDialog(product)}
-                                  data-testid={`button-edit-${product.id}`}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </Button>
-                              </DialogTrigger>
-                              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-                                <DialogHeader>
-                                  <DialogTitle>Edit Product</DialogTitle>
-                                  <DialogDescription>
-                                    Update product information and pricing
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <Form {...editProductForm}>
-                                  <form onSubmit={editProductForm.handleSubmit(onEditProduct)} className="space-y-4">
-                                    {/* Same form fields as create form */}
-                                    <div className="grid grid-cols-2 gap-4">
-                                      <FormField
-                                        control={editProductForm.control}
-                                        name="name"
-                                        render={({ field }) => (
-                                          <FormItem>
-                                            <FormLabel>Product Name *</FormLabel>
-                                            <FormControl>
-                                              <Input placeholder="Enter product name" {...field} />
-                                            </FormControl>
-                                            <FormMessage />
-                                          </FormItem>
-                                        )}
-                                      />
-                                      <FormField
-                                        control={editProductForm.control}
-                                        name="sku"
-                                        render={({ field }) => (
-                                          <FormItem>
-                                            <FormLabel>SKU *</FormLabel>
-                                            <FormControl>
-                                              <Input placeholder="Enter SKU" {...field} />
-                                            </FormControl>
-                                            <FormMessage />
-                                          </FormItem>
-                                        )}
-                                      />
-                                    </div>
-
-                                    <div className="grid grid-cols-2 gap-4">
-                                      <FormField
-                                        control={editProductForm.control}
-                                        name="costPrice"
-                                        render={({ field }) => (
-                                          <FormItem>
-                                            <FormLabel>Cost Price (₹)</FormLabel>
-                                            <FormControl>
-                                              <Input 
-                                                type="number" 
-                                                step="0.01" 
-                                                placeholder="0.00"
-                                                {...field}
-                                                onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                                              />
-                                            </FormControl>
-                                            <FormMessage />
-                                          </FormItem>
-                                        )}
-                                      />
-                                      <FormField
-                                        control={editProductForm.control}
-                                        name="unitPrice"
-                                        render={({ field }) => (
-                                          <FormItem>
-                                            <FormLabel>Selling Price (₹)</FormLabel>
-                                            <FormControl>
-                                              <Input 
-                                                type="number" 
-                                                step="0.01" 
-                                                placeholder="0.00"
-                                                {...field}
-                                                onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                                              />
-                                            </FormControl>
-                                            <FormMessage />
-                                          </FormItem>
-                                        )}
-                                      />
-                                    </div>
-
-                                    <div className="flex justify-end space-x-2 pt-4">
-                                      <Button type="button" variant="outline">
-                                        Cancel
-                                      </Button>
-                                      <Button type="submit" disabled={updateProductMutation.isPending}>
-                                        {updateProductMutation.isPending ? "Updating..." : "Update Product"}
-                                      </Button>
-                                    </div>
-                                  </form>
-                                </Form>
-                              </DialogContent>
-                            </Dialog>
-
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="ghost" size="sm">
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Delete Product</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    Are you sure you want to delete "{product.name}"? This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => deleteProductMutation.mutate(product.id)}
-                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                  >
-                                    Delete
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-          </CardContent>
-        </Card>
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">{product.sku}</TableCell>
+                            <TableCell>
+                              <Badge variant="secondary" className="capitalize">
+                                {product.category}
+                              </Badge>
+                            </TableCell>
+                            <TableCell data-testid={`price-${product.id}`}>
+                              ₹{parseFloat(product.unitPrice || "0").toFixed(2)}
+                            </TableCell>
+                            <TableCell data-testid={`inventory-${product.id}`}>
+                              {getTotalInventory(product)} units
+                            </TableCell>
+                            <TableCell data-testid={`value-${product.id}`}>
+                              ₹{getTotalValue(product)}
+                            </TableCell>
+                            <TableCell>{product.brand || "—"}</TableCell>
+                            <TableCell>
+                              <Badge variant={product.isActive ? "default" : "destructive"}>
+                                {product.isActive ? "Active" : "Inactive"}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Dialog>
+                                  <DialogTrigger asChild>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm"
+                                      onClick={() => openEditDialog(product)}
+                                      data-testid={`button-edit-${product.id}`}
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </Button>
+                                  </DialogTrigger>
+                                  <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                                    <DialogHeader>
+                                      <DialogTitle>Edit Product</DialogTitle>
+                                      <DialogDescription>
+                                        Update product information and pricing
+                                      </DialogDescription>
+                                    </DialogHeader>
+                                    <Form {...editProductForm}>
+                                      <form onSubmit={editProductForm.handleSubmit(onEditProduct)} className="space-y-4">
+                                        {/* Same form fields as create form */}
+                                        <div className="grid grid-cols-2 gap-4">
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="name"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>Product Name *</FormLabel>
+                                                <FormControl>
+                                                  <Input placeholder="Enter product name" {...field} />
+                                                </FormControl>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="sku"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>SKU *</FormLabel>
+                                                <FormControl>
+                                                  <Input placeholder="Enter SKU" {...field} />
+                                                </FormControl>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                        </div>
+
+                                        <div className="grid grid-cols-2 gap-4">
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="costPrice"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>Cost Price (₹)</FormLabel>
+                                                <FormControl>
+                                                  <Input 
+                                                    type="number" 
+                                                    step="0.01" 
+                                                    placeholder="0.00"
+                                                    {...field}
+                                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                                  />
+                                                </FormControl>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="unitPrice"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>Selling Price (₹)</FormLabel>
+                                                <FormControl>
+                                                  <Input 
+                                                    type="number" 
+                                                    step="0.01" 
+                                                    placeholder="0.00"
+                                                    {...field}
+                                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                                  />
+                                                </FormControl>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                        </div>
+
+                                        <div className="grid grid-cols-2 gap-4">
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="hsnCode"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>HSN Code</FormLabel>
+                                                <FormControl>
+                                                  <Input placeholder="e.g. 85183000" {...field} />
+                                                </FormControl>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                          <FormField
+                                            control={editProductForm.control}
+                                            name="gstRate"
+                                            render={({ field }) => (
+                                              <FormItem>
+                                                <FormLabel>GST Rate</FormLabel>
+                                                <Select onValueChange={field.onChange} value={field.value}>
+                                                  <FormControl>
+                                                    <SelectTrigger>
+                                                      <SelectValue placeholder="Select rate" />
+                                                    </SelectTrigger>
+                                                  </FormControl>
+                                                  <SelectContent>
+                                                    {GST_RATES.map((rate) => (
+                                                      <SelectItem key={rate} value={rate}>{rate}%</SelectItem>
+                                                    ))}
+                                                  </SelectContent>
+                                                </Select>
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                        </div>
+
+                                        <FormField
+                                          control={editProductForm.control}
+                                          name="supplierId"
+                                          render={({ field }) => (
+                                            <FormItem>
+                                              <FormLabel>Supplier</FormLabel>
+                                              <Select onValueChange={(value) => field.onChange(value === "none" ? null : value)} value={field.value ?? "none"}>
+                                                <FormControl>
+                                                  <SelectTrigger data-testid="select-edit-product-supplier">
+                                                    <SelectValue placeholder="Select supplier" />
+                                                  </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                  <SelectItem value="none">No usual supplier</SelectItem>
+                                                  {suppliers.map((supplier) => (
+                                                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                                                  ))}
+                                                </SelectContent>
+                                              </Select>
+                                              {editingProduct?.supplier && !editingProduct.supplierId && (
+                                                <FormDescription>Previously noted as "{editingProduct.supplier}"</FormDescription>
+                                              )}
+                                              <FormMessage />
+                                            </FormItem>
+                                          )}
+                                        />
+
+                                        <div className="flex justify-end space-x-2 pt-4">
+                                          <Button type="button" variant="outline">
+                                            Cancel
+                                          </Button>
+                                          <Button type="submit" disabled={updateProductMutation.isPending}>
+                                            {updateProductMutation.isPending ? "Updating..." : "Update Product"}
+                                          </Button>
+                                        </div>
+                                      </form>
+                                    </Form>
+                                  </DialogContent>
+                                </Dialog>
+
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm">
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Product</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete "{product.name}"? This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => deleteProductMutation.mutate(product.id)}
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      >
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="listings">
+          <ProductListings products={products} canEdit={user?.role === 'admin' || user?.role === 'manager'} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,591 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import SupplierDialog from "@/components/purchasing/supplier-dialog";
+import PurchaseOrderDialog from "@/components/purchasing/purchase-order-dialog";
+import GoodsReceiptDialog from "@/components/purchasing/goods-receipt-dialog";
+import { Edit, Plus } from "lucide-react";
+import { canTransitionPurchaseOrderStatus, type PurchaseOrderStatus } from "@shared/purchasing";
+import type { GoodsReceiptWithDetails, OnOrderLine, Product, PurchaseOrderWithDetails, Supplier, Warehouse } from "@shared/schema";
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially received",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+const getPurchaseOrderStatusColor = (status: PurchaseOrderStatus) => {
+  switch (status) {
+    case 'closed':
+      return 'bg-green-100 text-green-800';
+    case 'sent':
+      return 'bg-blue-100 text-blue-800';
+    case 'partially_received':
+      return 'bg-orange-100 text-orange-800';
+    case 'cancelled':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+type PurchaseOrderAction = 'send' | 'close' | 'cancel';
+
+const actionMessages: Record<PurchaseOrderAction, string> = {
+  send: "Purchase order marked as sent",
+  close: "Purchase order closed",
+  cancel: "Purchase order cancelled",
+};
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date | string | null) => date ? new Date(date).toLocaleDateString('en-IN') : '-';
+
+// Overdue once the expected date has passed with goods still to come
+const isOverdue = (order: PurchaseOrderWithDetails) =>
+  (order.status === 'sent' || order.status === 'partially_received')
+  && !!order.expectedDate && new Date(order.expectedDate).getTime() < Date.now();
+
+export default function Purchasing() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [orderDialogOpen, setOrderDialogOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderWithDetails | null>(null);
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [receiptDialogOpen, setReceiptDialogOpen] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrderWithDetails | null>(null);
+
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrderWithDetails[]>({
+    queryKey: ["/api/purchase-orders", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+
+      const response = await fetch(`/api/purchase-orders?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: onOrder = [] } = useQuery<OnOrderLine[]>({
+    queryKey: ["/api/purchase-orders/on-order"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: goodsReceipts = [] } = useQuery<GoodsReceiptWithDetails[]>({
+    queryKey: ["/api/goods-receipts"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Inactive suppliers are listed too so they can be reactivated
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers", "all"],
+    queryFn: async () => {
+      const response = await fetch('/api/suppliers?includeInactive=true', { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: PurchaseOrderAction }) => {
+      return await apiRequest('POST', `/api/purchase-orders/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      toast({ title: "Success", description: actionMessages[action] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to update purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Purchase orders with goods still to come, whatever the status filter above shows
+  const openOrdersBySupplier = new Map<string, Set<string>>();
+  for (const order of onOrder.flatMap(line => line.orders)) {
+    openOrdersBySupplier.set(order.supplierId, (openOrdersBySupplier.get(order.supplierId) ?? new Set()).add(order.id));
+  }
+
+  const openOrderDialog = (order: PurchaseOrderWithDetails | null) => {
+    setEditingOrder(order);
+    setOrderDialogOpen(true);
+  };
+
+  const openReceiptDialog = (order: PurchaseOrderWithDetails | null) => {
+    setReceivingOrder(order);
+    setReceiptDialogOpen(true);
+  };
+
+  const openSupplierDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierDialogOpen(true);
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Purchasing" subtitle="Suppliers and purchase orders" />
+        <div className="p-6">
+          <div className="bg-card rounded-lg border border-border p-6 animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden">
+      <Header title="Purchasing" subtitle="Suppliers and purchase orders" />
+      <div className="flex-1 overflow-auto p-6">
+        <Tabs defaultValue="orders" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="orders" data-testid="tab-purchase-orders">Purchase Orders</TabsTrigger>
+            <TabsTrigger value="on-order" data-testid="tab-on-order">On Order</TabsTrigger>
+            <TabsTrigger value="receipts" data-testid="tab-goods-receipts">Goods Receipts</TabsTrigger>
+            <TabsTrigger value="suppliers" data-testid="tab-suppliers">Suppliers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle>Purchase Orders ({purchaseOrders.length})</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                      <SelectTrigger className="w-48" data-testid="select-po-status-filter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Statuses</SelectItem>
+                        {Object.entries(purchaseOrderStatusLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {canManage && (
+                      <Button onClick={() => openOrderDialog(null)} data-testid="button-create-po">
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Purchase Order
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>PO Number</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Deliver To</TableHead>
+                      <TableHead>Products</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Expected</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {purchaseOrders.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                          No purchase orders found
+                        </TableCell>
+                      </TableRow>
+                    ) : purchaseOrders.map((order) => {
+                      const ordered = order.items.reduce((sum, item) => sum + item.quantity, 0);
+                      const received = order.items.reduce((sum, item) => sum + item.receivedQuantity, 0);
+                      return (
+                        <TableRow key={order.id} data-testid={`row-po-${order.id}`}>
+                          <TableCell>
+                            <div className="font-mono font-medium">{order.poNumber}</div>
+                            <div className="text-xs text-muted-foreground">Raised {formatDate(order.createdAt)}</div>
+                          </TableCell>
+                          <TableCell>{order.supplier.name}</TableCell>
+                          <TableCell>{order.warehouse.name}</TableCell>
+                          <TableCell>
+                            {order.items.slice(0, 3).map((item) => (
+                              <div key={item.id} className="text-sm">
+                                {item.quantity} × {item.product.name}
+                              </div>
+                            ))}
+                            {order.items.length > 3 && (
+                              <div className="text-xs text-muted-foreground">and {order.items.length - 3} more</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {order.status === 'draft' ? ordered : `${received} / ${ordered}`}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(order.totalAmount)}</TableCell>
+                          <TableCell className={isOverdue(order) ? 'text-red-600 font-medium' : ''}>
+                            {formatDate(order.expectedDate)}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPurchaseOrderStatusColor(order.status)}`}>
+                              {purchaseOrderStatusLabels[order.status]}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {canManage && (
+                              <div className="flex justify-end space-x-2">
+                                {order.status === 'draft' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openOrderDialog(order)}
+                                    data-testid={`button-edit-po-${order.id}`}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canTransitionPurchaseOrderStatus(order.status, 'sent') && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => actionMutation.mutate({ id: order.id, action: 'send' })}
+                                    disabled={actionMutation.isPending}
+                                    data-testid={`button-send-po-${order.id}`}
+                                  >
+                                    Mark Sent
+                                  </Button>
+                                )}
+                                {canTransitionPurchaseOrderStatus(order.status, 'partially_received') && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => openReceiptDialog(order)}
+                                    data-testid={`button-receive-po-${order.id}`}
+                                  >
+                                    Receive
+                                  </Button>
+                                )}
+                                {canTransitionPurchaseOrderStatus(order.status, 'closed') && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => actionMutation.mutate({ id: order.id, action: 'close' })}
+                                    disabled={actionMutation.isPending}
+                                    data-testid={`button-close-po-${order.id}`}
+                                  >
+                                    Close
+                                  </Button>
+                                )}
+                                {canTransitionPurchaseOrderStatus(order.status, 'cancelled') && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => actionMutation.mutate({ id: order.id, action: 'cancel' })}
+                                    disabled={actionMutation.isPending}
+                                    data-testid={`button-cancel-po-${order.id}`}
+                                  >
+                                    Cancel
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="on-order">
+            <Card>
+              <CardHeader>
+                <CardTitle>Stock On Order</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead>Purchase Orders</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {onOrder.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                          Nothing on order
+                        </TableCell>
+                      </TableRow>
+                    ) : onOrder.map((line) => (
+                      <TableRow key={line.product.id} data-testid={`row-on-order-${line.product.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{line.product.name}</div>
+                          <div className="text-xs text-muted-foreground">{line.product.sku}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{line.quantity}</TableCell>
+                        <TableCell>
+                          {line.orders.map((order) => (
+                            <div key={order.id} className="text-sm">
+                              {order.quantity} on <span className="font-mono">{order.poNumber}</span> from {order.supplierName}
+                              <span className="text-xs text-muted-foreground">, expected {formatDate(order.expectedDate)}</span>
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="receipts">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle>Goods Receipts ({goodsReceipts.length})</CardTitle>
+                  {canManage && (
+                    <Button variant="outline" onClick={() => openReceiptDialog(null)} data-testid="button-create-adhoc-grn">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Ad Hoc Receipt
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>GRN Number</TableHead>
+                      <TableHead>Purchase Order</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Received Into</TableHead>
+                      <TableHead>Products</TableHead>
+                      <TableHead className="text-right">Accepted</TableHead>
+                      <TableHead className="text-right">Rejected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {goodsReceipts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                          No goods received yet
+                        </TableCell>
+                      </TableRow>
+                    ) : goodsReceipts.map((receipt) => (
+                      <TableRow key={receipt.id} data-testid={`row-grn-${receipt.id}`}>
+                        <TableCell>
+                          <div className="font-mono font-medium">{receipt.grnNumber}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDate(receipt.receivedAt)} by {receipt.receivedByUser.firstName ?? receipt.receivedByUser.email}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono">{receipt.purchaseOrder?.poNumber ?? 'Ad hoc'}</TableCell>
+                        <TableCell>
+                          {receipt.supplier?.name ?? '-'}
+                          {receipt.supplierInvoiceNumber && (
+                            <div className="text-xs text-muted-foreground">Invoice {receipt.supplierInvoiceNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{receipt.warehouse.name}</TableCell>
+                        <TableCell>
+                          {receipt.items.map((item) => (
+                            <div key={item.id} className="text-sm">
+                              {item.acceptedQuantity} × {item.product.name}
+                              {item.rejectedQuantity > 0 && (
+                                <span className="text-xs text-muted-foreground"> ({item.rejectedQuantity} rejected: {item.rejectionReason})</span>
+                              )}
+                            </div>
+                          ))}
+                          {receipt.costPriceUpdated && <Badge variant="outline">Cost prices updated</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {receipt.items.reduce((sum, item) => sum + item.acceptedQuantity, 0)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {receipt.items.reduce((sum, item) => sum + item.rejectedQuantity, 0)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle>Suppliers ({suppliers.length})</CardTitle>
+                  {canManage && (
+                    <Button onClick={() => openSupplierDialog(null)} data-testid="button-create-supplier">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Supplier
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>GSTIN</TableHead>
+                      <TableHead className="text-right">Payment Terms</TableHead>
+                      <TableHead className="text-right">Lead Time</TableHead>
+                      <TableHead className="text-right">Open POs</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suppliers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                          No suppliers yet
+                        </TableCell>
+                      </TableRow>
+                    ) : suppliers.map((supplier) => (
+                      <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{supplier.name}</div>
+                          {!supplier.isActive && <Badge variant="secondary">Inactive</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div>{supplier.contactName ?? '-'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono">{supplier.gstin ?? '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {supplier.paymentTermsDays != null ? `${supplier.paymentTermsDays} days` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {supplier.leadTimeDays != null ? `${supplier.leadTimeDays} days` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {openOrdersBySupplier.get(supplier.id)?.size ?? 0}
+                        </TableCell>
+                        <TableCell>
+                          {canManage && (
+                            <div className="flex justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openSupplierDialog(supplier)}
+                                data-testid={`button-edit-supplier-${supplier.id}`}
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PurchaseOrderDialog
+        order={editingOrder}
+        suppliers={suppliers}
+        warehouses={warehouses}
+        products={products}
+        open={orderDialogOpen}
+        onOpenChange={setOrderDialogOpen}
+      />
+      <GoodsReceiptDialog
+        purchaseOrder={receivingOrder}
+        suppliers={suppliers}
+        warehouses={warehouses}
+        products={products}
+        open={receiptDialogOpen}
+        onOpenChange={setReceiptDialogOpen}
+      />
+      <SupplierDialog supplier={editingSupplier} open={supplierDialogOpen} onOpenChange={setSupplierDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import { Fragment, useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SettlementImportDialog, { getMatchStatusColor } from "@/components/reconciliation/settlement-import-dialog";
+import CodRemittancesCard from "@/components/reconciliation/cod-remittances-card";
+import OutstandingCodCard from "@/components/reconciliation/outstanding-cod-card";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import type { Order, Settlement, SettlementWithLines } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPeriod = (settlement: Settlement) => {
+  if (!settlement.periodStart && !settlement.periodEnd) {
+    return settlement.createdAt ? new Date(settlement.createdAt).toLocaleDateString() : '-';
+  }
+  return [settlement.periodStart, settlement.periodEnd]
+    .map(date => date ? new Date(date).toLocaleDateString() : '?')
+    .join(' – ');
+};
+
+function SettlementLines({ settlementId }: { settlementId: string }) {
+  const [matchFilter, setMatchFilter] = useState("all");
+
+  const { data: settlement, isLoading } = useQuery<SettlementWithLines>({
+    queryKey: [`/api/settlements/${settlementId}`],
+    retry: false,
+  });
+
+  if (isLoading || !settlement) {
+    return <p className="text-sm text-muted-foreground">Loading lines...</p>;
+  }
+
+  const lines = matchFilter === 'all'
+    ? settlement.lines
+    : settlement.lines.filter(line => line.matchStatus === matchFilter);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Select value={matchFilter} onValueChange={setMatchFilter}>
+          <SelectTrigger className="w-48" data-testid={`select-settlement-lines-${settlementId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Lines</SelectItem>
+            <SelectItem value="matched">Matched</SelectItem>
+            <SelectItem value="mismatch">Mismatch</SelectItem>
+            <SelectItem value="unmatched">Unmatched</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order ID</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead className="text-right">Sale</TableHead>
+            <TableHead className="text-right">Commission</TableHead>
+            <TableHead className="text-right">Shipping</TableHead>
+            <TableHead className="text-right">TCS / TDS</TableHead>
+            <TableHead className="text-right">Net</TableHead>
+            <TableHead>Result</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center text-muted-foreground py-4">No lines</TableCell>
+            </TableRow>
+          ) : lines.map((line) => (
+            <TableRow key={line.id}>
+              <TableCell className="font-mono">
+                {line.orderId ? (
+                  <Link href={`/orders/${line.orderId}`} className="text-primary hover:underline">
+                    {line.platformOrderId}
+                  </Link>
+                ) : line.platformOrderId}
+              </TableCell>
+              <TableCell className="capitalize">{line.transactionType || '-'}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.saleAmount)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.commission)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.shippingFee)}</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(parseFloat(line.tcs) + parseFloat(line.tds))}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(line.netPayout)}</TableCell>
+              <TableCell>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor(line.matchStatus)}`}>
+                  {line.matchStatus}
+                </span>
+                {line.mismatchReason && (
+                  <div className="text-xs text-muted-foreground mt-1">{line.mismatchReason}</div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function Reconciliation() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [platformFilter, setPlatformFilter] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [unpaidDays, setUnpaidDays] = useState("14");
+
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: settlementsData, isLoading } = useQuery<{ settlements: Settlement[]; total: number }>({
+    queryKey: ["/api/settlements", platformFilter, currentPage],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: PAGE_SIZE.toString(),
+        offset: ((currentPage - 1) * PAGE_SIZE).toString(),
+      });
+      if (platformFilter !== 'all') params.append('platform', platformFilter);
+
+      const response = await fetch(`/api/settlements?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated && canManage,
+    retry: false,
+  });
+
+  const { data: unpaidOrders = [] } = useQuery<(Order & { deliveredAt: string })[]>({
+    queryKey: ["/api/reconciliation/unpaid", platformFilter, unpaidDays],
+    queryFn: async () => {
+      const params = new URLSearchParams({ days: unpaidDays });
+      if (platformFilter !== 'all') params.append('platform', platformFilter);
+
+      const response = await fetch(`/api/reconciliation/unpaid?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated && canManage,
+    retry: false,
+  });
+
+  const settlements = settlementsData?.settlements || [];
+  const totalSettlements = settlementsData?.total || 0;
+  const totalPages = Math.ceil(totalSettlements / PAGE_SIZE);
+
+  if (!authLoading && !canManage) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Reconciliation" subtitle="Marketplace settlements, payouts and COD remittances" />
+        <div className="p-6 text-muted-foreground">
+          You need manager or admin access to view settlements.
+        </div>
+      </div>
+    );
+  }
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Reconciliation" subtitle="Marketplace settlements, payouts and COD remittances" />
+        <div className="p-6">
+          <div className="bg-card rounded-lg border border-border p-6 animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden">
+      <Header title="Reconciliation" subtitle="Marketplace settlements, payouts and COD remittances" />
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Settlements</CardTitle>
+              <div className="flex items-center space-x-2">
+                <Select
+                  value={platformFilter}
+                  onValueChange={(value) => {
+                    setPlatformFilter(value);
+                    setCurrentPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-48" data-testid="select-settlement-platform-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Platforms</SelectItem>
+                    {Object.entries(platformLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <SettlementImportDialog />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Platform</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Tax Withheld</TableHead>
+                  <TableHead className="text-right">Net Payout</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settlements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                      No settlements imported yet
+                    </TableCell>
+                  </TableRow>
+                ) : settlements.map((settlement) => {
+                  const isExpanded = expandedId === settlement.id;
+                  return (
+                    <Fragment key={settlement.id}>
+                      <TableRow data-testid={`row-settlement-${settlement.id}`}>
+                        <TableCell>{formatPeriod(settlement)}</TableCell>
+                        <TableCell>{platformLabels[settlement.platform]}</TableCell>
+                        <TableCell className="font-mono">{settlement.settlementRef}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(settlement.saleAmount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(settlement.fees)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(settlement.taxWithheld)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(settlement.netPayout)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('matched')}`}>
+                              {settlement.matchedCount} matched
+                            </span>
+                            {settlement.mismatchCount > 0 && (
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('mismatch')}`}>
+                                {settlement.mismatchCount} mismatch
+                              </span>
+                            )}
+                            {settlement.unmatchedCount > 0 && (
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMatchStatusColor('unmatched')}`}>
+                                {settlement.unmatchedCount} unmatched
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedId(isExpanded ? null : settlement.id)}
+                            data-testid={`button-settlement-details-${settlement.id}`}
+                          >
+                            {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={9} className="bg-muted/50">
+                            <SettlementLines settlementId={settlement.id} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-sm text-muted-foreground">
+                  Page {currentPage} of {totalPages}
+                </p>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    data-testid="button-settlements-previous"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                    data-testid="button-settlements-next"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delivered orders that no settlement has paid out yet */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Delivered, Not Yet Paid ({unpaidOrders.length})</CardTitle>
+              <Select value={unpaidDays} onValueChange={setUnpaidDays}>
+                <SelectTrigger className="w-56" data-testid="select-unpaid-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">Delivered over 7 days ago</SelectItem>
+                  <SelectItem value="14">Delivered over 14 days ago</SelectItem>
+                  <SelectItem value="30">Delivered over 30 days ago</SelectItem>
+                  <SelectItem value="60">Delivered over 60 days ago</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Platform</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Delivered</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unpaidOrders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      Every delivered order in this window has been settled
+                    </TableCell>
+                  </TableRow>
+                ) : unpaidOrders.map((order) => (
+                  <TableRow key={order.id} data-testid={`row-unpaid-order-${order.id}`}>
+                    <TableCell>
+                      <Link href={`/orders/${order.id}`} className="font-mono text-primary hover:underline">
+                        {order.platformOrderId}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{platformLabels[order.platform]}</TableCell>
+                    <TableCell>{order.customerName}</TableCell>
+                    <TableCell>{new Date(order.deliveredAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(order.totalAmount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Cash on delivery held by couriers */}
+        <CodRemittancesCard />
+        <OutstandingCodCard />
+      </div>
+    </div>
+  );
+}
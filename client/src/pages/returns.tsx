@@ -0,0 +1,472 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { errorMessage, returnReasonLabels, returnSourceLabels } from "@/components/returns/create-return-dialog";
+import InspectReturnDialog, { inspectionResultLabels } from "@/components/returns/inspect-return-dialog";
+import type { OrderReturn, PaymentMethod, ReturnAnalytics, ReturnRate, ReturnWithDetails } from "@shared/schema";
+import { paymentMethodLabels } from "@shared/payments";
+
+const platformLabels: Record<string, string> = {
+  amazon: "Amazon",
+  flipkart: "Flipkart",
+  meesho: "Meesho",
+  website: "My Website",
+};
+
+const returnStatusLabels: Record<OrderReturn["status"], string> = {
+  requested: "Requested",
+  received: "Awaiting inspection",
+  inspected: "Inspected",
+  cancelled: "Cancelled",
+};
+
+const getReturnStatusColor = (status: OrderReturn["status"]) => {
+  switch (status) {
+    case 'inspected':
+      return 'bg-green-100 text-green-800';
+    case 'received':
+      return 'bg-blue-100 text-blue-800';
+    case 'cancelled':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+const formatCurrency = (amount: string | number) =>
+  `₹${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatRate = (rate: ReturnRate) =>
+  rate.dispatched > 0 ? `${((rate.returned / rate.dispatched) * 100).toFixed(1)}%` : '-';
+
+function ReturnRateTable({ title, unit, rows }: { title: string; unit: string; rows: ReturnRate[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead className="text-right">{unit} Sent</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-4">Nothing dispatched in this period</TableCell>
+              </TableRow>
+            ) : rows.map((row) => (
+              <TableRow key={row.key} data-testid={`row-return-rate-${row.key}`}>
+                <TableCell>{platformLabels[row.label] ?? row.label}</TableCell>
+                <TableCell className="text-right">{row.dispatched}</TableCell>
+                <TableCell className="text-right">{row.returned}</TableCell>
+                <TableCell className="text-right font-medium">{formatRate(row)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RefundDialog({ orderReturn, onOpenChange }: { orderReturn: ReturnWithDetails; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState(orderReturn.refundAmount);
+  const [reference, setReference] = useState("");
+  const [method, setMethod] = useState<PaymentMethod | "original">("original");
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/returns/${orderReturn.id}/refund`, {
+        amount,
+        reference: reference || undefined,
+        method: method === 'original' ? undefined : method,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Refund recorded" });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderReturn.orderId] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to record refund",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Refund - #{orderReturn.order.platformOrderId}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Amount refunded</Label>
+            <Input type="number" min={0} step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} data-testid="input-refund-amount" />
+          </div>
+          <div className="space-y-2">
+            <Label>Refunded via</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod | "original")}>
+              <SelectTrigger data-testid="select-refund-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">Same as the payment</SelectItem>
+                {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Reference</Label>
+            <Input
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="UTR, gateway refund id or marketplace reference"
+              data-testid="input-refund-reference"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => refundMutation.mutate()} disabled={refundMutation.isPending || amount === ''} data-testid="button-submit-refund">
+            {refundMutation.isPending ? "Saving..." : "Record Refund"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Returns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [platformFilter, setPlatformFilter] = useState("all");
+  const [analyticsDays, setAnalyticsDays] = useState("90");
+  const [inspecting, setInspecting] = useState<ReturnWithDetails | null>(null);
+  const [refunding, setRefunding] = useState<ReturnWithDetails | null>(null);
+
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: returns = [], isLoading } = useQuery<ReturnWithDetails[]>({
+    queryKey: ["/api/returns", statusFilter, platformFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (platformFilter !== 'all') params.append('platform', platformFilter);
+
+      const response = await fetch(`/api/returns?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: analytics } = useQuery<ReturnAnalytics>({
+    queryKey: ["/api/returns/analytics", analyticsDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/returns/analytics?days=${analyticsDays}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'receive' | 'cancel' }) => {
+      return await apiRequest('POST', `/api/returns/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      toast({ title: "Success", description: action === 'receive' ? "Return received" : "Return cancelled" });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error) || "Failed to update return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Returns" subtitle="Customer returns and courier RTOs" />
+        <div className="p-6">
+          <div className="bg-card rounded-lg border border-border p-6 animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden">
+      <Header title="Returns" subtitle="Customer returns and courier RTOs" />
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Returns ({returns.length})</CardTitle>
+              <div className="flex items-center space-x-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-48" data-testid="select-return-status-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {Object.entries(returnStatusLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={platformFilter} onValueChange={setPlatformFilter}>
+                  <SelectTrigger className="w-48" data-testid="select-return-platform-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Platforms</SelectItem>
+                    {Object.entries(platformLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Refund</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No returns found
+                    </TableCell>
+                  </TableRow>
+                ) : returns.map((orderReturn) => (
+                  <TableRow key={orderReturn.id} data-testid={`row-return-${orderReturn.id}`}>
+                    <TableCell>
+                      <Link href={`/orders/${orderReturn.orderId}`} className="font-mono text-primary hover:underline">
+                        {orderReturn.order.platformOrderId}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {platformLabels[orderReturn.order.platform]} · {orderReturn.order.customerName}
+                      </div>
+                    </TableCell>
+                    <TableCell>{returnSourceLabels[orderReturn.source]}</TableCell>
+                    <TableCell>
+                      {returnReasonLabels[orderReturn.reason]}
+                      {orderReturn.notes && <div className="text-xs text-muted-foreground">{orderReturn.notes}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {orderReturn.items.map((item) => (
+                        <div key={item.id} className="text-sm">
+                          {item.quantity} × {item.productName}
+                          {item.inspectionResult && (
+                            <span className="text-xs text-muted-foreground">
+                              {' '}({inspectionResultLabels[item.inspectionResult]}, {item.restockedQuantity} restocked)
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getReturnStatusColor(orderReturn.status)}`}>
+                        {returnStatusLabels[orderReturn.status]}
+                      </span>
+                      {orderReturn.receivedAt && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Received {new Date(orderReturn.receivedAt).toLocaleDateString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {orderReturn.refundStatus === 'not_required' ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <>
+                          <div>{formatCurrency(orderReturn.refundAmount)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {orderReturn.refundStatus === 'refunded'
+                              ? `Refunded${orderReturn.refundReference ? `, ${orderReturn.refundReference}` : ''}`
+                              : 'Refund pending'}
+                          </div>
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canManage && (
+                        <div className="flex justify-end space-x-2">
+                          {orderReturn.status === 'requested' && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => actionMutation.mutate({ id: orderReturn.id, action: 'receive' })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-receive-return-${orderReturn.id}`}
+                              >
+                                Receive
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => actionMutation.mutate({ id: orderReturn.id, action: 'cancel' })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-cancel-return-${orderReturn.id}`}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                          {orderReturn.status === 'received' && (
+                            <Button size="sm" onClick={() => setInspecting(orderReturn)} data-testid={`button-inspect-return-${orderReturn.id}`}>
+                              Inspect
+                            </Button>
+                          )}
+                          {orderReturn.refundStatus === 'pending' && orderReturn.status !== 'cancelled' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRefunding(orderReturn)}
+                              data-testid={`button-refund-return-${orderReturn.id}`}
+                            >
+                              Refund
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-foreground">Return Rates</h3>
+          <Select value={analyticsDays} onValueChange={setAnalyticsDays}>
+            <SelectTrigger className="w-48" data-testid="select-return-analytics-days">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">Orders of the last 30 days</SelectItem>
+              <SelectItem value="90">Orders of the last 90 days</SelectItem>
+              <SelectItem value="365">Orders of the last year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ReturnRateTable title="By Platform" unit="Orders" rows={analytics?.byPlatform ?? []} />
+          <Card>
+            <CardHeader>
+              <CardTitle>By Reason</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {(analytics?.byReason ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No returns in this period</p>
+              ) : (
+                <div className="space-y-2">
+                  {analytics!.byReason.map((row) => (
+                    <div key={row.reason} className="flex justify-between text-sm">
+                      <span>{returnReasonLabels[row.reason]}</span>
+                      <span className="font-medium">{row.count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <ReturnRateTable title="By Product" unit="Units" rows={(analytics?.byProduct ?? []).slice(0, 20)} />
+      </div>
+
+      {inspecting && (
+        <InspectReturnDialog
+          orderReturn={inspecting}
+          open={!!inspecting}
+          onOpenChange={(open) => !open && setInspecting(null)}
+        />
+      )}
+      {refunding && (
+        <RefundDialog orderReturn={refunding} onOpenChange={(open) => !open && setRefunding(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/layout/header";
+import JobsSettings from "@/components/settings/jobs-settings";
+import FeeRulesSettings from "@/components/settings/fee-rules-settings";
+import BusinessSettings from "@/components/settings/business-settings";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export default function Settings() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  if (authLoading) {
+    return (
+      <div className="flex-1 overflow-hidden">
+        <Header title="Settings" subtitle="System configuration, background jobs, platform fees and invoicing details" />
+        <div className="p-6">
+          <div className="bg-card rounded-lg border border-border p-6 animate-pulse">
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-hidden">
+      <Header title="Settings" subtitle="System configuration, background jobs, platform fees and invoicing details" />
+      <div className="flex-1 overflow-auto p-6">
+        {user?.role !== 'admin' ? (
+          <p className="text-muted-foreground">Only admins can change system settings.</p>
+        ) : (
+          <Tabs defaultValue="jobs">
+            <TabsList>
+              <TabsTrigger value="jobs" data-testid="tab-jobs">Jobs</TabsTrigger>
+              <TabsTrigger value="fees" data-testid="tab-fees">Fees</TabsTrigger>
+              <TabsTrigger value="business" data-testid="tab-business">Business</TabsTrigger>
+            </TabsList>
+            <TabsContent value="jobs" className="mt-6">
+              <JobsSettings />
+            </TabsContent>
+            <TabsContent value="fees" className="mt-6">
+              <FeeRulesSettings />
+            </TabsContent>
+            <TabsContent value="business" className="mt-6">
+              <BusinessSettings />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,15 +6,18 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import ReceiveTransferDialog from "@/components/warehouses/receive-transfer-dialog";
+import TransferBuilderDialog from "@/components/warehouses/transfer-builder-dialog";
 import { 
   Plus, 
   Warehouse, 
@@ -45,12 +48,15 @@ import type {
   StockMovementWithDetails,
   WarehouseTransferWithDetails
 } from "@shared/schema";
+import { canTransitionTransferStatus } from "@shared/transfers";
 
 // Form schemas
 const warehouseFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
   location: z.string().min(1, "Location is required"),
+  pincode: z.string().regex(/^([1-9]\d{5})?$/, "Pincode must be 6 digits").optional(),
+  allowNegativeStock: z.boolean().optional(),
 });
 
 const inventoryAdjustmentSchema = z.object({
@@ -61,17 +67,23 @@ const inventoryAdjustmentSchema = z.object({
   notes: z.string().optional(),
 });
 
-const warehouseTransferSchema = z.object({
-  fromWarehouseId: z.string().min(1, "Source warehouse is required"),
-  toWarehouseId: z.string().min(1, "Destination warehouse is required"),
-  productId: z.string().min(1, "Product is required"),
-  quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
-  notes: z.string().optional(),
-});
-
 type WarehouseFormData = z.infer<typeof warehouseFormSchema>;
 type InventoryAdjustmentData = z.infer<typeof inventoryAdjustmentSchema>;
-type WarehouseTransferData = z.infer<typeof warehouseTransferSchema>;
+
+// Server errors arrive as "<status>: {"message": ...}"
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+const transferUnits = (transfer: WarehouseTransferWithDetails) => ({
+  sent: transfer.items.reduce((sum, item) => sum + item.quantity, 0),
+  received: transfer.items.reduce((sum, item) => sum + item.receivedQuantity, 0),
+});
 
 export default function WarehousesPage() {
   const { toast } = useToast();
@@ -79,8 +91,8 @@ export default function WarehousesPage() {
   const [activeTab, setActiveTab] = useState("overview");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isAdjustDialogOpen, setIsAdjustDialogOpen] = useState(false);
-  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
   const [editingWarehouse, setEditingWarehouse] = useState<WarehouseType | null>(null);
+  const [receivingTransfer, setReceivingTransfer] = useState<WarehouseTransferWithDetails | null>(null);
 
   // Fetch warehouses
   const { data: warehouses = [] } = useQuery<WarehouseWithDetails[]>({
@@ -95,6 +107,17 @@ export default function WarehousesPage() {
   // Fetch inventory for selected warehouse
   const { data: inventory = [] } = useQuery<InventoryWithDetails[]>({
     queryKey: ["/api/inventory", selectedWarehouse],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory?warehouseId=${selectedWarehouse}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
     enabled: !!selectedWarehouse,
   });
 
@@ -145,51 +168,39 @@ export default function WarehousesPage() {
   });
 
   const adjustInventoryMutation = useMutation({
-    mutationFn: (data: InventoryAdjustmentData) => fetch("/api/inventory/adjust", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    }).then(res => res.json()),
+    mutationFn: (data: InventoryAdjustmentData) => apiRequest("POST", "/api/inventory/adjust", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
       setIsAdjustDialogOpen(false);
       toast({ title: "Success", description: "Inventory adjusted successfully" });
     },
-  });
-
-  const createTransferMutation = useMutation({
-    mutationFn: (data: WarehouseTransferData) => fetch("/api/warehouse-transfers", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
-    }).then(res => res.json()),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/warehouse-transfers"] });
-      setIsTransferDialogOpen(false);
-      toast({ title: "Success", description: "Transfer request created successfully" });
+    // Taking out more than is on hand is refused unless the warehouse allows negative stock
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error) || "Failed to adjust inventory", variant: "destructive" });
     },
   });
 
-  const approveTransferMutation = useMutation({
-    mutationFn: (transferId: string) => fetch(`/api/warehouse-transfers/${transferId}/approve`, {
-      method: "PATCH",
-    }).then(res => res.json()),
-    onSuccess: () => {
+  // Approve, dispatch and cancel; receiving goes through its own dialog
+  const transferActionMutation = useMutation({
+    mutationFn: ({ transferId, action }: { transferId: string; action: 'approve' | 'dispatch' | 'cancel' }) =>
+      apiRequest("POST", `/api/warehouse-transfers/${transferId}/${action}`),
+    onSuccess: (_, { action }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouse-transfers"] });
-      toast({ title: "Success", description: "Transfer approved successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      if (action === 'dispatch') {
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      }
+      const messages = {
+        approve: "Transfer approved",
+        dispatch: "Transfer dispatched and stock taken out of the source warehouse",
+        cancel: "Transfer cancelled",
+      };
+      toast({ title: "Success", description: messages[action] });
     },
-  });
-
-  const processTransferMutation = useMutation({
-    mutationFn: (transferId: string) => fetch(`/api/warehouse-transfers/${transferId}/process`, {
-      method: "POST",
-    }).then(res => res.json()),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/warehouse-transfers"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
-      toast({ title: "Success", description: "Transfer completed successfully" });
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error) || "Failed to update transfer", variant: "destructive" });
     },
   });
 
@@ -200,6 +211,8 @@ export default function WarehousesPage() {
       name: "",
       description: "",
       location: "",
+      pincode: "",
+      allowNegativeStock: false,
     },
   });
 
@@ -214,17 +227,6 @@ export default function WarehousesPage() {
     },
   });
 
-  const transferForm = useForm<WarehouseTransferData>({
-    resolver: zodResolver(warehouseTransferSchema),
-    defaultValues: {
-      fromWarehouseId: "",
-      toWarehouseId: "",
-      productId: "",
-      quantity: 1,
-      notes: "",
-    },
-  });
-
   const onCreateWarehouse = (data: WarehouseFormData) => {
     createWarehouseMutation.mutate(data);
   };
@@ -239,18 +241,18 @@ export default function WarehousesPage() {
     adjustInventoryMutation.mutate(data);
   };
 
-  const onCreateTransfer = (data: WarehouseTransferData) => {
-    createTransferMutation.mutate(data);
-  };
-
   const getStatusBadge = (status: string) => {
     switch (status) {
-      case "pending":
-        return <Badge variant="secondary" data-testid={`status-pending`}><Clock className="w-3 h-3 mr-1" />Pending</Badge>;
+      case "requested":
+        return <Badge variant="secondary" data-testid={`status-requested`}><Clock className="w-3 h-3 mr-1" />Requested</Badge>;
+      case "approved":
+        return <Badge variant="outline" data-testid={`status-approved`}><CheckCircle className="w-3 h-3 mr-1" />Approved</Badge>;
       case "in_transit":
         return <Badge variant="outline" data-testid={`status-in-transit`}><Truck className="w-3 h-3 mr-1" />In Transit</Badge>;
-      case "completed":
-        return <Badge variant="default" data-testid={`status-completed`}><CheckCircle className="w-3 h-3 mr-1" />Completed</Badge>;
+      case "partially_received":
+        return <Badge variant="outline" data-testid={`status-partially-received`}><Truck className="w-3 h-3 mr-1" />Partially Received</Badge>;
+      case "received":
+        return <Badge variant="default" data-testid={`status-received`}><CheckCircle className="w-3 h-3 mr-1" />Received</Badge>;
       case "cancelled":
         return <Badge variant="destructive" data-testid={`status-cancelled`}><XCircle className="w-3 h-3 mr-1" />Cancelled</Badge>;
       default:
@@ -322,6 +324,34 @@ export default function WarehousesPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={warehouseForm.control}
+                  name="pincode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pincode</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Pickup pincode for couriers" maxLength={6} {...field} data-testid="input-warehouse-pincode" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={warehouseForm.control}
+                  name="allowNegativeStock"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>Allow negative stock</FormLabel>
+                        <FormDescription>Let orders ship and stock go out before it has been counted in</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={!!field.value} onCheckedChange={field.onChange} data-testid="switch-warehouse-allow-negative" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={warehouseForm.control}
                   name="description"
@@ -380,6 +410,8 @@ export default function WarehousesPage() {
                       name: warehouse.name,
                       description: warehouse.description || "",
                       location: warehouse.location || "",
+                      pincode: warehouse.pincode || "",
+                      allowNegativeStock: warehouse.allowNegativeStock,
                     });
                   }}
                   data-testid={`button-edit-${warehouse.id}`}
@@ -633,6 +665,7 @@ export default function WarehousesPage() {
                         <TableHead>Current Stock</TableHead>
                         <TableHead>Reserved</TableHead>
                         <TableHead>Available</TableHead>
+                        <TableHead>In Transit</TableHead>
                         <TableHead>Min Stock</TableHead>
                         <TableHead>Status</TableHead>
                       </TableRow>
@@ -643,13 +676,14 @@ export default function WarehousesPage() {
                           <TableCell className="font-medium">{item.product.name}</TableCell>
                           <TableCell>{item.product.sku}</TableCell>
                           <TableCell data-testid={`stock-${item.id}`}>{item.quantity}</TableCell>
-                          <TableCell>{item.reservedQuantity}</TableCell>
-                          <TableCell>{item.quantity - item.reservedQuantity}</TableCell>
+                          <TableCell data-testid={`reserved-${item.id}`}>{item.reservedQuantity}</TableCell>
+                          <TableCell data-testid={`available-${item.id}`}>{item.availableQuantity}</TableCell>
+                          <TableCell data-testid={`in-transit-${item.id}`}>{item.inTransitQuantity || '-'}</TableCell>
                           <TableCell>{item.minStockLevel || '-'}</TableCell>
                           <TableCell>
-                            {item.quantity === 0 ? (
+                            {item.availableQuantity <= 0 ? (
                               <Badge variant="destructive" data-testid={`inventory-status-${item.id}`}>Out of Stock</Badge>
-                            ) : item.quantity <= (item.minStockLevel || 10) ? (
+                            ) : item.availableQuantity <= (item.minStockLevel || 10) ? (
                               <Badge variant="secondary" data-testid={`inventory-status-${item.id}`}>Low Stock</Badge>
                             ) : (
                               <Badge variant="default" data-testid={`inventory-status-${item.id}`}>In Stock</Badge>
@@ -711,141 +745,11 @@ export default function WarehousesPage() {
               <TabsContent value="transfers" className="space-y-4">
                 <div className="flex justify-between items-center">
                   <h3 className="text-lg font-medium">Warehouse Transfers</h3>
-                  <Dialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen}>
-                    <DialogTrigger asChild>
-                      <Button data-testid="button-create-transfer">
-                        <Truck className="w-4 h-4 mr-2" />
-                        Create Transfer
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Create Warehouse Transfer</DialogTitle>
-                        <DialogDescription>
-                          Transfer inventory between warehouses
-                        </DialogDescription>
-                      </DialogHeader>
-                      <Form {...transferForm}>
-                        <form onSubmit={transferForm.handleSubmit(onCreateTransfer)} className="space-y-4">
-                          <FormField
-                            control={transferForm.control}
-                            name="fromWarehouseId"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>From Warehouse</FormLabel>
-                                <Select onValueChange={field.onChange} value={field.value}>
-                                  <FormControl>
-                                    <SelectTrigger data-testid="select-from-warehouse">
-                                      <SelectValue placeholder="Select source warehouse" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    {warehouses.map((warehouse) => (
-                                      <SelectItem key={warehouse.id} value={warehouse.id}>
-                                        {warehouse.name} - {warehouse.location}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={transferForm.control}
-                            name="toWarehouseId"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>To Warehouse</FormLabel>
-                                <Select onValueChange={field.onChange} value={field.value}>
-                                  <FormControl>
-                                    <SelectTrigger data-testid="select-to-warehouse">
-                                      <SelectValue placeholder="Select destination warehouse" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    {warehouses.map((warehouse) => (
-                                      <SelectItem key={warehouse.id} value={warehouse.id}>
-                                        {warehouse.name} - {warehouse.location}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={transferForm.control}
-                            name="productId"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Product</FormLabel>
-                                <Select onValueChange={field.onChange} value={field.value}>
-                                  <FormControl>
-                                    <SelectTrigger data-testid="select-transfer-product">
-                                      <SelectValue placeholder="Select product" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    {products.map((product) => (
-                                      <SelectItem key={product.id} value={product.id}>
-                                        {product.name} - {product.sku}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={transferForm.control}
-                            name="quantity"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Quantity</FormLabel>
-                                <FormControl>
-                                  <Input type="number" placeholder="Enter quantity" {...field} data-testid="input-transfer-quantity" />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={transferForm.control}
-                            name="notes"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Notes (Optional)</FormLabel>
-                                <FormControl>
-                                  <Textarea placeholder="Enter notes" {...field} data-testid="input-transfer-notes" />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <div className="flex justify-end space-x-2">
-                            <Button 
-                              type="button" 
-                              variant="outline" 
-                              onClick={() => setIsTransferDialogOpen(false)}
-                              data-testid="button-cancel-transfer"
-                            >
-                              Cancel
-                            </Button>
-                            <Button 
-                              type="submit" 
-                              disabled={createTransferMutation.isPending}
-                              data-testid="button-submit-transfer"
-                            >
-                              Create Transfer
-                            </Button>
-                          </div>
-                        </form>
-                      </Form>
-                    </DialogContent>
-                  </Dialog>
+                  <TransferBuilderDialog
+                    warehouses={warehouses}
+                    products={products}
+                    defaultFromWarehouseId={selectedWarehouse}
+                  />
                 </div>
 
                 <div className="rounded-md border">
@@ -853,10 +757,10 @@ export default function WarehousesPage() {
                     <TableHeader>
                       <TableRow>
                         <TableHead>Date</TableHead>
-                        <TableHead>Product</TableHead>
+                        <TableHead>Products</TableHead>
                         <TableHead>From</TableHead>
                         <TableHead>To</TableHead>
-                        <TableHead>Quantity</TableHead>
+                        <TableHead>Units</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Requested By</TableHead>
                         <TableHead>Actions</TableHead>
@@ -868,32 +772,79 @@ export default function WarehousesPage() {
                           <TableCell>
                             {new Date(transfer.createdAt).toLocaleDateString()}
                           </TableCell>
-                          <TableCell className="font-medium">{transfer.product.name}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">
+                              {transfer.items.slice(0, 2).map(item => item.product.name).join(", ")}
+                              {transfer.items.length > 2 && ` +${transfer.items.length - 2} more`}
+                            </div>
+                            {transfer.challanNumber && (
+                              <div className="text-xs text-muted-foreground font-mono">{transfer.challanNumber}</div>
+                            )}
+                          </TableCell>
                           <TableCell>{transfer.fromWarehouse.name}</TableCell>
                           <TableCell>{transfer.toWarehouse.name}</TableCell>
-                          <TableCell data-testid={`transfer-quantity-${transfer.id}`}>{transfer.quantity}</TableCell>
+                          <TableCell data-testid={`transfer-quantity-${transfer.id}`}>
+                            {transferUnits(transfer).sent}
+                            {(transfer.status === 'partially_received' || transfer.status === 'received') && (
+                              <div
+                                className={`text-xs ${transferUnits(transfer).received === transferUnits(transfer).sent ? 'text-muted-foreground' : 'text-orange-600'}`}
+                                title={transfer.varianceNotes ?? undefined}
+                              >
+                                {transferUnits(transfer).received} received
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>{getStatusBadge(transfer.status)}</TableCell>
                           <TableCell>{transfer.requestedByUser.firstName}</TableCell>
                           <TableCell>
                             <div className="flex space-x-1">
-                              {transfer.status === 'pending' && !transfer.approvedBy && (
+                              <Button size="sm" variant="ghost" asChild data-testid={`button-challan-${transfer.id}`}>
+                                <a
+                                  href={`/api/warehouse-transfers/${transfer.id}/challan`}
+                                  download
+                                  title={transfer.challanNumber ? "Delivery challan" : "Transfer note"}
+                                >
+                                  <FileText className="w-4 h-4" />
+                                </a>
+                              </Button>
+                              {transfer.status === 'requested' && (
                                 <Button
                                   size="sm"
-                                  onClick={() => approveTransferMutation.mutate(transfer.id)}
-                                  disabled={approveTransferMutation.isPending}
+                                  onClick={() => transferActionMutation.mutate({ transferId: transfer.id, action: 'approve' })}
+                                  disabled={transferActionMutation.isPending}
                                   data-testid={`button-approve-${transfer.id}`}
                                 >
                                   Approve
                                 </Button>
                               )}
-                              {transfer.status === 'pending' && transfer.approvedBy && (
+                              {transfer.status === 'approved' && (
                                 <Button
                                   size="sm"
-                                  onClick={() => processTransferMutation.mutate(transfer.id)}
-                                  disabled={processTransferMutation.isPending}
-                                  data-testid={`button-process-${transfer.id}`}
+                                  onClick={() => transferActionMutation.mutate({ transferId: transfer.id, action: 'dispatch' })}
+                                  disabled={transferActionMutation.isPending}
+                                  data-testid={`button-dispatch-${transfer.id}`}
                                 >
-                                  Process
+                                  Dispatch
+                                </Button>
+                              )}
+                              {(transfer.status === 'in_transit' || transfer.status === 'partially_received') && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => setReceivingTransfer(transfer)}
+                                  data-testid={`button-receive-${transfer.id}`}
+                                >
+                                  Receive
+                                </Button>
+                              )}
+                              {canTransitionTransferStatus(transfer.status, 'cancelled') && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => transferActionMutation.mutate({ transferId: transfer.id, action: 'cancel' })}
+                                  disabled={transferActionMutation.isPending}
+                                  data-testid={`button-cancel-transfer-${transfer.id}`}
+                                >
+                                  Cancel
                                 </Button>
                               )}
                             </div>
@@ -903,6 +854,14 @@ export default function WarehousesPage() {
                     </TableBody>
                   </Table>
                 </div>
+                {receivingTransfer && (
+                  <ReceiveTransferDialog
+                    key={receivingTransfer.id}
+                    transfer={receivingTransfer}
+                    open={!!receivingTransfer}
+                    onOpenChange={(open) => !open && setReceivingTransfer(null)}
+                  />
+                )}
               </TabsContent>
 
               <TabsContent value="reports" className="space-y-4">
@@ -960,12 +919,15 @@ export default function WarehousesPage() {
                             {warehouseReport.pendingTransfers.map((transfer) => (
                               <div key={transfer.id} className="flex items-center justify-between p-2 bg-muted rounded">
                                 <div>
-                                  <p className="font-medium">{transfer.product.name}</p>
+                                  <p className="font-medium">{transfer.items.length} product(s)</p>
                                   <p className="text-sm text-muted-foreground">
                                     {transfer.fromWarehouse.name} → {transfer.toWarehouse.name}
                                   </p>
                                 </div>
-                                <Badge variant="secondary">Qty: {transfer.quantity}</Badge>
+                                <div className="flex items-center gap-2">
+                                  {getStatusBadge(transfer.status)}
+                                  <Badge variant="secondary">Qty: {transferUnits(transfer).sent}</Badge>
+                                </div>
                               </div>
                             ))}
                           </div>
@@ -1019,6 +981,34 @@ export default function WarehousesPage() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={warehouseForm.control}
+                name="pincode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pincode</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Pickup pincode for couriers" maxLength={6} {...field} data-testid="input-edit-warehouse-pincode" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={warehouseForm.control}
+                name="allowNegativeStock"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Allow negative stock</FormLabel>
+                      <FormDescription>Let orders ship and stock go out before it has been counted in</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={!!field.value} onCheckedChange={field.onChange} data-testid="switch-edit-warehouse-allow-negative" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={warehouseForm.control}
                 name="description"
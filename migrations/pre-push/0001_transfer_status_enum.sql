@@ -0,0 +1,26 @@
+-- Warehouse transfer status moved from free text ('pending', 'in_transit', 'completed', 'cancelled')
+-- to the transfer_status enum. drizzle-kit push cannot cast the existing values itself, so run this
+-- first on a database created before the change. Safe to run more than once.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'transfer_status') THEN
+    CREATE TYPE transfer_status AS ENUM ('requested', 'approved', 'in_transit', 'partially_received', 'received', 'cancelled');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'warehouse_transfers' AND column_name = 'status') = 'character varying' THEN
+    UPDATE warehouse_transfers SET status = 'requested' WHERE status = 'pending';
+    UPDATE warehouse_transfers SET status = 'received' WHERE status = 'completed';
+    -- Stock used to move only on completion, so an old in-transit transfer has not left the source
+    -- yet. Dispatching it again takes the stock out and issues its challan.
+    UPDATE warehouse_transfers SET status = 'approved' WHERE status = 'in_transit';
+
+    ALTER TABLE warehouse_transfers ALTER COLUMN status DROP DEFAULT;
+    ALTER TABLE warehouse_transfers ALTER COLUMN status TYPE transfer_status USING status::transfer_status;
+    ALTER TABLE warehouse_transfers ALTER COLUMN status SET DEFAULT 'requested';
+  END IF;
+END $$;
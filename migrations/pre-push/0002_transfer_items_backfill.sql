@@ -0,0 +1,39 @@
+-- Transfers moved their single product and quantity onto warehouse_transfer_items. drizzle-kit push
+-- would drop the old columns with the data in them, so run this first: it creates the items table
+-- as the schema defines it and copies each transfer's product across as its only line.
+-- Run after 0001. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS warehouse_transfer_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id varchar NOT NULL,
+  product_id varchar NOT NULL,
+  quantity integer NOT NULL,
+  received_quantity integer NOT NULL DEFAULT 0,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT warehouse_transfer_items_transfer_id_warehouse_transfers_id_fk
+    FOREIGN KEY (transfer_id) REFERENCES warehouse_transfers(id) ON DELETE CASCADE,
+  CONSTRAINT warehouse_transfer_items_product_id_products_id_fk
+    FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS warehouse_transfer_items_transfer_product_idx
+  ON warehouse_transfer_items (transfer_id, product_id);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'warehouse_transfers' AND column_name = 'product_id') THEN
+    -- Databases that skipped the single-line receipt columns have nothing received recorded yet
+    ALTER TABLE warehouse_transfers ADD COLUMN IF NOT EXISTS received_quantity integer;
+
+    INSERT INTO warehouse_transfer_items (transfer_id, product_id, quantity, received_quantity, created_at)
+    SELECT
+      id,
+      product_id,
+      quantity,
+      COALESCE(received_quantity, CASE WHEN status = 'received' THEN quantity ELSE 0 END),
+      created_at
+    FROM warehouse_transfers
+    ON CONFLICT (transfer_id, product_id) DO NOTHING;
+  END IF;
+END $$;
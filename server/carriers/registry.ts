@@ -0,0 +1,24 @@
+import { carrierEnum, type Carrier } from "@shared/schema";
+import { SimulatedCarrier } from "./simulatedCarrier";
+import type { CarrierConnector, CarrierConnectorFactory } from "./types";
+
+const createSimulatedCarrier: CarrierConnectorFactory = (carrier) => new SimulatedCarrier(carrier);
+
+// Every carrier books through the simulator until its API client is registered here
+const connectorFactories: Record<Carrier, CarrierConnectorFactory> = {
+  delhivery: createSimulatedCarrier,
+  bluedart: createSimulatedCarrier,
+  xpressbees: createSimulatedCarrier,
+};
+
+export function registerCarrier(carrier: Carrier, factory: CarrierConnectorFactory): void {
+  connectorFactories[carrier] = factory;
+}
+
+export function getCarrier(carrier: Carrier): CarrierConnector {
+  return connectorFactories[carrier](carrier);
+}
+
+export function getAllCarriers(): CarrierConnector[] {
+  return carrierEnum.enumValues.map(getCarrier);
+}
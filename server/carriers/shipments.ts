@@ -0,0 +1,144 @@
+import type { Carrier, OrderForShipping, Shipment } from "@shared/schema";
+import { findPincode, parcelWeightKg } from "@shared/shipping";
+import { storage } from "../storage";
+import { getAllCarriers, getCarrier } from "./registry";
+import type { CarrierRate, RateRequest } from "./types";
+
+export type ShipStrategy = "cheapest" | "fastest";
+
+export type ShipmentChoice =
+  | { strategy: ShipStrategy }
+  | { carrier: Carrier; service: string };
+
+// The order cannot be booked as it stands, e.g. no pincode or product weights missing
+export class ShippingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShippingError";
+  }
+}
+
+const byCost = (a: CarrierRate, b: CarrierRate) => a.cost - b.cost || a.estimatedDays - b.estimatedDays;
+const bySpeed = (a: CarrierRate, b: CarrierRate) => a.estimatedDays - b.estimatedDays || a.cost - b.cost;
+
+// A pincode passed in takes precedence over the order's, for quoting before it is saved
+async function planShipment(
+  orderId: string,
+  shippingPincode?: string
+): Promise<{ order: OrderForShipping; request: RateRequest }> {
+  const [order] = await storage.getOrdersForShipping([orderId]);
+  if (!order) throw new ShippingError("Order not found");
+  if (order.status !== "processing") {
+    throw new ShippingError(`Only processing orders can be shipped; this order is ${order.status}`);
+  }
+  if (!order.warehouse) throw new ShippingError("Assign a warehouse to the order before shipping it");
+  if (!order.warehouse.pincode) {
+    throw new ShippingError(`Set a pincode on the ${order.warehouse.name} warehouse to book couriers from it`);
+  }
+
+  const toPincode = findPincode({ ...order, shippingPincode: shippingPincode ?? order.shippingPincode });
+  if (!toPincode) throw new ShippingError("The delivery pincode is missing from the order");
+
+  const weightKg = parcelWeightKg(order.items);
+  if (weightKg === null) {
+    const missing = order.items.filter((item) => !item.product?.weight).map((item) => item.sku || item.productName);
+    throw new ShippingError(`Set product weights before shipping: ${missing.join(", ")}`);
+  }
+
+  const isCod = order.paymentMethod?.toLowerCase() === "cod" && order.paymentStatus !== "paid";
+  return {
+    order,
+    request: {
+      fromPincode: order.warehouse.pincode,
+      toPincode,
+      parcel: {
+        weightKg,
+        declaredValue: parseFloat(order.totalAmount),
+        codAmount: isCod ? parseFloat(order.totalAmount) : null,
+      },
+    },
+  };
+}
+
+// Asks every carrier at once; one carrier being down just leaves its rates out
+async function collectRates(request: RateRequest, carriers = getAllCarriers()): Promise<CarrierRate[]> {
+  const results = await Promise.allSettled(carriers.map((connector) => connector.getRates(request)));
+  return results
+    .flatMap((result, index) => {
+      if (result.status === "fulfilled") return result.value;
+      console.error(`Error fetching ${carriers[index].carrier} rates:`, result.reason);
+      return [];
+    })
+    .sort(byCost);
+}
+
+// Serviceable options for the order, cheapest first
+export async function getShippingRates(orderId: string, shippingPincode?: string): Promise<CarrierRate[]> {
+  const { request } = await planShipment(orderId, shippingPincode);
+  return await collectRates(request);
+}
+
+/**
+ * Books the order with the chosen (or cheapest/fastest serviceable) carrier, records the AWB and
+ * cost on the order and moves it to shipped through the normal status path, so stock is deducted
+ * and the history shows the booking. A booking that cannot be recorded is cancelled again.
+ */
+export async function shipOrder(orderId: string, choice: ShipmentChoice, userId?: string): Promise<Shipment> {
+  const { order, request } = await planShipment(orderId);
+
+  let chosen: CarrierRate | undefined;
+  if ("carrier" in choice) {
+    const rates = await collectRates(request, [getCarrier(choice.carrier)]);
+    chosen = rates.find((r) => r.service === choice.service);
+  } else {
+    const rates = await collectRates(request);
+    chosen = [...rates].sort(choice.strategy === "fastest" ? bySpeed : byCost)[0];
+  }
+  if (!chosen) {
+    throw new ShippingError(`No carrier service is available from ${request.fromPincode} to ${request.toPincode}`);
+  }
+  const rate = chosen;
+
+  const connector = getCarrier(rate.carrier);
+  const booked = await connector.createShipment({
+    ...request,
+    service: rate.service,
+    reference: order.platformOrderId,
+    consignee: {
+      name: order.customerName,
+      phone: order.customerPhone,
+      address: order.shippingAddress || order.customerAddress || "",
+    },
+  });
+
+  let shipment: Shipment | undefined;
+  try {
+    shipment = await storage.recordShipment({
+      orderId: order.id,
+      carrier: rate.carrier,
+      service: rate.service,
+      awb: booked.awb,
+      fromPincode: request.fromPincode,
+      toPincode: request.toPincode,
+      weightKg: request.parcel.weightKg.toFixed(3),
+      cost: booked.cost.toFixed(2),
+      codAmount: request.parcel.codAmount?.toFixed(2) ?? null,
+      estimatedDeliveryAt: booked.estimatedDeliveryAt,
+      labelUrl: booked.labelUrl,
+      createdBy: userId,
+    });
+    await storage.updateOrderStatus(
+      order.id,
+      "shipped",
+      `Shipped with ${rate.carrier} ${rate.service}, AWB ${booked.awb}`,
+      userId
+    );
+    return shipment;
+  } catch (error) {
+    if (shipment) await storage.cancelShipment(shipment.id);
+    await connector.cancelShipment(booked.awb).catch((cancelError) => {
+      console.error(`Error cancelling unrecorded ${rate.carrier} shipment ${booked.awb}:`, cancelError);
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,201 @@
+import { randomInt } from "crypto";
+import type { Carrier } from "@shared/schema";
+import {
+  CarrierError,
+  type BookedShipment,
+  type CarrierConnector,
+  type CarrierRate,
+  type RateRequest,
+  type ShipmentRequest,
+  type TrackingEvent,
+} from "./types";
+
+type Zone = "local" | "regional" | "national";
+
+interface ServiceProfile {
+  name: string;
+  firstHalfKg: Record<Zone, number>;
+  additionalHalfKg: Record<Zone, number>;
+  days: Record<Zone, number>;
+}
+
+interface CarrierProfile {
+  awbPrefix: string;
+  // First digit of the pincodes served, i.e. the postal regions
+  regions: string[];
+  codFee: { minimum: number; percent: number };
+  services: ServiceProfile[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const PICKUP_AFTER = 4 * HOUR;
+
+// Rate cards loosely based on published D2C tariffs, so rate shopping has real trade-offs to make
+const profiles: Record<Carrier, CarrierProfile> = {
+  delhivery: {
+    awbPrefix: "DLV",
+    regions: ["1", "2", "3", "4", "5", "6", "7", "8"],
+    codFee: { minimum: 35, percent: 1.75 },
+    services: [
+      {
+        name: "surface",
+        firstHalfKg: { local: 30, regional: 38, national: 48 },
+        additionalHalfKg: { local: 24, regional: 30, national: 40 },
+        days: { local: 2, regional: 4, national: 6 },
+      },
+      {
+        name: "express",
+        firstHalfKg: { local: 40, regional: 55, national: 75 },
+        additionalHalfKg: { local: 35, regional: 50, national: 70 },
+        days: { local: 1, regional: 2, national: 3 },
+      },
+    ],
+  },
+  bluedart: {
+    awbPrefix: "BDT",
+    regions: ["1", "2", "3", "4", "5", "6", "7"],
+    codFee: { minimum: 50, percent: 2 },
+    services: [
+      {
+        name: "express",
+        firstHalfKg: { local: 55, regional: 70, national: 95 },
+        additionalHalfKg: { local: 45, regional: 60, national: 85 },
+        days: { local: 1, regional: 2, national: 2 },
+      },
+    ],
+  },
+  xpressbees: {
+    awbPrefix: "XPB",
+    regions: ["1", "2", "3", "4", "5", "6"],
+    codFee: { minimum: 30, percent: 1.5 },
+    services: [
+      {
+        name: "surface",
+        firstHalfKg: { local: 27, regional: 34, national: 44 },
+        additionalHalfKg: { local: 22, regional: 28, national: 38 },
+        days: { local: 2, regional: 5, national: 7 },
+      },
+    ],
+  },
+};
+
+const zoneOf = (fromPincode: string, toPincode: string): Zone => {
+  if (fromPincode.slice(0, 3) === toPincode.slice(0, 3)) return "local";
+  if (fromPincode[0] === toPincode[0]) return "regional";
+  return "national";
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Offline carrier that quotes from a fixed rate card and books shipments without calling anyone.
+ * Everything tracking needs is packed into the AWB itself (booking time, transit days and whether
+ * the parcel will be returned), so tracking keeps working across restarts:
+ *
+ *   <prefix><booked at, unix seconds><transit days><1 = return to origin><2 random digits>
+ *
+ * Parcels to pincodes ending in 99 are returned to origin, to exercise the RTO path.
+ */
+export class SimulatedCarrier implements CarrierConnector {
+  private readonly profile: CarrierProfile;
+
+  constructor(readonly carrier: Carrier, private readonly now: () => Date = () => new Date()) {
+    this.profile = profiles[carrier];
+  }
+
+  private serves(pincode: string) {
+    return this.profile.regions.includes(pincode[0]);
+  }
+
+  async getRates(request: RateRequest): Promise<CarrierRate[]> {
+    if (!this.serves(request.fromPincode) || !this.serves(request.toPincode)) return [];
+
+    const zone = zoneOf(request.fromPincode, request.toPincode);
+    const halfKgs = Math.max(1, Math.ceil(request.parcel.weightKg / 0.5));
+    const codFee = request.parcel.codAmount
+      ? Math.max(this.profile.codFee.minimum, (request.parcel.codAmount * this.profile.codFee.percent) / 100)
+      : 0;
+
+    return this.profile.services.map((service) => ({
+      carrier: this.carrier,
+      service: service.name,
+      cost: round(service.firstHalfKg[zone] + (halfKgs - 1) * service.additionalHalfKg[zone] + codFee),
+      estimatedDays: service.days[zone],
+    }));
+  }
+
+  async createShipment(request: ShipmentRequest): Promise<BookedShipment> {
+    const rate = (await this.getRates(request)).find((r) => r.service === request.service);
+    if (!rate) {
+      throw new CarrierError(this.carrier, `${request.service} service is not available from ${request.fromPincode} to ${request.toPincode}`);
+    }
+
+    const bookedAt = this.now();
+    const returned = request.toPincode.endsWith("99") ? 1 : 0;
+    const awb = [
+      this.profile.awbPrefix,
+      Math.floor(bookedAt.getTime() / 1000),
+      rate.estimatedDays,
+      returned,
+      String(randomInt(100)).padStart(2, "0"),
+    ].join("");
+
+    return {
+      awb,
+      cost: rate.cost,
+      estimatedDeliveryAt: new Date(bookedAt.getTime() + rate.estimatedDays * DAY),
+      labelUrl: null,
+    };
+  }
+
+  // Our own 4x6 label carries everything the simulated carrier needs
+  async getLabel(): Promise<Buffer | null> {
+    return null;
+  }
+
+  private parseAwb(awb: string) {
+    const match = awb.match(/^([A-Z]{3})(\d{10})(\d)([01])\d{2}$/);
+    if (!match || match[1] !== this.profile.awbPrefix) {
+      throw new CarrierError(this.carrier, `Unknown AWB ${awb}`);
+    }
+    return {
+      bookedAt: parseInt(match[2], 10) * 1000,
+      days: parseInt(match[3], 10),
+      returned: match[4] === "1",
+    };
+  }
+
+  async cancelShipment(awb: string): Promise<void> {
+    const { bookedAt } = this.parseAwb(awb);
+    if (this.now().getTime() >= bookedAt + PICKUP_AFTER) {
+      throw new CarrierError(this.carrier, `Shipment ${awb} has already been picked up`);
+    }
+  }
+
+  async track(awb: string): Promise<TrackingEvent[]> {
+    const { bookedAt, days, returned } = this.parseAwb(awb);
+    const deliveryAt = bookedAt + days * DAY;
+
+    const timeline: [number, TrackingEvent["status"], string][] = [
+      [bookedAt, "booked", "Shipment booked"],
+      [bookedAt + PICKUP_AFTER, "in_transit", "Picked up"],
+      [bookedAt + PICKUP_AFTER + 8 * HOUR, "in_transit", "In transit"],
+      [deliveryAt - 6 * HOUR, "out_for_delivery", "Out for delivery"],
+    ];
+    if (returned) {
+      timeline.push(
+        [deliveryAt, "out_for_delivery", "Delivery attempted - customer unavailable"],
+        [deliveryAt + DAY, "rto_in_transit", "RTO initiated"],
+        [deliveryAt + (days + 1) * DAY, "rto_delivered", "RTO delivered"]
+      );
+    } else {
+      timeline.push([deliveryAt, "delivered", "Delivered"]);
+    }
+
+    const now = this.now().getTime();
+    return timeline
+      .filter(([at]) => at <= now)
+      .map(([at, status, description]) => ({ status, description, location: null, occurredAt: new Date(at) }));
+  }
+}
@@ -0,0 +1,69 @@
+import type { Carrier, Shipment, ShipmentStatus } from "@shared/schema";
+import type { OrderStatus } from "@shared/orderStatus";
+import { OrderStatusTransitionError, storage } from "../storage";
+import { getCarrier } from "./registry";
+
+export interface TrackingResult {
+  shipment: Shipment;
+  newEvents: number;
+  orderStatus?: OrderStatus; // set when tracking moved the order on
+}
+
+export interface TrackingSummary {
+  tracked: number;
+  updated: number;
+  delivered: number;
+  returned: number;
+  failures: string[];
+}
+
+// Carrier milestones that settle the order: handed to the customer, or back at our warehouse
+const orderStatusFor: Partial<Record<ShipmentStatus, OrderStatus>> = {
+  delivered: "delivered",
+  rto_delivered: "returned",
+};
+
+/**
+ * Fetches the carrier's checkpoints for one shipment, stores the new ones and, once the parcel is
+ * delivered or back at the warehouse, moves the order on through the normal status path so stock
+ * and history follow. An order someone already moved by hand is left as it is.
+ */
+export async function trackShipment(shipment: Shipment): Promise<TrackingResult> {
+  const events = await getCarrier(shipment.carrier).track(shipment.awb);
+  const recorded = await storage.recordTrackingEvents(shipment.id, events);
+  if (!recorded) return { shipment, newEvents: 0 };
+
+  const result: TrackingResult = { shipment: recorded.shipment, newEvents: recorded.added.length };
+  const target = orderStatusFor[recorded.shipment.status];
+  if (!target || recorded.shipment.status === shipment.status) return result;
+
+  const milestone = recorded.added.find(event => event.status === recorded.shipment.status);
+  try {
+    await storage.updateOrderStatus(
+      shipment.orderId,
+      target,
+      `${milestone?.description ?? target} per ${shipment.carrier} tracking, AWB ${shipment.awb}`
+    );
+    result.orderStatus = target;
+  } catch (error) {
+    if (!(error instanceof OrderStatusTransitionError)) throw error;
+  }
+  return result;
+}
+
+// Polls every shipment still with a carrier. One AWB failing does not hold back the rest.
+export async function trackShipments(carrier?: Carrier): Promise<TrackingSummary> {
+  const summary: TrackingSummary = { tracked: 0, updated: 0, delivered: 0, returned: 0, failures: [] };
+  for (const shipment of await storage.getTrackableShipments(carrier)) {
+    try {
+      const result = await trackShipment(shipment);
+      summary.tracked++;
+      if (result.newEvents > 0) summary.updated++;
+      if (result.orderStatus === "delivered") summary.delivered++;
+      if (result.orderStatus === "returned") summary.returned++;
+    } catch (error) {
+      summary.failures.push(`${shipment.awb}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,66 @@
+import type { Carrier, ShipmentStatus } from "@shared/schema";
+
+export interface Parcel {
+  weightKg: number;
+  declaredValue: number;
+  codAmount: number | null; // cash to collect on delivery, null when prepaid
+}
+
+export interface RateRequest {
+  fromPincode: string;
+  toPincode: string;
+  parcel: Parcel;
+}
+
+// One bookable service; a carrier that cannot serve the lane returns no rates at all
+export interface CarrierRate {
+  carrier: Carrier;
+  service: string;
+  cost: number;
+  estimatedDays: number;
+}
+
+export interface ShipmentRequest extends RateRequest {
+  service: string;
+  reference: string; // our order reference, printed on the carrier's manifest
+  consignee: {
+    name: string;
+    phone: string | null;
+    address: string;
+  };
+}
+
+export interface BookedShipment {
+  awb: string;
+  cost: number;
+  estimatedDeliveryAt: Date;
+  labelUrl: string | null;
+}
+
+// Connectors map their own status codes onto ours; the wording is kept for the timeline
+export interface TrackingEvent {
+  status: Exclude<ShipmentStatus, 'cancelled'>;
+  description: string; // carrier wording, e.g. "Picked up"
+  location: string | null;
+  occurredAt: Date;
+}
+
+export interface CarrierConnector {
+  readonly carrier: Carrier;
+  getRates(request: RateRequest): Promise<CarrierRate[]>;
+  createShipment(request: ShipmentRequest): Promise<BookedShipment>;
+  // The carrier's own label as a PDF, or null when it doesn't issue one and ours is used instead
+  getLabel(awb: string): Promise<Buffer | null>;
+  cancelShipment(awb: string): Promise<void>;
+  track(awb: string): Promise<TrackingEvent[]>;
+}
+
+export type CarrierConnectorFactory = (carrier: Carrier) => CarrierConnector;
+
+// A carrier refused a request, e.g. an unserviceable pincode or a cancellation after pickup
+export class CarrierError extends Error {
+  constructor(readonly carrier: Carrier, message: string) {
+    super(message);
+    this.name = "CarrierError";
+  }
+}
@@ -1,6 +1,7 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
+import { createRequire } from "module";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
@@ -12,4 +13,22 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+const neonDb = drizzle({ client: pool, schema });
+
+// DATABASE_URL=pglite:memory runs Postgres inside the process instead (used by `npm test`).
+// The data only lives as long as the process and the schema has to be pushed into it first.
+export const db: typeof neonDb = process.env.DATABASE_URL.startsWith("pglite:") ? inProcessDatabase() : neonDb;
+
+function inProcessDatabase(): typeof neonDb {
+  // Required lazily so the in-process driver, a dev dependency, is never loaded in production
+  const require = createRequire(import.meta.url);
+  const { PGlite } = require("@electric-sql/pglite") as typeof import("@electric-sql/pglite");
+  const { drizzle: drizzlePglite } = require("drizzle-orm/pglite") as typeof import("drizzle-orm/pglite");
+  // Same Postgres query builder over a different driver, so storage code runs unchanged
+  return drizzlePglite({ client: new PGlite(), schema }) as unknown as typeof neonDb;
+}
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Either the root connection or an open transaction, for helpers that must join the caller's transaction
+export type DbExecutor = typeof db | DbTransaction;
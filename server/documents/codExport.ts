@@ -0,0 +1,25 @@
+import type { Writable } from "stream";
+import type { OutstandingCod } from "@shared/schema";
+import { codAgingBuckets, codAgingBucket } from "@shared/payments";
+import { toCsvRow } from "../csv";
+
+const csvColumns: { header: string; value: (entry: OutstandingCod) => string | number | Date | null }[] = [
+  { header: "Order ID", value: (entry) => entry.order.platformOrderId },
+  { header: "Platform", value: (entry) => entry.order.platform },
+  { header: "Customer", value: (entry) => entry.order.customerName },
+  { header: "Carrier", value: (entry) => entry.gateway },
+  { header: "AWB", value: (entry) => entry.transactionId },
+  { header: "COD Amount", value: (entry) => entry.amount },
+  { header: "Collected At", value: (entry) => entry.occurredAt },
+  { header: "Age (days)", value: (entry) => entry.ageDays },
+  {
+    header: "Aging Bucket",
+    value: (entry) => codAgingBuckets.find((bucket) => bucket.key === codAgingBucket(entry.ageDays))!.label,
+  },
+];
+
+// Unremitted COD is a few hundred rows at most, so it is written in one go
+export function writeOutstandingCodCsv(res: Writable, entries: OutstandingCod[]): void {
+  res.write(toCsvRow(csvColumns.map((column) => column.header)));
+  res.end(entries.map((entry) => toCsvRow(csvColumns.map((column) => column.value(entry)))).join(""));
+}
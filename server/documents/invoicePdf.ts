@@ -0,0 +1,144 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import PDFDocument from "pdfkit";
+import type { Invoice, InvoiceLine } from "@shared/schema";
+import { gstStates } from "@shared/gst";
+
+const MARGIN = 36;
+const ROW_HEIGHT = 18;
+
+const formatMoney = (amount: string | number) =>
+  `Rs. ${Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const stateLabel = (code: string) => {
+  const state = gstStates.find((s) => s.code === code);
+  return state ? `${state.name} (${state.code})` : code;
+};
+
+type LineColumn = {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+  value: (line: InvoiceLine) => string;
+};
+
+// Credit notes name the invoice they reverse, so the caller passes it alongside
+export async function writeInvoicePdf(res: Writable, invoice: Invoice, original?: Invoice): Promise<void> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  doc.pipe(res);
+
+  const isCreditNote = invoice.type === "credit_note";
+  const contentWidth = doc.page.width - MARGIN * 2;
+
+  // Intra-state invoices show the CGST/SGST halves, inter-state ones a single IGST column
+  const taxColumns: LineColumn[] = invoice.isInterState
+    ? [{ header: "IGST", width: 80, align: "right", value: (line) => formatMoney(line.igst) }]
+    : [
+        { header: "CGST", width: 55, align: "right", value: (line) => formatMoney(line.cgst) },
+        { header: "SGST", width: 55, align: "right", value: (line) => formatMoney(line.sgst) },
+      ];
+  const columns: LineColumn[] = [
+    { header: "Description", width: invoice.isInterState ? 150 : 120, value: (line) => line.description },
+    { header: "HSN", width: 45, value: (line) => line.hsnCode ?? "" },
+    { header: "Qty", width: 25, align: "right", value: (line) => String(line.quantity) },
+    { header: "Rate", width: 55, align: "right", value: (line) => formatMoney(line.unitPrice) },
+    { header: "Taxable", width: 60, align: "right", value: (line) => formatMoney(line.taxableValue) },
+    { header: "GST %", width: 35, align: "right", value: (line) => `${Number(line.gstRate)}%` },
+    ...taxColumns,
+    { header: "Total", width: 73, align: "right", value: (line) => formatMoney(line.total) },
+  ];
+
+  let y = MARGIN;
+
+  const drawRow = (cells: string[], options: { bold?: boolean } = {}) => {
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x + 2, y + 5, {
+        width: column.width - 4,
+        height: ROW_HEIGHT,
+        align: column.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const rule = () => doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth, y).stroke();
+
+  doc.font("Helvetica-Bold").fontSize(16)
+    .text(isCreditNote ? "Credit Note" : "Tax Invoice", MARGIN, y, { width: contentWidth, align: "center" });
+  y += 30;
+
+  // Seller on the left, document details on the right
+  const half = contentWidth / 2;
+  doc.font("Helvetica-Bold").fontSize(10).text(invoice.sellerName, MARGIN, y, { width: half - 10 });
+  doc.font("Helvetica").fontSize(8)
+    .text(invoice.sellerAddress, { width: half - 10 })
+    .text(`GSTIN: ${invoice.sellerGstin}`)
+    .text(`State: ${stateLabel(invoice.sellerStateCode)}`);
+  const sellerBottom = doc.y;
+
+  doc.font("Helvetica").fontSize(8)
+    .text(`${isCreditNote ? "Credit Note" : "Invoice"} No: ${invoice.invoiceNumber}`, MARGIN + half, y, { width: half })
+    .text(`Date: ${new Date(invoice.invoiceDate).toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" })}`)
+    .text(`Place of Supply: ${stateLabel(invoice.placeOfSupply)}`);
+  if (original) {
+    doc.text(`Against Invoice: ${original.invoiceNumber}`);
+  }
+  y = Math.max(sellerBottom, doc.y) + 12;
+
+  doc.font("Helvetica-Bold").fontSize(9).text("Bill To / Ship To", MARGIN, y);
+  doc.font("Helvetica").fontSize(8)
+    .text(invoice.customerName, { width: contentWidth })
+    .text(invoice.billingAddress ?? "", { width: contentWidth });
+  y = doc.y + 12;
+
+  rule();
+  drawRow(columns.map((column) => column.header), { bold: true });
+  rule();
+
+  for (const line of invoice.lines) {
+    if (y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      drawRow(columns.map((column) => column.header), { bold: true });
+      rule();
+    }
+    drawRow(columns.map((column) => column.value(line)));
+  }
+  rule();
+  y += 8;
+
+  const totals: [string, string][] = [
+    ["Taxable Value", invoice.taxableValue],
+    ...(invoice.isInterState
+      ? [["IGST", invoice.igst] as [string, string]]
+      : [["CGST", invoice.cgst] as [string, string], ["SGST", invoice.sgst] as [string, string]]),
+  ];
+  if (y + (totals.length + 2) * 14 > doc.page.height - MARGIN) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.font("Helvetica").fontSize(9);
+  for (const [label, amount] of totals) {
+    doc.text(label, MARGIN + half, y, { width: half / 2 });
+    doc.text(formatMoney(amount), MARGIN + half + half / 2, y, { width: half / 2, align: "right" });
+    y += 14;
+  }
+  doc.font("Helvetica-Bold").fontSize(10);
+  doc.text(isCreditNote ? "Total Credit" : "Invoice Total", MARGIN + half, y, { width: half / 2 });
+  doc.text(formatMoney(invoice.totalAmount), MARGIN + half + half / 2, y, { width: half / 2, align: "right" });
+  y += 30;
+
+  doc.font("Helvetica").fontSize(7).fillColor("#666666")
+    .text("This is a computer generated document and does not require a signature.", MARGIN, y, {
+      width: contentWidth,
+      align: "center",
+    });
+
+  doc.end();
+  await once(res, "finish");
+}
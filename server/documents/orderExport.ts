@@ -0,0 +1,141 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import PDFDocument from "pdfkit";
+import type { Order } from "@shared/schema";
+import { toCsvRow } from "../csv";
+
+type ExportColumn = {
+  header: string;
+  value: (order: Order) => string | number | Date | null;
+};
+
+const csvColumns: ExportColumn[] = [
+  { header: "Order ID", value: (order) => order.platformOrderId },
+  { header: "Platform", value: (order) => order.platform },
+  { header: "Status", value: (order) => order.status },
+  { header: "Payment Status", value: (order) => order.paymentStatus },
+  { header: "Customer", value: (order) => order.customerName },
+  { header: "Phone", value: (order) => order.customerPhone },
+  { header: "Email", value: (order) => order.customerEmail },
+  { header: "Product", value: (order) => order.productName },
+  { header: "SKU", value: (order) => order.productSku },
+  { header: "Quantity", value: (order) => order.quantity },
+  { header: "Total Amount", value: (order) => order.totalAmount },
+  { header: "Total Cost", value: (order) => order.totalCost },
+  { header: "Platform Fees", value: (order) => order.platformFees },
+  { header: "Shipping Cost", value: (order) => order.shippingCost },
+  { header: "Profit", value: (order) => order.profit },
+  { header: "Carrier", value: (order) => order.carrier },
+  { header: "Tracking Number", value: (order) => order.trackingNumber },
+  { header: "Created At", value: (order) => order.createdAt },
+];
+
+const formatMoney = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export async function writeOrdersCsv(res: Writable, batches: AsyncIterable<Order[]>): Promise<void> {
+  res.write(toCsvRow(csvColumns.map((column) => column.header)));
+
+  for await (const batch of batches) {
+    const chunk = batch
+      .map((order) => toCsvRow(csvColumns.map((column) => column.value(order))))
+      .join("");
+
+    // Respect backpressure so a slow client doesn't make us buffer the whole export
+    if (!res.write(chunk)) {
+      await once(res, "drain");
+    }
+  }
+
+  res.end();
+}
+
+const pdfColumns: (ExportColumn & { width: number; align?: "left" | "right" })[] = [
+  { header: "Date", width: 70, value: (order) => order.createdAt ? new Date(order.createdAt).toLocaleDateString("en-IN") : "" },
+  { header: "Order ID", width: 130, value: (order) => order.platformOrderId },
+  { header: "Platform", width: 65, value: (order) => order.platform },
+  { header: "Customer", width: 130, value: (order) => order.customerName },
+  { header: "Product", width: 170, value: (order) => order.productName },
+  { header: "Qty", width: 35, align: "right", value: (order) => order.quantity },
+  { header: "Status", width: 70, value: (order) => order.status },
+  { header: "Amount", width: 90, align: "right", value: (order) => formatMoney(parseFloat(order.totalAmount)) },
+];
+
+const ROW_HEIGHT = 18;
+const MARGIN = 36;
+
+export async function writeOrdersPdf(
+  res: Writable,
+  batches: AsyncIterable<Order[]>,
+  subtitle: string
+): Promise<void> {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: MARGIN });
+  doc.pipe(res);
+
+  let pageNumber = 0;
+  let y = 0;
+
+  const drawRow = (cells: string[], options: { bold?: boolean } = {}) => {
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+    let x = MARGIN;
+    pdfColumns.forEach((column, index) => {
+      doc.text(cells[index], x + 2, y + 5, {
+        width: column.width - 4,
+        height: ROW_HEIGHT,
+        align: column.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const startPage = () => {
+    if (pageNumber > 0) doc.addPage();
+    pageNumber += 1;
+    y = MARGIN;
+
+    doc.font("Helvetica-Bold").fontSize(14).text("Orders Export", MARGIN, y);
+    doc.font("Helvetica").fontSize(8).fillColor("#666666")
+      .text(`${subtitle} | Page ${pageNumber}`, MARGIN, y + 18);
+    doc.fillColor("#000000");
+    y += 40;
+
+    drawRow(pdfColumns.map((column) => column.header), { bold: true });
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).stroke();
+  };
+
+  const ensureSpace = (rows: number) => {
+    if (y + rows * ROW_HEIGHT > doc.page.height - MARGIN) startPage();
+  };
+
+  startPage();
+
+  let orderCount = 0;
+  let units = 0;
+  let revenue = 0;
+  let profit = 0;
+
+  for await (const batch of batches) {
+    for (const order of batch) {
+      ensureSpace(1);
+      drawRow(pdfColumns.map((column) => String(column.value(order) ?? "")));
+
+      orderCount += 1;
+      units += order.quantity;
+      revenue += parseFloat(order.totalAmount);
+      profit += parseFloat(order.profit || "0");
+    }
+  }
+
+  ensureSpace(4);
+  doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).stroke();
+  y += 8;
+  doc.font("Helvetica-Bold").fontSize(10);
+  doc.text(`Orders: ${orderCount}    Units: ${units}`, MARGIN, y);
+  doc.text(`Revenue: ${formatMoney(revenue)}    Profit: ${formatMoney(profit)}`, MARGIN, y + 16);
+
+  doc.end();
+  await once(res, "finish");
+}
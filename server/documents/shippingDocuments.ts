@@ -0,0 +1,213 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js/node";
+import type { OrderForShipping } from "@shared/schema";
+import { findGstState } from "@shared/gst";
+import { lineWeightKg, parcelWeightKg } from "@shared/shipping";
+
+export const shippingDocumentTypes = ["packing_slip", "label"] as const;
+export type ShippingDocumentType = (typeof shippingDocumentTypes)[number];
+
+const MARGIN = 36;
+const ROW_HEIGHT = 18;
+// Thermal label printers take 4x6 inch stock
+const LABEL_SIZE: [number, number] = [288, 432];
+const LABEL_MARGIN = 12;
+
+const formatMoney = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const barcode = (text: string) =>
+  bwipjs.toBuffer({ bcid: "code128", text, scale: 3, height: 10, includetext: true, textxalign: "center" });
+
+const shipToLines = (order: OrderForShipping) => {
+  const state = findGstState(order.shippingState);
+  return [
+    order.customerName,
+    order.shippingAddress || order.customerAddress || "",
+    state ? state.name : order.shippingState ?? "",
+    order.customerPhone ? `Phone: ${order.customerPhone}` : "",
+  ].filter(Boolean);
+};
+
+const shipFromLines = (order: OrderForShipping) =>
+  order.warehouse ? [order.warehouse.name, order.warehouse.location ?? ""].filter(Boolean) : ["Warehouse not assigned"];
+
+// Cash to collect on delivery, or null for prepaid orders
+const codAmount = (order: OrderForShipping) =>
+  order.paymentMethod?.toLowerCase() === "cod" && order.paymentStatus !== "paid"
+    ? parseFloat(order.totalAmount)
+    : null;
+
+const packingSlipColumns: { header: string; width: number; align?: "left" | "right" }[] = [
+  { header: "SKU", width: 100 },
+  { header: "Product", width: 193 },
+  { header: "Qty", width: 40, align: "right" },
+  { header: "Pack", width: 40, align: "right" },
+  { header: "Units", width: 50, align: "right" },
+  { header: "Weight", width: 100, align: "right" },
+];
+
+async function drawPackingSlip(doc: PDFKit.PDFDocument, order: OrderForShipping) {
+  const contentWidth = doc.page.width - MARGIN * 2;
+  const half = contentWidth / 2;
+  let y = MARGIN;
+
+  const drawRow = (cells: string[], options: { bold?: boolean } = {}) => {
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    let x = MARGIN;
+    packingSlipColumns.forEach((column, index) => {
+      doc.text(cells[index], x + 2, y + 5, {
+        width: column.width - 4,
+        height: ROW_HEIGHT,
+        align: column.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+  const rule = () => doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth, y).stroke();
+
+  doc.font("Helvetica-Bold").fontSize(16).text("Packing Slip", MARGIN, y);
+  doc.image(await barcode(order.platformOrderId), MARGIN + half, y, { fit: [half, 50], align: "right" });
+  doc.font("Helvetica").fontSize(9)
+    .text(`Order: ${order.platformOrderId}`, MARGIN, y + 22)
+    .text(`Platform: ${order.platform.charAt(0).toUpperCase() + order.platform.slice(1)}`)
+    .text(`Date: ${order.createdAt ? new Date(order.createdAt).toLocaleDateString("en-IN") : ""}`);
+  y += 70;
+
+  doc.font("Helvetica-Bold").fontSize(10).text("Ship To", MARGIN, y);
+  doc.text("Ship From", MARGIN + half, y);
+  doc.font("Helvetica").fontSize(9).text(shipToLines(order).join("\n"), MARGIN, y + 14, { width: half - 10 });
+  const shipToBottom = doc.y;
+  doc.text(shipFromLines(order).join("\n"), MARGIN + half, y + 14, { width: half });
+  y = Math.max(shipToBottom, doc.y) + 16;
+
+  rule();
+  drawRow(packingSlipColumns.map((column) => column.header), { bold: true });
+  rule();
+  for (const item of order.items) {
+    if (y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      drawRow(packingSlipColumns.map((column) => column.header), { bold: true });
+      rule();
+    }
+    const weight = lineWeightKg(item);
+    drawRow([
+      item.sku ?? "",
+      item.productName,
+      String(item.quantity),
+      String(item.packSize),
+      String(item.quantity * item.packSize),
+      weight === null ? "" : `${weight.toFixed(3)} kg`,
+    ]);
+  }
+  rule();
+  y += 8;
+
+  const weight = parcelWeightKg(order.items);
+  doc.font("Helvetica-Bold").fontSize(10)
+    .text(`Total units: ${order.items.reduce((sum, item) => sum + item.quantity * item.packSize, 0)}`, MARGIN, y)
+    .text(`Total weight: ${weight === null ? "unknown" : `${weight.toFixed(3)} kg`}`, MARGIN + half, y, {
+      width: half,
+      align: "right",
+    });
+  y += 40;
+
+  doc.font("Helvetica").fontSize(9)
+    .text("Packed by: ____________________", MARGIN, y)
+    .text("Checked by: ____________________", MARGIN + half, y, { width: half, align: "right" });
+}
+
+async function drawLabel(doc: PDFKit.PDFDocument, order: OrderForShipping) {
+  const width = LABEL_SIZE[0] - LABEL_MARGIN * 2;
+  const left = LABEL_MARGIN;
+  let y = LABEL_MARGIN;
+
+  const divider = () => {
+    doc.moveTo(left, y).lineTo(left + width, y).stroke();
+    y += 6;
+  };
+
+  doc.font("Helvetica-Bold").fontSize(11)
+    .text(order.platform.toUpperCase(), left, y, { width: width / 2 });
+  const cod = codAmount(order);
+  doc.text(cod === null ? "PREPAID" : `COD ${formatMoney(cod)}`, left + width / 2, y, { width: width / 2, align: "right" });
+  y += 18;
+  divider();
+
+  doc.font("Helvetica-Bold").fontSize(8).text("SHIP TO", left, y);
+  doc.font("Helvetica-Bold").fontSize(11).text(order.customerName, left, y + 10, { width });
+  doc.font("Helvetica").fontSize(9).text(shipToLines(order).slice(1).join("\n"), { width, height: 80, ellipsis: true });
+  y = Math.max(doc.y, y + 60) + 6;
+  divider();
+
+  // The carrier scans the tracking number; it is blank until the order has been handed over
+  doc.font("Helvetica-Bold").fontSize(8).text("AWB / TRACKING", left, y);
+  y += 10;
+  if (order.trackingNumber) {
+    doc.image(await barcode(order.trackingNumber), left, y, { fit: [width, 60], align: "center" });
+  } else {
+    doc.font("Helvetica").fontSize(9).text("Not yet assigned", left, y + 20, { width, align: "center" });
+  }
+  y += 66;
+  divider();
+
+  doc.font("Helvetica-Bold").fontSize(8).text("ORDER", left, y);
+  y += 10;
+  doc.image(await barcode(order.platformOrderId), left, y, { fit: [width, 50], align: "center" });
+  y += 56;
+  divider();
+
+  const weight = parcelWeightKg(order.items);
+  const dimensions = order.items.length === 1 ? order.items[0].product?.dimensions : null;
+  doc.font("Helvetica").fontSize(8)
+    .text(`Weight: ${weight === null ? "-" : `${weight.toFixed(3)} kg`}`, left, y, { width: width / 2 })
+    .text(`Dimensions: ${dimensions || "-"}`, left + width / 2, y, { width: width / 2, align: "right" });
+  y += 14;
+  doc.text(
+    `Contents: ${order.items.map((item) => `${item.sku || item.productName} x${item.quantity}`).join(", ")}`,
+    left,
+    y,
+    { width, height: 22, ellipsis: true }
+  );
+  y += 26;
+  divider();
+
+  doc.font("Helvetica-Bold").fontSize(8).text("RETURN TO", left, y);
+  doc.font("Helvetica").fontSize(8).text(shipFromLines(order).join(", "), left, y + 10, {
+    width,
+    height: 30,
+    ellipsis: true,
+  });
+}
+
+// One page per order: A4 packing slips, or 4x6 labels for thermal printers
+export async function writeShippingDocumentsPdf(
+  res: Writable,
+  type: ShippingDocumentType,
+  orders: OrderForShipping[]
+): Promise<void> {
+  const doc = new PDFDocument(
+    type === "label"
+      ? { size: LABEL_SIZE, margin: LABEL_MARGIN, autoFirstPage: false }
+      : { size: "A4", margin: MARGIN, autoFirstPage: false }
+  );
+  doc.pipe(res);
+
+  for (const order of orders) {
+    doc.addPage();
+    if (type === "label") {
+      await drawLabel(doc, order);
+    } else {
+      await drawPackingSlip(doc, order);
+    }
+  }
+
+  doc.end();
+  await once(res, "finish");
+}
@@ -0,0 +1,131 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import PDFDocument from "pdfkit";
+import type { BusinessSettings, Warehouse, WarehouseTransferWithDetails } from "@shared/schema";
+import { gstStates } from "@shared/gst";
+
+const MARGIN = 36;
+const ROW_HEIGHT = 18;
+
+const formatMoney = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+type TransferLine = WarehouseTransferWithDetails["items"][number];
+
+// Goods moved between our own premises are valued at cost
+const lineValue = (line: TransferLine) => line.quantity * parseFloat(line.product.costPrice ?? "0");
+
+const columns: { header: string; width: number; align?: "left" | "right"; value: (line: TransferLine, index: number) => string }[] = [
+  { header: "#", width: 25, value: (_, index) => String(index + 1) },
+  { header: "SKU", width: 90, value: (line) => line.product.sku },
+  { header: "Description", width: 170, value: (line) => line.product.name },
+  { header: "HSN", width: 50, value: (line) => line.product.hsnCode ?? "" },
+  { header: "Qty", width: 40, align: "right", value: (line) => String(line.quantity) },
+  { header: "Rate", width: 65, align: "right", value: (line) => formatMoney(parseFloat(line.product.costPrice ?? "0")) },
+  { header: "Value", width: 83, align: "right", value: (line) => formatMoney(lineValue(line)) },
+];
+
+const warehouseLines = (warehouse: Warehouse) =>
+  [warehouse.name, warehouse.location ?? "", warehouse.pincode ? `PIN ${warehouse.pincode}` : ""].filter(Boolean);
+
+/**
+ * The delivery challan that travels with a dispatched transfer. Before dispatch there is no challan
+ * number yet, so the same layout prints as a transfer note for picking.
+ */
+export async function writeTransferChallanPdf(
+  res: Writable,
+  transfer: WarehouseTransferWithDetails,
+  seller?: BusinessSettings
+): Promise<void> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  doc.pipe(res);
+
+  const contentWidth = doc.page.width - MARGIN * 2;
+  const half = contentWidth / 2;
+  let y = MARGIN;
+
+  const drawRow = (cells: string[], options: { bold?: boolean } = {}) => {
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x + 2, y + 5, {
+        width: column.width - 4,
+        height: ROW_HEIGHT,
+        align: column.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+  const rule = () => doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth, y).stroke();
+
+  doc.font("Helvetica-Bold").fontSize(16)
+    .text(transfer.challanNumber ? "Delivery Challan" : "Transfer Note", MARGIN, y, { width: contentWidth, align: "center" });
+  y += 30;
+
+  if (seller) {
+    const state = gstStates.find((s) => s.code === seller.stateCode);
+    doc.font("Helvetica-Bold").fontSize(10).text(seller.legalName, MARGIN, y, { width: half - 10 });
+    doc.font("Helvetica").fontSize(8)
+      .text(seller.address, { width: half - 10 })
+      .text(`GSTIN: ${seller.gstin}`)
+      .text(`State: ${state ? `${state.name} (${state.code})` : seller.stateCode}`);
+  }
+  const sellerBottom = doc.y;
+
+  const dated = transfer.shippedAt ?? transfer.createdAt;
+  doc.font("Helvetica").fontSize(8)
+    .text(`Challan No: ${transfer.challanNumber ?? "Not yet dispatched"}`, MARGIN + half, y, { width: half })
+    .text(`Date: ${dated ? new Date(dated).toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" }) : ""}`)
+    .text("Purpose: Stock transfer between own premises, not a sale")
+    .text(`Transfer: ${transfer.id}`);
+  y = Math.max(seller ? sellerBottom : y, doc.y) + 12;
+
+  doc.font("Helvetica-Bold").fontSize(9).text("Dispatch From", MARGIN, y);
+  doc.text("Deliver To", MARGIN + half, y);
+  doc.font("Helvetica").fontSize(8).text(warehouseLines(transfer.fromWarehouse).join("\n"), MARGIN, y + 12, { width: half - 10 });
+  const fromBottom = doc.y;
+  doc.text(warehouseLines(transfer.toWarehouse).join("\n"), MARGIN + half, y + 12, { width: half });
+  y = Math.max(fromBottom, doc.y) + 12;
+
+  rule();
+  drawRow(columns.map((column) => column.header), { bold: true });
+  rule();
+  transfer.items.forEach((line, index) => {
+    if (y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      drawRow(columns.map((column) => column.header), { bold: true });
+      rule();
+    }
+    drawRow(columns.map((column) => column.value(line, index)));
+  });
+  rule();
+  y += 8;
+
+  if (y + 100 > doc.page.height - MARGIN) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.font("Helvetica-Bold").fontSize(10)
+    .text(`Total units: ${transfer.items.reduce((sum, line) => sum + line.quantity, 0)}`, MARGIN, y)
+    .text(`Total value: ${formatMoney(transfer.items.reduce((sum, line) => sum + lineValue(line), 0))}`, MARGIN + half, y, {
+      width: half,
+      align: "right",
+    });
+  y += 20;
+  if (transfer.notes) {
+    doc.font("Helvetica").fontSize(8).text(`Notes: ${transfer.notes}`, MARGIN, y, { width: contentWidth });
+    y = doc.y + 10;
+  }
+  y += 30;
+
+  doc.font("Helvetica").fontSize(9)
+    .text("Dispatched by: ____________________", MARGIN, y)
+    .text("Received by: ____________________", MARGIN + half, y, { width: half, align: "right" });
+
+  doc.end();
+  await once(res, "finish");
+}
@@ -0,0 +1,260 @@
+import { z } from "zod";
+import type {
+  Carrier,
+  InsertCodRemittance,
+  InsertCodRemittanceLine,
+  Order,
+  OrderPayment,
+  SettlementMatchStatus,
+} from "@shared/schema";
+import { isCashOnDelivery } from "@shared/payments";
+import { storage } from "../storage";
+import { cleanAmount, parseReportFile, reportDate, suggestColumnMapping, type ReportFile } from "./reportFile";
+
+export const codRemittanceImportFields = [
+  { key: "remittanceRef", label: "Remittance ID / UTR", required: false },
+  { key: "awb", label: "AWB", required: true },
+  { key: "amount", label: "COD Amount", required: true },
+  { key: "remittedDate", label: "Remittance Date", required: false },
+] as const;
+
+export type CodRemittanceImportField = (typeof codRemittanceImportFields)[number]["key"];
+export type CodRemittanceColumnMapping = Partial<Record<CodRemittanceImportField, string>>;
+
+// Column names used by each courier's COD remittance report
+const carrierColumnPresets: Record<Carrier, Partial<Record<CodRemittanceImportField, string[]>>> = {
+  delhivery: {
+    remittanceRef: ["UTR", "Remittance ID", "CRF ID"],
+    awb: ["Waybill", "Waybill No", "AWB"],
+    amount: ["COD Amount", "Amount Remitted"],
+    remittedDate: ["Remittance Date", "UTR Date"],
+  },
+  bluedart: {
+    remittanceRef: ["UTR No", "Cheque/UTR No", "Remittance No"],
+    awb: ["AWB No", "Airwaybill No"],
+    amount: ["COD Amount", "Collectable Amount"],
+    remittedDate: ["Remittance Date", "Payment Date"],
+  },
+  xpressbees: {
+    remittanceRef: ["UTR Number", "Remittance ID"],
+    awb: ["AWB Number", "AWB No"],
+    amount: ["COD Amount", "Remitted Amount"],
+    remittedDate: ["Remittance Date", "Remitted On"],
+  },
+};
+
+// Differences below a rupee are rounding between the courier's figures and ours
+const AMOUNT_TOLERANCE = 1;
+
+const codRemittanceRowSchema = z.object({
+  remittanceRef: z.string().optional(),
+  awb: z.string({ required_error: "AWB is required" }).min(1, "AWB is required"),
+  amount: z.preprocess(
+    cleanAmount,
+    z.coerce.number({ invalid_type_error: "Must be a number" }).nonnegative("Must be a positive amount")
+  ),
+  remittedDate: reportDate.optional(),
+});
+
+type CodRemittanceRow = z.infer<typeof codRemittanceRowSchema>;
+
+export interface CodRemittanceRowResult {
+  rowNumber: number;
+  awb?: string;
+  status: "valid" | "invalid";
+  matchStatus?: SettlementMatchStatus;
+  errors: string[];
+}
+
+export interface CodRemittanceImportBatch {
+  remittance: InsertCodRemittance;
+  lines: InsertCodRemittanceLine[];
+  alreadyImported: boolean;
+}
+
+export interface CodRemittanceImportValidation {
+  rows: CodRemittanceRowResult[];
+  batches: CodRemittanceImportBatch[];
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    matched: number;
+    mismatch: number;
+    unmatched: number;
+  };
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => {
+    const field = codRemittanceImportFields.find((f) => f.key === issue.path[0]);
+    return field ? `${field.label}: ${issue.message}` : issue.message;
+  });
+
+const money = (value: number) => value.toFixed(2);
+
+// Why an AWB has no COD collection to match, in terms of its order
+function unmatchedReason(order: Order | undefined): string {
+  if (!order) return "No order with this AWB";
+  if (!isCashOnDelivery(order.paymentMethod)) return `Order #${order.platformOrderId} is not cash on delivery`;
+  if (order.status !== "delivered") return `Order #${order.platformOrderId} is ${order.status}, not delivered`;
+  return `No COD collection recorded for order #${order.platformOrderId}`;
+}
+
+/**
+ * Matches each remitted AWB to the cash collected on delivery for it. Only a line that matches in
+ * amount and has not been remitted before (in this report or an earlier one) marks the COD remitted;
+ * everything else is kept with the reason so it can be taken up with the courier.
+ */
+function matchLines(
+  carrier: Carrier,
+  rows: CodRemittanceRow[],
+  collectionsByAwb: Map<string, OrderPayment>,
+  ordersByAwb: Map<string, Order>
+): InsertCodRemittanceLine[] {
+  const seen = new Set<string>();
+
+  return rows.map((row) => {
+    const line = { awb: row.awb, amount: money(row.amount) };
+    const collection = collectionsByAwb.get(row.awb);
+    if (!collection) {
+      const order = ordersByAwb.get(row.awb);
+      return { ...line, orderId: order?.id, matchStatus: "unmatched", mismatchReason: unmatchedReason(order) };
+    }
+
+    const reasons: string[] = [];
+    if (collection.gateway && collection.gateway !== carrier) {
+      reasons.push(`Collected by ${collection.gateway}, not ${carrier}`);
+    }
+    if (collection.codRemittedAt) {
+      reasons.push(`Already remitted${collection.codRemittanceReference ? ` under ${collection.codRemittanceReference}` : ""}`);
+    } else if (seen.has(row.awb)) {
+      reasons.push("AWB appears more than once in this report");
+    }
+    if (Math.abs(row.amount - parseFloat(collection.amount)) > AMOUNT_TOLERANCE) {
+      reasons.push(`Remitted ${money(row.amount)} but ${collection.amount} was collected`);
+    }
+    seen.add(row.awb);
+
+    return {
+      ...line,
+      orderId: collection.orderId,
+      paymentId: collection.id,
+      expectedAmount: collection.amount,
+      matchStatus: reasons.length > 0 ? "mismatch" : "matched",
+      mismatchReason: reasons.length > 0 ? reasons.join("; ") : null,
+    };
+  });
+}
+
+function summarise(
+  carrier: Carrier,
+  remittanceRef: string,
+  fileName: string,
+  lines: InsertCodRemittanceLine[],
+  dates: Date[]
+): InsertCodRemittance {
+  return {
+    carrier,
+    remittanceRef,
+    fileName,
+    remittedAt: dates.length > 0 ? new Date(Math.max(...dates.map((date) => date.getTime()))) : null,
+    amount: money(lines.reduce((total, line) => total + parseFloat(line.amount), 0)),
+    matchedCount: lines.filter((line) => line.matchStatus === "matched").length,
+    mismatchCount: lines.filter((line) => line.matchStatus === "mismatch").length,
+    unmatchedCount: lines.filter((line) => line.matchStatus === "unmatched").length,
+  };
+}
+
+export async function validateCodRemittanceImport(
+  report: ReportFile,
+  mapping: CodRemittanceColumnMapping,
+  options: { carrier: Carrier; remittanceRef?: string; fileName: string }
+): Promise<CodRemittanceImportValidation> {
+  const parsedRows = report.rows.map((raw, index) => {
+    const values: Record<string, string> = {};
+    for (const [field, column] of Object.entries(mapping)) {
+      const value = column ? raw[column] : undefined;
+      if (value) values[field] = value;
+    }
+
+    const result: CodRemittanceRowResult = {
+      rowNumber: index + 2,
+      awb: values.awb,
+      status: "valid",
+      errors: [],
+    };
+
+    const parsed = codRemittanceRowSchema.safeParse(values);
+    if (!parsed.success) {
+      result.status = "invalid";
+      result.errors = formatIssues(parsed.error);
+      return { result, row: undefined };
+    }
+    return { result, row: parsed.data };
+  });
+
+  const valid = parsedRows.filter((parsed): parsed is typeof parsed & { row: CodRemittanceRow } => !!parsed.row);
+  const awbs = Array.from(new Set(valid.map(({ row }) => row.awb)));
+  const [collections, orders] = await Promise.all([
+    storage.getCodCollectionsByAwb(awbs),
+    storage.getOrdersByTrackingNumbers(awbs),
+  ]);
+  const collectionsByAwb = new Map(collections.map((collection) => [collection.transactionId!, collection]));
+  const ordersByAwb = new Map(orders.map((order) => [order.trackingNumber!, order]));
+
+  const lines = matchLines(options.carrier, valid.map(({ row }) => row), collectionsByAwb, ordersByAwb);
+  valid.forEach(({ result }, index) => {
+    result.matchStatus = lines[index].matchStatus;
+    if (lines[index].mismatchReason) result.errors.push(lines[index].mismatchReason!);
+  });
+
+  // A report can cover several remittances; each UTR becomes its own remittance
+  const fallbackRef = options.remittanceRef || options.fileName;
+  const groups = new Map<string, { lines: InsertCodRemittanceLine[]; dates: Date[] }>();
+  valid.forEach(({ row }, index) => {
+    const ref = row.remittanceRef || fallbackRef;
+    const group = groups.get(ref) ?? { lines: [], dates: [] };
+    group.lines.push(lines[index]);
+    if (row.remittedDate) group.dates.push(row.remittedDate);
+    groups.set(ref, group);
+  });
+
+  const existingRefs = new Set(await storage.getExistingCodRemittanceRefs(options.carrier, Array.from(groups.keys())));
+  const batches = Array.from(groups.entries()).map(([remittanceRef, group]) => ({
+    remittance: summarise(options.carrier, remittanceRef, options.fileName, group.lines, group.dates),
+    lines: group.lines,
+    alreadyImported: existingRefs.has(remittanceRef),
+  }));
+
+  const rows = parsedRows.map(({ result }) => result);
+  return {
+    rows,
+    batches,
+    summary: {
+      totalRows: rows.length,
+      validRows: rows.filter((row) => row.status === "valid").length,
+      invalidRows: rows.filter((row) => row.status === "invalid").length,
+      matched: rows.filter((row) => row.matchStatus === "matched").length,
+      mismatch: rows.filter((row) => row.matchStatus === "mismatch").length,
+      unmatched: rows.filter((row) => row.matchStatus === "unmatched").length,
+    },
+  };
+}
+
+// Parses the uploaded courier remittance report and matches it against COD collections. Used for preview and commit.
+export async function prepareCodRemittanceImport(
+  file: { buffer: Buffer; originalname: string },
+  options: { carrier: Carrier; mapping?: CodRemittanceColumnMapping; remittanceRef?: string }
+): Promise<{ columns: string[]; mapping: CodRemittanceColumnMapping; validation: CodRemittanceImportValidation }> {
+  const report = await parseReportFile(file.buffer, file.originalname);
+  const mapping =
+    options.mapping ?? suggestColumnMapping(report.columns, codRemittanceImportFields, carrierColumnPresets[options.carrier]);
+
+  const validation = await validateCodRemittanceImport(report, mapping, {
+    carrier: options.carrier,
+    remittanceRef: options.remittanceRef,
+    fileName: file.originalname,
+  });
+  return { columns: report.columns, mapping, validation };
+}
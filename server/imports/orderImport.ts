@@ -0,0 +1,355 @@
+import { z } from "zod";
+import {
+  insertOrderWithItemsSchema,
+  orderStatusEnum,
+  paymentStatusEnum,
+  type InsertOrderWithItems,
+  type Platform,
+} from "@shared/schema";
+import { PINCODE_PATTERN } from "@shared/shipping";
+import { storage, type CatalogueMatch } from "../storage";
+import {
+  cleanAmount,
+  normalizeColumnName,
+  parseReportFile,
+  suggestColumnMapping,
+  type ReportFile,
+} from "./reportFile";
+
+export const orderImportFields = [
+  { key: "platformOrderId", label: "Order ID", required: true },
+  { key: "customerName", label: "Customer Name", required: true },
+  { key: "customerEmail", label: "Customer Email", required: false },
+  { key: "customerPhone", label: "Customer Phone", required: false },
+  { key: "shippingAddress", label: "Shipping Address", required: false },
+  { key: "shippingState", label: "Shipping State", required: false },
+  { key: "shippingPincode", label: "Shipping Pincode", required: false },
+  { key: "productSku", label: "SKU", required: false },
+  { key: "productName", label: "Product Name", required: false },
+  { key: "quantity", label: "Quantity", required: true },
+  { key: "unitPrice", label: "Unit Price", required: false },
+  { key: "itemTotal", label: "Item Total", required: false },
+  { key: "taxAmount", label: "Tax", required: false },
+  { key: "discountAmount", label: "Discount", required: false },
+  { key: "status", label: "Order Status", required: false },
+  { key: "paymentStatus", label: "Payment Status", required: false },
+  { key: "paymentMethod", label: "Payment Method", required: false },
+  { key: "trackingNumber", label: "Tracking Number", required: false },
+] as const;
+
+export type OrderImportField = (typeof orderImportFields)[number]["key"];
+export type ColumnMapping = Partial<Record<OrderImportField, string>>;
+
+// Column names used by each marketplace's order report, tried before the generic field names
+const platformColumnPresets: Record<Platform, Partial<Record<OrderImportField, string[]>>> = {
+  amazon: {
+    platformOrderId: ["amazon-order-id", "order-id"],
+    customerName: ["buyer-name", "recipient-name"],
+    customerEmail: ["buyer-email"],
+    customerPhone: ["buyer-phone-number", "ship-phone-number"],
+    shippingAddress: ["ship-address-1"],
+    shippingState: ["ship-state"],
+    shippingPincode: ["ship-postal-code"],
+    productSku: ["sku", "seller-sku"],
+    productName: ["product-name"],
+    quantity: ["quantity-purchased", "quantity"],
+    itemTotal: ["item-price"],
+    taxAmount: ["item-tax"],
+    discountAmount: ["item-promotion-discount"],
+    status: ["order-status", "item-status"],
+    paymentMethod: ["payment-method"],
+  },
+  flipkart: {
+    platformOrderId: ["Order Id", "order_id"],
+    customerName: ["Buyer name", "Customer Name"],
+    shippingAddress: ["Address Line 1", "Shipping Address"],
+    shippingState: ["State"],
+    shippingPincode: ["PIN Code", "Pincode"],
+    productSku: ["SKU", "Seller SKU"],
+    productName: ["Product Title", "Product"],
+    quantity: ["Quantity"],
+    unitPrice: ["Selling Price Per Item"],
+    itemTotal: ["Invoice Amount"],
+    status: ["Order State"],
+    trackingNumber: ["Tracking ID"],
+  },
+  meesho: {
+    platformOrderId: ["Sub Order No", "Order Number"],
+    customerName: ["Customer Name"],
+    shippingState: ["Customer State"],
+    shippingPincode: ["Customer Pincode", "Pincode"],
+    productSku: ["SKU"],
+    productName: ["Product Name"],
+    quantity: ["Quantity"],
+    itemTotal: ["Supplier Discounted Price (Incl GST and Commision)", "Supplier Listed Price (Incl. GST + Commission)"],
+    status: ["Reason for Credit Entry", "Order Status"],
+    paymentMethod: ["Payment Mode"],
+  },
+  website: {},
+};
+
+// Marketplace wording for order states that don't match our enum directly
+const statusSynonyms: Record<string, string> = {
+  unshipped: "pending",
+  new: "pending",
+  approved: "processing",
+  readytodispatch: "processing",
+  packed: "processing",
+  intransit: "shipped",
+  dispatched: "shipped",
+  canceled: "cancelled",
+  rto: "returned",
+  rtocomplete: "returned",
+  returncomplete: "returned",
+};
+
+const paymentStatusSynonyms: Record<string, string> = {
+  prepaid: "paid",
+  cod: "pending",
+  unpaid: "pending",
+};
+
+const amount = z.preprocess(
+  cleanAmount,
+  z.coerce.number({ invalid_type_error: "Must be a number" }).nonnegative("Must be a positive amount")
+);
+
+const enumValue = (values: readonly string[], synonyms: Record<string, string>, label: string) =>
+  z.string().transform((value, ctx) => {
+    const key = normalizeColumnName(value);
+    const resolved = values.includes(key) ? key : synonyms[key];
+    if (!resolved) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${label} "${value}"` });
+      return z.NEVER;
+    }
+    return resolved;
+  });
+
+const importRowSchema = z
+  .object({
+    platformOrderId: z.string({ required_error: "Order ID is required" }).min(1, "Order ID is required"),
+    customerName: z.string({ required_error: "Customer name is required" }).min(1, "Customer name is required"),
+    customerEmail: z.string().email("Invalid email").optional(),
+    customerPhone: z.string().optional(),
+    shippingAddress: z.string().optional(),
+    shippingState: z.string().optional(),
+    shippingPincode: z
+      .string()
+      .transform((value) => value.replace(/\s/g, ""))
+      .pipe(z.string().regex(PINCODE_PATTERN, "Pincode must be 6 digits"))
+      .optional(),
+    productSku: z.string().optional(),
+    productName: z.string().optional(),
+    quantity: z.coerce
+      .number({ required_error: "Quantity is required", invalid_type_error: "Quantity must be a number" })
+      .int("Quantity must be a whole number")
+      .positive("Quantity must be at least 1"),
+    unitPrice: amount.optional(),
+    itemTotal: amount.optional(),
+    taxAmount: amount.optional(),
+    discountAmount: amount.optional(),
+    status: enumValue(orderStatusEnum.enumValues, statusSynonyms, "order status").optional(),
+    paymentStatus: enumValue(paymentStatusEnum.enumValues, paymentStatusSynonyms, "payment status").optional(),
+    paymentMethod: z.string().optional(),
+    trackingNumber: z.string().optional(),
+  })
+  .refine((row) => row.unitPrice !== undefined || row.itemTotal !== undefined, {
+    message: "Unit price or item total is required",
+    path: ["unitPrice"],
+  });
+
+type ImportRow = z.infer<typeof importRowSchema>;
+
+export interface ImportRowResult {
+  rowNumber: number;
+  platformOrderId?: string;
+  productSku?: string;
+  status: "valid" | "invalid" | "duplicate";
+  errors: string[];
+}
+
+export interface OrderImportValidation {
+  rows: ImportRowResult[];
+  orders: InsertOrderWithItems[];
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    duplicateRows: number;
+    unmappedRows: number;
+    orders: number;
+  };
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => {
+    const field = orderImportFields.find((f) => f.key === issue.path[0]);
+    return field ? `${field.label}: ${issue.message}` : issue.message;
+  });
+
+// Validates every mapped row, links SKUs to catalogue products and groups lines into orders.
+// An order is only importable when all of its rows are valid.
+export function validateOrderImport(
+  report: ReportFile,
+  mapping: ColumnMapping,
+  options: {
+    platform: Platform;
+    warehouseId?: string;
+    catalogueMatches: Map<string, CatalogueMatch>;
+    existingOrderIds: Set<string>;
+  }
+): OrderImportValidation {
+  const parsedRows = report.rows.map((raw, index) => {
+    const values: Record<string, string> = {};
+    for (const [field, column] of Object.entries(mapping)) {
+      const value = column ? raw[column] : undefined;
+      if (value) values[field] = value;
+    }
+
+    const result: ImportRowResult = {
+      // +2: one for the header row and one because spreadsheets count from 1
+      rowNumber: index + 2,
+      platformOrderId: values.platformOrderId,
+      productSku: values.productSku,
+      status: "valid",
+      errors: [],
+    };
+
+    const parsed = importRowSchema.safeParse(values);
+    if (!parsed.success) {
+      result.status = "invalid";
+      result.errors = formatIssues(parsed.error);
+      return { result, row: undefined };
+    }
+
+    const match = parsed.data.productSku ? options.catalogueMatches.get(parsed.data.productSku) : undefined;
+    if (!parsed.data.productName && !match) {
+      result.status = "invalid";
+      result.errors.push("Product Name: required when the SKU does not match a product");
+    }
+
+    return { result, row: parsed.data, match };
+  });
+
+  const groups = new Map<string, typeof parsedRows>();
+  for (const parsed of parsedRows) {
+    const key = parsed.result.platformOrderId;
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), parsed]);
+  }
+
+  const orders: InsertOrderWithItems[] = [];
+  for (const [platformOrderId, group] of Array.from(groups.entries())) {
+    if (options.existingOrderIds.has(platformOrderId)) {
+      group.forEach(({ result }) => {
+        result.status = "duplicate";
+        result.errors.push("Order already exists for this platform");
+      });
+      continue;
+    }
+
+    if (group.some(({ result }) => result.status === "invalid")) {
+      group.forEach(({ result }) => {
+        if (result.status === "valid") {
+          result.status = "invalid";
+          result.errors.push("Another line of this order has errors");
+        }
+      });
+      continue;
+    }
+
+    const order = buildOrder(platformOrderId, group.map(({ row, match }) => ({ row: row!, match })), options);
+    const parsedOrder = insertOrderWithItemsSchema.safeParse(order);
+    if (!parsedOrder.success) {
+      const errors = parsedOrder.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      group.forEach(({ result }) => {
+        result.status = "invalid";
+        result.errors.push(...errors);
+      });
+      continue;
+    }
+
+    orders.push(parsedOrder.data);
+  }
+
+  const rows = parsedRows.map(({ result }) => result);
+  return {
+    rows,
+    orders,
+    summary: {
+      totalRows: rows.length,
+      validRows: rows.filter((row) => row.status === "valid").length,
+      invalidRows: rows.filter((row) => row.status === "invalid").length,
+      duplicateRows: rows.filter((row) => row.status === "duplicate").length,
+      // Imported, but the order is flagged for review until a listing maps the SKU
+      unmappedRows: parsedRows.filter(({ result, match }) => result.status === "valid" && !match).length,
+      orders: orders.length,
+    },
+  };
+}
+
+function buildOrder(
+  platformOrderId: string,
+  lines: { row: ImportRow; match?: CatalogueMatch }[],
+  options: { platform: Platform; warehouseId?: string }
+): InsertOrderWithItems {
+  const [{ row: first }] = lines;
+
+  return {
+    platform: options.platform,
+    platformOrderId,
+    warehouseId: options.warehouseId,
+    customerName: first.customerName,
+    customerEmail: first.customerEmail,
+    customerPhone: first.customerPhone,
+    shippingAddress: first.shippingAddress,
+    shippingState: first.shippingState,
+    shippingPincode: first.shippingPincode,
+    status: first.status as InsertOrderWithItems["status"],
+    paymentStatus: first.paymentStatus as InsertOrderWithItems["paymentStatus"],
+    paymentMethod: first.paymentMethod,
+    trackingNumber: first.trackingNumber,
+    // Product, pack size and cost are linked from the listing when the order is stored
+    items: lines.map(({ row, match }) => ({
+      productName: row.productName || match!.product.name,
+      sku: row.productSku,
+      quantity: row.quantity,
+      // Marketplace reports usually give the line total rather than a unit price
+      unitPrice: (row.unitPrice ?? row.itemTotal! / row.quantity).toFixed(2),
+      taxAmount: (row.taxAmount ?? 0).toFixed(2),
+      discountAmount: (row.discountAmount ?? 0).toFixed(2),
+    })),
+  };
+}
+
+// Parses the uploaded report and validates it against the catalogue and existing orders.
+// Used for both the preview and the commit step so the commit never trusts client state.
+export async function prepareOrderImport(
+  file: { buffer: Buffer; originalname: string },
+  options: { platform: Platform; mapping?: ColumnMapping; warehouseId?: string }
+): Promise<{ columns: string[]; mapping: ColumnMapping; validation: OrderImportValidation }> {
+  const report = await parseReportFile(file.buffer, file.originalname);
+  const mapping =
+    options.mapping ?? suggestColumnMapping(report.columns, orderImportFields, platformColumnPresets[options.platform]);
+
+  const skuColumn = mapping.productSku;
+  const orderIdColumn = mapping.platformOrderId;
+  const skus = skuColumn ? Array.from(new Set(report.rows.map((row) => row[skuColumn]).filter(Boolean))) : [];
+  const orderIds = orderIdColumn
+    ? Array.from(new Set(report.rows.map((row) => row[orderIdColumn]).filter(Boolean)))
+    : [];
+
+  const [catalogueMatches, existingOrderIds] = await Promise.all([
+    storage.matchCatalogueSkus(options.platform, skus),
+    storage.getExistingPlatformOrderIds(options.platform, orderIds),
+  ]);
+
+  const validation = validateOrderImport(report, mapping, {
+    platform: options.platform,
+    warehouseId: options.warehouseId,
+    catalogueMatches,
+    existingOrderIds: new Set(existingOrderIds),
+  });
+
+  return { columns: report.columns, mapping, validation };
+}
@@ -0,0 +1,94 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { parseCsv } from "../csv";
+
+export interface ReportFile {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Reads an uploaded marketplace/courier report (CSV, tab separated text or XLSX) into
+// header-keyed rows. Only the first worksheet of a workbook is used.
+export async function parseReportFile(buffer: Buffer, filename: string): Promise<ReportFile> {
+  const extension = filename.split(".").pop()?.toLowerCase();
+
+  let table: string[][];
+  if (extension === "xlsx") {
+    table = await readWorkbook(buffer);
+  } else if (extension === "csv" || extension === "txt" || extension === "tsv") {
+    const text = buffer.toString("utf8");
+    const [firstLine = ""] = text.split(/\r?\n/, 1);
+    table = parseCsv(text, firstLine.includes("\t") ? "\t" : ",");
+  } else {
+    throw new Error("Unsupported file type. Upload a .csv, .txt or .xlsx report");
+  }
+
+  const [header = [], ...body] = table;
+  const columns = header.map((column) => column.trim());
+
+  return {
+    columns,
+    rows: body.map((cells) =>
+      Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? "").trim()]))
+    ),
+  };
+}
+
+async function readWorkbook(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? "");
+    }
+    table.push(cells);
+  });
+  return table;
+}
+
+// Case and punctuation insensitive key used to match report headers to known column names
+export function normalizeColumnName(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Picks a report column for each field: the platform's own column names first, then the field key and label
+export function suggestColumnMapping<K extends string>(
+  columns: string[],
+  fields: readonly { key: K; label: string }[],
+  presets: Partial<Record<K, string[]>>
+): Partial<Record<K, string>> {
+  const byNormalizedName = new Map(columns.map((column) => [normalizeColumnName(column), column]));
+  const mapping: Partial<Record<K, string>> = {};
+
+  for (const field of fields) {
+    const candidates = [...(presets[field.key] ?? []), field.key, field.label];
+    const match = candidates
+      .map((candidate) => byNormalizedName.get(normalizeColumnName(candidate)))
+      .find(Boolean);
+    if (match) mapping[field.key] = match;
+  }
+
+  return mapping;
+}
+
+// Strips currency symbols and thousands separators so "₹1,299.00" parses as a number
+export const cleanAmount = (value: unknown) =>
+  typeof value === "string" ? value.replace(/₹|rs\.?|inr|,|\s/gi, "") : value;
+
+// Accepts ISO dates and the day-first dates Indian marketplace and courier reports use
+export const reportDate = z.string().transform((value, ctx) => {
+  const dayFirst = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(.*)$/);
+  const parsed = dayFirst
+    ? new Date(`${dayFirst[3]}-${dayFirst[2].padStart(2, "0")}-${dayFirst[1].padStart(2, "0")}${dayFirst[4]}`)
+    : new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unrecognised date "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
@@ -0,0 +1,308 @@
+import { z } from "zod";
+import type { InsertSettlement, InsertSettlementLine, Order, Platform, SettlementMatchStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { cleanAmount, parseReportFile, reportDate, suggestColumnMapping, type ReportFile } from "./reportFile";
+
+export const settlementImportFields = [
+  { key: "settlementRef", label: "Settlement ID", required: false },
+  { key: "platformOrderId", label: "Order ID", required: true },
+  { key: "transactionType", label: "Transaction Type", required: false },
+  { key: "postedDate", label: "Posted Date", required: false },
+  { key: "saleAmount", label: "Sale Amount", required: true },
+  { key: "commission", label: "Commission", required: false },
+  { key: "shippingFee", label: "Shipping Fee", required: false },
+  { key: "tcs", label: "TCS", required: false },
+  { key: "tds", label: "TDS", required: false },
+  { key: "netPayout", label: "Net Payout", required: false },
+] as const;
+
+export type SettlementImportField = (typeof settlementImportFields)[number]["key"];
+export type SettlementColumnMapping = Partial<Record<SettlementImportField, string>>;
+
+// Column names used by each marketplace's payment report
+const platformColumnPresets: Record<Platform, Partial<Record<SettlementImportField, string[]>>> = {
+  amazon: {
+    settlementRef: ["settlement id", "settlement-id"],
+    platformOrderId: ["order id", "order-id"],
+    transactionType: ["type", "transaction-type"],
+    postedDate: ["date/time", "posted-date"],
+    saleAmount: ["product sales"],
+    commission: ["selling fees"],
+    shippingFee: ["fba fees"],
+    tcs: ["tcs-igst", "tcs"],
+    tds: ["tds (section 194-o)", "tds"],
+    netPayout: ["total"],
+  },
+  flipkart: {
+    settlementRef: ["NEFT ID", "Settlement Ref No"],
+    platformOrderId: ["Order ID", "Order Item ID"],
+    transactionType: ["Order Type", "Type"],
+    postedDate: ["Payment Date", "Settlement Date"],
+    saleAmount: ["Sale Amount (Rs.)", "Sale Amount"],
+    commission: ["Commission (Rs.)", "Commission"],
+    shippingFee: ["Shipping Fee (Rs.)", "Shipping Fee"],
+    tcs: ["TCS (Rs.)"],
+    tds: ["TDS (Rs.)"],
+    netPayout: ["Settlement Value (Rs.)", "Bank Settlement Value (Rs.)"],
+  },
+  meesho: {
+    settlementRef: ["Transaction ID", "UTR"],
+    platformOrderId: ["Sub Order No"],
+    transactionType: ["Live Order Status"],
+    postedDate: ["Payment Date"],
+    saleAmount: ["Total Sale Amount (Incl. Shipping & GST)"],
+    commission: ["Meesho Commission (Incl. GST)"],
+    shippingFee: ["Shipping Charge (Incl. GST)"],
+    tcs: ["TCS"],
+    tds: ["TDS"],
+    netPayout: ["Final Settlement Amount"],
+  },
+  website: {},
+};
+
+// Differences below a rupee are rounding between the platform's figures and ours
+const AMOUNT_TOLERANCE = 1;
+
+const signedAmount = z.preprocess(
+  (value) => {
+    const cleaned = cleanAmount(value);
+    // Accounting style negatives: "(120.00)"
+    return typeof cleaned === "string" ? cleaned.replace(/^\((.*)\)$/, "-$1") : cleaned;
+  },
+  z.coerce.number({ invalid_type_error: "Must be a number" })
+);
+
+const settlementRowSchema = z.object({
+  settlementRef: z.string().optional(),
+  platformOrderId: z.string({ required_error: "Order ID is required" }).min(1, "Order ID is required"),
+  transactionType: z.string().optional(),
+  postedDate: reportDate.optional(),
+  saleAmount: signedAmount,
+  commission: signedAmount.default(0),
+  shippingFee: signedAmount.default(0),
+  tcs: signedAmount.default(0),
+  tds: signedAmount.default(0),
+  netPayout: signedAmount.optional(),
+});
+
+type SettlementRow = z.infer<typeof settlementRowSchema>;
+
+export interface SettlementRowResult {
+  rowNumber: number;
+  platformOrderId?: string;
+  status: "valid" | "invalid";
+  matchStatus?: SettlementMatchStatus;
+  errors: string[];
+}
+
+export interface SettlementImportBatch {
+  settlement: InsertSettlement;
+  lines: InsertSettlementLine[];
+  alreadyImported: boolean;
+}
+
+export interface SettlementImportValidation {
+  rows: SettlementRowResult[];
+  batches: SettlementImportBatch[];
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    matched: number;
+    mismatch: number;
+    unmatched: number;
+  };
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => {
+    const field = settlementImportFields.find((f) => f.key === issue.path[0]);
+    return field ? `${field.label}: ${issue.message}` : issue.message;
+  });
+
+const money = (value: number) => value.toFixed(2);
+
+// Reports differ in whether fees are shown as negative numbers. Fees are stored as deductions
+// that follow the direction of the sale: charged on a sale, given back on a refund.
+function toLine(row: SettlementRow): Omit<InsertSettlementLine, "matchStatus"> {
+  const direction = row.saleAmount < 0 ? -1 : 1;
+  const deduction = (value: number) => direction * Math.abs(value);
+  const commission = deduction(row.commission);
+  const shippingFee = deduction(row.shippingFee);
+  const tcs = deduction(row.tcs);
+  const tds = deduction(row.tds);
+
+  return {
+    platformOrderId: row.platformOrderId,
+    transactionType: row.transactionType,
+    postedAt: row.postedDate,
+    saleAmount: money(row.saleAmount),
+    commission: money(commission),
+    shippingFee: money(shippingFee),
+    tcs: money(tcs),
+    tds: money(tds),
+    netPayout: money(row.netPayout ?? row.saleAmount - commission - shippingFee - tcs - tds),
+  };
+}
+
+// What the platform should have paid us in total for an order: nothing once it is cancelled or returned
+const expectedSale = (order: Order) =>
+  order.status === "cancelled" || order.status === "returned" ? 0 : parseFloat(order.totalAmount);
+
+/**
+ * Compares each line with its order. Sale amounts are compared per order across this report and
+ * every settlement imported before it, so a sale paid in one period and refunded in the next
+ * reconciles once both are in.
+ */
+function matchLines(
+  lines: Omit<InsertSettlementLine, "matchStatus">[],
+  ordersByPlatformId: Map<string, Order>,
+  previouslySettled: Map<string, number>
+): InsertSettlementLine[] {
+  const saleByOrder = new Map<string, number>();
+  for (const line of lines) {
+    const order = ordersByPlatformId.get(line.platformOrderId);
+    if (!order) continue;
+    saleByOrder.set(order.id, (saleByOrder.get(order.id) ?? previouslySettled.get(order.id) ?? 0) + parseFloat(line.saleAmount!));
+  }
+
+  return lines.map((line) => {
+    const order = ordersByPlatformId.get(line.platformOrderId);
+    if (!order) {
+      return { ...line, matchStatus: "unmatched", mismatchReason: "No order with this ID on the platform" };
+    }
+
+    const reasons: string[] = [];
+    const settled = saleByOrder.get(order.id)!;
+    const expected = expectedSale(order);
+    if (Math.abs(settled - expected) > AMOUNT_TOLERANCE) {
+      reasons.push(`Settled sale ${money(settled)} does not match expected ${money(expected)} (order ${order.status})`);
+    }
+
+    const deductions = ["commission", "shippingFee", "tcs", "tds"] as const;
+    const computedNet = parseFloat(line.saleAmount!) - deductions.reduce((sum, key) => sum + parseFloat(line[key]!), 0);
+    if (Math.abs(computedNet - parseFloat(line.netPayout)) > AMOUNT_TOLERANCE) {
+      reasons.push(`Net payout ${line.netPayout} is not sale less fees (${money(computedNet)})`);
+    }
+
+    return {
+      ...line,
+      orderId: order.id,
+      matchStatus: reasons.length > 0 ? "mismatch" : "matched",
+      mismatchReason: reasons.length > 0 ? reasons.join("; ") : null,
+    };
+  });
+}
+
+function summarise(
+  platform: Platform,
+  settlementRef: string,
+  fileName: string,
+  lines: InsertSettlementLine[]
+): InsertSettlement {
+  const sum = (pick: (line: InsertSettlementLine) => string | null | undefined) =>
+    lines.reduce((total, line) => total + parseFloat(pick(line) ?? "0"), 0);
+  const dates = lines.map((line) => line.postedAt).filter((date): date is Date => !!date);
+
+  return {
+    platform,
+    settlementRef,
+    fileName,
+    periodStart: dates.length > 0 ? new Date(Math.min(...dates.map((date) => date.getTime()))) : null,
+    periodEnd: dates.length > 0 ? new Date(Math.max(...dates.map((date) => date.getTime()))) : null,
+    saleAmount: money(sum((line) => line.saleAmount)),
+    fees: money(sum((line) => line.commission) + sum((line) => line.shippingFee)),
+    taxWithheld: money(sum((line) => line.tcs) + sum((line) => line.tds)),
+    netPayout: money(sum((line) => line.netPayout)),
+    matchedCount: lines.filter((line) => line.matchStatus === "matched").length,
+    mismatchCount: lines.filter((line) => line.matchStatus === "mismatch").length,
+    unmatchedCount: lines.filter((line) => line.matchStatus === "unmatched").length,
+  };
+}
+
+export async function validateSettlementImport(
+  report: ReportFile,
+  mapping: SettlementColumnMapping,
+  options: { platform: Platform; settlementRef?: string; fileName: string }
+): Promise<SettlementImportValidation> {
+  const parsedRows = report.rows.map((raw, index) => {
+    const values: Record<string, string> = {};
+    for (const [field, column] of Object.entries(mapping)) {
+      const value = column ? raw[column] : undefined;
+      if (value) values[field] = value;
+    }
+
+    const result: SettlementRowResult = {
+      rowNumber: index + 2,
+      platformOrderId: values.platformOrderId,
+      status: "valid",
+      errors: [],
+    };
+
+    const parsed = settlementRowSchema.safeParse(values);
+    if (!parsed.success) {
+      result.status = "invalid";
+      result.errors = formatIssues(parsed.error);
+      return { result, row: undefined };
+    }
+    return { result, row: parsed.data };
+  });
+
+  const valid = parsedRows.filter((parsed): parsed is typeof parsed & { row: SettlementRow } => !!parsed.row);
+  const orderIds = Array.from(new Set(valid.map(({ row }) => row.platformOrderId)));
+  const orders = await storage.getOrdersByPlatformOrderIds(options.platform, orderIds);
+  const ordersByPlatformId = new Map(orders.map((order) => [order.platformOrderId, order]));
+  const previouslySettled = await storage.getSettledSaleAmounts(orders.map((order) => order.id));
+
+  const lines = matchLines(valid.map(({ row }) => toLine(row)), ordersByPlatformId, previouslySettled);
+  valid.forEach(({ result }, index) => {
+    result.matchStatus = lines[index].matchStatus;
+    if (lines[index].mismatchReason) result.errors.push(lines[index].mismatchReason!);
+  });
+
+  // A report can span several payouts; each settlement id becomes its own settlement
+  const fallbackRef = options.settlementRef || options.fileName;
+  const groups = new Map<string, InsertSettlementLine[]>();
+  valid.forEach(({ row }, index) => {
+    const ref = row.settlementRef || fallbackRef;
+    groups.set(ref, [...(groups.get(ref) ?? []), lines[index]]);
+  });
+
+  const existingRefs = new Set(await storage.getExistingSettlementRefs(options.platform, Array.from(groups.keys())));
+  const batches = Array.from(groups.entries()).map(([settlementRef, group]) => ({
+    settlement: summarise(options.platform, settlementRef, options.fileName, group),
+    lines: group,
+    alreadyImported: existingRefs.has(settlementRef),
+  }));
+
+  const rows = parsedRows.map(({ result }) => result);
+  return {
+    rows,
+    batches,
+    summary: {
+      totalRows: rows.length,
+      validRows: rows.filter((row) => row.status === "valid").length,
+      invalidRows: rows.filter((row) => row.status === "invalid").length,
+      matched: rows.filter((row) => row.matchStatus === "matched").length,
+      mismatch: rows.filter((row) => row.matchStatus === "mismatch").length,
+      unmatched: rows.filter((row) => row.matchStatus === "unmatched").length,
+    },
+  };
+}
+
+// Parses the uploaded payment report and reconciles it against orders. Used for preview and commit.
+export async function prepareSettlementImport(
+  file: { buffer: Buffer; originalname: string },
+  options: { platform: Platform; mapping?: SettlementColumnMapping; settlementRef?: string }
+): Promise<{ columns: string[]; mapping: SettlementColumnMapping; validation: SettlementImportValidation }> {
+  const report = await parseReportFile(file.buffer, file.originalname);
+  const mapping =
+    options.mapping ?? suggestColumnMapping(report.columns, settlementImportFields, platformColumnPresets[options.platform]);
+
+  const validation = await validateSettlementImport(report, mapping, {
+    platform: options.platform,
+    settlementRef: options.settlementRef,
+    fileName: file.originalname,
+  });
+  return { columns: report.columns, mapping, validation };
+}
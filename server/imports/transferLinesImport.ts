@@ -0,0 +1,70 @@
+import { z } from "zod";
+import type { Product } from "@shared/schema";
+import { storage } from "../storage";
+import { parseReportFile, suggestColumnMapping } from "./reportFile";
+
+export const transferLineImportFields = [
+  { key: "sku", label: "SKU", required: true },
+  { key: "quantity", label: "Quantity", required: true },
+] as const;
+
+type TransferLineImportField = (typeof transferLineImportFields)[number]["key"];
+
+// Stock sheets exported from spreadsheets or other tools rarely agree on these two headers
+const columnPresets: Partial<Record<TransferLineImportField, string[]>> = {
+  sku: ["Seller SKU", "Item SKU", "Product SKU", "SKU Code"],
+  quantity: ["Qty", "Units", "Transfer Qty", "Quantity to Transfer"],
+};
+
+const transferLineRowSchema = z.object({
+  sku: z.string({ required_error: "SKU is required" }).min(1, "SKU is required"),
+  quantity: z.coerce
+    .number({ invalid_type_error: "Quantity must be a number" })
+    .int("Quantity must be a whole number")
+    .positive("Quantity must be at least 1"),
+});
+
+export interface TransferLineImportResult {
+  lines: { productId: string; product: Product; quantity: number }[];
+  errors: { rowNumber: number; sku?: string; message: string }[];
+}
+
+/**
+ * Reads a SKU/quantity sheet into transfer lines for the builder. Nothing is saved; the lines are
+ * reviewed and submitted with the transfer. A SKU listed twice is added up into one line.
+ */
+export async function parseTransferLines(file: { buffer: Buffer; originalname: string }): Promise<TransferLineImportResult> {
+  const report = await parseReportFile(file.buffer, file.originalname);
+  const mapping = suggestColumnMapping(report.columns, transferLineImportFields, columnPresets);
+  const missing = transferLineImportFields.filter((field) => !mapping[field.key]);
+  if (missing.length > 0) {
+    throw new Error(`Could not find a ${missing.map((field) => field.label).join(" or ")} column in the file`);
+  }
+
+  const errors: TransferLineImportResult["errors"] = [];
+  const quantities = new Map<string, number>();
+  report.rows.forEach((values, index) => {
+    const rowNumber = index + 2;
+    const parsed = transferLineRowSchema.safeParse({ sku: values[mapping.sku!], quantity: values[mapping.quantity!] });
+    if (!parsed.success) {
+      errors.push({ rowNumber, sku: values[mapping.sku!] || undefined, message: parsed.error.issues[0].message });
+      return;
+    }
+    quantities.set(parsed.data.sku, (quantities.get(parsed.data.sku) ?? 0) + parsed.data.quantity);
+  });
+
+  const products = await storage.getProductsBySkus(Array.from(quantities.keys()));
+  const productsBySku = new Map(products.map((product) => [product.sku, product]));
+  const lines: TransferLineImportResult["lines"] = [];
+  quantities.forEach((quantity, sku) => {
+    const product = productsBySku.get(sku);
+    if (product) {
+      lines.push({ productId: product.id, product, quantity });
+    } else {
+      const rowNumber = report.rows.findIndex((values) => values[mapping.sku!] === sku) + 2;
+      errors.push({ rowNumber, sku, message: `No product with SKU ${sku}` });
+    }
+  });
+
+  return { lines, errors: errors.sort((a, b) => a.rowNumber - b.rowNumber) };
+}
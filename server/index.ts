@@ -1,9 +1,22 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobRunner } from "./jobs/runner";
+import { startInventoryPushListener } from "./platforms/inventoryPush";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Webhook signatures are computed over the exact bytes received, not the re-serialised JSON
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,5 +80,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startInventoryPushListener();
+    startJobRunner().catch((error) => console.error("Failed to start job runner:", error));
   });
 })();
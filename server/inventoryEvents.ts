@@ -0,0 +1,9 @@
+import { EventEmitter } from "events";
+
+// Fired whenever on-hand or reserved stock for a product changes, so listeners
+// (e.g. the marketplace inventory push) don't have to be wired into every write path.
+export const inventoryEvents = new EventEmitter();
+
+export function emitStockChanged(productId: string): void {
+  inventoryEvents.emit("stockChanged", productId);
+}
@@ -0,0 +1,14 @@
+import { CronExpressionParser } from "cron-parser";
+
+export function getNextRunAt(cronExpression: string, after: Date = new Date()): Date {
+  return CronExpressionParser.parse(cronExpression, { currentDate: after }).next().toDate();
+}
+
+export function isValidCronExpression(cronExpression: string): boolean {
+  try {
+    CronExpressionParser.parse(cronExpression);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,118 @@
+import { createWriteStream } from "fs";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { carrierEnum, platformEnum, type Job, type JobType, type Platform } from "@shared/schema";
+import { storage } from "../storage";
+import { pushChannelInventory } from "../platforms/inventoryPush";
+import { syncPlatformOrders } from "../platforms/sync";
+import { trackShipments } from "../carriers/tracking";
+import { writeOrdersCsv, writeOrdersPdf } from "../documents/orderExport";
+
+type JobHandler = (payload: Record<string, unknown>) => Promise<Record<string, unknown>>;
+
+export const reportsDir = process.env.REPORTS_DIR || path.resolve(process.cwd(), "reports");
+
+const platformPayloadSchema = z.object({
+  platform: z.enum(platformEnum.enumValues).optional(),
+});
+
+const inventoryPayloadSchema = platformPayloadSchema.extend({
+  productIds: z.array(z.string()).optional(),
+});
+
+const reportPayloadSchema = z.object({
+  format: z.enum(["csv", "pdf"]).default("csv"),
+  days: z.number().int().positive().default(1),
+  platform: z.enum(platformEnum.enumValues).optional(),
+  status: z.string().optional(),
+});
+
+const trackingPayloadSchema = z.object({
+  carrier: z.enum(carrierEnum.enumValues).optional(),
+});
+
+// A payload without a platform means every platform whose connection is not disabled
+async function resolvePlatforms(platform?: Platform): Promise<Platform[]> {
+  if (platform) return [platform];
+  const connections = await storage.getPlatformConnections();
+  return platformEnum.enumValues.filter(p => connections.find(c => c.platform === p)?.isEnabled !== false);
+}
+
+const syncOrders: JobHandler = async (payload) => {
+  const { platform } = platformPayloadSchema.parse(payload);
+  const runs = [];
+  for (const target of await resolvePlatforms(platform)) {
+    runs.push(await syncPlatformOrders(target, 'scheduled'));
+  }
+
+  const failed = runs.filter(run => run.status === 'failed');
+  if (failed.length > 0) {
+    // Failing the job schedules a retry; partial runs are left for the Integrations page
+    throw new Error(failed.map(run => `${run.platform}: ${run.errorMessage}`).join("; "));
+  }
+  return { runs: runs.map(run => ({ id: run.id, platform: run.platform, status: run.status })) };
+};
+
+const pushInventory: JobHandler = async (payload) => {
+  const { platform, productIds } = inventoryPayloadSchema.parse(payload);
+  const results = [];
+  const failures: string[] = [];
+  for (const target of await resolvePlatforms(platform)) {
+    // One unreachable marketplace must not hold back the others
+    try {
+      results.push(await pushChannelInventory(target, productIds));
+    } catch (error) {
+      failures.push(`${target}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    // Listings already pushed are skipped on retry because their last push matches
+    throw new Error(failures.join("; "));
+  }
+  return { results };
+};
+
+const trackCarrierShipments: JobHandler = async (payload) => {
+  const { carrier } = trackingPayloadSchema.parse(payload);
+  const summary = await trackShipments(carrier);
+
+  // A few bad AWBs wait for the next poll; nothing tracked at all means the carrier is down, so retry
+  if (summary.failures.length > 0 && summary.tracked === 0) {
+    throw new Error(summary.failures.join("; "));
+  }
+  return { ...summary };
+};
+
+const generateReport: JobHandler = async (payload) => {
+  const { format, days, platform, status } = reportPayloadSchema.parse(payload);
+  const dateTo = new Date();
+  const dateFrom = new Date(dateTo.getTime() - days * 24 * 60 * 60 * 1000);
+  const filters = { platform, status, dateFrom: dateFrom.toISOString(), dateTo: dateTo.toISOString() };
+
+  await mkdir(reportsDir, { recursive: true });
+  const file = `orders-${dateTo.toISOString().slice(0, 19).replace(/[:T]/g, "-")}.${format}`;
+  const out = createWriteStream(path.join(reportsDir, file));
+  const batches = storage.getOrderBatches(filters);
+
+  if (format === "pdf") {
+    await writeOrdersPdf(out, batches, `Last ${days} day(s), generated ${dateTo.toLocaleString("en-IN")}`);
+  } else {
+    const finished = new Promise((resolve, reject) => out.on("finish", resolve).on("error", reject));
+    await writeOrdersCsv(out, batches);
+    await finished;
+  }
+  return { file, format, dateFrom: filters.dateFrom, dateTo: filters.dateTo };
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  platform_order_sync: syncOrders,
+  inventory_push: pushInventory,
+  report_generation: generateReport,
+  shipment_tracking: trackCarrierShipments,
+};
+
+export function runJob(job: Job): Promise<Record<string, unknown>> {
+  return jobHandlers[job.type](job.payload);
+}
@@ -0,0 +1,92 @@
+import { hostname } from "os";
+import type { InsertJobSchedule } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { getNextRunAt } from "./cron";
+import { runJob } from "./handlers";
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "15000", 10);
+// A job locked for longer than this is assumed to belong to an instance that died
+const LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const MAX_JOBS_PER_TICK = 10;
+
+const workerId = `${hostname()}:${process.pid}`;
+
+const defaultSchedules: InsertJobSchedule[] = [
+  { name: "Order sync", type: "platform_order_sync", cronExpression: "*/15 * * * *", payload: {} },
+  { name: "Inventory push", type: "inventory_push", cronExpression: "0 * * * *", payload: {} },
+  { name: "Shipment tracking", type: "shipment_tracking", cronExpression: "*/30 * * * *", payload: {} },
+  { name: "Daily orders report", type: "report_generation", cronExpression: "0 6 * * *", payload: { format: "csv", days: 1 } },
+];
+
+// Exponential backoff: 30s, 1m, 2m, ...
+const getRetryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+
+let timer: NodeJS.Timeout | undefined;
+let ticking = false;
+
+async function enqueueDueSchedules(now: Date): Promise<void> {
+  for (const schedule of await storage.getDueJobSchedules(now)) {
+    try {
+      const job = await storage.enqueueScheduledJob(schedule, getNextRunAt(schedule.cronExpression, now));
+      if (job) log(`queued ${job.type} job from schedule "${schedule.name}"`, "jobs");
+    } catch (error) {
+      console.error(`Error enqueueing schedule ${schedule.name}:`, error);
+    }
+  }
+}
+
+async function runNextJob(): Promise<boolean> {
+  const job = await storage.claimNextJob(workerId);
+  if (!job) return false;
+
+  try {
+    const result = await runJob(job);
+    await storage.completeJob(job.id, result);
+    log(`${job.type} job ${job.id} succeeded`, "jobs");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = job.attempts < job.maxAttempts
+      ? new Date(Date.now() + getRetryDelay(job.attempts))
+      : undefined;
+    await storage.failJob(job.id, message, retryAt);
+    console.error(`${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+  }
+  return true;
+}
+
+async function tick(): Promise<void> {
+  // A slow job must not overlap with the next poll
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    const now = new Date();
+    await storage.requeueStaleJobs(new Date(now.getTime() - LOCK_TIMEOUT_MS));
+    await enqueueDueSchedules(now);
+    for (let processed = 0; processed < MAX_JOBS_PER_TICK; processed++) {
+      if (!(await runNextJob())) break;
+    }
+  } catch (error) {
+    console.error("Error running background jobs:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+export async function startJobRunner(): Promise<void> {
+  if (timer || process.env.DISABLE_JOB_RUNNER === "true") return;
+
+  for (const schedule of defaultSchedules) {
+    await storage.ensureJobSchedule(schedule, getNextRunAt(schedule.cronExpression));
+  }
+
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  log(`job runner started as ${workerId}`, "jobs");
+}
+
+export function stopJobRunner(): void {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+}
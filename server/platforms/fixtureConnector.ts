@@ -0,0 +1,89 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { insertOrderWithItemsSchema, type Platform } from "@shared/schema";
+import type {
+  InventoryUpdate,
+  OrderStatusUpdate,
+  PlatformConnector,
+  PlatformCredentials,
+  PlatformOrder,
+  PlatformOrderPage,
+} from "./types";
+
+const PAGE_SIZE = 50;
+
+const fixtureOrderSchema = insertOrderWithItemsSchema
+  .omit({ platform: true, warehouseId: true })
+  .extend({ updatedAt: z.string().datetime() });
+
+const fixtureFileSchema = z.object({ orders: z.array(fixtureOrderSchema) });
+
+type FixtureOrder = z.infer<typeof fixtureOrderSchema>;
+
+// Cursors are "<updatedAt>|<platformOrderId>" so orders sharing a timestamp are never skipped
+const toCursor = (order: FixtureOrder) => `${order.updatedAt}|${order.platformOrderId}`;
+
+// Plain code-unit order, used for both sorting and the cursor filter so the two always agree
+const compareCursors = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const toPlatformOrder = ({ updatedAt, ...order }: FixtureOrder): PlatformOrder => order;
+
+/**
+ * Offline connector that replays orders from a JSON fixture, one file per platform
+ * (server/platforms/fixtures/<platform>.json unless the `fixtureFile` credential points elsewhere).
+ * An order may appear more than once with a later `updatedAt` to simulate status changes.
+ * Pushes are recorded in memory instead of being sent anywhere.
+ */
+export class FixtureConnector implements PlatformConnector {
+  readonly pushedInventory: InventoryUpdate[] = [];
+  readonly pushedStatuses: OrderStatusUpdate[] = [];
+  private readonly fixtureFile: string;
+
+  constructor(readonly platform: Platform, credentials: PlatformCredentials = {}) {
+    const fixturesDir = process.env.PLATFORM_FIXTURES_DIR || path.resolve(process.cwd(), "server", "platforms", "fixtures");
+    this.fixtureFile = credentials.fixtureFile
+      ? path.resolve(fixturesDir, credentials.fixtureFile)
+      : path.join(fixturesDir, `${platform}.json`);
+  }
+
+  private async loadOrders(): Promise<FixtureOrder[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.fixtureFile, "utf8");
+    } catch (error) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const { orders } = fixtureFileSchema.parse(JSON.parse(contents));
+    return orders.sort((a, b) => compareCursors(toCursor(a), toCursor(b)));
+  }
+
+  async fetchOrdersSince(cursor: string | null): Promise<PlatformOrderPage> {
+    const orders = await this.loadOrders();
+    const pending = cursor ? orders.filter((order) => compareCursors(toCursor(order), cursor) > 0) : orders;
+    const page = pending.slice(0, PAGE_SIZE);
+
+    return {
+      orders: page.map(toPlatformOrder),
+      nextCursor: page.length > 0 ? toCursor(page[page.length - 1]) : null,
+      hasMore: pending.length > page.length,
+    };
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | undefined> {
+    const orders = await this.loadOrders();
+    // The latest version of the order wins
+    const matches = orders.filter((order) => order.platformOrderId === platformOrderId);
+    return matches.length > 0 ? toPlatformOrder(matches[matches.length - 1]) : undefined;
+  }
+
+  async pushInventory(updates: InventoryUpdate[]): Promise<void> {
+    this.pushedInventory.push(...updates);
+  }
+
+  async pushOrderStatus(update: OrderStatusUpdate): Promise<void> {
+    this.pushedStatuses.push(update);
+  }
+}
@@ -0,0 +1,97 @@
+import type { Platform } from "@shared/schema";
+import { storage } from "../storage";
+import { inventoryEvents } from "../inventoryEvents";
+import { getConnector } from "./registry";
+
+const DEBOUNCE_MS = parseInt(process.env.INVENTORY_PUSH_DEBOUNCE_MS || "5000", 10);
+
+export interface ChannelPushResult {
+  platform: Platform;
+  pushed: number;
+  unchanged: number;
+}
+
+/**
+ * Pushes sellable stock for one platform: available quantity (on hand minus reserved) summed over the
+ * platform's warehouses, less the configured buffer. With productIds only those products are checked
+ * and listings whose last successful push already shows the same quantity are skipped; without them
+ * every SKU is pushed, which corrects any drift on the marketplace side.
+ */
+export async function pushChannelInventory(platform: Platform, productIds?: string[]): Promise<ChannelPushResult> {
+  const connection = await storage.getPlatformConnection(platform);
+  const warehouseIds = await storage.getChannelWarehouseIds(platform);
+  const buffer = connection?.stockBuffer ?? 0;
+
+  const stock = await storage.getAvailableStockBySku({
+    warehouseIds: warehouseIds.length > 0 ? warehouseIds : undefined,
+    productIds,
+  });
+  const listings = (await storage.getProductListings({ platform })).filter(listing => listing.isActive);
+
+  // Products with listings are offered under each listing's seller SKU, in whole packs;
+  // the rest under their catalogue SKU
+  const sellable = stock.flatMap(({ productId, sku, available }) => {
+    const units = Math.max(available - buffer, 0);
+    const productListings = listings.filter(listing => listing.productId === productId);
+    if (productListings.length === 0) return [{ sku, quantity: units }];
+    return productListings.map(listing => ({
+      sku: listing.sellerSku,
+      quantity: Math.floor(units / listing.packSize),
+    }));
+  });
+
+  let updates = sellable;
+  if (productIds) {
+    const previous = new Map(
+      (await storage.getChannelInventory(platform, sellable.map(item => item.sku))).map(row => [row.sku, row])
+    );
+    updates = sellable.filter(({ sku, quantity }) => {
+      const last = previous.get(sku);
+      return !last || last.lastStatus !== 'pushed' || last.lastPushedQuantity !== quantity;
+    });
+  }
+
+  if (updates.length > 0) {
+    const connector = getConnector(platform, connection?.credentials ?? {});
+    try {
+      await connector.pushInventory(updates);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.recordChannelInventoryPush(platform, updates.map(item => ({ ...item, status: 'failed', error: message })));
+      throw error;
+    }
+    await storage.recordChannelInventoryPush(platform, updates.map(item => ({ ...item, status: 'pushed' })));
+  }
+
+  return { platform, pushed: updates.length, unchanged: sellable.length - updates.length };
+}
+
+// Stock changes arrive in bursts (a multi-line order, a bulk import), so they are collected for a
+// few seconds and handed to the job queue as one inventory push, which also gives us retries.
+const pendingProductIds = new Set<string>();
+let flushTimer: NodeJS.Timeout | undefined;
+
+async function flushPendingProducts(): Promise<void> {
+  flushTimer = undefined;
+  const productIds = Array.from(pendingProductIds);
+  pendingProductIds.clear();
+  if (productIds.length === 0) return;
+
+  try {
+    await storage.enqueueJob({ type: 'inventory_push', payload: { productIds } });
+  } catch (error) {
+    console.error("Error queueing inventory push:", error);
+  }
+}
+
+function onStockChanged(productId: string): void {
+  pendingProductIds.add(productId);
+  if (!flushTimer) {
+    flushTimer = setTimeout(flushPendingProducts, DEBOUNCE_MS);
+  }
+}
+
+export function startInventoryPushListener(): void {
+  inventoryEvents.off("stockChanged", onStockChanged);
+  inventoryEvents.on("stockChanged", onStockChanged);
+}
@@ -0,0 +1,22 @@
+import type { Platform } from "@shared/schema";
+import { FixtureConnector } from "./fixtureConnector";
+import type { PlatformConnector, PlatformConnectorFactory, PlatformCredentials } from "./types";
+
+const createFixtureConnector: PlatformConnectorFactory = (platform, credentials) =>
+  new FixtureConnector(platform, credentials);
+
+// Every platform replays fixtures until its API client is registered here
+const connectorFactories: Record<Platform, PlatformConnectorFactory> = {
+  amazon: createFixtureConnector,
+  flipkart: createFixtureConnector,
+  meesho: createFixtureConnector,
+  website: createFixtureConnector,
+};
+
+export function registerConnector(platform: Platform, factory: PlatformConnectorFactory): void {
+  connectorFactories[platform] = factory;
+}
+
+export function getConnector(platform: Platform, credentials: PlatformCredentials = {}): PlatformConnector {
+  return connectorFactories[platform](platform, credentials);
+}
@@ -0,0 +1,218 @@
+import type { InsertSyncRun, Order, Platform, SyncRecordError, SyncRun, SyncTrigger } from "@shared/schema";
+import { findOrderStatusPath } from "@shared/orderStatus";
+import { storage } from "../storage";
+import { getConnector } from "./registry";
+import type { PlatformConnector, PlatformOrder } from "./types";
+
+export class PlatformSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlatformSyncError";
+  }
+}
+
+type UpsertOutcome = 'created' | 'updated' | 'skipped';
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === '23505';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Running totals for one sync run. A failing order is recorded and the run carries on.
+class SyncTally {
+  created = 0;
+  updated = 0;
+  skipped = 0;
+  errors: SyncRecordError[] = [];
+
+  constructor(public cursor: string | null) {}
+
+  async record(platformOrderId: string, upsert: () => Promise<UpsertOutcome>): Promise<void> {
+    try {
+      this[await upsert()]++;
+    } catch (error) {
+      this.errors.push({ platformOrderId, message: errorMessage(error) });
+    }
+  }
+}
+
+/**
+ * Pulls every order the platform reports after the stored cursor and upserts it by
+ * (platform, platformOrderId), so running a sync twice never duplicates orders.
+ * The cursor is saved after each page, which lets a failed sync resume where it stopped.
+ */
+export async function syncPlatformOrders(
+  platform: Platform,
+  trigger: SyncTrigger = 'manual',
+  userId?: string
+): Promise<SyncRun> {
+  const { connection, connector } = await connect(platform);
+  return recordSyncRun(
+    { platform, trigger, triggeredBy: userId, cursorFrom: connection?.syncCursor ?? null },
+    (tally) => pullOrders(platform, connector, tally, userId)
+  );
+}
+
+/**
+ * Re-fetches the orders that failed in an earlier run. If that run stopped part-way,
+ * the incremental sync is continued from the stored cursor as well.
+ */
+export async function retrySyncRun(run: SyncRun, userId?: string): Promise<SyncRun> {
+  if (run.status !== 'failed' && run.status !== 'partial') {
+    throw new PlatformSyncError("Only failed or partially failed sync runs can be retried");
+  }
+
+  const { connection, connector } = await connect(run.platform);
+  return recordSyncRun(
+    {
+      platform: run.platform,
+      trigger: 'retry',
+      triggeredBy: userId,
+      retryOfRunId: run.id,
+      cursorFrom: connection?.syncCursor ?? null,
+    },
+    async (tally) => {
+      for (const { platformOrderId } of run.errors) {
+        await tally.record(platformOrderId, async () => {
+          const platformOrder = await connector.fetchOrder(platformOrderId);
+          if (!platformOrder) throw new Error("Order is no longer available on the platform");
+          return upsertPlatformOrder(run.platform, platformOrder, userId);
+        });
+      }
+      if (run.status === 'failed') {
+        await pullOrders(run.platform, connector, tally, userId);
+      }
+    }
+  );
+}
+
+async function connect(platform: Platform) {
+  const connection = await storage.getPlatformConnection(platform);
+  if (connection && !connection.isEnabled) {
+    throw new PlatformSyncError(`Sync is disabled for ${platform}`);
+  }
+  return { connection, connector: getConnector(platform, connection?.credentials ?? {}) };
+}
+
+async function recordSyncRun(
+  run: InsertSyncRun & { cursorFrom: string | null },
+  work: (tally: SyncTally) => Promise<void>
+): Promise<SyncRun> {
+  const started = await storage.createSyncRun(run);
+  const tally = new SyncTally(run.cursorFrom);
+
+  let failure: string | null = null;
+  try {
+    await work(tally);
+  } catch (error) {
+    console.error(`Error syncing ${run.platform} orders:`, error);
+    failure = errorMessage(error);
+  }
+
+  return storage.finishSyncRun(started.id, {
+    status: failure ? 'failed' : tally.errors.length > 0 ? 'partial' : 'succeeded',
+    cursorTo: tally.cursor,
+    ordersCreated: tally.created,
+    ordersUpdated: tally.updated,
+    ordersSkipped: tally.skipped,
+    errors: tally.errors,
+    errorMessage: failure,
+  });
+}
+
+async function pullOrders(
+  platform: Platform,
+  connector: PlatformConnector,
+  tally: SyncTally,
+  userId?: string
+): Promise<void> {
+  let hasMore = true;
+  while (hasMore) {
+    const page = await connector.fetchOrdersSince(tally.cursor);
+    for (const platformOrder of page.orders) {
+      await tally.record(platformOrder.platformOrderId, () => upsertPlatformOrder(platform, platformOrder, userId));
+    }
+
+    tally.cursor = page.nextCursor ?? tally.cursor;
+    await storage.updatePlatformSyncCursor(platform, tally.cursor);
+    hasMore = page.hasMore && page.orders.length > 0;
+  }
+}
+
+export async function upsertPlatformOrder(
+  platform: Platform,
+  platformOrder: PlatformOrder,
+  userId?: string
+): Promise<UpsertOutcome> {
+  const existing = await storage.getOrderByPlatformOrderId(platform, platformOrder.platformOrderId);
+
+  if (!existing) {
+    try {
+      // Storage links lines to the catalogue through the platform's listings. The order is fulfilled
+      // from the channel's first assigned warehouse, so it reserves stock there and deducts it on shipping.
+      const [warehouseId] = await storage.getChannelWarehouseIds(platform);
+      await storage.createOrder({ ...platformOrder, platform, warehouseId }, userId);
+      return 'created';
+    } catch (error) {
+      // Another sync (or an import) inserted the same order first
+      if (isUniqueViolation(error)) return 'skipped';
+      throw error;
+    }
+  }
+
+  let changed = false;
+  const targetStatus = platformOrder.status;
+  if (targetStatus && targetStatus !== existing.status) {
+    // Walk through intermediate statuses so stock effects for each step still apply.
+    // Moves the workflow does not allow (e.g. reopening a cancelled order) are ignored.
+    const path = findOrderStatusPath(existing.status, targetStatus);
+    for (const status of path ?? []) {
+      await storage.updateOrderStatus(existing.id, status, `Status synced from ${platform}`, userId);
+      changed = true;
+    }
+  }
+
+  const current = changed
+    ? (await storage.getOrderByPlatformOrderId(platform, platformOrder.platformOrderId))!
+    : existing;
+  const ledger = await storage.getOrderPayments(existing.id);
+  const details = changedDetails(current, platformOrder, ledger.length > 0);
+  if (Object.keys(details).length > 0) {
+    await storage.updateOrderDetails(existing.id, details);
+    changed = true;
+  }
+
+  return changed ? 'updated' : 'skipped';
+}
+
+function changedDetails(order: Order, platformOrder: PlatformOrder, hasLedger: boolean) {
+  const details: Parameters<typeof storage.updateOrderDetails>[1] = {};
+
+  if (platformOrder.trackingNumber && platformOrder.trackingNumber !== order.trackingNumber) {
+    details.trackingNumber = platformOrder.trackingNumber;
+  }
+  if (platformOrder.paymentMethod && platformOrder.paymentMethod !== order.paymentMethod) {
+    details.paymentMethod = platformOrder.paymentMethod;
+  }
+  if (platformOrder.transactionId && platformOrder.transactionId !== order.transactionId) {
+    details.transactionId = platformOrder.transactionId;
+  }
+  if (platformOrder.shippingState && platformOrder.shippingState !== order.shippingState) {
+    details.shippingState = platformOrder.shippingState;
+  }
+  if (platformOrder.shippingPincode && platformOrder.shippingPincode !== order.shippingPincode) {
+    details.shippingPincode = platformOrder.shippingPincode;
+  }
+  // Once the order has payment ledger entries its status is read off them, and a refund recorded
+  // locally is never overwritten by a stale "paid" from the platform
+  if (
+    !hasLedger &&
+    platformOrder.paymentStatus &&
+    platformOrder.paymentStatus !== order.paymentStatus &&
+    order.paymentStatus !== 'refunded' &&
+    order.paymentStatus !== 'partially_refunded'
+  ) {
+    details.paymentStatus = platformOrder.paymentStatus;
+  }
+
+  return details;
+}
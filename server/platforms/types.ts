@@ -0,0 +1,37 @@
+import type { InsertOrderWithItems, Platform } from "@shared/schema";
+import type { OrderStatus } from "@shared/orderStatus";
+
+export type PlatformCredentials = Record<string, string>;
+
+// An order as reported by a marketplace, already mapped onto our order shape.
+// Warehouse assignment happens on our side, so connectors never set it.
+export type PlatformOrder = Omit<InsertOrderWithItems, "platform" | "warehouseId">;
+
+export interface PlatformOrderPage {
+  orders: PlatformOrder[];
+  // Position to resume from on the next call; null when the platform returned nothing new
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface InventoryUpdate {
+  sku: string;
+  quantity: number;
+}
+
+export interface OrderStatusUpdate {
+  platformOrderId: string;
+  status: OrderStatus;
+  trackingNumber?: string | null;
+}
+
+export interface PlatformConnector {
+  readonly platform: Platform;
+  // Orders created or changed after the cursor, oldest first. A null cursor starts from the beginning.
+  fetchOrdersSince(cursor: string | null): Promise<PlatformOrderPage>;
+  fetchOrder(platformOrderId: string): Promise<PlatformOrder | undefined>;
+  pushInventory(updates: InventoryUpdate[]): Promise<void>;
+  pushOrderStatus(update: OrderStatusUpdate): Promise<void>;
+}
+
+export type PlatformConnectorFactory = (platform: Platform, credentials: PlatformCredentials) => PlatformConnector;
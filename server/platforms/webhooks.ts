@@ -0,0 +1,102 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { insertOrderWithItemsSchema, type Platform, type WebhookEvent } from "@shared/schema";
+import { storage, OrderStatusTransitionError } from "../storage";
+import { getConnector } from "./registry";
+import { upsertPlatformOrder } from "./sync";
+
+// Deliveries carry "sha256=<hex HMAC of the raw body>" keyed with the platform's webhook secret
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+export const webhookEnvelopeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  data: z.record(z.unknown()),
+});
+
+const orderEventSchema = z.object({
+  order: insertOrderWithItemsSchema.omit({ platform: true, warehouseId: true }),
+});
+
+const cancellationEventSchema = z.object({
+  platformOrderId: z.string().min(1),
+  reason: z.string().optional(),
+});
+
+// Thrown by handlers for events that are valid but cannot apply; they are kept as "ignored", not retried
+class WebhookIgnoredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookIgnoredError";
+  }
+}
+
+type WebhookHandler = (platform: Platform, data: Record<string, unknown>) => Promise<void>;
+
+export function verifyWebhookSignature(rawBody: Buffer, secret: string, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+const upsertOrder: WebhookHandler = async (platform, data) => {
+  const { order } = orderEventSchema.parse(data);
+  await upsertPlatformOrder(platform, order);
+};
+
+// Cancellations go through the normal status workflow so the reservation is released. An order
+// that has already shipped cannot be cancelled here and needs someone to intercept the parcel.
+const cancelOrder: WebhookHandler = async (platform, data) => {
+  const { platformOrderId, reason } = cancellationEventSchema.parse(data);
+  const existing = await storage.getOrderByPlatformOrderId(platform, platformOrderId);
+
+  if (!existing) {
+    // Cancelled before the next poll picked it up: record it so the cancellation is not lost
+    const connection = await storage.getPlatformConnection(platform);
+    const order = await getConnector(platform, connection?.credentials ?? {}).fetchOrder(platformOrderId);
+    if (!order) throw new WebhookIgnoredError(`Order ${platformOrderId} not found on ${platform}`);
+    await upsertPlatformOrder(platform, { ...order, status: 'cancelled' });
+    return;
+  }
+  if (existing.status === 'cancelled') return;
+
+  try {
+    await storage.updateOrderStatus(
+      existing.id,
+      'cancelled',
+      reason ? `Cancelled on ${platform}: ${reason}` : `Cancelled on ${platform}`
+    );
+  } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      throw new WebhookIgnoredError(`Cancellation received after the order was ${error.from}`);
+    }
+    throw error;
+  }
+};
+
+const webhookHandlers: Record<string, WebhookHandler> = {
+  "order.created": upsertOrder,
+  "order.updated": upsertOrder,
+  "order.cancelled": cancelOrder,
+};
+
+// Runs the handler for a stored event and records the outcome. Used for live deliveries and replays.
+export async function processWebhookEvent(event: WebhookEvent): Promise<WebhookEvent> {
+  const handler = webhookHandlers[event.eventType];
+  if (!handler) {
+    return storage.finishWebhookEvent(event.id, 'ignored', `No handler for event type ${event.eventType}`);
+  }
+
+  try {
+    await handler(event.platform, event.payload);
+    return await storage.finishWebhookEvent(event.id, 'processed');
+  } catch (error) {
+    const message = error instanceof z.ZodError
+      ? `Invalid event data: ${error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join("; ")}`
+      : error instanceof Error ? error.message : String(error);
+    const status = error instanceof WebhookIgnoredError || error instanceof z.ZodError ? 'ignored' : 'failed';
+    if (status === 'failed') console.error(`Error processing ${event.platform} webhook ${event.eventId}:`, error);
+    return storage.finishWebhookEvent(event.id, status, message);
+  }
+}
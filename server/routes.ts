@@ -1,20 +1,159 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import multer from "multer";
+import { storage, OrderStatusTransitionError, InvoiceError, ReturnError, PaymentError, InsufficientStockError, TransferError, PurchaseOrderError, GoodsReceiptError } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { writeOrdersCsv, writeOrdersPdf } from "./documents/orderExport";
+import { writeInvoicePdf } from "./documents/invoicePdf";
+import { writeShippingDocumentsPdf, shippingDocumentTypes } from "./documents/shippingDocuments";
+import { writeOutstandingCodCsv } from "./documents/codExport";
+import { writeTransferChallanPdf } from "./documents/transferChallan";
+import { getShippingRates, shipOrder, ShippingError } from "./carriers/shipments";
+import { getCarrier } from "./carriers/registry";
+import { trackShipment } from "./carriers/tracking";
+import { CarrierError } from "./carriers/types";
+import { orderImportFields, prepareOrderImport } from "./imports/orderImport";
+import { settlementImportFields, prepareSettlementImport } from "./imports/settlementImport";
+import { codRemittanceImportFields, prepareCodRemittanceImport } from "./imports/codRemittanceImport";
+import { parseTransferLines } from "./imports/transferLinesImport";
+import { syncPlatformOrders, retrySyncRun, PlatformSyncError } from "./platforms/sync";
+import {
+  processWebhookEvent,
+  verifyWebhookSignature,
+  webhookEnvelopeSchema,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./platforms/webhooks";
+import { reportsDir } from "./jobs/handlers";
+import { getNextRunAt, isValidCronExpression } from "./jobs/cron";
 import { 
-  insertOrderSchema, 
+  insertOrderWithItemsSchema, 
   insertExpenseSchema, 
   insertWarehouseSchema,
   insertProductSchema,
   insertInventorySchema,
   insertWarehousePermissionSchema,
   insertStockMovementSchema,
-  insertWarehouseTransferSchema
+  insertWarehouseTransferSchema,
+  transferReceiptSchema,
+  insertSupplierSchema,
+  insertPurchaseOrderSchema,
+  insertGoodsReceiptSchema,
+  purchaseOrderStatusEnum,
+  insertPlatformConnectionSchema,
+  insertJobScheduleSchema,
+  insertProductListingSchema,
+  insertPlatformFeeRuleSchema,
+  insertBusinessSettingsSchema,
+  insertReturnSchema,
+  returnInspectionSchema,
+  insertOrderPaymentSchema,
+  paymentMethodEnum,
+  invoiceTypeEnum,
+  carrierEnum,
+  orderStatusEnum,
+  platformEnum,
+  type Platform,
+  type PlatformConnection,
 } from "@shared/schema";
 import { z } from "zod";
+import { findGstState } from "@shared/gst";
+import { PINCODE_PATTERN } from "@shared/shipping";
+import { summarizeCodAging } from "@shared/payments";
+import path from "path";
+
+// Report uploads are parsed in memory; marketplace order reports are well under this limit
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+const orderImportRequestSchema = z.object({
+  platform: z.enum(platformEnum.enumValues),
+  warehouseId: z.string().optional(),
+  mapping: z
+    .string()
+    .transform((value) => JSON.parse(value) as Record<string, string>)
+    .optional(),
+});
+
+const settlementImportRequestSchema = orderImportRequestSchema
+  .omit({ warehouseId: true })
+  .extend({ settlementRef: z.string().optional() });
+
+const codRemittanceImportRequestSchema = orderImportRequestSchema
+  .pick({ mapping: true })
+  .extend({ carrier: z.enum(carrierEnum.enumValues), remittanceRef: z.string().optional() });
+
+const platformSchema = z.enum(platformEnum.enumValues);
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === '23505';
+
+const platformConnectionUpdateSchema = insertPlatformConnectionSchema
+  .omit({ platform: true })
+  .extend({ stockBuffer: z.number().int().min(0), warehouseIds: z.array(z.string()) })
+  .partial();
+
+// Credential values never leave the server; clients only see which keys are configured
+const toPublicConnection = (platform: Platform, connection: PlatformConnection | undefined, warehouseIds: string[]) => ({
+  platform,
+  isEnabled: connection?.isEnabled ?? true,
+  stockBuffer: connection?.stockBuffer ?? 0,
+  warehouseIds,
+  syncCursor: connection?.syncCursor ?? null,
+  lastSyncAt: connection?.lastSyncAt ?? null,
+  credentialKeys: Object.keys(connection?.credentials ?? {}),
+  hasWebhookSecret: !!connection?.webhookSecret,
+});
+
+const jobScheduleSchema = insertJobScheduleSchema.refine(
+  (schedule) => isValidCronExpression(schedule.cronExpression),
+  { message: "Invalid cron expression", path: ["cronExpression"] }
+);
+
+const jobScheduleUpdateSchema = insertJobScheduleSchema.partial().refine(
+  (schedule) => schedule.cronExpression === undefined || isValidCronExpression(schedule.cronExpression),
+  { message: "Invalid cron expression", path: ["cronExpression"] }
+);
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Platform webhooks are registered ahead of the session middleware; the signature is their authentication
+  app.post('/api/webhooks/:platform', async (req, res) => {
+    try {
+      const platform = platformSchema.safeParse(req.params.platform);
+      if (!platform.success) {
+        return res.status(404).json({ message: "Unknown platform" });
+      }
+
+      const connection = await storage.getPlatformConnection(platform.data);
+      if (!connection?.webhookSecret || !connection.isEnabled) {
+        return res.status(404).json({ message: "Webhooks are not enabled for this platform" });
+      }
+      if (!req.rawBody || !verifyWebhookSignature(req.rawBody, connection.webhookSecret, req.get(WEBHOOK_SIGNATURE_HEADER))) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      const envelope = webhookEnvelopeSchema.safeParse(req.body);
+      if (!envelope.success) {
+        return res.status(400).json({ message: "Invalid webhook payload" });
+      }
+
+      const { event, duplicate } = await storage.recordWebhookEvent({
+        platform: platform.data,
+        eventId: envelope.data.id,
+        eventType: envelope.data.type,
+        payload: envelope.data.data,
+      });
+      // Redeliveries of a failed event are processed again; anything else was already handled
+      if (duplicate && event.status !== 'failed') {
+        return res.json({ id: event.id, status: event.status, duplicate: true });
+      }
+
+      const processed = await processWebhookEvent(event);
+      // A non-2xx makes the platform redeliver, which retries the failed event
+      res.status(processed.status === 'failed' ? 500 : 200).json({ id: processed.id, status: processed.status });
+    } catch (error) {
+      console.error("Error receiving webhook:", error);
+      res.status(500).json({ message: "Failed to receive webhook" });
+    }
+  });
+
   // Auth middleware
   await setupAuth(app);
 
@@ -63,6 +202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         dateFrom: req.query.dateFrom as string,
         dateTo: req.query.dateTo as string,
         search: req.query.search as string,
+        needsReview: req.query.needsReview === 'true',
         limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
         offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
       };
@@ -75,6 +215,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Registered before /api/orders/:id so "export" is not treated as an order id
+  app.get('/api/orders/export', isAuthenticated, async (req, res) => {
+    try {
+      const format = req.query.format === 'pdf' ? 'pdf' : 'csv';
+      const filters = {
+        platform: req.query.platform as string,
+        status: req.query.status as string,
+        dateFrom: req.query.dateFrom as string,
+        dateTo: req.query.dateTo as string,
+        search: req.query.search as string,
+        needsReview: req.query.needsReview === 'true',
+      };
+      const filename = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+      const batches = storage.getOrderBatches(filters);
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'pdf') {
+        const appliedFilters = Object.entries(filters)
+          .filter(([, value]) => value && value !== 'all')
+          .map(([key, value]) => `${key}: ${value}`);
+        res.setHeader('Content-Type', 'application/pdf');
+        await writeOrdersPdf(
+          res,
+          batches,
+          `Generated ${new Date().toLocaleString('en-IN')}${appliedFilters.length ? ` | ${appliedFilters.join(', ')}` : ''}`
+        );
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        await writeOrdersCsv(res, batches);
+      }
+    } catch (error) {
+      console.error("Error exporting orders:", error);
+      // Once streaming has started the status line is already sent, so just cut the download short
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ message: "Failed to export orders" });
+    }
+  });
+
+  // Packing slips or 4x6 labels for one or more orders, one page each, e.g. ?type=label&ids=a,b
+  app.get('/api/orders/shipping-documents', isAuthenticated, async (req, res) => {
+    try {
+      const { type, ids } = z.object({
+        type: z.enum(shippingDocumentTypes),
+        ids: z
+          .string()
+          .transform(value => Array.from(new Set(value.split(',').map(id => id.trim()).filter(Boolean))))
+          .pipe(z.array(z.string()).min(1).max(200)),
+      }).parse(req.query);
+
+      const orders = await storage.getOrdersForShipping(ids);
+      if (orders.length === 0) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const filename = orders.length === 1
+        ? `${type === 'label' ? 'label' : 'packing-slip'}-${orders[0].platformOrderId.replace(/[^\w-]/g, '_')}.pdf`
+        : `${type === 'label' ? 'labels' : 'packing-slips'}-${new Date().toISOString().slice(0, 10)}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      await writeShippingDocumentsPdf(res, type, orders);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Choose a document type and between 1 and 200 orders", errors: error.errors });
+      }
+      console.error("Error generating shipping documents:", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ message: "Failed to generate shipping documents" });
+    }
+  });
+
   app.get('/api/orders/:id', isAuthenticated, async (req, res) => {
     try {
       const order = await storage.getOrderById(req.params.id);
@@ -90,69 +306,1292 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/orders', isAuthenticated, async (req: any, res) => {
     try {
-      const orderData = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(orderData);
-      
-      // If order has warehouse and product info, create outbound stock movement
-      if (order.warehouseId && order.productId && order.quantity) {
-        await storage.adjustInventoryWithMovement(
-          order.warehouseId,
-          order.productId,
-          -order.quantity,
-          'sale',
-          req.user.claims.sub,
-          `Order fulfillment: ${order.platformOrderId}`
-        );
-      }
+      const orderData = insertOrderWithItemsSchema.parse(req.body);
+      // Stock for each line is reserved by the storage layer and only deducted when the order ships
+      const order = await storage.createOrder(orderData, req.user.claims.sub);
       
       res.status(201).json(order);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error creating order:", error);
       res.status(400).json({ message: "Invalid order data" });
     }
   });
 
-  app.patch('/api/orders/:id/status', isAuthenticated, async (req: any, res) => {
+  // Bulk import from marketplace order reports: preview validates without writing
+  app.post('/api/orders/import/preview', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = orderImportRequestSchema.parse(req.body);
+      const { columns, mapping, validation } = await prepareOrderImport(req.file, options);
+
+      res.json({
+        columns,
+        mapping,
+        fields: orderImportFields,
+        summary: validation.summary,
+        // Every problem row is returned, but only a sample of the clean ones
+        rows: [
+          ...validation.rows.filter(row => row.status !== 'valid'),
+          ...validation.rows.filter(row => row.status === 'valid').slice(0, 100),
+        ].sort((a, b) => a.rowNumber - b.rowNumber),
+      });
+    } catch (error) {
+      console.error("Error previewing order import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid import file" });
+    }
+  });
+
+  app.post('/api/orders/import/commit', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = orderImportRequestSchema.parse(req.body);
+      // Re-validate on commit rather than trusting the preview the client saw
+      const { validation } = await prepareOrderImport(req.file, options);
+      const { created, duplicates } = await storage.importOrders(validation.orders, req.user.claims.sub);
+
+      res.status(201).json({
+        summary: {
+          ...validation.summary,
+          created: created.length,
+          duplicateOrders: duplicates.length,
+        },
+        errors: validation.rows.filter(row => row.status !== 'valid'),
+      });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error committing order import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import orders" });
+    }
+  });
+
+  app.patch('/api/orders/:id/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const { status, notes } = z.object({
+        status: z.enum(orderStatusEnum.enumValues),
+        notes: z.string().optional(),
+      }).parse(req.body);
+
+      // Stock and payment side-effects are applied by the storage layer per transition
+      const order = await storage.updateOrderStatus(req.params.id, status, notes, req.user.claims.sub);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order status" });
+      }
+      // The order keeps its old status when a side effect of the change (stock, COD entry,
+      // return or credit note) cannot be recorded
+      if (
+        error instanceof OrderStatusTransitionError ||
+        error instanceof InsufficientStockError ||
+        error instanceof ReturnError ||
+        error instanceof InvoiceError ||
+        error instanceof PaymentError
+      ) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating order status:", error);
+      res.status(500).json({ message: "Failed to update order status" });
+    }
+  });
+
+  // GST invoices and credit notes
+  app.get('/api/orders/:id/invoices', isAuthenticated, async (req, res) => {
+    try {
+      const invoices = await storage.getOrderInvoices(req.params.id);
+      res.json(invoices);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.post('/api/orders/:id/invoice', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      // The ship-to state can be supplied here when the marketplace didn't report one
+      const { shippingState } = z.object({
+        shippingState: z.string().refine(value => !!findGstState(value), "Unknown state").optional(),
+      }).parse(req.body ?? {});
+      if (shippingState) {
+        const updated = await storage.updateOrderDetails(req.params.id, { shippingState: findGstState(shippingState)!.name });
+        if (!updated) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+      }
+
+      const invoice = await storage.issueInvoice(req.params.id, req.user.claims.sub);
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ship-to state", errors: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ message: "Failed to issue invoice" });
+    }
+  });
+
+  app.post('/api/orders/:id/credit-note', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const creditNote = await storage.issueCreditNote(req.params.id, req.user.claims.sub);
+      res.status(201).json(creditNote);
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error issuing credit note:", error);
+      res.status(500).json({ message: "Failed to issue credit note" });
+    }
+  });
+
+  // Downloads the invoice PDF, or the credit note with ?type=credit_note. Only documents already
+  // issued through the POST routes can be downloaded; a GET never issues one.
+  app.get('/api/orders/:id/invoice', isAuthenticated, async (req: any, res) => {
+    try {
+      const type = z.enum(invoiceTypeEnum.enumValues).catch('invoice').parse(req.query.type);
+      const documents = await storage.getOrderInvoices(req.params.id);
+      const invoice = documents.find(document => document.type === type);
+      if (!invoice) {
+        return res.status(404).json({ message: type === 'credit_note' ? "Credit note not found" : "Invoice not found" });
+      }
+
+      const original = invoice.originalInvoiceId
+        ? documents.find(document => document.id === invoice.originalInvoiceId)
+        : undefined;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber.replace(/\//g, '-')}.pdf"`);
+      await writeInvoicePdf(res, invoice, original);
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ message: "Failed to download invoice" });
+    }
+  });
+
+  // Courier booking: quotes from every serviceable carrier, then book one and mark the order shipped
+  app.get('/api/orders/:id/shipping-rates', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { shippingPincode } = z.object({
+        shippingPincode: z.string().regex(PINCODE_PATTERN, "Pincode must be 6 digits").optional(),
+      }).parse(req.query);
+      const rates = await getShippingRates(req.params.id, shippingPincode);
+      res.json(rates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pincode", errors: error.errors });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching shipping rates:", error);
+      res.status(500).json({ message: "Failed to fetch shipping rates" });
+    }
+  });
+
+  app.post('/api/orders/:id/ship', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      // Either a specific carrier service from the quotes, or let the cheapest/fastest win
+      const { carrier, service, strategy, shippingPincode } = z.object({
+        carrier: z.enum(carrierEnum.enumValues).optional(),
+        service: z.string().optional(),
+        strategy: z.enum(['cheapest', 'fastest']).default('cheapest'),
+        shippingPincode: z.string().regex(PINCODE_PATTERN, "Pincode must be 6 digits").optional(),
+      }).refine(body => !body.carrier === !body.service, "Choose both a carrier and a service").parse(req.body ?? {});
+
+      if (shippingPincode) {
+        const updated = await storage.updateOrderDetails(req.params.id, { shippingPincode });
+        if (!updated) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+      }
+
+      const shipment = await shipOrder(
+        req.params.id,
+        carrier && service ? { carrier, service } : { strategy },
+        req.user.claims.sub
+      );
+      res.status(201).json(shipment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid shipment request", errors: error.errors });
+      }
+      if (error instanceof ShippingError || error instanceof CarrierError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OrderStatusTransitionError || error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "The order already has an active shipment" });
+      }
+      console.error("Error shipping order:", error);
+      res.status(500).json({ message: "Failed to ship order" });
+    }
+  });
+
+  app.get('/api/orders/:id/shipments', isAuthenticated, async (req, res) => {
+    try {
+      const shipments = await storage.getOrderShipments(req.params.id);
+      res.json(shipments);
+    } catch (error) {
+      console.error("Error fetching shipments:", error);
+      res.status(500).json({ message: "Failed to fetch shipments" });
+    }
+  });
+
+  // The carrier's label when it issues one, otherwise our own 4x6 label with the AWB barcode
+  app.get('/api/shipments/:id/label', isAuthenticated, async (req, res) => {
+    try {
+      const shipment = await storage.getShipmentById(req.params.id);
+      if (!shipment) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+      if (shipment.labelUrl) {
+        return res.redirect(shipment.labelUrl);
+      }
+
+      const label = await getCarrier(shipment.carrier).getLabel(shipment.awb);
+      if (!label) {
+        return res.redirect(`/api/orders/shipping-documents?type=label&ids=${shipment.orderId}`);
+      }
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="label-${shipment.awb}.pdf"`);
+      res.send(label);
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching shipment label:", error);
+      res.status(500).json({ message: "Failed to fetch shipment label" });
+    }
+  });
+
+  // Polls the carrier now instead of waiting for the scheduled tracking job
+  app.post('/api/shipments/:id/track', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const shipment = await storage.getShipmentById(req.params.id);
+      if (!shipment) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+      if (shipment.status === 'cancelled') {
+        return res.status(400).json({ message: "Cancelled shipments are not tracked" });
+      }
+
+      const result = await trackShipment(shipment);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error tracking shipment:", error);
+      res.status(500).json({ message: "Failed to track shipment" });
+    }
+  });
+
+  // Payment ledger: payments and refunds actually made, from which the order's payment status follows
+  app.get('/api/orders/:id/payments', isAuthenticated, async (req, res) => {
+    try {
+      const payments = await storage.getOrderPayments(req.params.id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching order payments:", error);
+      res.status(500).json({ message: "Failed to fetch order payments" });
+    }
+  });
+
+  app.post('/api/orders/:id/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const paymentData = insertOrderPaymentSchema.parse(req.body);
+      const payment = await storage.recordOrderPayment(req.params.id, paymentData, req.user.claims.sub);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "This transaction is already recorded on the order" });
+      }
+      console.error("Error recording payment:", error);
+      res.status(500).json({ message: "Failed to record payment" });
+    }
+  });
+
+  // Cash collected on delivery, paid over by the courier
+  app.post('/api/payments/:id/remittance', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const remittance = z.object({
+        reference: z.string().trim().min(1).max(100),
+        remittedAt: z.coerce.date().optional(),
+      }).parse(req.body);
+      const payment = await storage.recordCodRemittance(req.params.id, remittance);
+      if (!payment) {
+        return res.status(404).json({ message: "Cash on delivery payment not found" });
+      }
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid remittance", errors: error.errors });
+      }
+      console.error("Error recording COD remittance:", error);
+      res.status(500).json({ message: "Failed to record remittance" });
+    }
+  });
+
+  // Returns (RMA): anyone signed in can follow them, managers move them along
+  app.get('/api/returns', isAuthenticated, async (req, res) => {
+    try {
+      const returns = await storage.getReturns({
+        status: req.query.status as string,
+        platform: req.query.platform as string,
+      });
+      res.json(returns);
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  app.get('/api/returns/analytics', isAuthenticated, async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 90;
+      const analytics = await storage.getReturnAnalytics({
+        dateFrom: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching return analytics:", error);
+      res.status(500).json({ message: "Failed to fetch return analytics" });
+    }
+  });
+
+  app.get('/api/orders/:id/returns', isAuthenticated, async (req, res) => {
+    try {
+      const returns = await storage.getOrderReturns(req.params.id);
+      res.json(returns);
+    } catch (error) {
+      console.error("Error fetching order returns:", error);
+      res.status(500).json({ message: "Failed to fetch order returns" });
+    }
+  });
+
+  app.post('/api/returns', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const returnData = insertReturnSchema.parse(req.body);
+      const created = await storage.createReturn(returnData, req.user.claims.sub);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid return data", errors: error.errors });
+      }
+      if (error instanceof ReturnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating return:", error);
+      res.status(500).json({ message: "Failed to create return" });
+    }
+  });
+
+  // Marks the parcel as arrived; a return covering the whole order also moves the order to returned
+  app.post('/api/returns/:id/receive', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const received = await storage.receiveReturn(req.params.id, req.user.claims.sub);
+      res.json(received);
+    } catch (error) {
+      if (error instanceof OrderStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof ReturnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error receiving return:", error);
+      res.status(500).json({ message: "Failed to receive return" });
+    }
+  });
+
+  app.post('/api/returns/:id/inspect', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const inspection = returnInspectionSchema.parse(req.body);
+      const inspected = await storage.inspectReturn(req.params.id, inspection, req.user.claims.sub);
+      res.json(inspected);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection", errors: error.errors });
+      }
+      if (error instanceof ReturnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error inspecting return:", error);
+      res.status(500).json({ message: "Failed to inspect return" });
+    }
+  });
+
+  app.post('/api/returns/:id/refund', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { amount, reference, method } = z.object({
+        amount: z.coerce.number().nonnegative(),
+        reference: z.string().trim().max(100).optional(),
+        method: z.enum(paymentMethodEnum.enumValues).optional(),
+      }).parse(req.body);
+      const refunded = await storage.recordReturnRefund(
+        req.params.id,
+        { amount: amount.toFixed(2), reference, method },
+        req.user.claims.sub
+      );
+      res.json(refunded);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refund", errors: error.errors });
+      }
+      if (error instanceof ReturnError || error instanceof PaymentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording return refund:", error);
+      res.status(500).json({ message: "Failed to record refund" });
+    }
+  });
+
+  app.post('/api/returns/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const cancelled = await storage.cancelReturn(req.params.id);
+      res.json(cancelled);
+    } catch (error) {
+      if (error instanceof ReturnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error cancelling return:", error);
+      res.status(500).json({ message: "Failed to cancel return" });
+    }
+  });
+
+  app.post('/api/sync/:platform', isAuthenticated, async (req: any, res) => {
+    try {
+      // Check if user has admin or manager role
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const platform = platformSchema.safeParse(req.params.platform);
+      if (!platform.success) {
+        return res.status(400).json({ message: "Unknown platform" });
+      }
+
+      // Failures are recorded on the run itself, so a failed run is still a successful response
+      const run = await syncPlatformOrders(platform.data, 'manual', req.user.claims.sub);
+      res.json(run);
+    } catch (error) {
+      if (error instanceof PlatformSyncError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error syncing orders:", error);
+      res.status(500).json({ message: "Failed to sync orders" });
+    }
+  });
+
+  app.get('/api/sync/runs', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const result = await storage.getSyncRuns({
+        platform: req.query.platform as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({ message: "Failed to fetch sync runs" });
+    }
+  });
+
+  app.post('/api/sync/runs/:id/retry', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const run = await storage.getSyncRunById(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Sync run not found" });
+      }
+
+      const retry = await retrySyncRun(run, req.user.claims.sub);
+      res.json(retry);
+    } catch (error) {
+      if (error instanceof PlatformSyncError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error retrying sync run:", error);
+      res.status(500).json({ message: "Failed to retry sync run" });
+    }
+  });
+
+  // Platform connection routes (admin only)
+  app.get('/api/platform-connections', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const connections = await storage.getPlatformConnections();
+      res.json(await Promise.all(platformEnum.enumValues.map(async platform =>
+        toPublicConnection(
+          platform,
+          connections.find(c => c.platform === platform),
+          await storage.getChannelWarehouseIds(platform)
+        )
+      )));
+    } catch (error) {
+      console.error("Error fetching platform connections:", error);
+      res.status(500).json({ message: "Failed to fetch platform connections" });
+    }
+  });
+
+  app.put('/api/platform-connections/:platform', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const platform = platformSchema.parse(req.params.platform);
+      const { warehouseIds, ...updates } = platformConnectionUpdateSchema.parse(req.body);
+      const existing = await storage.getPlatformConnection(platform);
+      const connection = await storage.upsertPlatformConnection({
+        platform,
+        credentials: updates.credentials ?? existing?.credentials ?? {},
+        isEnabled: updates.isEnabled ?? existing?.isEnabled ?? true,
+        stockBuffer: updates.stockBuffer ?? existing?.stockBuffer ?? 0,
+        // An empty string clears the secret, which turns webhooks off for the platform
+        webhookSecret: updates.webhookSecret !== undefined ? updates.webhookSecret || null : existing?.webhookSecret,
+      });
+      if (warehouseIds) {
+        await storage.setChannelWarehouses(platform, warehouseIds);
+      }
+
+      // Buffer and warehouse changes alter every sellable quantity, so push the whole catalogue
+      if (updates.stockBuffer !== undefined || warehouseIds) {
+        await storage.enqueueJob({ type: 'inventory_push', payload: { platform } });
+      }
+      res.json(toPublicConnection(platform, connection, warehouseIds ?? await storage.getChannelWarehouseIds(platform)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid platform connection data" });
+      }
+      console.error("Error updating platform connection:", error);
+      res.status(500).json({ message: "Failed to update platform connection" });
+    }
+  });
+
+  app.get('/api/channel-inventory', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const platform = platformSchema.safeParse(req.query.platform);
+      if (!platform.success) {
+        return res.status(400).json({ message: "Unknown platform" });
+      }
+
+      const listings = await storage.getChannelInventory(platform.data);
+      res.json(listings);
+    } catch (error) {
+      console.error("Error fetching channel inventory:", error);
+      res.status(500).json({ message: "Failed to fetch channel inventory" });
+    }
+  });
+
+  // Settlement reports and payout reconciliation (admin/manager)
+  app.post('/api/settlements/import/preview', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = settlementImportRequestSchema.parse(req.body);
+      const { columns, mapping, validation } = await prepareSettlementImport(req.file, options);
+
+      res.json({
+        columns,
+        mapping,
+        fields: settlementImportFields,
+        summary: validation.summary,
+        settlements: validation.batches.map(({ settlement, alreadyImported }) => ({ ...settlement, alreadyImported })),
+        // Every invalid or unreconciled row is returned, but only a sample of the matched ones
+        rows: [
+          ...validation.rows.filter(row => row.matchStatus !== 'matched'),
+          ...validation.rows.filter(row => row.matchStatus === 'matched').slice(0, 100),
+        ].sort((a, b) => a.rowNumber - b.rowNumber),
+      });
+    } catch (error) {
+      console.error("Error previewing settlement import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid settlement report" });
+    }
+  });
+
+  app.post('/api/settlements/import/commit', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = settlementImportRequestSchema.parse(req.body);
+      const { validation } = await prepareSettlementImport(req.file, options);
+
+      const created = [];
+      const skipped: string[] = [];
+      for (const batch of validation.batches) {
+        if (batch.alreadyImported) {
+          skipped.push(batch.settlement.settlementRef);
+          continue;
+        }
+        try {
+          created.push(await storage.createSettlement({ ...batch.settlement, importedBy: user.id }, batch.lines));
+        } catch (error) {
+          // The same settlement uploaded twice at once
+          if (!isUniqueViolation(error)) throw error;
+          skipped.push(batch.settlement.settlementRef);
+        }
+      }
+
+      res.status(201).json({ summary: validation.summary, settlements: created, skipped });
+    } catch (error) {
+      console.error("Error committing settlement import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import settlement report" });
+    }
+  });
+
+  app.get('/api/settlements', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const result = await storage.getSettlements({
+        platform: req.query.platform as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching settlements:", error);
+      res.status(500).json({ message: "Failed to fetch settlements" });
+    }
+  });
+
+  app.get('/api/settlements/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const settlement = await storage.getSettlementById(req.params.id);
+      if (!settlement) {
+        return res.status(404).json({ message: "Settlement not found" });
+      }
+      res.json(settlement);
+    } catch (error) {
+      console.error("Error fetching settlement:", error);
+      res.status(500).json({ message: "Failed to fetch settlement" });
+    }
+  });
+
+  app.get('/api/reconciliation/unpaid', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      // Marketplaces pay out on a cycle, so only orders delivered more than this many days ago are overdue
+      const days = req.query.days ? parseInt(req.query.days as string) : 14;
+      const orders = await storage.getUnpaidDeliveredOrders({
+        platform: req.query.platform as string,
+        deliveredBefore: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      });
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching unpaid orders:", error);
+      res.status(500).json({ message: "Failed to fetch unpaid orders" });
+    }
+  });
+
+  // Courier COD remittance reports, matched to the cash collected on delivery by AWB (admin/manager)
+  app.post('/api/cod-remittances/import/preview', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = codRemittanceImportRequestSchema.parse(req.body);
+      const { columns, mapping, validation } = await prepareCodRemittanceImport(req.file, options);
+
+      res.json({
+        columns,
+        mapping,
+        fields: codRemittanceImportFields,
+        summary: validation.summary,
+        remittances: validation.batches.map(({ remittance, alreadyImported }) => ({ ...remittance, alreadyImported })),
+        // Every invalid or unreconciled row is returned, but only a sample of the matched ones
+        rows: [
+          ...validation.rows.filter(row => row.matchStatus !== 'matched'),
+          ...validation.rows.filter(row => row.matchStatus === 'matched').slice(0, 100),
+        ].sort((a, b) => a.rowNumber - b.rowNumber),
+      });
+    } catch (error) {
+      console.error("Error previewing COD remittance import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid remittance report" });
+    }
+  });
+
+  app.post('/api/cod-remittances/import/commit', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A report file is required" });
+      }
+
+      const options = codRemittanceImportRequestSchema.parse(req.body);
+      const { validation } = await prepareCodRemittanceImport(req.file, options);
+
+      const created = [];
+      const skipped: string[] = [];
+      for (const batch of validation.batches) {
+        if (batch.alreadyImported) {
+          skipped.push(batch.remittance.remittanceRef);
+          continue;
+        }
+        try {
+          created.push(await storage.createCodRemittance({ ...batch.remittance, importedBy: user.id }, batch.lines));
+        } catch (error) {
+          // The same remittance uploaded twice at once
+          if (!isUniqueViolation(error)) throw error;
+          skipped.push(batch.remittance.remittanceRef);
+        }
+      }
+
+      res.status(201).json({ summary: validation.summary, remittances: created, skipped });
+    } catch (error) {
+      console.error("Error committing COD remittance import:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import remittance report" });
+    }
+  });
+
+  app.get('/api/cod-remittances', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const result = await storage.getCodRemittances({
+        carrier: req.query.carrier as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching COD remittances:", error);
+      res.status(500).json({ message: "Failed to fetch COD remittances" });
+    }
+  });
+
+  // Registered before /api/cod-remittances/:id so "outstanding" is not treated as a remittance id
+  app.get('/api/cod-remittances/outstanding', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const outstanding = await storage.getOutstandingCod({ carrier: req.query.carrier as string });
+      res.json({ aging: summarizeCodAging(outstanding), payments: outstanding });
+    } catch (error) {
+      console.error("Error fetching outstanding COD:", error);
+      res.status(500).json({ message: "Failed to fetch outstanding COD" });
+    }
+  });
+
+  app.get('/api/cod-remittances/outstanding/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const outstanding = await storage.getOutstandingCod({ carrier: req.query.carrier as string });
+      res.setHeader('Content-Disposition', `attachment; filename="unremitted-cod-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      writeOutstandingCodCsv(res, outstanding);
+    } catch (error) {
+      console.error("Error exporting outstanding COD:", error);
+      res.status(500).json({ message: "Failed to export outstanding COD" });
+    }
+  });
+
+  app.get('/api/cod-remittances/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const remittance = await storage.getCodRemittanceById(req.params.id);
+      if (!remittance) {
+        return res.status(404).json({ message: "COD remittance not found" });
+      }
+      res.json(remittance);
+    } catch (error) {
+      console.error("Error fetching COD remittance:", error);
+      res.status(500).json({ message: "Failed to fetch COD remittance" });
+    }
+  });
+
+  // Platform fee rules: readable by managers, editable by admins
+  app.get('/api/fee-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const rules = await storage.getPlatformFeeRules(req.query.platform as string);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching fee rules:", error);
+      res.status(500).json({ message: "Failed to fetch fee rules" });
+    }
+  });
+
+  app.post('/api/fee-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const ruleData = insertPlatformFeeRuleSchema.parse(req.body);
+      const rule = await storage.createPlatformFeeRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fee rule", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A rule for this platform and category already exists" });
+      }
+      console.error("Error creating fee rule:", error);
+      res.status(500).json({ message: "Failed to create fee rule" });
+    }
+  });
+
+  app.patch('/api/fee-rules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      if (!(await storage.getPlatformFeeRuleById(req.params.id))) {
+        return res.status(404).json({ message: "Fee rule not found" });
+      }
+
+      const updates = insertPlatformFeeRuleSchema.partial().parse(req.body);
+      const rule = await storage.updatePlatformFeeRule(req.params.id, updates);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fee rule", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A rule for this platform and category already exists" });
+      }
+      console.error("Error updating fee rule:", error);
+      res.status(500).json({ message: "Failed to update fee rule" });
+    }
+  });
+
+  app.delete('/api/fee-rules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      await storage.deletePlatformFeeRule(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting fee rule:", error);
+      res.status(500).json({ message: "Failed to delete fee rule" });
+    }
+  });
+
+  // Rule changes only apply to new orders until unsettled orders are recalculated
+  app.post('/api/fee-rules/recompute', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { platform } = z.object({ platform: platformSchema.optional() }).parse(req.body ?? {});
+      const updated = await storage.recomputeEstimatedOrderFees(platform);
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid platform", errors: error.errors });
+      }
+      console.error("Error recomputing order fees:", error);
+      res.status(500).json({ message: "Failed to recompute order fees" });
+    }
+  });
+
+  // Seller details printed on tax invoices
+  app.get('/api/business-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const settings = await storage.getBusinessSettings();
+      res.json(settings ?? null);
+    } catch (error) {
+      console.error("Error fetching business settings:", error);
+      res.status(500).json({ message: "Failed to fetch business settings" });
+    }
+  });
+
+  app.put('/api/business-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const settingsData = insertBusinessSettingsSchema.parse(req.body);
+      const settings = await storage.saveBusinessSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid business settings", errors: error.errors });
+      }
+      console.error("Error saving business settings:", error);
+      res.status(500).json({ message: "Failed to save business settings" });
+    }
+  });
+
+  // Stored webhook deliveries (admin only)
+  app.get('/api/webhook-events', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const result = await storage.getWebhookEvents({
+        platform: req.query.platform as string,
+        status: req.query.status as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching webhook events:", error);
+      res.status(500).json({ message: "Failed to fetch webhook events" });
+    }
+  });
+
+  app.post('/api/webhook-events/:id/replay', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const event = await storage.getWebhookEventById(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+
+      res.json(await processWebhookEvent(event));
+    } catch (error) {
+      console.error("Error replaying webhook event:", error);
+      res.status(500).json({ message: "Failed to replay webhook event" });
+    }
+  });
+
+  // Background job routes (admin only)
+  app.get('/api/jobs', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const result = await storage.getJobs({
+        status: req.query.status as string,
+        type: req.query.type as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post('/api/jobs/:id/retry', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await storage.retryJob(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: "Only failed jobs can be retried" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  app.get('/api/jobs/:id/report', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await storage.getJobById(req.params.id);
+      const file = job?.type === 'report_generation' && job.status === 'succeeded' ? job.result?.file : undefined;
+      if (typeof file !== 'string') {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      res.download(path.join(reportsDir, path.basename(file)));
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
+  app.get('/api/job-schedules', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const schedules = await storage.getJobSchedules();
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching job schedules:", error);
+      res.status(500).json({ message: "Failed to fetch job schedules" });
+    }
+  });
+
+  app.post('/api/job-schedules', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const scheduleData = jobScheduleSchema.parse(req.body);
+      const schedule = await storage.createJobSchedule(scheduleData, getNextRunAt(scheduleData.cronExpression));
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid schedule data" });
+      }
+      console.error("Error creating job schedule:", error);
+      res.status(500).json({ message: "Failed to create job schedule" });
+    }
+  });
+
+  app.patch('/api/job-schedules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const existing = await storage.getJobScheduleById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Job schedule not found" });
+      }
+
+      const updates = jobScheduleUpdateSchema.parse(req.body);
+      // Re-enabling or rescheduling starts counting from now rather than firing missed runs
+      const reschedule = updates.cronExpression !== undefined || (updates.isEnabled && !existing.isEnabled);
+      const schedule = await storage.updateJobSchedule(req.params.id, {
+        ...updates,
+        ...(reschedule ? { nextRunAt: getNextRunAt(updates.cronExpression ?? existing.cronExpression) } : {}),
+      });
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid schedule data" });
+      }
+      console.error("Error updating job schedule:", error);
+      res.status(500).json({ message: "Failed to update job schedule" });
+    }
+  });
+
+  app.delete('/api/job-schedules/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const { status, notes } = req.body;
-      const order = await storage.updateOrderStatus(req.params.id, status, notes);
-      
-      // Handle inventory adjustments for status changes
-      if (order && order.warehouseId && order.productId && order.quantity) {
-        // If order is cancelled or returned, add inventory back
-        if (status === 'cancelled' || status === 'returned') {
-          await storage.adjustInventoryWithMovement(
-            order.warehouseId,
-            order.productId,
-            order.quantity,
-            status === 'cancelled' ? 'cancellation' : 'return',
-            req.user.claims.sub,
-            `Order ${status}: ${order.platformOrderId}`
-          );
-        }
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
       }
-      
-      res.json(order);
+
+      await storage.deleteJobSchedule(req.params.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error updating order status:", error);
-      res.status(500).json({ message: "Failed to update order status" });
+      console.error("Error deleting job schedule:", error);
+      res.status(500).json({ message: "Failed to delete job schedule" });
     }
   });
 
-  app.post('/api/sync/:platform', isAuthenticated, async (req: any, res) => {
+  app.post('/api/job-schedules/:id/run', isAuthenticated, async (req: any, res) => {
     try {
-      // Check if user has admin or manager role
       const user = await storage.getUser(req.user.claims.sub);
-      if (!user || !['admin', 'manager'].includes(user.role)) {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      if (!user || user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      const platform = req.params.platform;
-      const orders = await storage.syncOrdersFromPlatform(platform);
-      res.json({ message: `Synced ${orders.length} orders from ${platform}`, orders });
+      const schedule = await storage.getJobScheduleById(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Job schedule not found" });
+      }
+
+      // Picked up by the runner on its next poll
+      const job = await storage.enqueueJob({ type: schedule.type, payload: schedule.payload, scheduleId: schedule.id });
+      res.status(201).json(job);
     } catch (error) {
-      console.error("Error syncing orders:", error);
-      res.status(500).json({ message: "Failed to sync orders" });
+      console.error("Error running job schedule:", error);
+      res.status(500).json({ message: "Failed to run job schedule" });
     }
   });
 
@@ -368,6 +1807,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Product listing routes - marketplace SKUs mapped to catalogue products
+  app.get('/api/product-listings', isAuthenticated, async (req, res) => {
+    try {
+      const listings = await storage.getProductListings({
+        platform: req.query.platform as string,
+        productId: req.query.productId as string,
+      });
+      res.json(listings);
+    } catch (error) {
+      console.error("Error fetching product listings:", error);
+      res.status(500).json({ message: "Failed to fetch product listings" });
+    }
+  });
+
+  app.post('/api/product-listings', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const listingData = insertProductListingSchema.parse(req.body);
+      const listing = await storage.createProductListing(listingData);
+      // Orders that arrived before the mapping existed are linked now
+      const linkedOrders = await storage.linkUnmappedOrderItems(listing);
+      res.status(201).json({ ...listing, linkedOrders });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid listing data", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "This SKU or listing ID is already mapped for the platform" });
+      }
+      console.error("Error creating product listing:", error);
+      res.status(500).json({ message: "Failed to create product listing" });
+    }
+  });
+
+  app.patch('/api/product-listings/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      if (!(await storage.getProductListingById(req.params.id))) {
+        return res.status(404).json({ message: "Listing not found" });
+      }
+
+      const updates = insertProductListingSchema.partial().parse(req.body);
+      const listing = await storage.updateProductListing(req.params.id, updates);
+      const linkedOrders = listing.isActive ? await storage.linkUnmappedOrderItems(listing) : 0;
+      res.json({ ...listing, linkedOrders });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid listing data", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "This SKU or listing ID is already mapped for the platform" });
+      }
+      console.error("Error updating product listing:", error);
+      res.status(500).json({ message: "Failed to update product listing" });
+    }
+  });
+
+  app.delete('/api/product-listings/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await storage.deleteProductListing(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting product listing:", error);
+      res.status(500).json({ message: "Failed to delete product listing" });
+    }
+  });
+
   // Inventory routes
   app.get('/api/inventory', isAuthenticated, async (req, res) => {
     try {
@@ -543,49 +2062,388 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const transfer = await storage.createWarehouseTransfer(transferData);
       res.status(201).json(transfer);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid warehouse transfer data", errors: error.errors });
+      }
       console.error("Error creating warehouse transfer:", error);
       res.status(400).json({ message: "Invalid warehouse transfer data" });
     }
   });
 
-  app.patch('/api/warehouse-transfers/:id/status', isAuthenticated, async (req: any, res) => {
+  // Reads a SKU/quantity sheet into lines for the transfer builder; nothing is saved
+  app.post('/api/warehouse-transfers/import-lines', isAuthenticated, upload.single('file'), async (req: any, res) => {
     try {
-      const { status } = req.body;
-      const transfer = await storage.updateTransferStatus(
-        req.params.id,
-        status,
-        req.user.claims.sub
-      );
-      res.json(transfer);
+      if (!req.file) {
+        return res.status(400).json({ message: "A CSV or XLSX file is required" });
+      }
+      res.json(await parseTransferLines(req.file));
     } catch (error) {
-      console.error("Error updating transfer status:", error);
-      res.status(500).json({ message: "Failed to update transfer status" });
+      console.error("Error reading transfer lines:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid transfer file" });
     }
   });
 
-  app.patch('/api/warehouse-transfers/:id/approve', isAuthenticated, async (req: any, res) => {
+  // Delivery challan once dispatched, a transfer note for picking before that
+  app.get('/api/warehouse-transfers/:id/challan', isAuthenticated, async (req, res) => {
     try {
-      const transfer = await storage.approveTransfer(
-        req.params.id,
-        req.user.claims.sub
-      );
-      res.json(transfer);
+      const [transfer, seller] = await Promise.all([
+        storage.getWarehouseTransferWithDetails(req.params.id),
+        storage.getBusinessSettings(),
+      ]);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+
+      const filename = transfer.challanNumber ? transfer.challanNumber.replace(/\//g, '-') : `transfer-note-${transfer.id.slice(0, 8)}`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      await writeTransferChallanPdf(res, transfer, seller);
+    } catch (error) {
+      console.error("Error generating transfer challan:", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ message: "Failed to generate transfer challan" });
+    }
+  });
+
+  // Stock leaves the source warehouse on approval's say-so, so only its warehouse admins can give it
+  app.post('/api/warehouse-transfers/:id/approve', isAuthenticated, async (req: any, res) => {
+    try {
+      const transfer = await storage.getWarehouseTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (!(await storage.hasWarehousePermission(req.user.claims.sub, transfer.fromWarehouseId, 'admin'))) {
+        return res.status(403).json({ message: "Only an admin of the source warehouse can approve this transfer" });
+      }
+
+      const approved = await storage.approveTransfer(req.params.id, req.user.claims.sub);
+      res.json(approved);
     } catch (error) {
+      if (error instanceof TransferError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error approving transfer:", error);
       res.status(500).json({ message: "Failed to approve transfer" });
     }
   });
 
-  app.post('/api/warehouse-transfers/:id/process', isAuthenticated, async (req: any, res) => {
+  // Dispatch takes stock out of the source and receipt books it into the destination,
+  // so each needs write access to the warehouse whose stock it changes
+  app.post('/api/warehouse-transfers/:id/dispatch', isAuthenticated, async (req: any, res) => {
     try {
-      const transfer = await storage.processTransfer(
-        req.params.id,
-        req.user.claims.sub
-      );
-      res.json(transfer);
+      const transfer = await storage.getWarehouseTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (!(await storage.hasWarehousePermission(req.user.claims.sub, transfer.fromWarehouseId, 'write'))) {
+        return res.status(403).json({ message: "Dispatching this transfer needs write access to the source warehouse" });
+      }
+
+      const dispatched = await storage.dispatchTransfer(req.params.id, req.user.claims.sub);
+      res.json(dispatched);
+    } catch (error) {
+      if (error instanceof TransferError || error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error dispatching transfer:", error);
+      res.status(500).json({ message: "Failed to dispatch transfer" });
+    }
+  });
+
+  app.post('/api/warehouse-transfers/:id/receive', isAuthenticated, async (req: any, res) => {
+    try {
+      const transfer = await storage.getWarehouseTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (!(await storage.hasWarehousePermission(req.user.claims.sub, transfer.toWarehouseId, 'write'))) {
+        return res.status(403).json({ message: "Receiving this transfer needs write access to the destination warehouse" });
+      }
+
+      const receipt = transferReceiptSchema.parse(req.body);
+      const received = await storage.receiveTransfer(req.params.id, receipt, req.user.claims.sub);
+      res.json(received);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid receipt", errors: error.errors });
+      }
+      if (error instanceof TransferError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error receiving transfer:", error);
+      res.status(500).json({ message: "Failed to receive transfer" });
+    }
+  });
+
+  // The requester can withdraw their own request; otherwise it takes a source warehouse admin
+  app.post('/api/warehouse-transfers/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const transfer = await storage.getWarehouseTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (
+        transfer.requestedBy !== req.user.claims.sub &&
+        !(await storage.hasWarehousePermission(req.user.claims.sub, transfer.fromWarehouseId, 'admin'))
+      ) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const cancelled = await storage.cancelTransfer(req.params.id);
+      res.json(cancelled);
+    } catch (error) {
+      if (error instanceof TransferError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling transfer:", error);
+      res.status(500).json({ message: "Failed to cancel transfer" });
+    }
+  });
+
+  // Supplier routes
+  app.get('/api/suppliers', isAuthenticated, async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers(req.query.includeInactive === 'true');
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post('/api/suppliers', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const supplierData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(supplierData, req.user.claims.sub);
+      res.status(201).json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid supplier data", errors: error.errors });
+      }
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.patch('/api/suppliers/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const updates = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(req.params.id, updates);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid supplier data", errors: error.errors });
+      }
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  // Purchase order routes
+  app.get('/api/purchase-orders', isAuthenticated, async (req, res) => {
+    try {
+      const { status, supplierId, warehouseId } = req.query;
+      if (status && !purchaseOrderStatusEnum.enumValues.includes(status as any)) {
+        return res.status(400).json({ message: "Unknown purchase order status" });
+      }
+      const orders = await storage.getPurchaseOrders({
+        status: status as string | undefined,
+        supplierId: supplierId as string | undefined,
+        warehouseId: warehouseId as string | undefined,
+      });
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  // Registered before /:id so "on-order" is not taken for an id
+  app.get('/api/purchase-orders/on-order', isAuthenticated, async (req, res) => {
+    try {
+      const lines = await storage.getStockOnOrder(req.query.warehouseId as string | undefined);
+      res.json(lines);
+    } catch (error) {
+      console.error("Error fetching stock on order:", error);
+      res.status(500).json({ message: "Failed to fetch stock on order" });
+    }
+  });
+
+  app.get('/api/purchase-orders/:id', isAuthenticated, async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrderById(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const orderData = insertPurchaseOrderSchema.parse(req.body);
+      const order = await storage.createPurchaseOrder(orderData, req.user.claims.sub);
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid purchase order data", errors: error.errors });
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  // Drafts only; the whole order is sent again, lines included
+  app.put('/api/purchase-orders/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const orderData = insertPurchaseOrderSchema.parse(req.body);
+      const order = await storage.updatePurchaseOrder(req.params.id, orderData);
+      res.json(order);
     } catch (error) {
-      console.error("Error processing transfer:", error);
-      res.status(500).json({ message: "Failed to process transfer" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid purchase order data", errors: error.errors });
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/send', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const order = await storage.sendPurchaseOrder(req.params.id);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ message: "Failed to send purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/close', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const order = await storage.closePurchaseOrder(req.params.id);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error closing purchase order:", error);
+      res.status(500).json({ message: "Failed to close purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const order = await storage.cancelPurchaseOrder(req.params.id);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Goods receipt routes
+  app.get('/api/goods-receipts', isAuthenticated, async (req, res) => {
+    try {
+      const { purchaseOrderId, warehouseId } = req.query;
+      const receipts = await storage.getGoodsReceipts({
+        purchaseOrderId: purchaseOrderId as string | undefined,
+        warehouseId: warehouseId as string | undefined,
+      });
+      res.json(receipts);
+    } catch (error) {
+      console.error("Error fetching goods receipts:", error);
+      res.status(500).json({ message: "Failed to fetch goods receipts" });
+    }
+  });
+
+  app.get('/api/goods-receipts/:id', isAuthenticated, async (req, res) => {
+    try {
+      const receipt = await storage.getGoodsReceiptById(req.params.id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Goods receipt not found" });
+      }
+      res.json(receipt);
+    } catch (error) {
+      console.error("Error fetching goods receipt:", error);
+      res.status(500).json({ message: "Failed to fetch goods receipt" });
+    }
+  });
+
+  app.post('/api/goods-receipts', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !['admin', 'manager'].includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const receiptData = insertGoodsReceiptSchema.parse(req.body);
+      const receipt = await storage.createGoodsReceipt(receiptData, req.user.claims.sub);
+      res.status(201).json(receipt);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid goods receipt", errors: error.errors });
+      }
+      if (error instanceof GoodsReceiptError || error instanceof PurchaseOrderError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating goods receipt:", error);
+      res.status(500).json({ message: "Failed to create goods receipt" });
     }
   });
 
@@ -603,6 +2461,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       res.json(result);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message, available: error.available });
+      }
       console.error("Error adjusting inventory:", error);
       res.status(500).json({ message: "Failed to adjust inventory" });
     }
@@ -621,6 +2482,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       res.json(transfer);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message, available: error.available });
+      }
       console.error("Error transferring inventory:", error);
       res.status(500).json({ message: "Failed to transfer inventory" });
     }
@@ -0,0 +1,170 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { createRequire } from "module";
+import { eq } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { db } from "./db";
+import { storage, InsufficientStockError } from "./storage";
+import { inventoryEvents } from "./inventoryEvents";
+
+const { users, warehouses, products, inventory, stockMovements, orders, orderPayments, orderReturns, settlements } = schema;
+
+// `npm test` runs against an in-process Postgres (DATABASE_URL=pglite:memory) unless TEST_DATABASE_URL
+// names a real database, which must already have the schema pushed. The row locking these tests
+// exercise only really contends on a real server; in-process transactions take turns.
+const inProcess = process.env.DATABASE_URL!.startsWith("pglite:");
+const runId = randomUUID();
+const userId = `test-${runId}`;
+let warehouse: schema.Warehouse;
+
+before(async () => {
+  if (inProcess) {
+    // drizzle-kit's ESM build cannot load in Node, so its CommonJS build is required instead
+    const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+    const { apply } = await pushSchema(schema, db as any);
+    await apply();
+  }
+  await storage.upsertUser({ id: userId, email: `${userId}@example.com` });
+  warehouse = await storage.createWarehouse({ name: `Test ${runId}`, allowNegativeStock: false }, userId);
+});
+
+after(async () => {
+  if (inProcess) return;
+  await db.delete(warehouses).where(eq(warehouses.id, warehouse.id));
+  await db.delete(users).where(eq(users.id, userId));
+});
+
+// Products created here are removed with their stock and movements once the test finishes
+async function stockedProduct(sku: string, onHand: number): Promise<schema.Product> {
+  const product = await storage.createProduct({ name: `Test product ${sku}`, sku: `${sku}-${runId}` }, userId);
+  after(async () => {
+    if (inProcess) return;
+    await db.delete(stockMovements).where(eq(stockMovements.productId, product.id));
+    await db.delete(inventory).where(eq(inventory.productId, product.id));
+    await db.delete(products).where(eq(products.id, product.id));
+  });
+  if (onHand > 0) {
+    await storage.adjustInventoryWithMovement(warehouse.id, product.id, onHand, "Opening stock", userId);
+  }
+  return product;
+}
+
+async function onHand(productId: string): Promise<number> {
+  const [row] = await db.select().from(inventory).where(eq(inventory.productId, productId));
+  return row?.quantity ?? 0;
+}
+
+test("concurrent sales never take a warehouse below zero", async () => {
+  const product = await stockedProduct("CONCURRENT", 5);
+
+  const results = await Promise.allSettled(
+    Array.from({ length: 12 }, () =>
+      storage.adjustInventoryWithMovement(warehouse.id, product.id, -1, "Sale", userId)
+    )
+  );
+  const sold = results.filter(result => result.status === "fulfilled");
+  const refused = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+
+  assert.equal(sold.length, 5);
+  for (const { reason } of refused) {
+    assert.ok(reason instanceof InsufficientStockError, `unexpected failure: ${reason}`);
+  }
+  assert.equal(await onHand(product.id), 0);
+
+  const movements = await db.select().from(stockMovements).where(eq(stockMovements.productId, product.id));
+  // The opening stock plus one outbound movement per sale that went through
+  assert.equal(movements.length, 1 + sold.length);
+  assert.equal(movements.filter(movement => movement.movementType === "outbound").length, sold.length);
+});
+
+test("an already-shipped order short of stock is not saved and announces no stock change", async () => {
+  const inStock = await stockedProduct("IN-STOCK", 5);
+  const short = await stockedProduct("SHORT", 1);
+  const announced: string[] = [];
+  const listener = (productId: string) => announced.push(productId);
+  inventoryEvents.on("stockChanged", listener);
+
+  try {
+    await assert.rejects(
+      storage.createOrder({
+        platform: "website",
+        platformOrderId: `SHIPPED-${runId}`,
+        customerName: "Test customer",
+        status: "shipped",
+        warehouseId: warehouse.id,
+        items: [
+          { productId: inStock.id, productName: inStock.name, quantity: 2, unitPrice: "100" },
+          { productId: short.id, productName: short.name, quantity: 3, unitPrice: "100" },
+        ],
+      }, userId),
+      InsufficientStockError
+    );
+  } finally {
+    inventoryEvents.off("stockChanged", listener);
+  }
+
+  assert.equal(await storage.getOrderByPlatformOrderId("website", `SHIPPED-${runId}`), undefined);
+  // The first line was deducted before the second failed; both come back with the rollback
+  assert.equal(await onHand(inStock.id), 5);
+  assert.equal(await onHand(short.id), 1);
+  assert.deepEqual(announced, []);
+});
+
+test("a settled order is paid through its ledger and can be refunded", async (t) => {
+  const order = await storage.createOrder({
+    platform: "amazon",
+    platformOrderId: `SETTLED-${runId}`,
+    customerName: "Test customer",
+    status: "delivered",
+    items: [{ productName: "Unlinked product", quantity: 1, unitPrice: "250" }],
+  }, userId);
+  t.after(async () => {
+    if (inProcess) return;
+    await db.delete(settlements).where(eq(settlements.settlementRef, `SETTLEMENT-${runId}`));
+    await db.delete(orderPayments).where(eq(orderPayments.orderId, order.id));
+    await db.delete(orders).where(eq(orders.id, order.id));
+  });
+
+  await storage.createSettlement({ platform: "amazon", settlementRef: `SETTLEMENT-${runId}` }, [{
+    platformOrderId: order.platformOrderId,
+    orderId: order.id,
+    saleAmount: "250",
+    netPayout: "200",
+    matchStatus: "matched",
+  }]);
+
+  const ledger = await storage.getOrderPayments(order.id);
+  assert.deepEqual(ledger.map(entry => [entry.kind, entry.method, entry.amount]), [["payment", "marketplace", "250.00"]]);
+  assert.equal((await storage.getOrderById(order.id))?.paymentStatus, "paid");
+
+  await storage.recordOrderPayment(order.id, { kind: "refund", method: "marketplace", amount: "100" }, userId);
+  assert.equal((await storage.getOrderById(order.id))?.paymentStatus, "partially_refunded");
+});
+
+test("delivery and return effects are recorded with the status change", async (t) => {
+  const order = await storage.createOrder({
+    platform: "website",
+    platformOrderId: `COD-${runId}`,
+    customerName: "Test customer",
+    status: "processing",
+    paymentMethod: "COD",
+    items: [{ productName: "Unlinked product", quantity: 2, unitPrice: "150" }],
+  }, userId);
+  t.after(async () => {
+    if (inProcess) return;
+    await db.delete(orderPayments).where(eq(orderPayments.orderId, order.id));
+    await db.delete(orderReturns).where(eq(orderReturns.orderId, order.id));
+    await db.delete(orders).where(eq(orders.id, order.id));
+  });
+
+  await storage.updateOrderStatus(order.id, "shipped", undefined, userId);
+  await storage.updateOrderStatus(order.id, "delivered", undefined, userId);
+  const ledger = await storage.getOrderPayments(order.id);
+  assert.deepEqual(ledger.map(entry => [entry.kind, entry.method, entry.amount]), [["payment", "cod", "300.00"]]);
+  assert.equal((await storage.getOrderById(order.id))?.paymentStatus, "paid");
+
+  await storage.updateOrderStatus(order.id, "returned", "Customer refused", userId);
+  const [opened] = await storage.getOrderReturns(order.id);
+  assert.equal(opened?.items.reduce((units, item) => units + item.quantity, 0), 2);
+});
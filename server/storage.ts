@@ -1,23 +1,57 @@
 import {
   users,
   orders,
+  orderItems,
   expenses,
   orderStatusHistory,
   warehouses,
   products,
   inventory,
   warehousePermissions,
+  warehousePermissionEnum,
   stockMovements,
   warehouseTransfers,
+  warehouseTransferItems,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
+  goodsReceipts,
+  goodsReceiptItems,
+  platformConnections,
+  syncRuns,
+  jobs,
+  jobSchedules,
+  channelWarehouses,
+  channelInventory,
+  productListings,
+  webhookEvents,
+  settlements,
+  settlementLines,
+  platformFeeRules,
+  businessSettings,
+  documentSequences,
+  invoices,
+  shipments,
+  shipmentEvents,
+  orderReturns,
+  returnItems,
+  orderPayments,
+  codRemittances,
+  codRemittanceLines,
   type User,
   type UpsertUser,
   type InsertUser,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type InsertOrderItem,
+  type InsertOrderWithItems,
+  type OrderWithItems,
   type Expense,
   type InsertExpense,
   type ExpenseWithUsers,
   type OrderWithHistory,
+  type OrderForShipping,
   type OrderWithWarehouse,
   type InsertOrderStatusHistory,
   type Warehouse,
@@ -37,9 +71,210 @@ import {
   type WarehouseTransfer,
   type InsertWarehouseTransfer,
   type WarehouseTransferWithDetails,
+  type TransferReceipt,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderWithDetails,
+  type OnOrderLine,
+  type GoodsReceipt,
+  type InsertGoodsReceipt,
+  type GoodsReceiptWithDetails,
+  type Platform,
+  type PlatformConnection,
+  type InsertPlatformConnection,
+  type SyncRun,
+  type InsertSyncRun,
+  type SyncRunWithUser,
+  type Job,
+  type InsertJob,
+  type JobSchedule,
+  type InsertJobSchedule,
+  type ChannelInventory,
+  type ProductListing,
+  type InsertProductListing,
+  type ProductListingWithProduct,
+  type WebhookEvent,
+  type InsertWebhookEvent,
+  type WebhookEventStatus,
+  type Settlement,
+  type InsertSettlement,
+  type InsertSettlementLine,
+  type SettlementWithLines,
+  type PlatformFeeRule,
+  type InsertPlatformFeeRule,
+  type OrderFeeBreakdown,
+  type BusinessSettings,
+  type InsertBusinessSettings,
+  type Invoice,
+  type DocumentType,
+  type Shipment,
+  type InsertShipment,
+  type InsertShipmentEvent,
+  type ShipmentEvent,
+  type ShipmentWithEvents,
+  type Carrier,
+  type InsertReturn,
+  type ReturnInspection,
+  type ReturnWithDetails,
+  type ReturnAnalytics,
+  type ReturnRate,
+  type InsertOrderPayment,
+  type OrderPayment,
+  type PaymentMethod,
+  type CodRemittance,
+  type InsertCodRemittance,
+  type InsertCodRemittanceLine,
+  type CodRemittanceWithLines,
+  type OutstandingCod,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, or, like, gte, lte, count, sql } from "drizzle-orm";
+import { calculateLineTotal, calculateOrderTotals, type OrderTotals } from "@shared/orderTotals";
+import { calculateOrderFees } from "@shared/platformFees";
+import { calculateInvoiceLines, financialYearOf, findGstState } from "@shared/gst";
+import { derivePaymentStatus, isCashOnDelivery, summarizePayments } from "@shared/payments";
+import { canTransitionOrderStatus, type OrderStatus } from "@shared/orderStatus";
+import { openTransferStatuses, transferStatusesBefore, type TransferStatus } from "@shared/transfers";
+import {
+  openPurchaseOrderStatuses,
+  outstandingQuantity,
+  purchaseOrderStatusesBefore,
+  purchaseOrderTotal,
+  type PurchaseOrderStatus,
+} from "@shared/purchasing";
+import { db, type DbExecutor, type DbTransaction } from "./db";
+import { emitStockChanged } from "./inventoryEvents";
+import { eq, ne, desc, and, or, like, gte, lte, count, sql, inArray, notInArray, isNull, getTableColumns, type SQL } from "drizzle-orm";
+
+export class OrderStatusTransitionError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus, message?: string) {
+    super(message ?? `Cannot change order status from ${from} to ${to}`);
+    this.name = "OrderStatusTransitionError";
+  }
+}
+
+// An invoice or credit note that cannot be issued for the order as it stands
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceError";
+  }
+}
+
+// A return that cannot be created or moved on as requested, e.g. more units than were sent
+export class ReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnError";
+  }
+}
+
+// A ledger entry that would not add up, e.g. refunding more than was collected
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// A transfer that cannot be moved on as requested, e.g. dispatching one that was never approved
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferError";
+  }
+}
+
+// A purchase order that cannot be changed or moved on as requested, e.g. editing one already sent
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+// A goods receipt that does not fit its purchase order, e.g. a line from another order
+export class GoodsReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoodsReceiptError";
+  }
+}
+
+// Taking more stock than a warehouse holds, where the warehouse does not allow negative stock
+export class InsufficientStockError extends Error {
+  constructor(
+    public warehouseId: string,
+    public productId: string,
+    public available: number,
+    public requested: number,
+    message?: string
+  ) {
+    super(message ?? `Insufficient stock: ${available} available, ${requested} requested`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// One change to a product's on-hand stock in a warehouse, recorded as a stock movement
+interface StockAdjustment {
+  warehouseId: string;
+  productId: string;
+  quantityChange: number;
+  reason: string;
+  userId?: string;
+  notes?: string;
+  movementType?: string; // defaults to inbound/outbound by the direction of the change
+  refs?: Pick<InsertStockMovement, 'orderId' | 'transferId' | 'returnId' | 'goodsReceiptId'>;
+}
+
+export interface OrderFilters {
+  platform?: string;
+  status?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+  needsReview?: boolean;
+}
+
+// A marketplace SKU resolved to the catalogue, either through a listing or the product's own SKU
+export interface CatalogueMatch {
+  product: Product;
+  packSize: number;
+}
+
+// Catalogue units an order line moves: two 6-packs consume 12 units of the product
+const stockUnits = (item: OrderItem) => item.quantity * item.packSize;
+
+const costPerPack = ({ product, packSize }: CatalogueMatch) =>
+  product.costPrice ? (parseFloat(product.costPrice) * packSize).toFixed(2) : undefined;
+
+type FeeableLine = Pick<InsertOrderItem, 'productId' | 'quantity' | 'packSize' | 'unitPrice' | 'taxAmount' | 'discountAmount'>;
+
+// The totals' profit already excludes tax and cost; this takes the platform's cut as well
+const netProfit = (totals: OrderTotals, fees: OrderFeeBreakdown, shippingCost: string | null = '0') =>
+  (parseFloat(totals.profit) - parseFloat(fees.total) - parseFloat(shippingCost ?? '0')).toFixed(2);
+
+// Settlement reports only split out commission and shipping, with GST on them already included
+const settledFees = (commission: number, shipping: number): OrderFeeBreakdown => ({
+  source: 'settlement',
+  commission: commission.toFixed(2),
+  fixedFee: '0.00',
+  shipping: shipping.toFixed(2),
+  paymentGateway: '0.00',
+  gstOnFees: '0.00',
+  total: (commission + shipping).toFixed(2),
+});
+
+const documentPrefixes: Record<DocumentType, string> = {
+  invoice: 'INV',
+  credit_note: 'CN',
+  delivery_challan: 'DC',
+  purchase_order: 'PO',
+  goods_receipt: 'GRN',
+};
+
+// Orders that no longer earn anything are left out of revenue and profit figures
+const countsTowardsRevenue = notInArray(orders.status, ['cancelled', 'returned']);
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -50,19 +285,26 @@ export interface IStorage {
   toggleUserStatus(id: string): Promise<User>;
 
   // Order operations
-  getOrders(filters?: {
-    platform?: string;
-    status?: string;
-    dateFrom?: string;
-    dateTo?: string;
-    search?: string;
+  getOrders(filters?: OrderFilters & {
     limit?: number;
     offset?: number;
   }): Promise<{ orders: Order[]; total: number }>;
+  getOrderBatches(filters?: OrderFilters, batchSize?: number): AsyncGenerator<Order[]>;
   getOrderById(id: string): Promise<OrderWithHistory | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: string, status: string, notes?: string): Promise<Order>;
-  syncOrdersFromPlatform(platform: string): Promise<Order[]>;
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  getOrdersForShipping(ids: string[]): Promise<OrderForShipping[]>;
+  createOrder(order: InsertOrderWithItems, userId?: string): Promise<OrderWithItems>;
+  importOrders(orders: InsertOrderWithItems[], userId?: string): Promise<{
+    created: OrderWithItems[];
+    duplicates: string[];
+  }>;
+  getExistingPlatformOrderIds(platform: string, platformOrderIds: string[]): Promise<string[]>;
+  getOrderByPlatformOrderId(platform: Platform, platformOrderId: string): Promise<Order | undefined>;
+  updateOrderStatus(id: string, status: OrderStatus, notes?: string, userId?: string): Promise<Order | undefined>;
+  updateOrderDetails(
+    id: string,
+    updates: Partial<Pick<InsertOrder, 'trackingNumber' | 'paymentStatus' | 'paymentMethod' | 'transactionId' | 'shippingState' | 'shippingPincode'>>
+  ): Promise<Order>;
   getOrderStats(): Promise<{
     totalOrders: number;
     totalRevenue: string;
@@ -99,13 +341,24 @@ export interface IStorage {
   updateWarehouse(id: string, updates: Partial<InsertWarehouse>): Promise<Warehouse>;
   deleteWarehouse(id: string): Promise<void>;
   getUserWarehousePermissions(userId: string): Promise<WarehousePermission[]>;
+  hasWarehousePermission(userId: string, warehouseId: string, permission: WarehousePermission['permission']): Promise<boolean>;
   
   // Product operations
   getProducts(warehouseId?: string): Promise<Product[]>;
   getProductById(id: string): Promise<ProductWithInventory | undefined>;
+  getProductsBySkus(skus: string[]): Promise<Product[]>;
   createProduct(product: InsertProduct, createdBy: string): Promise<Product>;
   updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product>;
   deleteProduct(id: string): Promise<void>;
+
+  // Product listings
+  getProductListings(filters?: { platform?: string; productId?: string }): Promise<ProductListingWithProduct[]>;
+  getProductListingById(id: string): Promise<ProductListing | undefined>;
+  createProductListing(listing: InsertProductListing): Promise<ProductListing>;
+  updateProductListing(id: string, updates: Partial<InsertProductListing>): Promise<ProductListing>;
+  deleteProductListing(id: string): Promise<void>;
+  matchCatalogueSkus(platform: Platform, skus: string[]): Promise<Map<string, CatalogueMatch>>;
+  linkUnmappedOrderItems(listing: ProductListing): Promise<number>;
   
   // Inventory operations
   getInventory(warehouseId?: string): Promise<InventoryWithDetails[]>;
@@ -113,6 +366,10 @@ export interface IStorage {
   updateInventory(warehouseId: string, productId: string, quantity: number): Promise<Inventory>;
   getInventoryByWarehouse(warehouseId: string): Promise<InventoryWithDetails[]>;
   getLowStockItems(warehouseId?: string): Promise<InventoryWithDetails[]>;
+  getAvailableStockBySku(filters?: {
+    warehouseIds?: string[];
+    productIds?: string[];
+  }): Promise<{ productId: string; sku: string; available: number }[]>;
   
   // Warehouse permissions
   getWarehousePermissions(warehouseId: string): Promise<WarehousePermission[]>;
@@ -140,10 +397,30 @@ export interface IStorage {
   
   // Warehouse transfers
   getWarehouseTransfers(warehouseId?: string): Promise<WarehouseTransferWithDetails[]>;
+  getWarehouseTransferById(id: string): Promise<WarehouseTransfer | undefined>;
+  getWarehouseTransferWithDetails(id: string): Promise<WarehouseTransferWithDetails | undefined>;
   createWarehouseTransfer(transfer: InsertWarehouseTransfer): Promise<WarehouseTransfer>;
-  updateTransferStatus(id: string, status: string, userId: string): Promise<WarehouseTransfer>;
   approveTransfer(id: string, userId: string): Promise<WarehouseTransfer>;
-  processTransfer(id: string, userId: string): Promise<WarehouseTransfer>;
+  dispatchTransfer(id: string, userId: string): Promise<WarehouseTransfer>;
+  receiveTransfer(id: string, receipt: TransferReceipt, userId: string): Promise<WarehouseTransfer>;
+  cancelTransfer(id: string): Promise<WarehouseTransfer>;
+
+  // Suppliers and purchase orders
+  getSuppliers(includeInactive?: boolean): Promise<Supplier[]>;
+  getSupplierById(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier, createdBy: string): Promise<Supplier>;
+  updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  getPurchaseOrders(filters?: { status?: string; supplierId?: string; warehouseId?: string }): Promise<PurchaseOrderWithDetails[]>;
+  getPurchaseOrderById(id: string): Promise<PurchaseOrderWithDetails | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrder, createdBy: string): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, order: InsertPurchaseOrder): Promise<PurchaseOrder>;
+  sendPurchaseOrder(id: string): Promise<PurchaseOrder>;
+  closePurchaseOrder(id: string): Promise<PurchaseOrder>;
+  cancelPurchaseOrder(id: string): Promise<PurchaseOrder>;
+  getStockOnOrder(warehouseId?: string): Promise<OnOrderLine[]>;
+  getGoodsReceipts(filters?: { purchaseOrderId?: string; warehouseId?: string }): Promise<GoodsReceiptWithDetails[]>;
+  getGoodsReceiptById(id: string): Promise<GoodsReceiptWithDetails | undefined>;
+  createGoodsReceipt(receipt: InsertGoodsReceipt, userId: string): Promise<GoodsReceipt>;
   
   // Enhanced inventory operations with stock tracking
   adjustInventoryWithMovement(
@@ -151,8 +428,9 @@ export interface IStorage {
     productId: string, 
     quantity: number, 
     reason: string, 
-    userId: string, 
-    notes?: string
+    userId: string | undefined, 
+    notes?: string,
+    refs?: Pick<InsertStockMovement, 'orderId' | 'transferId' | 'returnId'>
   ): Promise<{ inventory: Inventory; movement: StockMovement }>;
   
   transferInventoryBetweenWarehouses(
@@ -197,9 +475,139 @@ export interface IStorage {
     recentMovements: StockMovementWithDetails[];
     pendingTransfers: WarehouseTransferWithDetails[];
   }>;
+
+  // Platform connections
+  getPlatformConnections(): Promise<PlatformConnection[]>;
+  getPlatformConnection(platform: Platform): Promise<PlatformConnection | undefined>;
+  upsertPlatformConnection(connection: InsertPlatformConnection): Promise<PlatformConnection>;
+  updatePlatformSyncCursor(platform: Platform, syncCursor: string | null): Promise<PlatformConnection>;
+  getChannelWarehouseIds(platform: Platform): Promise<string[]>;
+  setChannelWarehouses(platform: Platform, warehouseIds: string[]): Promise<void>;
+  getChannelInventory(platform: Platform, skus?: string[]): Promise<ChannelInventory[]>;
+  recordChannelInventoryPush(
+    platform: Platform,
+    results: { sku: string; quantity: number; status: 'pushed' | 'failed'; error?: string }[]
+  ): Promise<void>;
+
+  // Sync runs
+  getSyncRuns(filters?: { platform?: string; limit?: number; offset?: number }): Promise<{ runs: SyncRunWithUser[]; total: number }>;
+  getSyncRunById(id: string): Promise<SyncRun | undefined>;
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  finishSyncRun(id: string, updates: Partial<InsertSyncRun>): Promise<SyncRun>;
+
+  // Settlements
+  getOrdersByPlatformOrderIds(platform: Platform, platformOrderIds: string[]): Promise<Order[]>;
+  getSettledSaleAmounts(orderIds: string[]): Promise<Map<string, number>>;
+  getExistingSettlementRefs(platform: Platform, settlementRefs: string[]): Promise<string[]>;
+  createSettlement(settlement: InsertSettlement, lines: InsertSettlementLine[]): Promise<Settlement>;
+  getSettlements(filters?: { platform?: string; limit?: number; offset?: number }): Promise<{ settlements: Settlement[]; total: number }>;
+  getSettlementById(id: string): Promise<SettlementWithLines | undefined>;
+  getUnpaidDeliveredOrders(filters: { platform?: string; deliveredBefore: Date }): Promise<(Order & { deliveredAt: Date })[]>;
+
+  // Platform fee rules
+  getPlatformFeeRules(platform?: string): Promise<PlatformFeeRule[]>;
+  getPlatformFeeRuleById(id: string): Promise<PlatformFeeRule | undefined>;
+  createPlatformFeeRule(rule: InsertPlatformFeeRule): Promise<PlatformFeeRule>;
+  updatePlatformFeeRule(id: string, updates: Partial<InsertPlatformFeeRule>): Promise<PlatformFeeRule>;
+  deletePlatformFeeRule(id: string): Promise<void>;
+  recomputeEstimatedOrderFees(platform?: Platform): Promise<number>;
+
+  // GST invoicing
+  getBusinessSettings(): Promise<BusinessSettings | undefined>;
+  saveBusinessSettings(settings: InsertBusinessSettings): Promise<BusinessSettings>;
+  getOrderInvoices(orderId: string): Promise<Invoice[]>;
+  issueInvoice(orderId: string, userId?: string): Promise<Invoice>;
+  issueCreditNote(orderId: string, userId?: string): Promise<Invoice>;
+
+  // Courier shipments
+  getOrderShipments(orderId: string): Promise<ShipmentWithEvents[]>;
+  getShipmentById(id: string): Promise<Shipment | undefined>;
+  getTrackableShipments(carrier?: Carrier): Promise<Shipment[]>;
+  recordShipment(shipment: InsertShipment): Promise<Shipment>;
+  cancelShipment(id: string): Promise<Shipment | undefined>;
+  recordTrackingEvents(
+    shipmentId: string,
+    events: Omit<InsertShipmentEvent, 'shipmentId'>[]
+  ): Promise<{ shipment: Shipment; added: ShipmentEvent[] } | undefined>;
+
+  // Returns (RMA)
+  getReturns(filters?: { status?: string; platform?: string }): Promise<ReturnWithDetails[]>;
+  getReturnById(id: string): Promise<ReturnWithDetails | undefined>;
+  getOrderReturns(orderId: string): Promise<ReturnWithDetails[]>;
+  createReturn(returnData: InsertReturn, userId?: string): Promise<ReturnWithDetails>;
+  receiveReturn(id: string, userId?: string): Promise<ReturnWithDetails>;
+  inspectReturn(id: string, inspection: ReturnInspection, userId?: string): Promise<ReturnWithDetails>;
+  recordReturnRefund(
+    id: string,
+    refund: { amount: string; reference?: string; method?: PaymentMethod },
+    userId?: string
+  ): Promise<ReturnWithDetails>;
+  cancelReturn(id: string): Promise<ReturnWithDetails>;
+  getReturnAnalytics(filters?: { dateFrom?: string; dateTo?: string }): Promise<ReturnAnalytics>;
+
+  // Payment ledger
+  getOrderPayments(orderId: string): Promise<OrderPayment[]>;
+  recordOrderPayment(orderId: string, payment: InsertOrderPayment, userId?: string): Promise<OrderPayment>;
+  recordCodRemittance(paymentId: string, remittance: { reference: string; remittedAt?: Date }): Promise<OrderPayment | undefined>;
+
+  // COD remittances
+  getCodCollectionsByAwb(awbs: string[]): Promise<OrderPayment[]>;
+  getOrdersByTrackingNumbers(trackingNumbers: string[]): Promise<Order[]>;
+  getExistingCodRemittanceRefs(carrier: Carrier, remittanceRefs: string[]): Promise<string[]>;
+  createCodRemittance(remittance: InsertCodRemittance, lines: InsertCodRemittanceLine[]): Promise<CodRemittance>;
+  getCodRemittances(filters?: { carrier?: string; limit?: number; offset?: number }): Promise<{ remittances: CodRemittance[]; total: number }>;
+  getCodRemittanceById(id: string): Promise<CodRemittanceWithLines | undefined>;
+  getOutstandingCod(filters?: { carrier?: string }): Promise<OutstandingCod[]>;
+
+  // Webhook events
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<{ event: WebhookEvent; duplicate: boolean }>;
+  getWebhookEvents(filters?: { platform?: string; status?: string; limit?: number; offset?: number }): Promise<{ events: WebhookEvent[]; total: number }>;
+  getWebhookEventById(id: string): Promise<WebhookEvent | undefined>;
+  finishWebhookEvent(id: string, status: WebhookEventStatus, error?: string): Promise<WebhookEvent>;
+
+  // Background jobs
+  getJobs(filters?: { status?: string; type?: string; limit?: number; offset?: number }): Promise<{ jobs: Job[]; total: number }>;
+  getJobById(id: string): Promise<Job | undefined>;
+  enqueueJob(job: InsertJob): Promise<Job>;
+  claimNextJob(workerId: string): Promise<Job | undefined>;
+  completeJob(id: string, result: Record<string, unknown>): Promise<Job>;
+  failJob(id: string, error: string, retryAt?: Date): Promise<Job>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  retryJob(id: string): Promise<Job | undefined>;
+
+  // Job schedules
+  getJobSchedules(): Promise<JobSchedule[]>;
+  getJobScheduleById(id: string): Promise<JobSchedule | undefined>;
+  createJobSchedule(schedule: InsertJobSchedule, nextRunAt: Date): Promise<JobSchedule>;
+  ensureJobSchedule(schedule: InsertJobSchedule, nextRunAt: Date): Promise<void>;
+  updateJobSchedule(id: string, updates: Partial<InsertJobSchedule> & { nextRunAt?: Date }): Promise<JobSchedule>;
+  deleteJobSchedule(id: string): Promise<void>;
+  getDueJobSchedules(now: Date): Promise<JobSchedule[]>;
+  enqueueScheduledJob(schedule: JobSchedule, nextRunAt: Date): Promise<Job | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Products whose stock changed inside each open transaction, announced once it commits
+  private pendingStockChanges = new WeakMap<DbExecutor, Set<string>>();
+
+  // db.transaction that holds back stock-changed events until the commit, so listeners never
+  // read stock that is still locked or about to be rolled back
+  private async transaction<T>(work: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    const changed = new Set<string>();
+    const result = await db.transaction(async (tx) => {
+      this.pendingStockChanges.set(tx, changed);
+      return await work(tx);
+    });
+    changed.forEach(productId => emitStockChanged(productId));
+    return result;
+  }
+
+  private stockChanged(executor: DbExecutor, productId: string): void {
+    const pending = this.pendingStockChanges.get(executor);
+    if (pending) pending.add(productId);
+    else emitStockChanged(productId);
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -247,21 +655,67 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Order operations
-  async getOrders(filters?: {
-    platform?: string;
-    status?: string;
-    dateFrom?: string;
-    dateTo?: string;
-    search?: string;
+  async getOrders(filters?: OrderFilters & {
     limit?: number;
     offset?: number;
   }): Promise<{ orders: Order[]; total: number }> {
+    const whereClause = this.buildOrderConditions(filters);
+
+    const [ordersResult, totalResult] = await Promise.all([
+      db
+        .select()
+        .from(orders)
+        .where(whereClause)
+        .orderBy(desc(orders.createdAt))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(orders)
+        .where(whereClause)
+    ]);
+
+    return {
+      orders: ordersResult,
+      total: totalResult[0].count
+    };
+  }
+
+  // Walks every matching order newest first using keyset pagination, so exports are not
+  // limited to a page and never hold the whole result set in memory. The cursor keeps created_at
+  // as Postgres text because a JS Date drops the microseconds and would skip rows sharing a millisecond.
+  async *getOrderBatches(filters?: OrderFilters, batchSize = 500): AsyncGenerator<Order[]> {
+    let last: { createdAt: string; id: string } | undefined;
+
+    while (true) {
+      const conditions = [this.buildOrderConditions(filters)];
+      if (last) {
+        conditions.push(sql`(${orders.createdAt}, ${orders.id}) < (${last.createdAt}::timestamp, ${last.id})`);
+      }
+
+      const rows = await db
+        .select({ order: orders, cursorCreatedAt: sql<string>`${orders.createdAt}::text` })
+        .from(orders)
+        .where(and(...conditions))
+        .orderBy(desc(orders.createdAt), desc(orders.id))
+        .limit(batchSize);
+
+      if (rows.length === 0) return;
+      yield rows.map(row => row.order);
+      if (rows.length < batchSize) return;
+      const { order, cursorCreatedAt } = rows[rows.length - 1];
+      last = { createdAt: cursorCreatedAt, id: order.id };
+    }
+  }
+
+  private buildOrderConditions(filters?: OrderFilters) {
     const conditions = [];
     
-    if (filters?.platform) {
+    // "all" is what the filter dropdowns send for no filter
+    if (filters?.platform && filters.platform !== 'all') {
       conditions.push(eq(orders.platform, filters.platform as any));
     }
-    if (filters?.status) {
+    if (filters?.status && filters.status !== 'all') {
       conditions.push(eq(orders.status, filters.status as any));
     }
     if (filters?.dateFrom) {
@@ -270,6 +724,9 @@ export class DatabaseStorage implements IStorage {
     if (filters?.dateTo) {
       conditions.push(lte(orders.createdAt, new Date(filters.dateTo)));
     }
+    if (filters?.needsReview) {
+      conditions.push(eq(orders.needsReview, true));
+    }
     if (filters?.search) {
       conditions.push(
         or(
@@ -280,97 +737,405 @@ export class DatabaseStorage implements IStorage {
       );
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
 
-    const [ordersResult, totalResult] = await Promise.all([
+  async getOrderById(id: string): Promise<OrderWithHistory | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    if (!order) return undefined;
+
+    const [history, items] = await Promise.all([
       db
         .select()
-        .from(orders)
-        .where(whereClause)
-        .orderBy(desc(orders.createdAt))
-        .limit(filters?.limit || 20)
-        .offset(filters?.offset || 0),
+        .from(orderStatusHistory)
+        .where(eq(orderStatusHistory.orderId, id))
+        .orderBy(desc(orderStatusHistory.createdAt)),
+      this.getOrderItems(id),
+    ]);
+
+    return { ...order, statusHistory: history, items };
+  }
+
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return await db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(orderItems.createdAt);
+  }
+
+  // Orders come back in the order they were asked for, so batch documents follow the user's selection
+  async getOrdersForShipping(ids: string[]): Promise<OrderForShipping[]> {
+    if (ids.length === 0) return [];
+
+    const [orderRows, itemRows] = await Promise.all([
       db
-        .select({ count: count() })
+        .select({ order: orders, warehouse: warehouses })
         .from(orders)
-        .where(whereClause)
+        .leftJoin(warehouses, eq(orders.warehouseId, warehouses.id))
+        .where(inArray(orders.id, ids)),
+      db
+        .select({ item: orderItems, product: products })
+        .from(orderItems)
+        .leftJoin(products, eq(orderItems.productId, products.id))
+        .where(inArray(orderItems.orderId, ids))
+        .orderBy(orderItems.createdAt),
     ]);
 
-    return {
-      orders: ordersResult,
-      total: totalResult[0].count
-    };
+    const byId = new Map(orderRows.map(({ order, warehouse }) => [
+      order.id,
+      {
+        ...order,
+        warehouse,
+        items: itemRows
+          .filter(({ item }) => item.orderId === order.id)
+          .map(({ item, product }) => ({ ...item, product })),
+      },
+    ]));
+    return ids.flatMap(id => byId.get(id) ?? []);
   }
 
-  async getOrderById(id: string): Promise<OrderWithHistory | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    if (!order) return undefined;
+  async createOrder(orderData: InsertOrderWithItems, userId?: string): Promise<OrderWithItems> {
+    return await this.transaction(async (tx) => {
+      const created = await this.insertOrderWithItems(tx, orderData);
+      await this.applyCreationStockEffects(tx, created, userId);
+      return created;
+    });
+  }
 
-    const history = await db
-      .select()
-      .from(orderStatusHistory)
-      .where(eq(orderStatusHistory.orderId, id))
-      .orderBy(desc(orderStatusHistory.createdAt));
+  // All-or-nothing bulk insert used by report imports. Orders that already exist for the
+  // platform are skipped rather than failing the whole batch.
+  async importOrders(ordersData: InsertOrderWithItems[], userId?: string): Promise<{
+    created: OrderWithItems[];
+    duplicates: string[];
+  }> {
+    return await this.transaction(async (tx) => {
+      const created: OrderWithItems[] = [];
+      const duplicates: string[] = [];
+
+      for (const orderData of ordersData) {
+        const [existing] = await tx
+          .select({ id: orders.id })
+          .from(orders)
+          .where(and(
+            eq(orders.platform, orderData.platform),
+            eq(orders.platformOrderId, orderData.platformOrderId)
+          ));
+
+        if (existing) {
+          duplicates.push(orderData.platformOrderId);
+          continue;
+        }
+        const order = await this.insertOrderWithItems(tx, orderData);
+        await this.applyCreationStockEffects(tx, order, userId);
+        created.push(order);
+      }
 
-    return { ...order, statusHistory: history };
+      return { created, duplicates };
+    });
   }
 
-  async createOrder(orderData: InsertOrder): Promise<Order> {
-    const [order] = await db.insert(orders).values(orderData).returning();
-    
+  async getExistingPlatformOrderIds(platform: string, platformOrderIds: string[]): Promise<string[]> {
+    if (platformOrderIds.length === 0) return [];
+    const existing = await db
+      .select({ platformOrderId: orders.platformOrderId })
+      .from(orders)
+      .where(and(
+        eq(orders.platform, platform as any),
+        inArray(orders.platformOrderId, platformOrderIds)
+      ));
+    return existing.map(o => o.platformOrderId);
+  }
+
+  async getOrderByPlatformOrderId(platform: Platform, platformOrderId: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.platform, platform), eq(orders.platformOrderId, platformOrderId)));
+    return order;
+  }
+
+  private async insertOrderWithItems(tx: DbExecutor, orderData: InsertOrderWithItems): Promise<OrderWithItems> {
+    const { items: itemData, ...header } = orderData;
+
+    // Orders without explicit lines are treated as a single line built from the header
+    const lines = await this.linkOrderLines(header.platform, itemData?.length ? itemData : [{
+      productId: header.productId,
+      productName: header.productName ?? "Unknown product",
+      sku: header.productSku,
+      quantity: header.quantity ?? 1,
+      unitPrice: header.unitPrice ?? "0",
+      costPrice: header.costPrice,
+    }]);
+    const totals = calculateOrderTotals(lines);
+    const fees = await this.estimateOrderFees(tx, header.platform, lines);
+    const [firstLine] = lines;
+
+    // The single-product header columns summarise the lines so list views keep working
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        ...header,
+        productId: lines.length === 1 ? firstLine.productId : header.productId,
+        productName: lines.length === 1
+          ? firstLine.productName
+          : `${firstLine.productName} + ${lines.length - 1} more`,
+        productSku: header.productSku ?? firstLine.sku,
+        quantity: totals.units,
+        unitPrice: header.unitPrice ?? firstLine.unitPrice,
+        costPrice: lines.length === 1 ? firstLine.costPrice : header.costPrice,
+        totalAmount: totals.total,
+        totalCost: totals.cost,
+        platformFees: fees.total,
+        feeBreakdown: fees,
+        profit: netProfit(totals, fees),
+        needsReview: lines.some(line => !line.productId),
+      })
+      .returning();
+
+    const items = await tx
+      .insert(orderItems)
+      .values(lines.map(line => ({
+        ...line,
+        orderId: order.id,
+        lineTotal: calculateLineTotal(line),
+      })))
+      .returning();
+
     // Add initial status history
-    await db.insert(orderStatusHistory).values({
+    await tx.insert(orderStatusHistory).values({
       orderId: order.id,
       status: order.status,
       notes: "Order created",
     });
 
-    return order;
+    // Open orders hold stock until they ship instead of deducting it straight away
+    if (order.warehouseId && (order.status === 'pending' || order.status === 'processing')) {
+      for (const item of items) {
+        if (!item.productId || !item.quantity) continue;
+        await this.changeReservation(tx, order.warehouseId, item.productId, stockUnits(item));
+      }
+    }
+
+    return { ...order, items };
   }
 
-  async updateOrderStatus(id: string, status: string, notes?: string): Promise<Order> {
-    const [order] = await db
+  // Lines without a product are linked by SKU so stock and cost follow the catalogue.
+  // Lines that stay unlinked leave the order flagged for review.
+  private async linkOrderLines(platform: Platform, lines: InsertOrderItem[]): Promise<InsertOrderItem[]> {
+    const skus = lines.filter(line => !line.productId && line.sku).map(line => line.sku!);
+    if (skus.length === 0) return lines;
+
+    const matches = await this.matchCatalogueSkus(platform, skus);
+    return lines.map(line => {
+      const match = !line.productId && line.sku ? matches.get(line.sku) : undefined;
+      if (!match) return line;
+      return {
+        ...line,
+        productId: match.product.id,
+        packSize: match.packSize,
+        costPrice: line.costPrice ?? costPerPack(match),
+      };
+    });
+  }
+
+  // Expected fees from the platform's active rules. A category rule wins over the platform default;
+  // lines without a product, or whose category has no rule, fall back to the default.
+  private async estimateOrderFees(executor: DbExecutor, platform: Platform, lines: FeeableLine[]): Promise<OrderFeeBreakdown> {
+    const rules = await executor
+      .select()
+      .from(platformFeeRules)
+      .where(and(eq(platformFeeRules.platform, platform), eq(platformFeeRules.isActive, true)));
+    const productIds = Array.from(new Set(lines.map(line => line.productId).filter((id): id is string => !!id)));
+    const linkedProducts = productIds.length > 0
+      ? await executor.select().from(products).where(inArray(products.id, productIds))
+      : [];
+    const productsById = new Map(linkedProducts.map(product => [product.id, product]));
+    const defaultRule = rules.find(rule => !rule.category);
+
+    return calculateOrderFees(lines.map(line => {
+      const product = line.productId ? productsById.get(line.productId) : undefined;
+      return {
+        quantity: line.quantity,
+        lineTotal: calculateLineTotal(line),
+        unitWeightKg: product?.weight ? parseFloat(product.weight) * (line.packSize ?? 1) : null,
+        rule: (product && rules.find(rule => rule.category === product.category)) || defaultRule,
+      };
+    }));
+  }
+
+  // Re-derives the header cost, fees and profit from the order's lines. Fees already settled by
+  // the platform are kept unless new settlement actuals are passed in.
+  private async refreshOrderAmounts(tx: DbExecutor, order: Order, actualFees?: OrderFeeBreakdown): Promise<void> {
+    const lines = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const totals = calculateOrderTotals(lines);
+    const fees = actualFees
+      ?? (order.feeBreakdown?.source === 'settlement' ? order.feeBreakdown : await this.estimateOrderFees(tx, order.platform, lines));
+
+    await tx
       .update(orders)
-      .set({ status: status as any, updatedAt: new Date() })
-      .where(eq(orders.id, id))
-      .returning();
+      .set({
+        productId: lines.length === 1 ? lines[0].productId : undefined,
+        costPrice: lines.length === 1 ? lines[0].costPrice : undefined,
+        totalCost: totals.cost,
+        platformFees: fees.total,
+        feeBreakdown: fees,
+        profit: netProfit(totals, fees, order.shippingCost),
+        needsReview: lines.some(line => !line.productId),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, order.id));
+  }
+
+  // Orders that have already left the warehouse (e.g. synced late) go straight to an outbound movement.
+  // Runs in the insert's transaction so an order short of stock is not saved at all.
+  private async applyCreationStockEffects(tx: DbExecutor, order: OrderWithItems, userId?: string): Promise<void> {
+    if (order.warehouseId && (order.status === 'shipped' || order.status === 'delivered')) {
+      await this.deductOrderStock(tx, order, order.items, userId);
+    }
+  }
+
+  async updateOrderStatus(id: string, status: OrderStatus, notes?: string, userId?: string): Promise<Order | undefined> {
+    const [current] = await db.select().from(orders).where(eq(orders.id, id));
+    if (!current) return undefined;
+
+    if (!canTransitionOrderStatus(current.status, status)) {
+      throw new OrderStatusTransitionError(current.status, status);
+    }
+    const [ledgerEntry] = await db
+      .select({ id: orderPayments.id })
+      .from(orderPayments)
+      .where(eq(orderPayments.orderId, id))
+      .limit(1);
+
+    return await this.transaction(async (tx) => {
+      // Guard on the previous status so a concurrent request cannot apply the same transition twice
+      const [updated] = await tx
+        .update(orders)
+        .set({
+          status,
+          // Paid orders are refunded when they are cancelled or come back, unless the payment
+          // ledger is tracking the order, in which case the refund entry moves the status
+          ...((status === 'cancelled' || status === 'returned') && current.paymentStatus === 'paid' && !ledgerEntry
+            ? { paymentStatus: 'refunded' as const }
+            : {}),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(orders.id, id), eq(orders.status, current.status)))
+        .returning();
+
+      if (!updated) {
+        throw new OrderStatusTransitionError(
+          current.status,
+          status,
+          `Order status was changed by another request and is no longer ${current.status}`
+        );
+      }
 
-    // Add status history
-    await db.insert(orderStatusHistory).values({
-      orderId: id,
-      status: status as any,
-      notes: notes || `Status updated to ${status}`,
+      // Add status history
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        status,
+        notes: notes || `Status updated to ${status}`,
+      });
+
+      // In the same transaction, so an order that cannot take its stock, or whose COD entry,
+      // return or credit note cannot be recorded, keeps its old status
+      await this.applyStatusTransitionEffects(tx, updated, current.status, userId);
+
+      if (status === 'delivered' && isCashOnDelivery(updated.paymentMethod)) {
+        await this.recordCodCollection(tx, updated);
+      }
+
+      if (status === 'returned') {
+        await this.openOrderReturn(tx, updated, notes, userId);
+
+        // A return reverses the tax on an invoiced order
+        const [invoice] = await tx
+          .select()
+          .from(invoices)
+          .where(and(eq(invoices.orderId, id), eq(invoices.type, 'invoice')));
+        if (invoice) await this.insertCreditNote(tx, id, userId);
+      }
+      return updated;
     });
+  }
 
+  // Fulfilment and payment details that change outside the status workflow (e.g. reported by a platform)
+  async updateOrderDetails(
+    id: string,
+    updates: Partial<Pick<InsertOrder, 'trackingNumber' | 'paymentStatus' | 'paymentMethod' | 'transactionId' | 'shippingState' | 'shippingPincode'>>
+  ): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
     return order;
   }
 
-  async syncOrdersFromPlatform(platform: string): Promise<Order[]> {
-    // Mock implementation for platform sync
-    // In real implementation, this would call the respective platform APIs
-    const mockOrders: InsertOrder[] = [
-      {
-        platformOrderId: `${platform.toUpperCase()}-${Date.now()}-1`,
-        platform: platform as any,
-        customerName: "Test Customer",
-        customerEmail: "test@example.com",
-        customerPhone: "+91 9999999999",
-        productName: "Test Product",
-        quantity: 1,
-        unitPrice: "999.00",
-        totalAmount: "999.00",
-        status: "pending",
-        paymentStatus: "paid",
-      }
-    ];
+  // Stock side-effects bound to specific transitions. They only run after the guarded
+  // status update above succeeds, so each fires exactly once per order.
+  private async applyStatusTransitionEffects(tx: DbExecutor, order: Order, from: OrderStatus, userId?: string): Promise<void> {
+    if (!order.warehouseId) return;
+    const warehouseId = order.warehouseId;
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+
+    switch (order.status) {
+      case 'shipped':
+        // Convert the reservation taken at creation into an outbound movement
+        await this.deductOrderStock(tx, order, items, userId);
+        for (const item of items) {
+          if (!item.productId || !item.quantity) continue;
+          await this.changeReservation(tx, warehouseId, item.productId, -stockUnits(item));
+        }
+        break;
+      case 'cancelled':
+        // Nothing has left the warehouse yet, so only the reservation is released
+        for (const item of items) {
+          if (!item.productId || !item.quantity) continue;
+          await this.changeReservation(tx, warehouseId, item.productId, -stockUnits(item));
+        }
+        break;
+      // Returned goods are booked back in by the return's inspection, only as far as they can be sold
+    }
+  }
 
-    const createdOrders = [];
-    for (const orderData of mockOrders) {
-      const order = await this.createOrder(orderData);
-      createdOrders.push(order);
+  private async deductOrderStock(tx: DbExecutor, order: Order, items: OrderItem[], userId?: string): Promise<void> {
+    if (!order.warehouseId) return;
+    for (const item of items) {
+      if (!item.productId || !item.quantity) continue;
+      await this.moveStock(tx, {
+        warehouseId: order.warehouseId,
+        productId: item.productId,
+        quantityChange: -stockUnits(item),
+        reason: 'sale',
+        userId,
+        notes: `Order fulfillment: ${order.platformOrderId}`,
+        refs: { orderId: order.id },
+      });
     }
+  }
 
-    return createdOrders;
+  // Reservations never go below zero so releasing an order created before reservations existed is harmless
+  private async changeReservation(
+    executor: DbExecutor,
+    warehouseId: string,
+    productId: string,
+    delta: number
+  ): Promise<void> {
+    await executor
+      .insert(inventory)
+      .values({ warehouseId, productId, quantity: 0, reservedQuantity: Math.max(delta, 0) })
+      .onConflictDoUpdate({
+        target: [inventory.warehouseId, inventory.productId],
+        set: {
+          reservedQuantity: sql`GREATEST(${inventory.reservedQuantity} + ${delta}, 0)`,
+          updatedAt: new Date(),
+        },
+      });
+    // Reservations change what can be sold, so channels need the new figure too
+    this.stockChanged(executor, productId);
   }
 
   async getOrderStats(): Promise<{
@@ -523,20 +1288,14 @@ export class DatabaseStorage implements IStorage {
 
   // Warehouse operations
   async getWarehouses(userId?: string): Promise<Warehouse[]> {
-    let query = db.select().from(warehouses).where(eq(warehouses.isActive, true));
-    
-    if (userId) {
-      // If userId provided, filter by warehouses user has access to
-      query = db.select({
-        id: warehouses.id,
-        name: warehouses.name,
-        description: warehouses.description,
-        location: warehouses.location,
-        isActive: warehouses.isActive,
-        createdBy: warehouses.createdBy,
-        createdAt: warehouses.createdAt,
-        updatedAt: warehouses.updatedAt,
-      })
+    if (!userId) {
+      return await db.select().from(warehouses).where(eq(warehouses.isActive, true));
+    }
+
+    // If userId provided, filter by warehouses user has access to. Typed rather than cast so a column
+    // missing from the result (e.g. allowNegativeStock) fails the type check instead of an edit
+    return await db
+      .selectDistinct(getTableColumns(warehouses))
       .from(warehouses)
       .leftJoin(warehousePermissions, eq(warehousePermissions.warehouseId, warehouses.id))
       .where(
@@ -547,10 +1306,7 @@ export class DatabaseStorage implements IStorage {
             eq(warehousePermissions.userId, userId)
           )
         )
-      ) as any;
-    }
-    
-    return await query;
+      );
   }
 
   async getWarehouseById(id: string): Promise<WarehouseWithDetails | undefined> {
@@ -622,6 +1378,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(warehousePermissions.userId, userId));
   }
 
+  // Admins act on every warehouse; anyone else needs a grant at or above the level asked for
+  async hasWarehousePermission(userId: string, warehouseId: string, permission: WarehousePermission['permission']): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+    if (user.role === 'admin') return true;
+
+    const levels = warehousePermissionEnum.enumValues;
+    const [grant] = await db
+      .select({ id: warehousePermissions.id })
+      .from(warehousePermissions)
+      .where(and(
+        eq(warehousePermissions.userId, userId),
+        eq(warehousePermissions.warehouseId, warehouseId),
+        inArray(warehousePermissions.permission, levels.slice(levels.indexOf(permission)))
+      ))
+      .limit(1);
+    return !!grant;
+  }
+
   // Product operations
   async getProducts(warehouseId?: string): Promise<Product[]> {
     let query = db.select().from(products).where(eq(products.isActive, true));
@@ -680,6 +1455,14 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getProductsBySkus(skus: string[]): Promise<Product[]> {
+    if (skus.length === 0) return [];
+    return await db
+      .select()
+      .from(products)
+      .where(inArray(products.sku, skus));
+  }
+
   async createProduct(productData: InsertProduct, createdBy: string): Promise<Product> {
     const [product] = await db
       .insert(products)
@@ -704,43 +1487,168 @@ export class DatabaseStorage implements IStorage {
       .where(eq(products.id, id));
   }
 
-  // Inventory operations
-  async createInventory(inventoryData: InsertInventory): Promise<Inventory> {
-    const [created] = await db
-      .insert(inventory)
-      .values(inventoryData)
-      .returning();
-    return created;
-  }
+  // Product listing operations
+  async getProductListings(filters?: { platform?: string; productId?: string }): Promise<ProductListingWithProduct[]> {
+    const conditions = [];
+    if (filters?.platform && filters.platform !== 'all') {
+      conditions.push(eq(productListings.platform, filters.platform as Platform));
+    }
+    if (filters?.productId) {
+      conditions.push(eq(productListings.productId, filters.productId));
+    }
 
-  async getInventory(warehouseId?: string): Promise<InventoryWithDetails[]> {
-    let query = db
+    const result = await db
       .select()
-      .from(inventory)
-      .leftJoin(warehouses, eq(inventory.warehouseId, warehouses.id))
-      .leftJoin(products, eq(inventory.productId, products.id));
+      .from(productListings)
+      .innerJoin(products, eq(productListings.productId, products.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(productListings.platform, productListings.sellerSku);
 
-    if (warehouseId) {
-      query = query.where(eq(inventory.warehouseId, warehouseId)) as any;
-    }
+    return result.map(r => ({ ...r.product_listings, product: r.products }));
+  }
 
-    const result = await query;
-    return result.map(r => ({
-      ...r.inventory!,
-      warehouse: r.warehouses!,
-      product: r.products!
-    }));
+  async getProductListingById(id: string): Promise<ProductListing | undefined> {
+    const [listing] = await db.select().from(productListings).where(eq(productListings.id, id));
+    return listing;
   }
 
-  async updateInventory(warehouseId: string, productId: string, quantity: number): Promise<Inventory> {
-    const [inventoryRecord] = await db
-      .insert(inventory)
-      .values({ warehouseId, productId, quantity })
-      .onConflictDoUpdate({
-        target: [inventory.warehouseId, inventory.productId],
-        set: { quantity, updatedAt: new Date() }
+  async createProductListing(listingData: InsertProductListing): Promise<ProductListing> {
+    const [listing] = await db
+      .insert(productListings)
+      .values(listingData)
+      .returning();
+    return listing;
+  }
+
+  async updateProductListing(id: string, updates: Partial<InsertProductListing>): Promise<ProductListing> {
+    const [listing] = await db
+      .update(productListings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(productListings.id, id))
+      .returning();
+    return listing;
+  }
+
+  async deleteProductListing(id: string): Promise<void> {
+    await db.delete(productListings).where(eq(productListings.id, id));
+  }
+
+  // Marketplaces report either our seller SKU or their own listing id, so both are matched.
+  // An active listing wins over a catalogue product that happens to share the SKU.
+  async matchCatalogueSkus(platform: Platform, skus: string[]): Promise<Map<string, CatalogueMatch>> {
+    const matches = new Map<string, CatalogueMatch>();
+    const uniqueSkus = Array.from(new Set(skus));
+    if (uniqueSkus.length === 0) return matches;
+
+    const [listings, catalogue] = await Promise.all([
+      db
+        .select()
+        .from(productListings)
+        .innerJoin(products, eq(productListings.productId, products.id))
+        .where(and(
+          eq(productListings.platform, platform),
+          eq(productListings.isActive, true),
+          or(inArray(productListings.sellerSku, uniqueSkus), inArray(productListings.listingId, uniqueSkus))
+        )),
+      this.getProductsBySkus(uniqueSkus),
+    ]);
+
+    for (const product of catalogue) {
+      matches.set(product.sku, { product, packSize: 1 });
+    }
+    for (const { product_listings: listing, products: product } of listings) {
+      matches.set(listing.sellerSku, { product, packSize: listing.packSize });
+      if (listing.listingId) matches.set(listing.listingId, { product, packSize: listing.packSize });
+    }
+    return matches;
+  }
+
+  // Links lines of orders still flagged for review once a listing for their SKU exists. Open
+  // orders reserve the stock they would have reserved at creation; orders that already shipped
+  // are only linked, since their stock left the warehouse without a movement.
+  async linkUnmappedOrderItems(listing: ProductListing): Promise<number> {
+    const [product] = await db.select().from(products).where(eq(products.id, listing.productId));
+    if (!product) return 0;
+
+    const skus = listing.listingId ? [listing.sellerSku, listing.listingId] : [listing.sellerSku];
+    const unlinked = await db
+      .select()
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(
+        eq(orders.platform, listing.platform),
+        eq(orders.needsReview, true),
+        sql`${orderItems.productId} IS NULL`,
+        inArray(orderItems.sku, skus)
+      ));
+    if (unlinked.length === 0) return 0;
+
+    const match = { product, packSize: listing.packSize };
+    const linkedOrders = new Map<string, Order>();
+
+    await this.transaction(async (tx) => {
+      for (const { order_items: item, orders: order } of unlinked) {
+        const [linked] = await tx
+          .update(orderItems)
+          .set({ productId: product.id, packSize: listing.packSize, costPrice: item.costPrice ?? costPerPack(match) })
+          .where(and(eq(orderItems.id, item.id), sql`${orderItems.productId} IS NULL`))
+          .returning();
+        if (!linked) continue;
+        linkedOrders.set(order.id, order);
+
+        if (order.warehouseId && (order.status === 'pending' || order.status === 'processing')) {
+          await this.changeReservation(tx, order.warehouseId, product.id, stockUnits(linked));
+        }
+      }
+
+      for (const order of Array.from(linkedOrders.values())) {
+        await this.refreshOrderAmounts(tx, order);
+      }
+    });
+
+    return linkedOrders.size;
+  }
+
+  // Inventory operations
+  async createInventory(inventoryData: InsertInventory): Promise<Inventory> {
+    const [created] = await db
+      .insert(inventory)
+      .values(inventoryData)
+      .returning();
+    emitStockChanged(created.productId);
+    return created;
+  }
+
+  async getInventory(warehouseId?: string): Promise<InventoryWithDetails[]> {
+    let query = db
+      .select()
+      .from(inventory)
+      .leftJoin(warehouses, eq(inventory.warehouseId, warehouses.id))
+      .leftJoin(products, eq(inventory.productId, products.id));
+
+    if (warehouseId) {
+      query = query.where(eq(inventory.warehouseId, warehouseId)) as any;
+    }
+
+    const result = await query;
+    return result.map(r => ({
+      ...r.inventory!,
+      warehouse: r.warehouses!,
+      product: r.products!,
+      availableQuantity: r.inventory!.quantity - r.inventory!.reservedQuantity
+    }));
+  }
+
+  async updateInventory(warehouseId: string, productId: string, quantity: number): Promise<Inventory> {
+    const [inventoryRecord] = await db
+      .insert(inventory)
+      .values({ warehouseId, productId, quantity })
+      .onConflictDoUpdate({
+        target: [inventory.warehouseId, inventory.productId],
+        set: { quantity, updatedAt: new Date() }
       })
       .returning();
+    emitStockChanged(productId);
     return inventoryRecord;
   }
 
@@ -749,8 +1657,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLowStockItems(warehouseId?: string): Promise<InventoryWithDetails[]> {
+    // Low stock is judged on available-to-promise, since reserved units are already sold
     const baseConditions = [
-      sql`${inventory.quantity} <= COALESCE(${inventory.minStockLevel}, 10)`
+      sql`${inventory.quantity} - ${inventory.reservedQuantity} <= COALESCE(${inventory.minStockLevel}, 10)`
     ];
 
     if (warehouseId) {
@@ -767,11 +1676,37 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => ({
       ...r.inventory!,
       warehouse: r.warehouses!,
-      product: r.products!
+      product: r.products!,
+      availableQuantity: r.inventory!.quantity - r.inventory!.reservedQuantity
     }));
   }
 
   // Warehouse permissions
+  // Sellable stock per SKU, optionally limited to some warehouses. Products without inventory rows report zero.
+  async getAvailableStockBySku(filters?: {
+    warehouseIds?: string[];
+    productIds?: string[];
+  }): Promise<{ productId: string; sku: string; available: number }[]> {
+    const joinCondition = filters?.warehouseIds
+      ? and(eq(inventory.productId, products.id), inArray(inventory.warehouseId, filters.warehouseIds))
+      : eq(inventory.productId, products.id);
+    const conditions = [eq(products.isActive, true)];
+    if (filters?.productIds) {
+      conditions.push(inArray(products.id, filters.productIds));
+    }
+
+    return await db
+      .select({
+        productId: products.id,
+        sku: products.sku,
+        available: sql<number>`COALESCE(SUM(GREATEST(${inventory.quantity} - ${inventory.reservedQuantity}, 0)), 0)::int`,
+      })
+      .from(products)
+      .leftJoin(inventory, joinCondition)
+      .where(and(...conditions))
+      .groupBy(products.id, products.sku);
+  }
+
   async getWarehousePermissions(warehouseId: string): Promise<WarehousePermission[]> {
     return await db
       .select()
@@ -834,7 +1769,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(inventory.warehouseId, warehouseId),
-          sql`${inventory.quantity} <= COALESCE(${inventory.minStockLevel}, 10)`
+          sql`${inventory.quantity} - ${inventory.reservedQuantity} <= COALESCE(${inventory.minStockLevel}, 10)`
         )
       );
 
@@ -853,7 +1788,8 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(orders.warehouseId, warehouseId),
-          gte(orders.createdAt, sql`NOW() - INTERVAL '30 days'`)
+          gte(orders.createdAt, sql`NOW() - INTERVAL '30 days'`),
+          countsTowardsRevenue
         )
       );
 
@@ -915,7 +1851,7 @@ export class DatabaseStorage implements IStorage {
         revenue: sql<string>`COALESCE(SUM(${orders.totalAmount}), 0)`
       })
       .from(warehouses)
-      .leftJoin(orders, eq(warehouses.id, orders.warehouseId))
+      .leftJoin(orders, and(eq(warehouses.id, orders.warehouseId), countsTowardsRevenue))
       .where(eq(warehouses.isActive, true))
       .groupBy(warehouses.id, warehouses.name)
       .orderBy(sql`COALESCE(SUM(${orders.profit}), 0) DESC`)
@@ -997,167 +1933,575 @@ export class DatabaseStorage implements IStorage {
 
   // Warehouse transfers operations
   async getWarehouseTransfers(warehouseId?: string): Promise<WarehouseTransferWithDetails[]> {
-    const conditions = [];
-    if (warehouseId) {
-      conditions.push(
-        or(
-          eq(warehouseTransfers.fromWarehouseId, warehouseId),
-          eq(warehouseTransfers.toWarehouseId, warehouseId)
-        )
-      );
-    }
-
-    const result = await db
-      .select({
-        transfer: warehouseTransfers,
-        fromWarehouse: { id: warehouses.id, name: warehouses.name, location: warehouses.location },
-        toWarehouse: { id: warehouses.id, name: warehouses.name, location: warehouses.location },
-        product: products,
-        requestedByUser: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
-        approvedByUser: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
-      })
+    const headers = await db
+      .select()
       .from(warehouseTransfers)
-      .leftJoin(warehouses, eq(warehouseTransfers.fromWarehouseId, warehouses.id))
-      .leftJoin(products, eq(warehouseTransfers.productId, products.id))
-      .leftJoin(users, eq(warehouseTransfers.requestedBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .where(warehouseId
+        ? or(eq(warehouseTransfers.fromWarehouseId, warehouseId), eq(warehouseTransfers.toWarehouseId, warehouseId))
+        : undefined)
       .orderBy(desc(warehouseTransfers.createdAt));
+    return await this.withTransferDetails(headers);
+  }
 
-    // Need to get toWarehouse and approvedByUser separately due to Drizzle join limitations
-    const transfers = [];
-    for (const r of result) {
-      const [toWarehouse] = await db
-        .select()
-        .from(warehouses)
-        .where(eq(warehouses.id, r.transfer.toWarehouseId));
-
-      let approvedByUser = undefined;
-      if (r.transfer.approvedBy) {
-        [approvedByUser] = await db
-          .select()
-          .from(users)
-          .where(eq(users.id, r.transfer.approvedBy));
-      }
+  async getWarehouseTransferWithDetails(id: string): Promise<WarehouseTransferWithDetails | undefined> {
+    const [header] = await db.select().from(warehouseTransfers).where(eq(warehouseTransfers.id, id));
+    if (!header) return undefined;
+    const [transfer] = await this.withTransferDetails([header]);
+    return transfer;
+  }
 
-      transfers.push({
-        ...r.transfer,
-        fromWarehouse: r.fromWarehouse as any,
-        toWarehouse: toWarehouse,
-        product: r.product!,
-        requestedByUser: r.requestedByUser as any,
-        approvedByUser: approvedByUser || undefined
-      });
-    }
+  // Loads the warehouses, people and lines for a page of transfers in one query each
+  private async withTransferDetails(headers: WarehouseTransfer[]): Promise<WarehouseTransferWithDetails[]> {
+    if (headers.length === 0) return [];
 
-    return transfers;
+    const warehouseIds = Array.from(new Set(headers.flatMap(t => [t.fromWarehouseId, t.toWarehouseId])));
+    const userIds = Array.from(new Set(headers.flatMap(t => [t.requestedBy, t.approvedBy]).filter((id): id is string => !!id)));
+    const [warehouseRows, userRows, itemRows] = await Promise.all([
+      db.select().from(warehouses).where(inArray(warehouses.id, warehouseIds)),
+      db.select().from(users).where(inArray(users.id, userIds)),
+      db
+        .select()
+        .from(warehouseTransferItems)
+        .innerJoin(products, eq(warehouseTransferItems.productId, products.id))
+        .where(inArray(warehouseTransferItems.transferId, headers.map(t => t.id)))
+        .orderBy(products.sku),
+    ]);
+    const warehousesById = new Map(warehouseRows.map(w => [w.id, w]));
+    const usersById = new Map(userRows.map(u => [u.id, u]));
+
+    return headers.map(transfer => ({
+      ...transfer,
+      fromWarehouse: warehousesById.get(transfer.fromWarehouseId)!,
+      toWarehouse: warehousesById.get(transfer.toWarehouseId)!,
+      items: itemRows
+        .filter(r => r.warehouse_transfer_items.transferId === transfer.id)
+        .map(r => ({ ...r.warehouse_transfer_items, product: r.products })),
+      requestedByUser: usersById.get(transfer.requestedBy)!,
+      approvedByUser: transfer.approvedBy ? usersById.get(transfer.approvedBy) : undefined,
+    }));
   }
 
-  async createWarehouseTransfer(transfer: InsertWarehouseTransfer): Promise<WarehouseTransfer> {
-    const [created] = await db.insert(warehouseTransfers).values(transfer).returning();
-    return created;
+  async getWarehouseTransferById(id: string): Promise<WarehouseTransfer | undefined> {
+    const [transfer] = await db.select().from(warehouseTransfers).where(eq(warehouseTransfers.id, id));
+    return transfer;
   }
 
-  async updateTransferStatus(id: string, status: string, userId: string): Promise<WarehouseTransfer> {
-    const updateData: any = { status, updatedAt: new Date() };
-    
-    if (status === 'in_transit') {
-      updateData.shippedAt = new Date();
-    } else if (status === 'completed') {
-      updateData.receivedAt = new Date();
-    }
+  async createWarehouseTransfer({ items, ...transfer }: InsertWarehouseTransfer): Promise<WarehouseTransfer> {
+    return await this.transaction(async (tx) => {
+      const [created] = await tx.insert(warehouseTransfers).values(transfer).returning();
+      await tx.insert(warehouseTransferItems).values(items.map(item => ({ ...item, transferId: created.id })));
+      return created;
+    });
+  }
 
-    const [updated] = await db
+  // Moves a transfer on only from a status that leads to the new one, so two people acting on the
+  // same transfer at once cannot both dispatch or receive it
+  private async advanceTransfer(
+    tx: DbExecutor,
+    id: string,
+    status: TransferStatus,
+    updates: Partial<typeof warehouseTransfers.$inferInsert> = {}
+  ): Promise<WarehouseTransfer> {
+    const [updated] = await tx
       .update(warehouseTransfers)
-      .set(updateData)
-      .where(eq(warehouseTransfers.id, id))
+      .set({ ...updates, status, updatedAt: new Date() })
+      .where(and(eq(warehouseTransfers.id, id), inArray(warehouseTransfers.status, transferStatusesBefore(status))))
       .returning();
+    if (updated) return updated;
 
-    return updated;
+    const [current] = await tx.select().from(warehouseTransfers).where(eq(warehouseTransfers.id, id));
+    if (!current) throw new TransferError("Transfer not found");
+    throw new TransferError(`Cannot move a ${current.status.replace('_', ' ')} transfer to ${status.replace('_', ' ')}`);
   }
 
   async approveTransfer(id: string, userId: string): Promise<WarehouseTransfer> {
-    const [updated] = await db
-      .update(warehouseTransfers)
-      .set({ 
-        approvedBy: userId,
-        updatedAt: new Date()
-      })
-      .where(eq(warehouseTransfers.id, id))
-      .returning();
+    return await this.advanceTransfer(db, id, 'approved', { approvedBy: userId, approvedAt: new Date() });
+  }
 
-    return updated;
+  /**
+   * Takes the goods out of the source warehouse and issues the delivery challan that travels with
+   * them. They stop counting as stock anywhere and sit in the destination's in-transit bucket until
+   * receipts book in what actually arrived. One line short of stock holds back the whole transfer.
+   */
+  async dispatchTransfer(id: string, userId: string): Promise<WarehouseTransfer> {
+    return await this.transaction(async (tx) => {
+      const shippedAt = new Date();
+      const transfer = await this.advanceTransfer(tx, id, 'in_transit', {
+        dispatchedBy: userId,
+        shippedAt,
+        challanNumber: await this.nextDocumentNumber(tx, 'delivery_challan', financialYearOf(shippedAt)),
+      });
+      // Locked in product order so two transfers sharing products cannot deadlock
+      const items = await tx
+        .select()
+        .from(warehouseTransferItems)
+        .where(eq(warehouseTransferItems.transferId, id))
+        .orderBy(warehouseTransferItems.productId);
+
+      for (const item of items) {
+        await this.moveStock(tx, {
+          warehouseId: transfer.fromWarehouseId,
+          productId: item.productId,
+          quantityChange: -item.quantity,
+          reason: 'transfer',
+          movementType: 'transfer_out',
+          userId,
+          notes: `Dispatched on ${transfer.challanNumber}`,
+          refs: { transferId: id },
+        });
+        await tx
+          .insert(inventory)
+          .values({ warehouseId: transfer.toWarehouseId, productId: item.productId, inTransitQuantity: item.quantity })
+          .onConflictDoUpdate({
+            target: [inventory.warehouseId, inventory.productId],
+            set: { inTransitQuantity: sql`${inventory.inTransitQuantity} + ${item.quantity}`, updatedAt: new Date() },
+          });
+      }
+
+      return transfer;
+    });
+  }
+
+  /**
+   * Books in one delivery against an in-transit transfer. Each line gets its own transfer_in
+   * movement and comes off the in-transit bucket; the transfer is received once every line is in
+   * full, or when the receipt closes it. Closing short, or receiving more than was sent, needs a
+   * reason, and the difference is written off with the in-transit bucket rather than posted against
+   * either warehouse.
+   */
+  async receiveTransfer(id: string, receipt: TransferReceipt, userId: string): Promise<WarehouseTransfer> {
+    return await this.transaction(async (tx) => {
+      const [current] = await tx.select().from(warehouseTransfers).where(eq(warehouseTransfers.id, id)).for('update');
+      if (!current) throw new TransferError("Transfer not found");
+      const items = await tx.select().from(warehouseTransferItems).where(eq(warehouseTransferItems.transferId, id));
+
+      const receivedNow = new Map<string, number>();
+      for (const line of receipt.items) {
+        if (!items.some(item => item.id === line.transferItemId)) {
+          throw new TransferError("Receipt lists an item that is not on this transfer");
+        }
+        receivedNow.set(line.transferItemId, (receivedNow.get(line.transferItemId) ?? 0) + line.receivedQuantity);
+      }
+      if (!receipt.close && Array.from(receivedNow.values()).every(quantity => quantity === 0)) {
+        throw new TransferError("Enter the quantity received for at least one item");
+      }
+
+      const lines = items.map(item => {
+        const quantity = receivedNow.get(item.id) ?? 0;
+        return { item, quantity, receivedQuantity: item.receivedQuantity + quantity };
+      });
+      const complete = receipt.close || lines.every(line => line.receivedQuantity >= line.item.quantity);
+      const hasVariance = lines.some(line =>
+        line.receivedQuantity > line.item.quantity || (complete && line.receivedQuantity !== line.item.quantity)
+      );
+      if (hasVariance && !receipt.varianceNotes) {
+        throw new TransferError("The quantities received differ from what was dispatched; give a reason for the difference");
+      }
+
+      const transfer = await this.advanceTransfer(tx, id, complete ? 'received' : 'partially_received', {
+        receivedBy: userId,
+        receivedAt: complete ? new Date() : undefined,
+        varianceNotes: receipt.varianceNotes
+          ? [current.varianceNotes, receipt.varianceNotes].filter(Boolean).join('\n')
+          : undefined,
+      });
+
+      for (const { item, quantity, receivedQuantity } of lines) {
+        // Whatever was still on the road for this line and no longer is
+        const outstandingBefore = Math.max(item.quantity - item.receivedQuantity, 0);
+        const outstandingAfter = complete ? 0 : Math.max(item.quantity - receivedQuantity, 0);
+        if (outstandingBefore > outstandingAfter) {
+          await tx
+            .update(inventory)
+            .set({
+              inTransitQuantity: sql`GREATEST(${inventory.inTransitQuantity} - ${outstandingBefore - outstandingAfter}, 0)`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(inventory.warehouseId, transfer.toWarehouseId), eq(inventory.productId, item.productId)));
+        }
+        if (quantity === 0) continue;
+
+        await tx
+          .update(warehouseTransferItems)
+          .set({ receivedQuantity })
+          .where(eq(warehouseTransferItems.id, item.id));
+        await this.moveStock(tx, {
+          warehouseId: transfer.toWarehouseId,
+          productId: item.productId,
+          quantityChange: quantity,
+          reason: 'transfer',
+          movementType: 'transfer_in',
+          userId,
+          notes: `Received on ${transfer.challanNumber ?? `transfer ${id}`}: ${receivedQuantity} of ${item.quantity}`,
+          refs: { transferId: id },
+        });
+      }
+
+      return transfer;
+    });
+  }
+
+  async cancelTransfer(id: string): Promise<WarehouseTransfer> {
+    return await this.advanceTransfer(db, id, 'cancelled');
   }
 
-  async processTransfer(id: string, userId: string): Promise<WarehouseTransfer> {
-    const [transfer] = await db
+  // Suppliers
+  async getSuppliers(includeInactive = false): Promise<Supplier[]> {
+    return await db
       .select()
-      .from(warehouseTransfers)
-      .where(eq(warehouseTransfers.id, id));
+      .from(suppliers)
+      .where(includeInactive ? undefined : eq(suppliers.isActive, true))
+      .orderBy(suppliers.name);
+  }
 
-    if (!transfer) throw new Error("Transfer not found");
+  async getSupplierById(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
 
-    // Update transfer status to completed
-    const [updatedTransfer] = await db
-      .update(warehouseTransfers)
-      .set({ 
-        status: 'completed',
-        receivedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(warehouseTransfers.id, id))
+  async createSupplier(supplierData: InsertSupplier, createdBy: string): Promise<Supplier> {
+    const [supplier] = await db
+      .insert(suppliers)
+      .values({ ...supplierData, createdBy })
+      .returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [supplier] = await db
+      .update(suppliers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
       .returning();
+    return supplier;
+  }
+
+  // Purchase orders
+  async getPurchaseOrders(filters?: { status?: string; supplierId?: string; warehouseId?: string }): Promise<PurchaseOrderWithDetails[]> {
+    const conditions = [];
+    if (filters?.status) conditions.push(eq(purchaseOrders.status, filters.status as PurchaseOrderStatus));
+    if (filters?.supplierId) conditions.push(eq(purchaseOrders.supplierId, filters.supplierId));
+    if (filters?.warehouseId) conditions.push(eq(purchaseOrders.warehouseId, filters.warehouseId));
+
+    const headers = await db
+      .select()
+      .from(purchaseOrders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(purchaseOrders.createdAt));
+    return await this.withPurchaseOrderDetails(headers);
+  }
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrderWithDetails | undefined> {
+    const [header] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    if (!header) return undefined;
+    const [order] = await this.withPurchaseOrderDetails([header]);
+    return order;
+  }
+
+  // Loads the supplier, warehouse, creator and lines for a page of purchase orders in one query each
+  private async withPurchaseOrderDetails(headers: PurchaseOrder[]): Promise<PurchaseOrderWithDetails[]> {
+    if (headers.length === 0) return [];
+
+    const [supplierRows, warehouseRows, userRows, itemRows] = await Promise.all([
+      db.select().from(suppliers).where(inArray(suppliers.id, Array.from(new Set(headers.map(o => o.supplierId))))),
+      db.select().from(warehouses).where(inArray(warehouses.id, Array.from(new Set(headers.map(o => o.warehouseId))))),
+      db.select().from(users).where(inArray(users.id, Array.from(new Set(headers.map(o => o.createdBy))))),
+      db
+        .select()
+        .from(purchaseOrderItems)
+        .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+        .where(inArray(purchaseOrderItems.purchaseOrderId, headers.map(o => o.id)))
+        .orderBy(products.sku),
+    ]);
+    const suppliersById = new Map(supplierRows.map(s => [s.id, s]));
+    const warehousesById = new Map(warehouseRows.map(w => [w.id, w]));
+    const usersById = new Map(userRows.map(u => [u.id, u]));
+
+    return headers.map(order => ({
+      ...order,
+      supplier: suppliersById.get(order.supplierId)!,
+      warehouse: warehousesById.get(order.warehouseId)!,
+      items: itemRows
+        .filter(r => r.purchase_order_items.purchaseOrderId === order.id)
+        .map(r => ({ ...r.purchase_order_items, product: r.products })),
+      createdByUser: usersById.get(order.createdBy)!,
+    }));
+  }
 
-    // Create stock movements for both warehouses
-    const transferId = transfer.id;
-
-    // Outbound from source warehouse
-    await this.createStockMovement({
-      warehouseId: transfer.fromWarehouseId,
-      productId: transfer.productId,
-      movementType: 'transfer_out',
-      quantity: -transfer.quantity,
-      previousQuantity: 0, // Will be updated by inventory adjustment
-      newQuantity: 0, // Will be updated by inventory adjustment  
-      reason: 'transfer',
-      transferId: transferId,
-      notes: `Transfer to warehouse`,
-      createdBy: userId
+  // Issues the PO number in the same transaction, so an order that fails to save never uses one up
+  async createPurchaseOrder({ items, ...order }: InsertPurchaseOrder, createdBy: string): Promise<PurchaseOrder> {
+    return await this.transaction(async (tx) => {
+      const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, order.supplierId));
+      if (!supplier) throw new PurchaseOrderError("Supplier not found");
+      if (!supplier.isActive) throw new PurchaseOrderError(`${supplier.name} is inactive; reactivate the supplier to order from them`);
+
+      const [created] = await tx
+        .insert(purchaseOrders)
+        .values({
+          ...order,
+          createdBy,
+          poNumber: await this.nextDocumentNumber(tx, 'purchase_order', financialYearOf(new Date())),
+          totalAmount: purchaseOrderTotal(items).toFixed(2),
+        })
+        .returning();
+      await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: created.id })));
+      return created;
     });
+  }
+
+  // Only a draft can be edited; its lines are replaced wholesale with the ones given
+  async updatePurchaseOrder(id: string, { items, ...order }: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    return await this.transaction(async (tx) => {
+      const [current] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!current) throw new PurchaseOrderError("Purchase order not found");
+      if (current.status !== 'draft') {
+        throw new PurchaseOrderError(`${current.poNumber} has been ${current.status.replace('_', ' ')}; only drafts can be edited`);
+      }
 
-    // Inbound to destination warehouse
-    await this.createStockMovement({
-      warehouseId: transfer.toWarehouseId,
-      productId: transfer.productId,
-      movementType: 'transfer_in',
-      quantity: transfer.quantity,
-      previousQuantity: 0, // Will be updated by inventory adjustment
-      newQuantity: 0, // Will be updated by inventory adjustment
-      reason: 'transfer',
-      transferId: transferId,
-      notes: `Transfer from warehouse`,
-      createdBy: userId
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({ ...order, totalAmount: purchaseOrderTotal(items).toFixed(2), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: id })));
+      return updated;
     });
+  }
 
-    // Update inventory levels
-    await this.adjustInventoryWithMovement(
-      transfer.fromWarehouseId,
-      transfer.productId,
-      -transfer.quantity,
-      'transfer',
-      userId,
-      `Transfer to warehouse (${transferId})`
-    );
+  // Moves a purchase order on only from a status that leads to the new one, as with transfers
+  private async advancePurchaseOrder(
+    tx: DbExecutor,
+    id: string,
+    status: PurchaseOrderStatus,
+    updates: Partial<typeof purchaseOrders.$inferInsert> = {}
+  ): Promise<PurchaseOrder> {
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({ ...updates, status, updatedAt: new Date() })
+      .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, purchaseOrderStatusesBefore(status))))
+      .returning();
+    if (updated) return updated;
 
-    await this.adjustInventoryWithMovement(
-      transfer.toWarehouseId,
-      transfer.productId,
-      transfer.quantity,
-      'transfer',
-      userId,
-      `Transfer from warehouse (${transferId})`
+    const [current] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    if (!current) throw new PurchaseOrderError("Purchase order not found");
+    throw new PurchaseOrderError(
+      `Cannot move a ${current.status.replace('_', ' ')} purchase order to ${status.replace('_', ' ')}`
     );
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return await this.advancePurchaseOrder(db, id, 'sent', { sentAt: new Date() });
+  }
+
+  // Nothing more is coming from the supplier; whatever is still outstanding stops counting as on order
+  async closePurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return await this.advancePurchaseOrder(db, id, 'closed', { closedAt: new Date() });
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return await this.advancePurchaseOrder(db, id, 'cancelled', { closedAt: new Date() });
+  }
+
+  // Units still to arrive on sent purchase orders, per product, with the orders they are on
+  async getStockOnOrder(warehouseId?: string): Promise<OnOrderLine[]> {
+    const rows = await db
+      .select({
+        item: purchaseOrderItems,
+        product: products,
+        order: {
+          id: purchaseOrders.id,
+          poNumber: purchaseOrders.poNumber,
+          supplierId: purchaseOrders.supplierId,
+          expectedDate: purchaseOrders.expectedDate,
+        },
+        supplierName: suppliers.name,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(and(
+        inArray(purchaseOrders.status, openPurchaseOrderStatuses),
+        sql`${purchaseOrderItems.receivedQuantity} < ${purchaseOrderItems.quantity}`,
+        warehouseId ? eq(purchaseOrders.warehouseId, warehouseId) : undefined
+      ))
+      .orderBy(products.sku, purchaseOrders.expectedDate);
+
+    const lines = new Map<string, OnOrderLine>();
+    for (const row of rows) {
+      const quantity = outstandingQuantity(row.item);
+      const line = lines.get(row.product.id) ?? { product: row.product, quantity: 0, orders: [] };
+      line.quantity += quantity;
+      line.orders.push({ ...row.order, supplierName: row.supplierName, quantity });
+      lines.set(row.product.id, line);
+    }
+    return Array.from(lines.values());
+  }
+
+  // Goods receipts
+  async getGoodsReceipts(filters?: { purchaseOrderId?: string; warehouseId?: string }): Promise<GoodsReceiptWithDetails[]> {
+    const conditions = [];
+    if (filters?.purchaseOrderId) conditions.push(eq(goodsReceipts.purchaseOrderId, filters.purchaseOrderId));
+    if (filters?.warehouseId) conditions.push(eq(goodsReceipts.warehouseId, filters.warehouseId));
+
+    const headers = await db
+      .select()
+      .from(goodsReceipts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(goodsReceipts.receivedAt));
+    return await this.withGoodsReceiptDetails(headers);
+  }
+
+  async getGoodsReceiptById(id: string): Promise<GoodsReceiptWithDetails | undefined> {
+    const [header] = await db.select().from(goodsReceipts).where(eq(goodsReceipts.id, id));
+    if (!header) return undefined;
+    const [receipt] = await this.withGoodsReceiptDetails([header]);
+    return receipt;
+  }
+
+  // Loads the order, supplier, warehouse, receiver and lines for a page of receipts in one query each
+  private async withGoodsReceiptDetails(headers: GoodsReceipt[]): Promise<GoodsReceiptWithDetails[]> {
+    if (headers.length === 0) return [];
+
+    const orderIds = Array.from(new Set(headers.map(r => r.purchaseOrderId).filter((id): id is string => !!id)));
+    const supplierIds = Array.from(new Set(headers.map(r => r.supplierId).filter((id): id is string => !!id)));
+    const [orderRows, supplierRows, warehouseRows, userRows, itemRows] = await Promise.all([
+      orderIds.length > 0 ? db.select().from(purchaseOrders).where(inArray(purchaseOrders.id, orderIds)) : [],
+      supplierIds.length > 0 ? db.select().from(suppliers).where(inArray(suppliers.id, supplierIds)) : [],
+      db.select().from(warehouses).where(inArray(warehouses.id, Array.from(new Set(headers.map(r => r.warehouseId))))),
+      db.select().from(users).where(inArray(users.id, Array.from(new Set(headers.map(r => r.receivedBy))))),
+      db
+        .select()
+        .from(goodsReceiptItems)
+        .innerJoin(products, eq(goodsReceiptItems.productId, products.id))
+        .where(inArray(goodsReceiptItems.goodsReceiptId, headers.map(r => r.id)))
+        .orderBy(products.sku),
+    ]);
+    const ordersById = new Map(orderRows.map(o => [o.id, o]));
+    const suppliersById = new Map(supplierRows.map(s => [s.id, s]));
+    const warehousesById = new Map(warehouseRows.map(w => [w.id, w]));
+    const usersById = new Map(userRows.map(u => [u.id, u]));
+
+    return headers.map(receipt => ({
+      ...receipt,
+      purchaseOrder: receipt.purchaseOrderId ? ordersById.get(receipt.purchaseOrderId) : undefined,
+      supplier: receipt.supplierId ? suppliersById.get(receipt.supplierId) : undefined,
+      warehouse: warehousesById.get(receipt.warehouseId)!,
+      items: itemRows
+        .filter(r => r.goods_receipt_items.goodsReceiptId === receipt.id)
+        .map(r => ({ ...r.goods_receipt_items, product: r.products })),
+      receivedByUser: usersById.get(receipt.receivedBy)!,
+    }));
+  }
+
+  /**
+   * Books one delivery into stock. Accepted units go in with a `purchase` movement each; rejected
+   * units are only recorded, since they go back to the supplier. Against a purchase order the
+   * accepted units count towards each line, and the order becomes closed once every line is in full
+   * (or when the receipt closes it short), otherwise partially received.
+   */
+  async createGoodsReceipt(
+    { items, updateCostPrice, closePurchaseOrder, ...receipt }: InsertGoodsReceipt,
+    userId: string
+  ): Promise<GoodsReceipt> {
+    return await this.transaction(async (tx) => {
+      let order: PurchaseOrder | undefined;
+      let orderItems: (typeof purchaseOrderItems.$inferSelect)[] = [];
+      if (receipt.purchaseOrderId) {
+        [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, receipt.purchaseOrderId)).for('update');
+        if (!order) throw new GoodsReceiptError("Purchase order not found");
+        if (order.status !== 'sent' && order.status !== 'partially_received') {
+          throw new GoodsReceiptError(`${order.poNumber} is ${order.status.replace('_', ' ')}; goods can only be received against a sent purchase order`);
+        }
+        if (receipt.warehouseId && receipt.warehouseId !== order.warehouseId) {
+          throw new GoodsReceiptError(`${order.poNumber} is for delivery to another warehouse`);
+        }
+        orderItems = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, order.id));
+      }
+
+      // Each line resolved to its product and, on a PO receipt, the PO line it is received against
+      const lines = items.map(item => {
+        if (!order) {
+          if (item.purchaseOrderItemId) throw new GoodsReceiptError("An ad hoc receipt cannot list purchase order lines");
+          return { item, productId: item.productId!, orderItem: undefined };
+        }
+        const orderItem = orderItems.find(line => line.id === item.purchaseOrderItemId);
+        if (!orderItem) throw new GoodsReceiptError(`Receipt lists an item that is not on ${order.poNumber}`);
+        return { item, productId: orderItem.productId, orderItem };
+      });
+      if (new Set(lines.map(line => line.productId)).size !== lines.length) {
+        throw new GoodsReceiptError("Each product can only appear once on a goods receipt");
+      }
+      if (!closePurchaseOrder && lines.every(line => line.item.receivedQuantity === 0)) {
+        throw new GoodsReceiptError("Enter the quantity received for at least one item");
+      }
+
+      const warehouseId = order?.warehouseId ?? receipt.warehouseId!;
+      const receivedAt = new Date();
+      const [created] = await tx
+        .insert(goodsReceipts)
+        .values({
+          ...receipt,
+          supplierId: order?.supplierId ?? receipt.supplierId,
+          warehouseId,
+          costPriceUpdated: !!updateCostPrice,
+          receivedBy: userId,
+          receivedAt,
+          grnNumber: await this.nextDocumentNumber(tx, 'goods_receipt', financialYearOf(receivedAt)),
+        })
+        .returning();
+      await tx.insert(goodsReceiptItems).values(lines.map(({ item, productId, orderItem }) => ({
+        goodsReceiptId: created.id,
+        purchaseOrderItemId: orderItem?.id,
+        productId,
+        receivedQuantity: item.receivedQuantity,
+        acceptedQuantity: item.acceptedQuantity,
+        rejectedQuantity: item.rejectedQuantity,
+        unitCost: item.unitCost ?? orderItem?.unitCost,
+        rejectionReason: item.rejectionReason,
+      })));
+
+      // Locked in product order so two receipts sharing products cannot deadlock
+      const accepted = lines
+        .filter(line => line.item.acceptedQuantity > 0)
+        .sort((a, b) => a.productId.localeCompare(b.productId));
+      for (const { item, productId, orderItem } of accepted) {
+        await this.moveStock(tx, {
+          warehouseId,
+          productId,
+          quantityChange: item.acceptedQuantity,
+          reason: 'purchase',
+          movementType: 'inbound',
+          userId,
+          notes: order ? `Received on ${created.grnNumber} against ${order.poNumber}` : `Received on ${created.grnNumber}`,
+          refs: { goodsReceiptId: created.id },
+        });
+        if (orderItem) {
+          await tx
+            .update(purchaseOrderItems)
+            .set({ receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${item.acceptedQuantity}` })
+            .where(eq(purchaseOrderItems.id, orderItem.id));
+        }
+        const unitCost = item.unitCost ?? orderItem?.unitCost;
+        if (updateCostPrice && unitCost != null) {
+          await tx.update(products).set({ costPrice: unitCost, updatedAt: new Date() }).where(eq(products.id, productId));
+        }
+      }
+
+      if (order) {
+        const receivedNow = new Map(lines.map(line => [line.orderItem!.id, line.item.acceptedQuantity]));
+        const complete = closePurchaseOrder
+          || orderItems.every(line => line.receivedQuantity + (receivedNow.get(line.id) ?? 0) >= line.quantity);
+        if (complete) {
+          await this.advancePurchaseOrder(tx, order.id, 'closed', { closedAt: receivedAt });
+        } else if (accepted.length > 0) {
+          await this.advancePurchaseOrder(tx, order.id, 'partially_received');
+        }
+      }
 
-    return updatedTransfer;
+      return created;
+    });
   }
 
   // Enhanced inventory operations with stock tracking
@@ -1166,52 +2510,74 @@ export class DatabaseStorage implements IStorage {
     productId: string, 
     quantityChange: number, 
     reason: string, 
-    userId: string, 
-    notes?: string
+    userId: string | undefined, 
+    notes?: string,
+    refs?: Pick<InsertStockMovement, 'orderId' | 'transferId' | 'returnId'>
   ): Promise<{ inventory: Inventory; movement: StockMovement }> {
-    // Get current inventory
-    const [currentInventory] = await db
-      .select()
-      .from(inventory)
-      .where(and(
-        eq(inventory.warehouseId, warehouseId),
-        eq(inventory.productId, productId)
-      ));
-
-    const previousQuantity = currentInventory?.quantity || 0;
-    const newQuantity = Math.max(0, previousQuantity + quantityChange); // Prevent negative inventory
+    return await this.transaction(async (tx) =>
+      await this.moveStock(tx, { warehouseId, productId, quantityChange, reason, userId, notes, refs })
+    );
+  }
 
-    // Update or create inventory record
-    const [updatedInventory] = await db
+  /**
+   * Changes on-hand stock and records the movement in the caller's transaction. The inventory row
+   * is locked first, so concurrent sales of the last unit queue up and the second one sees it gone
+   * rather than both succeeding. Going below zero is refused unless the warehouse allows it.
+   */
+  private async moveStock(tx: DbExecutor, adjustment: StockAdjustment): Promise<{ inventory: Inventory; movement: StockMovement }> {
+    const { warehouseId, productId, quantityChange } = adjustment;
+    const key = and(eq(inventory.warehouseId, warehouseId), eq(inventory.productId, productId));
+
+    // Make sure there is a row to lock for a product the warehouse has never stocked
+    await tx
       .insert(inventory)
-      .values({ 
-        warehouseId, 
-        productId, 
-        quantity: newQuantity,
-        updatedAt: new Date()
-      })
-      .onConflictDoUpdate({
-        target: [inventory.warehouseId, inventory.productId],
-        set: { 
-          quantity: newQuantity, 
-          updatedAt: new Date() 
-        }
-      })
+      .values({ warehouseId, productId, quantity: 0 })
+      .onConflictDoNothing({ target: [inventory.warehouseId, inventory.productId] });
+    const [current] = await tx.select().from(inventory).where(key).for('update');
+
+    const previousQuantity = current.quantity;
+    const newQuantity = previousQuantity + quantityChange;
+    if (newQuantity < 0 && quantityChange < 0) {
+      const [warehouse] = await tx.select().from(warehouses).where(eq(warehouses.id, warehouseId));
+      if (!warehouse?.allowNegativeStock) {
+        const [product] = await tx.select({ sku: products.sku }).from(products).where(eq(products.id, productId));
+        const available = Math.max(previousQuantity, 0);
+        throw new InsufficientStockError(
+          warehouseId,
+          productId,
+          available,
+          -quantityChange,
+          `Insufficient stock of ${product?.sku ?? 'product'} in ${warehouse?.name ?? 'warehouse'}: ${available} on hand, ${-quantityChange} needed`
+        );
+      }
+    }
+
+    const [updatedInventory] = await tx
+      .update(inventory)
+      .set({ quantity: newQuantity, updatedAt: new Date() })
+      .where(key)
       .returning();
 
-    // Create stock movement record
-    const movement = await this.createStockMovement({
-      warehouseId,
-      productId,
-      movementType: quantityChange > 0 ? 'inbound' : 'outbound',
-      quantity: Math.abs(quantityChange),
-      previousQuantity,
-      newQuantity,
-      reason,
-      notes,
-      createdBy: userId
-    });
+    const [movement] = await tx
+      .insert(stockMovements)
+      .values({
+        warehouseId,
+        productId,
+        movementType: adjustment.movementType ?? (quantityChange > 0 ? 'inbound' : 'outbound'),
+        quantity: Math.abs(quantityChange),
+        previousQuantity,
+        newQuantity,
+        reason: adjustment.reason,
+        notes: adjustment.notes,
+        orderId: adjustment.refs?.orderId,
+        transferId: adjustment.refs?.transferId,
+        returnId: adjustment.refs?.returnId,
+        goodsReceiptId: adjustment.refs?.goodsReceiptId,
+        createdBy: adjustment.userId,
+      })
+      .returning();
 
+    this.stockChanged(tx, productId);
     return { inventory: updatedInventory, movement };
   }
 
@@ -1233,15 +2599,20 @@ export class DatabaseStorage implements IStorage {
       ));
 
     if (!sourceInventory || sourceInventory.quantity < quantity) {
-      throw new Error("Insufficient inventory in source warehouse");
+      throw new InsufficientStockError(
+        fromWarehouseId,
+        productId,
+        sourceInventory?.quantity ?? 0,
+        quantity,
+        "Insufficient inventory in source warehouse"
+      );
     }
 
     // Create transfer request
     const transfer = await this.createWarehouseTransfer({
       fromWarehouseId,
       toWarehouseId,
-      productId,
-      quantity,
+      items: [{ productId, quantity }],
       requestedBy: userId,
       notes
     });
@@ -1308,22 +2679,9 @@ export class DatabaseStorage implements IStorage {
     const recentMovements = await this.getStockMovements(warehouseId);
     const recent10 = recentMovements.slice(0, 10);
 
-    // Get pending transfers
-    const pendingTransfers = await db
-      .select()
-      .from(warehouseTransfers)
-      .where(
-        and(
-          or(
-            eq(warehouseTransfers.fromWarehouseId, warehouseId),
-            eq(warehouseTransfers.toWarehouseId, warehouseId)
-          ),
-          eq(warehouseTransfers.status, 'pending')
-        )
-      );
-
+    // Transfers not yet received or cancelled
     const pendingTransferDetails = await this.getWarehouseTransfers(warehouseId);
-    const pendingOnly = pendingTransferDetails.filter(t => t.status === 'pending');
+    const pendingOnly = pendingTransferDetails.filter(t => openTransferStatuses.includes(t.status));
 
     return {
       basicInfo,
@@ -1343,6 +2701,1473 @@ export class DatabaseStorage implements IStorage {
       pendingTransfers: pendingOnly
     };
   }
+
+  // Platform connections
+  async getPlatformConnections(): Promise<PlatformConnection[]> {
+    return await db.select().from(platformConnections).orderBy(platformConnections.platform);
+  }
+
+  async getPlatformConnection(platform: Platform): Promise<PlatformConnection | undefined> {
+    const [connection] = await db
+      .select()
+      .from(platformConnections)
+      .where(eq(platformConnections.platform, platform));
+    return connection;
+  }
+
+  async upsertPlatformConnection(connectionData: InsertPlatformConnection): Promise<PlatformConnection> {
+    const [connection] = await db
+      .insert(platformConnections)
+      .values(connectionData)
+      .onConflictDoUpdate({
+        target: platformConnections.platform,
+        set: { ...connectionData, updatedAt: new Date() },
+      })
+      .returning();
+    return connection;
+  }
+
+  async updatePlatformSyncCursor(platform: Platform, syncCursor: string | null): Promise<PlatformConnection> {
+    const lastSyncAt = new Date();
+    const [connection] = await db
+      .insert(platformConnections)
+      .values({ platform, syncCursor, lastSyncAt })
+      .onConflictDoUpdate({
+        target: platformConnections.platform,
+        set: { syncCursor, lastSyncAt, updatedAt: lastSyncAt },
+      })
+      .returning();
+    return connection;
+  }
+
+  async getChannelWarehouseIds(platform: Platform): Promise<string[]> {
+    const rows = await db
+      .select({ warehouseId: channelWarehouses.warehouseId })
+      .from(channelWarehouses)
+      .where(eq(channelWarehouses.platform, platform))
+      .orderBy(channelWarehouses.createdAt, channelWarehouses.id);
+    return rows.map(row => row.warehouseId);
+  }
+
+  async setChannelWarehouses(platform: Platform, warehouseIds: string[]): Promise<void> {
+    await this.transaction(async (tx) => {
+      await tx.delete(channelWarehouses).where(eq(channelWarehouses.platform, platform));
+      if (warehouseIds.length > 0) {
+        await tx.insert(channelWarehouses).values(warehouseIds.map(warehouseId => ({ platform, warehouseId })));
+      }
+    });
+  }
+
+  async getChannelInventory(platform: Platform, skus?: string[]): Promise<ChannelInventory[]> {
+    const conditions = [eq(channelInventory.platform, platform)];
+    if (skus) {
+      if (skus.length === 0) return [];
+      conditions.push(inArray(channelInventory.sku, skus));
+    }
+    return await db
+      .select()
+      .from(channelInventory)
+      .where(and(...conditions))
+      .orderBy(channelInventory.sku);
+  }
+
+  async recordChannelInventoryPush(
+    platform: Platform,
+    results: { sku: string; quantity: number; status: 'pushed' | 'failed'; error?: string }[]
+  ): Promise<void> {
+    if (results.length === 0) return;
+    const lastPushedAt = new Date();
+    await db
+      .insert(channelInventory)
+      .values(results.map(result => ({
+        platform,
+        sku: result.sku,
+        lastPushedQuantity: result.quantity,
+        lastStatus: result.status,
+        lastError: result.error ?? null,
+        lastPushedAt,
+      })))
+      .onConflictDoUpdate({
+        target: [channelInventory.platform, channelInventory.sku],
+        set: {
+          lastPushedQuantity: sql`excluded.last_pushed_quantity`,
+          lastStatus: sql`excluded.last_status`,
+          lastError: sql`excluded.last_error`,
+          lastPushedAt,
+        },
+      });
+  }
+
+  // Sync runs
+  async getSyncRuns(filters?: {
+    platform?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ runs: SyncRunWithUser[]; total: number }> {
+    const whereClause = filters?.platform && filters.platform !== 'all'
+      ? eq(syncRuns.platform, filters.platform as Platform)
+      : undefined;
+
+    const [runsResult, totalResult] = await Promise.all([
+      db
+        .select({
+          run: syncRuns,
+          triggeredByUser: users,
+        })
+        .from(syncRuns)
+        .leftJoin(users, eq(syncRuns.triggeredBy, users.id))
+        .where(whereClause)
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(syncRuns)
+        .where(whereClause)
+    ]);
+
+    return {
+      runs: runsResult.map(result => ({
+        ...result.run,
+        triggeredByUser: result.triggeredByUser ?? undefined,
+      })),
+      total: totalResult[0].count,
+    };
+  }
+
+  // Settlements
+  async getOrdersByPlatformOrderIds(platform: Platform, platformOrderIds: string[]): Promise<Order[]> {
+    if (platformOrderIds.length === 0) return [];
+    return await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.platform, platform), inArray(orders.platformOrderId, platformOrderIds)));
+  }
+
+  async getSettledSaleAmounts(orderIds: string[]): Promise<Map<string, number>> {
+    if (orderIds.length === 0) return new Map();
+    const result = await db
+      .select({
+        orderId: settlementLines.orderId,
+        saleAmount: sql<string>`SUM(${settlementLines.saleAmount})`,
+      })
+      .from(settlementLines)
+      .where(inArray(settlementLines.orderId, orderIds))
+      .groupBy(settlementLines.orderId);
+    return new Map(result.map(r => [r.orderId!, parseFloat(r.saleAmount)]));
+  }
+
+  async getExistingSettlementRefs(platform: Platform, settlementRefs: string[]): Promise<string[]> {
+    if (settlementRefs.length === 0) return [];
+    const existing = await db
+      .select({ settlementRef: settlements.settlementRef })
+      .from(settlements)
+      .where(and(eq(settlements.platform, platform), inArray(settlements.settlementRef, settlementRefs)));
+    return existing.map(s => s.settlementRef);
+  }
+
+  // Orders the platform has paid out for in full are marked paid; refunds recorded locally are left alone
+  async createSettlement(settlementData: InsertSettlement, lines: InsertSettlementLine[]): Promise<Settlement> {
+    return await this.transaction(async (tx) => {
+      const [settlement] = await tx.insert(settlements).values(settlementData).returning();
+      if (lines.length > 0) {
+        await tx.insert(settlementLines).values(lines.map(line => ({ ...line, settlementId: settlement.id })));
+      }
+
+      // Replace estimated fees with what the platform actually charged, across every settlement so far
+      const settledOrderIds = Array.from(new Set(lines.filter(line => line.orderId).map(line => line.orderId!)));
+      if (settledOrderIds.length > 0) {
+        const actuals = await tx
+          .select({
+            orderId: settlementLines.orderId,
+            commission: sql<string>`SUM(${settlementLines.commission})`,
+            shipping: sql<string>`SUM(${settlementLines.shippingFee})`,
+          })
+          .from(settlementLines)
+          .where(inArray(settlementLines.orderId, settledOrderIds))
+          .groupBy(settlementLines.orderId);
+        const settledOrders = await tx.select().from(orders).where(inArray(orders.id, settledOrderIds));
+
+        for (const order of settledOrders) {
+          const actual = actuals.find(row => row.orderId === order.id);
+          if (!actual) continue;
+          await this.refreshOrderAmounts(tx, order, settledFees(parseFloat(actual.commission), parseFloat(actual.shipping)));
+        }
+      }
+
+      // The payout is the marketplace paying us for the order, so it goes on the order's ledger
+      // (one entry per order per settlement) and the payment status is read back off the ledger
+      const paidByOrder = new Map<string, { amount: number; postedAt?: Date | null }>();
+      for (const line of lines) {
+        if (line.matchStatus !== 'matched' || !line.orderId || !(parseFloat(line.saleAmount ?? "0") > 0)) continue;
+        const paid = paidByOrder.get(line.orderId) ?? { amount: 0, postedAt: line.postedAt };
+        paid.amount += parseFloat(line.saleAmount!);
+        paidByOrder.set(line.orderId, paid);
+      }
+      if (paidByOrder.size > 0) {
+        const paidOrders = await tx
+          .select()
+          .from(orders)
+          .where(inArray(orders.id, Array.from(paidByOrder.keys())))
+          .for('update');
+        for (const order of paidOrders) {
+          const paid = paidByOrder.get(order.id)!;
+          await tx.insert(orderPayments).values({
+            orderId: order.id,
+            kind: 'payment',
+            method: 'marketplace',
+            amount: paid.amount.toFixed(2),
+            transactionId: settlement.settlementRef,
+            gateway: settlement.platform,
+            notes: 'Settled by the marketplace',
+            occurredAt: paid.postedAt ?? new Date(),
+          });
+
+          const entries = await tx.select().from(orderPayments).where(eq(orderPayments.orderId, order.id));
+          const paymentStatus = derivePaymentStatus(order.totalAmount, entries, order.paymentStatus);
+          if (paymentStatus !== order.paymentStatus) {
+            await tx.update(orders).set({ paymentStatus, updatedAt: new Date() }).where(eq(orders.id, order.id));
+          }
+        }
+      }
+      return settlement;
+    });
+  }
+
+  async getSettlements(filters?: {
+    platform?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ settlements: Settlement[]; total: number }> {
+    const whereClause = filters?.platform && filters.platform !== 'all'
+      ? eq(settlements.platform, filters.platform as Platform)
+      : undefined;
+
+    const [settlementsResult, totalResult] = await Promise.all([
+      db
+        .select()
+        .from(settlements)
+        .where(whereClause)
+        .orderBy(desc(sql`COALESCE(${settlements.periodEnd}, ${settlements.createdAt})`))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(settlements)
+        .where(whereClause)
+    ]);
+
+    return { settlements: settlementsResult, total: totalResult[0].count };
+  }
+
+  async getSettlementById(id: string): Promise<SettlementWithLines | undefined> {
+    const [settlement] = await db.select().from(settlements).where(eq(settlements.id, id));
+    if (!settlement) return undefined;
+
+    const lines = await db
+      .select()
+      .from(settlementLines)
+      .where(eq(settlementLines.settlementId, id))
+      .orderBy(settlementLines.postedAt, settlementLines.platformOrderId);
+    return { ...settlement, lines };
+  }
+
+  // Delivered orders with no settlement line at all, delivered before the cut-off (payout cycles lag delivery)
+  async getUnpaidDeliveredOrders(filters: {
+    platform?: string;
+    deliveredBefore: Date;
+  }): Promise<(Order & { deliveredAt: Date })[]> {
+    const deliveredAt = sql<Date>`MAX(${orderStatusHistory.createdAt})`;
+    const conditions = [
+      eq(orders.status, 'delivered'),
+      sql`NOT EXISTS (SELECT 1 FROM ${settlementLines} WHERE ${settlementLines.orderId} = ${orders.id})`,
+    ];
+    if (filters.platform && filters.platform !== 'all') {
+      conditions.push(eq(orders.platform, filters.platform as Platform));
+    }
+
+    const result = await db
+      .select({ order: orders, deliveredAt })
+      .from(orders)
+      .innerJoin(orderStatusHistory, and(
+        eq(orderStatusHistory.orderId, orders.id),
+        eq(orderStatusHistory.status, 'delivered')
+      ))
+      .where(and(...conditions))
+      .groupBy(orders.id)
+      .having(lte(deliveredAt, filters.deliveredBefore))
+      .orderBy(deliveredAt);
+
+    return result.map(r => ({ ...r.order, deliveredAt: new Date(r.deliveredAt) }));
+  }
+
+  // Platform fee rules
+  async getPlatformFeeRules(platform?: string): Promise<PlatformFeeRule[]> {
+    return await db
+      .select()
+      .from(platformFeeRules)
+      .where(platform && platform !== 'all' ? eq(platformFeeRules.platform, platform as Platform) : undefined)
+      .orderBy(platformFeeRules.platform, sql`${platformFeeRules.category} NULLS FIRST`);
+  }
+
+  async getPlatformFeeRuleById(id: string): Promise<PlatformFeeRule | undefined> {
+    const [rule] = await db.select().from(platformFeeRules).where(eq(platformFeeRules.id, id));
+    return rule;
+  }
+
+  async createPlatformFeeRule(ruleData: InsertPlatformFeeRule): Promise<PlatformFeeRule> {
+    const [rule] = await db.insert(platformFeeRules).values(ruleData).returning();
+    return rule;
+  }
+
+  async updatePlatformFeeRule(id: string, updates: Partial<InsertPlatformFeeRule>): Promise<PlatformFeeRule> {
+    const [rule] = await db
+      .update(platformFeeRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(platformFeeRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deletePlatformFeeRule(id: string): Promise<void> {
+    await db.delete(platformFeeRules).where(eq(platformFeeRules.id, id));
+  }
+
+  // Re-estimates fees on orders the platform has not settled yet, e.g. after the rules change
+  async recomputeEstimatedOrderFees(platform?: Platform): Promise<number> {
+    const unsettled = await db
+      .select()
+      .from(orders)
+      .where(and(
+        sql`COALESCE(${orders.feeBreakdown}->>'source', 'estimated') = 'estimated'`,
+        platform ? eq(orders.platform, platform) : undefined
+      ));
+
+    for (const order of unsettled) {
+      await this.refreshOrderAmounts(db, order);
+    }
+    return unsettled.length;
+  }
+
+  // GST invoicing
+  async getBusinessSettings(): Promise<BusinessSettings | undefined> {
+    const [settings] = await db.select().from(businessSettings);
+    return settings;
+  }
+
+  async saveBusinessSettings(settingsData: InsertBusinessSettings): Promise<BusinessSettings> {
+    const [settings] = await db
+      .insert(businessSettings)
+      .values(settingsData)
+      .onConflictDoUpdate({
+        target: businessSettings.id,
+        set: { ...settingsData, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getOrderInvoices(orderId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.orderId, orderId))
+      .orderBy(invoices.invoiceDate);
+  }
+
+  // Issues the order's tax invoice, or returns it if one exists. Seller details, tax split and
+  // lines are frozen on the invoice so later catalogue or settings changes never alter it.
+  async issueInvoice(orderId: string, userId?: string): Promise<Invoice> {
+    return await this.transaction(async (tx) => {
+      // Concurrent requests for the same order wait here and then find the first one's invoice
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) throw new InvoiceError("Order not found");
+
+      const [existing] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.orderId, orderId), eq(invoices.type, 'invoice')));
+      if (existing) return existing;
+
+      if (order.status === 'cancelled') {
+        throw new InvoiceError("Cancelled orders are not invoiced");
+      }
+      const [seller] = await tx.select().from(businessSettings);
+      if (!seller) {
+        throw new InvoiceError("Set the business GSTIN and address in Settings before issuing invoices");
+      }
+      const placeOfSupply = findGstState(order.shippingState);
+      if (!placeOfSupply) {
+        throw new InvoiceError("Set the ship-to state on the order to decide between CGST/SGST and IGST");
+      }
+
+      const items = await tx
+        .select({ item: orderItems, product: products })
+        .from(orderItems)
+        .leftJoin(products, eq(orderItems.productId, products.id))
+        .where(eq(orderItems.orderId, orderId));
+      const isInterState = placeOfSupply.code !== seller.stateCode;
+      const { lines, totals } = calculateInvoiceLines(
+        items.map(({ item, product }) => ({ ...item, hsnCode: product?.hsnCode, gstRate: product?.gstRate })),
+        isInterState
+      );
+
+      const invoiceDate = new Date();
+      const financialYear = financialYearOf(invoiceDate);
+      const [invoice] = await tx
+        .insert(invoices)
+        .values({
+          orderId,
+          type: 'invoice',
+          invoiceNumber: await this.nextDocumentNumber(tx, 'invoice', financialYear),
+          financialYear,
+          invoiceDate,
+          sellerName: seller.legalName,
+          sellerGstin: seller.gstin,
+          sellerStateCode: seller.stateCode,
+          sellerAddress: seller.address,
+          customerName: order.customerName,
+          billingAddress: order.shippingAddress || order.customerAddress,
+          placeOfSupply: placeOfSupply.code,
+          isInterState,
+          ...totals,
+          totalAmount: totals.total,
+          lines,
+          createdBy: userId,
+        })
+        .returning();
+      return invoice;
+    });
+  }
+
+  // Credit notes reverse the whole invoice of a returned order, so they copy its lines and tax split
+  async issueCreditNote(orderId: string, userId?: string): Promise<Invoice> {
+    return await this.transaction(async (tx) => await this.insertCreditNote(tx, orderId, userId));
+  }
+
+  // Issues the credit note in the caller's transaction, e.g. the one that marks the order returned
+  private async insertCreditNote(tx: DbExecutor, orderId: string, userId?: string): Promise<Invoice> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+    if (!order) throw new InvoiceError("Order not found");
+
+    const documents = await tx.select().from(invoices).where(eq(invoices.orderId, orderId));
+    const existing = documents.find(document => document.type === 'credit_note');
+    if (existing) return existing;
+
+    const original = documents.find(document => document.type === 'invoice');
+    if (!original) throw new InvoiceError("The order has no invoice to credit");
+    if (order.status !== 'returned') {
+      throw new InvoiceError("Credit notes are only issued for returned orders");
+    }
+
+    const { id: originalInvoiceId, invoiceNumber, invoiceDate, createdAt, ...copied } = original;
+    const noteDate = new Date();
+    const financialYear = financialYearOf(noteDate);
+    const [creditNote] = await tx
+      .insert(invoices)
+      .values({
+        ...copied,
+        type: 'credit_note',
+        invoiceNumber: await this.nextDocumentNumber(tx, 'credit_note', financialYear),
+        financialYear,
+        invoiceDate: noteDate,
+        originalInvoiceId,
+        createdBy: userId,
+      })
+      .returning();
+    return creditNote;
+  }
+
+  // Takes the next number in the caller's transaction. The sequence row stays locked until that
+  // transaction ends and a rollback returns the number, so issued numbers never skip.
+  private async nextDocumentNumber(tx: DbExecutor, type: DocumentType, financialYear: string): Promise<string> {
+    const [sequence] = await tx
+      .insert(documentSequences)
+      .values({ documentType: type, financialYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [documentSequences.documentType, documentSequences.financialYear],
+        set: { lastNumber: sql`${documentSequences.lastNumber} + 1` },
+      })
+      .returning();
+    // GST caps invoice numbers at 16 characters; "INV/25-26/00001" is 15
+    return `${documentPrefixes[type]}/${financialYear}/${String(sequence.lastNumber).padStart(5, '0')}`;
+  }
+
+  // Courier shipments
+  async getOrderShipments(orderId: string): Promise<ShipmentWithEvents[]> {
+    const orderShipments = await db
+      .select()
+      .from(shipments)
+      .where(eq(shipments.orderId, orderId))
+      .orderBy(desc(shipments.createdAt));
+    if (orderShipments.length === 0) return [];
+
+    const events = await db
+      .select()
+      .from(shipmentEvents)
+      .where(inArray(shipmentEvents.shipmentId, orderShipments.map(s => s.id)))
+      .orderBy(desc(shipmentEvents.occurredAt));
+    return orderShipments.map(shipment => ({
+      ...shipment,
+      events: events.filter(event => event.shipmentId === shipment.id),
+    }));
+  }
+
+  async getShipmentById(id: string): Promise<Shipment | undefined> {
+    const [shipment] = await db.select().from(shipments).where(eq(shipments.id, id));
+    return shipment;
+  }
+
+  // Shipments still with the carrier, least recently tracked first so a slow poll gets round to all of them
+  async getTrackableShipments(carrier?: Carrier): Promise<Shipment[]> {
+    const conditions = [notInArray(shipments.status, ['delivered', 'rto_delivered', 'cancelled'])];
+    if (carrier) conditions.push(eq(shipments.carrier, carrier));
+    return await db
+      .select()
+      .from(shipments)
+      .where(and(...conditions))
+      .orderBy(sql`${shipments.lastTrackedAt} asc nulls first`);
+  }
+
+  // Stores the checkpoints not seen before and moves the shipment to the status of its latest one.
+  // Returns undefined for a shipment that is unknown or was cancelled meanwhile.
+  async recordTrackingEvents(
+    shipmentId: string,
+    events: Omit<InsertShipmentEvent, 'shipmentId'>[]
+  ): Promise<{ shipment: Shipment; added: ShipmentEvent[] } | undefined> {
+    return await this.transaction(async (tx) => {
+      const [current] = await tx.select().from(shipments).where(eq(shipments.id, shipmentId)).for('update');
+      if (!current || current.status === 'cancelled') return undefined;
+
+      const added = events.length === 0 ? [] : await tx
+        .insert(shipmentEvents)
+        .values(events.map(event => ({ ...event, shipmentId })))
+        .onConflictDoNothing({
+          target: [shipmentEvents.shipmentId, shipmentEvents.occurredAt, shipmentEvents.description],
+        })
+        .returning();
+
+      const latest = [...events].sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())[0];
+      const [shipment] = await tx
+        .update(shipments)
+        .set({ status: latest?.status ?? current.status, lastTrackedAt: new Date(), updatedAt: new Date() })
+        .where(eq(shipments.id, shipmentId))
+        .returning();
+      return { shipment, added };
+    });
+  }
+
+  // Stores a booking made with a carrier and copies its carrier, AWB and cost onto the order.
+  // The partial unique index on active shipments rejects a second booking for the same order.
+  async recordShipment(shipmentData: InsertShipment): Promise<Shipment> {
+    return await this.transaction(async (tx) => {
+      const [shipment] = await tx.insert(shipments).values(shipmentData).returning();
+      const [order] = await tx
+        .update(orders)
+        .set({
+          carrier: shipment.carrier,
+          trackingNumber: shipment.awb,
+          shippingCost: shipment.cost,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, shipment.orderId))
+        .returning();
+      await this.refreshOrderAmounts(tx, order);
+      return shipment;
+    });
+  }
+
+  // Marks the booking cancelled and takes it back off the order, unless the order has moved on to another AWB
+  async cancelShipment(id: string): Promise<Shipment | undefined> {
+    return await this.transaction(async (tx) => {
+      const [shipment] = await tx
+        .update(shipments)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(shipments.id, id), eq(shipments.status, 'booked')))
+        .returning();
+      if (!shipment) return undefined;
+
+      const [order] = await tx
+        .update(orders)
+        .set({ carrier: null, trackingNumber: null, shippingCost: '0', updatedAt: new Date() })
+        .where(and(eq(orders.id, shipment.orderId), eq(orders.trackingNumber, shipment.awb)))
+        .returning();
+      if (order) await this.refreshOrderAmounts(tx, order);
+      return shipment;
+    });
+  }
+
+  // Returns (RMA)
+  private async loadReturns(condition?: SQL): Promise<ReturnWithDetails[]> {
+    const rows = await db
+      .select({
+        orderReturn: orderReturns,
+        order: {
+          id: orders.id,
+          platformOrderId: orders.platformOrderId,
+          platform: orders.platform,
+          customerName: orders.customerName,
+          status: orders.status,
+          warehouseId: orders.warehouseId,
+        },
+      })
+      .from(orderReturns)
+      .innerJoin(orders, eq(orderReturns.orderId, orders.id))
+      .where(condition)
+      .orderBy(desc(orderReturns.createdAt));
+    if (rows.length === 0) return [];
+
+    const items = await db
+      .select({
+        item: returnItems,
+        productName: orderItems.productName,
+        sku: orderItems.sku,
+        packSize: orderItems.packSize,
+      })
+      .from(returnItems)
+      .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+      .where(inArray(returnItems.returnId, rows.map(row => row.orderReturn.id)));
+
+    return rows.map(({ orderReturn, order }) => ({
+      ...orderReturn,
+      order,
+      items: items
+        .filter(({ item }) => item.returnId === orderReturn.id)
+        .map(({ item, ...line }) => ({ ...item, ...line })),
+    }));
+  }
+
+  async getReturns(filters?: { status?: string; platform?: string }): Promise<ReturnWithDetails[]> {
+    const conditions = [];
+    if (filters?.status) {
+      conditions.push(eq(orderReturns.status, filters.status as any));
+    }
+    if (filters?.platform) {
+      conditions.push(eq(orders.platform, filters.platform as any));
+    }
+    return await this.loadReturns(conditions.length > 0 ? and(...conditions) : undefined);
+  }
+
+  async getReturnById(id: string): Promise<ReturnWithDetails | undefined> {
+    const [orderReturn] = await this.loadReturns(eq(orderReturns.id, id));
+    return orderReturn;
+  }
+
+  async getOrderReturns(orderId: string): Promise<ReturnWithDetails[]> {
+    return await this.loadReturns(eq(orderReturns.orderId, orderId));
+  }
+
+  // Units of each order line already covered by returns that were not cancelled
+  private async returnedQuantities(executor: DbExecutor, orderId: string): Promise<Map<string, number>> {
+    const rows = await executor
+      .select({
+        orderItemId: returnItems.orderItemId,
+        quantity: sql<number>`COALESCE(SUM(${returnItems.quantity}), 0)::int`,
+      })
+      .from(returnItems)
+      .innerJoin(orderReturns, eq(returnItems.returnId, orderReturns.id))
+      .where(and(eq(orderReturns.orderId, orderId), ne(orderReturns.status, 'cancelled')))
+      .groupBy(returnItems.orderItemId);
+    return new Map(rows.map(row => [row.orderItemId, row.quantity]));
+  }
+
+  // Must run with the order row locked, so two returns cannot both claim the same units
+  private async insertReturn(
+    tx: DbExecutor,
+    order: Order,
+    returnData: InsertReturn,
+    received: boolean,
+    userId?: string
+  ): Promise<string> {
+    if (!['shipped', 'delivered', 'returned'].includes(order.status)) {
+      throw new ReturnError(`Only dispatched orders can be returned; this order is ${order.status}`);
+    }
+
+    const lines = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const alreadyReturned = await this.returnedQuantities(tx, order.id);
+    let refundAmount = 0;
+    const items = returnData.items.map(({ orderItemId, quantity }) => {
+      const line = lines.find(l => l.id === orderItemId);
+      if (!line) throw new ReturnError("Returned item does not belong to this order");
+      const remaining = line.quantity - (alreadyReturned.get(line.id) ?? 0);
+      if (quantity > remaining) {
+        throw new ReturnError(`Only ${remaining} of ${line.productName} can still be returned`);
+      }
+      refundAmount += (parseFloat(line.lineTotal) * quantity) / line.quantity;
+      return { orderItemId, productId: line.productId, quantity };
+    });
+
+    // Cash on delivery that was never collected has nothing to pay back
+    const paid = order.paymentStatus === 'paid' || order.paymentStatus === 'refunded';
+    const [created] = await tx
+      .insert(orderReturns)
+      .values({
+        orderId: order.id,
+        source: returnData.source,
+        reason: returnData.reason,
+        notes: returnData.notes,
+        status: received ? 'received' : 'requested',
+        receivedAt: received ? new Date() : undefined,
+        refundStatus: paid ? 'pending' : 'not_required',
+        refundAmount: paid ? refundAmount.toFixed(2) : '0',
+        createdBy: userId,
+      })
+      .returning();
+    await tx.insert(returnItems).values(items.map(item => ({ ...item, returnId: created.id })));
+    return created.id;
+  }
+
+  async createReturn(returnData: InsertReturn, userId?: string): Promise<ReturnWithDetails> {
+    const id = await this.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, returnData.orderId)).for('update');
+      if (!order) throw new ReturnError("Order not found");
+      return await this.insertReturn(tx, order, returnData, false, userId);
+    });
+    return (await this.getReturnById(id))!;
+  }
+
+  // An order marked returned (by hand, platform sync or courier RTO) without a return yet gets one
+  // covering everything not already returned, waiting for inspection
+  private async openOrderReturn(tx: DbExecutor, order: Order, notes?: string, userId?: string): Promise<void> {
+    // Runs in the transaction that marks the order returned, which already holds the order row locked
+    const [open] = await tx
+      .select()
+      .from(orderReturns)
+      .where(and(eq(orderReturns.orderId, order.id), ne(orderReturns.status, 'cancelled')));
+    if (open) {
+      // The goods of a return raised earlier have evidently arrived
+      if (open.status === 'requested') {
+        await tx
+          .update(orderReturns)
+          .set({ status: 'received', receivedAt: new Date(), updatedAt: new Date() })
+          .where(eq(orderReturns.id, open.id));
+      }
+      return;
+    }
+
+    const lines = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const alreadyReturned = await this.returnedQuantities(tx, order.id);
+    const rtoShipments = await tx
+      .select({ id: shipments.id })
+      .from(shipments)
+      .where(and(eq(shipments.orderId, order.id), inArray(shipments.status, ['rto_in_transit', 'rto_delivered'])));
+    const items = lines
+      .map(line => ({ orderItemId: line.id, quantity: line.quantity - (alreadyReturned.get(line.id) ?? 0) }))
+      .filter(item => item.quantity > 0);
+    if (items.length === 0) return;
+
+    const isRto = rtoShipments.length > 0;
+    await this.insertReturn(
+      tx,
+      order,
+      {
+        orderId: order.id,
+        source: isRto ? 'courier_rto' : 'customer',
+        reason: isRto ? 'undeliverable' : 'other',
+        notes,
+        items,
+      },
+      true,
+      userId
+    );
+  }
+
+  // Once every unit sent has come back the order itself becomes returned, which issues the credit note
+  async receiveReturn(id: string, userId?: string): Promise<ReturnWithDetails> {
+    const [received] = await db
+      .update(orderReturns)
+      .set({ status: 'received', receivedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(orderReturns.id, id), eq(orderReturns.status, 'requested')))
+      .returning();
+    if (!received) throw new ReturnError("Only requested returns can be received");
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, received.orderId));
+    const [lines, alreadyReturned] = await Promise.all([
+      this.getOrderItems(order.id),
+      this.returnedQuantities(db, order.id),
+    ]);
+    const fullyReturned = lines.every(line => (alreadyReturned.get(line.id) ?? 0) >= line.quantity);
+    if (fullyReturned && canTransitionOrderStatus(order.status, 'returned')) {
+      await this.updateOrderStatus(order.id, 'returned', `Return received: ${received.reason.replace(/_/g, ' ')}`, userId);
+    }
+    return (await this.getReturnById(id))!;
+  }
+
+  /**
+   * Records what inspection found and books the goods back in. Every returned unit comes in as a
+   * 'return' movement; whatever is not fit to sell again is written straight off as 'damage', so
+   * only the accepted quantity adds to sellable stock and the movements still account for the rest.
+   */
+  async inspectReturn(id: string, inspection: ReturnInspection, userId?: string): Promise<ReturnWithDetails> {
+    const current = await this.getReturnById(id);
+    if (!current) throw new ReturnError("Return not found");
+    if (current.status !== 'received') {
+      throw new ReturnError(`Only received returns can be inspected; this return is ${current.status}`);
+    }
+    const warehouseId = current.order.warehouseId;
+    if (!warehouseId) throw new ReturnError("Assign a warehouse to the order before inspecting its return");
+
+    const results = current.items.map(item => {
+      const result = inspection.items.find(i => i.returnItemId === item.id);
+      if (!result) throw new ReturnError(`Inspection result missing for ${item.productName}`);
+      if (result.restockQuantity > item.quantity) {
+        throw new ReturnError(`Cannot restock more than the ${item.quantity} ${item.productName} returned`);
+      }
+      return { item, result };
+    });
+
+    // Guard on the status so a second submission cannot book the same goods in twice
+    const inspected = await this.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orderReturns)
+        .set({ status: 'inspected', inspectedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(orderReturns.id, id), eq(orderReturns.status, 'received')))
+        .returning();
+      if (!updated) throw new ReturnError("This return has already been inspected");
+
+      for (const { item, result } of results) {
+        await tx
+          .update(returnItems)
+          .set({ inspectionResult: result.result, restockedQuantity: result.restockQuantity })
+          .where(eq(returnItems.id, item.id));
+
+        if (!item.productId) continue;
+        const refs = { orderId: updated.orderId, returnId: updated.id };
+        const units = item.quantity * item.packSize;
+        const rejected = (item.quantity - result.restockQuantity) * item.packSize;
+        await this.moveStock(tx, {
+          warehouseId,
+          productId: item.productId,
+          quantityChange: units,
+          reason: 'return',
+          userId,
+          notes: `Return received: ${current.order.platformOrderId}`,
+          refs,
+        });
+        if (rejected > 0) {
+          await this.moveStock(tx, {
+            warehouseId,
+            productId: item.productId,
+            quantityChange: -rejected,
+            reason: 'damage',
+            userId,
+            notes: `Return inspected as ${result.result}, not fit for sale: ${current.order.platformOrderId}`,
+            refs,
+          });
+        }
+      }
+      return updated;
+    });
+
+    return (await this.getReturnById(inspected.id))!;
+  }
+
+  // The refund also goes into the order's payment ledger, which moves its payment status
+  async recordReturnRefund(
+    id: string,
+    refund: { amount: string; reference?: string; method?: PaymentMethod },
+    userId?: string
+  ): Promise<ReturnWithDetails> {
+    await this.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orderReturns)
+        .set({
+          refundStatus: 'refunded',
+          refundAmount: refund.amount,
+          refundReference: refund.reference,
+          refundedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(orderReturns.id, id), ne(orderReturns.refundStatus, 'refunded'), ne(orderReturns.status, 'cancelled')))
+        .returning();
+      if (!updated) throw new ReturnError("This return is cancelled or already refunded");
+
+      if (parseFloat(refund.amount) > 0) {
+        await this.insertOrderPayment(tx, updated.orderId, {
+          kind: 'refund',
+          method: refund.method,
+          amount: refund.amount,
+          transactionId: refund.reference,
+          returnId: updated.id,
+        }, userId);
+      }
+    });
+    return (await this.getReturnById(id))!;
+  }
+
+  // Only before the goods arrive; after that the return has to be inspected
+  async cancelReturn(id: string): Promise<ReturnWithDetails> {
+    const [updated] = await db
+      .update(orderReturns)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(orderReturns.id, id), eq(orderReturns.status, 'requested')))
+      .returning();
+    if (!updated) throw new ReturnError("Only requested returns can be cancelled");
+    return (await this.getReturnById(id))!;
+  }
+
+  // Returns are counted against the period the order was placed in, so recent orders read low until they settle
+  async getReturnAnalytics(filters?: { dateFrom?: string; dateTo?: string }): Promise<ReturnAnalytics> {
+    const conditions = [inArray(orders.status, ['shipped', 'delivered', 'returned'])];
+    if (filters?.dateFrom) conditions.push(gte(orders.createdAt, new Date(filters.dateFrom)));
+    if (filters?.dateTo) conditions.push(lte(orders.createdAt, new Date(filters.dateTo)));
+    const dispatched = and(...conditions);
+    const openReturn = and(eq(orderReturns.orderId, orders.id), ne(orderReturns.status, 'cancelled'));
+
+    const [platformRows, soldRows, returnedRows, reasonRows] = await Promise.all([
+      // Orders returned before returns were recorded only have the order status to go on
+      db
+        .select({
+          platform: orders.platform,
+          dispatched: sql<number>`COUNT(DISTINCT ${orders.id})::int`,
+          returned: sql<number>`COUNT(DISTINCT CASE WHEN ${orders.status} = 'returned' OR ${orderReturns.id} IS NOT NULL THEN ${orders.id} END)::int`,
+        })
+        .from(orders)
+        .leftJoin(orderReturns, openReturn)
+        .where(dispatched)
+        .groupBy(orders.platform),
+      db
+        .select({
+          productId: orderItems.productId,
+          label: sql<string>`MAX(${orderItems.productName})`,
+          quantity: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)::int`,
+        })
+        .from(orderItems)
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .where(and(dispatched, sql`${orderItems.productId} IS NOT NULL`))
+        .groupBy(orderItems.productId),
+      db
+        .select({
+          productId: returnItems.productId,
+          quantity: sql<number>`COALESCE(SUM(${returnItems.quantity}), 0)::int`,
+        })
+        .from(returnItems)
+        .innerJoin(orderReturns, eq(returnItems.returnId, orderReturns.id))
+        .innerJoin(orders, openReturn)
+        .where(dispatched)
+        .groupBy(returnItems.productId),
+      db
+        .select({ reason: orderReturns.reason, count: sql<number>`COUNT(*)::int` })
+        .from(orderReturns)
+        .innerJoin(orders, openReturn)
+        .where(dispatched)
+        .groupBy(orderReturns.reason),
+    ]);
+
+    const byRate = (a: ReturnRate, b: ReturnRate) =>
+      b.returned / Math.max(b.dispatched, 1) - a.returned / Math.max(a.dispatched, 1) || b.returned - a.returned;
+
+    return {
+      byPlatform: platformRows
+        .map(row => ({ key: row.platform, label: row.platform, dispatched: row.dispatched, returned: row.returned }))
+        .sort(byRate),
+      byProduct: soldRows
+        .map(row => ({
+          key: row.productId!,
+          label: row.label,
+          dispatched: row.quantity,
+          returned: returnedRows.find(r => r.productId === row.productId)?.quantity ?? 0,
+        }))
+        .sort(byRate),
+      byReason: reasonRows.sort((a, b) => b.count - a.count),
+    };
+  }
+
+  // Payment ledger
+  async getOrderPayments(orderId: string): Promise<OrderPayment[]> {
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(eq(orderPayments.orderId, orderId))
+      .orderBy(desc(orderPayments.occurredAt));
+  }
+
+  async recordOrderPayment(orderId: string, payment: InsertOrderPayment, userId?: string): Promise<OrderPayment> {
+    return await this.transaction(async (tx) => await this.insertOrderPayment(tx, orderId, payment, userId));
+  }
+
+  /**
+   * Adds a ledger entry and re-derives the order's payment status. Runs with the order locked so
+   * concurrent refunds cannot together pay back more than was collected. An order already reported
+   * as paid (e.g. a prepaid marketplace order) gets an opening payment first, so it can be refunded.
+   */
+  private async insertOrderPayment(
+    tx: DbExecutor,
+    orderId: string,
+    payment: Omit<InsertOrderPayment, 'method'> & { method?: PaymentMethod; returnId?: string },
+    userId?: string
+  ): Promise<OrderPayment> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+    if (!order) throw new PaymentError("Order not found");
+
+    const entries = await tx.select().from(orderPayments).where(eq(orderPayments.orderId, orderId));
+    if (!entries.some(entry => entry.kind === 'payment') && ['paid', 'refunded', 'partially_refunded'].includes(order.paymentStatus)) {
+      const [opening] = await tx
+        .insert(orderPayments)
+        .values({
+          orderId,
+          kind: 'payment',
+          method: isCashOnDelivery(order.paymentMethod) ? 'cod' : order.platform === 'website' ? 'other' : 'marketplace',
+          amount: order.totalAmount,
+          transactionId: order.transactionId,
+          gateway: order.platform === 'website' ? null : order.platform,
+          notes: 'Opening entry for the payment reported on the order',
+          occurredAt: order.createdAt ?? new Date(),
+        })
+        .returning();
+      entries.push(opening);
+    }
+
+    if (payment.kind === 'refund') {
+      const { net } = summarizePayments(order.totalAmount, entries);
+      if (parseFloat(payment.amount) > parseFloat(net) + 0.005) {
+        throw new PaymentError(`Cannot refund more than the ₹${net} collected on this order`);
+      }
+    }
+
+    // Refunds go back the way the money came in unless told otherwise
+    const method = payment.method ?? entries.filter(entry => entry.kind === 'payment').at(-1)?.method ?? 'other';
+    const [entry] = await tx
+      .insert(orderPayments)
+      .values({ ...payment, method, orderId, createdBy: userId })
+      .returning();
+    entries.push(entry);
+
+    const paymentStatus = derivePaymentStatus(order.totalAmount, entries, order.paymentStatus);
+    if (paymentStatus !== order.paymentStatus) {
+      await tx.update(orders).set({ paymentStatus, updatedAt: new Date() }).where(eq(orders.id, orderId));
+    }
+    return entry;
+  }
+
+  // Cash on delivery is collected by the courier at delivery; it is owed to us until remitted.
+  // An order already marked paid some other way is left to its opening entry.
+  private async recordCodCollection(tx: DbExecutor, order: Order): Promise<void> {
+    if (order.paymentStatus !== 'pending') return;
+    const entries = await tx.select().from(orderPayments).where(eq(orderPayments.orderId, order.id));
+    if (entries.some(entry => entry.method === 'cod' && entry.kind === 'payment')) return;
+
+    const [shipment] = await tx
+      .select()
+      .from(shipments)
+      .where(and(eq(shipments.orderId, order.id), ne(shipments.status, 'cancelled')));
+
+    await this.insertOrderPayment(tx, order.id, {
+      kind: 'payment',
+      method: 'cod',
+      amount: shipment?.codAmount ?? summarizePayments(order.totalAmount, entries).outstanding,
+      transactionId: shipment?.awb ?? order.trackingNumber,
+      gateway: shipment?.carrier ?? order.carrier,
+      notes: 'Collected by the courier on delivery',
+    });
+  }
+
+  async recordCodRemittance(paymentId: string, remittance: { reference: string; remittedAt?: Date }): Promise<OrderPayment | undefined> {
+    const [payment] = await db
+      .update(orderPayments)
+      .set({ codRemittanceReference: remittance.reference, codRemittedAt: remittance.remittedAt ?? new Date() })
+      .where(and(eq(orderPayments.id, paymentId), eq(orderPayments.method, 'cod'), eq(orderPayments.kind, 'payment')))
+      .returning();
+    return payment;
+  }
+
+  // COD remittances
+  // Cash collected on delivery is recorded against the AWB it was collected on
+  async getCodCollectionsByAwb(awbs: string[]): Promise<OrderPayment[]> {
+    if (awbs.length === 0) return [];
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(and(
+        eq(orderPayments.method, 'cod'),
+        eq(orderPayments.kind, 'payment'),
+        inArray(orderPayments.transactionId, awbs)
+      ));
+  }
+
+  async getOrdersByTrackingNumbers(trackingNumbers: string[]): Promise<Order[]> {
+    if (trackingNumbers.length === 0) return [];
+    return await db.select().from(orders).where(inArray(orders.trackingNumber, trackingNumbers));
+  }
+
+  async getExistingCodRemittanceRefs(carrier: Carrier, remittanceRefs: string[]): Promise<string[]> {
+    if (remittanceRefs.length === 0) return [];
+    const existing = await db
+      .select({ remittanceRef: codRemittances.remittanceRef })
+      .from(codRemittances)
+      .where(and(eq(codRemittances.carrier, carrier), inArray(codRemittances.remittanceRef, remittanceRefs)));
+    return existing.map(r => r.remittanceRef);
+  }
+
+  // Saves the remittance and marks the COD on each matched line as remitted. A collection that
+  // another remittance got to first keeps its original reference.
+  async createCodRemittance(remittanceData: InsertCodRemittance, lines: InsertCodRemittanceLine[]): Promise<CodRemittance> {
+    return await this.transaction(async (tx) => {
+      const [remittance] = await tx.insert(codRemittances).values(remittanceData).returning();
+      if (lines.length > 0) {
+        await tx.insert(codRemittanceLines).values(lines.map(line => ({ ...line, remittanceId: remittance.id })));
+      }
+
+      const paymentIds = lines
+        .filter(line => line.matchStatus === 'matched' && line.paymentId)
+        .map(line => line.paymentId!);
+      if (paymentIds.length > 0) {
+        await tx
+          .update(orderPayments)
+          .set({
+            codRemittedAt: remittance.remittedAt ?? remittance.createdAt ?? new Date(),
+            codRemittanceReference: remittance.remittanceRef,
+          })
+          .where(and(inArray(orderPayments.id, paymentIds), isNull(orderPayments.codRemittedAt)));
+      }
+      return remittance;
+    });
+  }
+
+  async getCodRemittances(filters?: {
+    carrier?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ remittances: CodRemittance[]; total: number }> {
+    const whereClause = filters?.carrier && filters.carrier !== 'all'
+      ? eq(codRemittances.carrier, filters.carrier as Carrier)
+      : undefined;
+
+    const [remittancesResult, totalResult] = await Promise.all([
+      db
+        .select()
+        .from(codRemittances)
+        .where(whereClause)
+        .orderBy(desc(sql`COALESCE(${codRemittances.remittedAt}, ${codRemittances.createdAt})`))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(codRemittances)
+        .where(whereClause),
+    ]);
+
+    return { remittances: remittancesResult, total: totalResult[0].count };
+  }
+
+  async getCodRemittanceById(id: string): Promise<CodRemittanceWithLines | undefined> {
+    const [remittance] = await db.select().from(codRemittances).where(eq(codRemittances.id, id));
+    if (!remittance) return undefined;
+
+    const lines = await db
+      .select()
+      .from(codRemittanceLines)
+      .where(eq(codRemittanceLines.remittanceId, id))
+      .orderBy(codRemittanceLines.matchStatus, codRemittanceLines.awb);
+    return { ...remittance, lines };
+  }
+
+  // Oldest first, since those are the ones to chase with the courier
+  async getOutstandingCod(filters?: { carrier?: string }): Promise<OutstandingCod[]> {
+    const conditions = [
+      eq(orderPayments.method, 'cod'),
+      eq(orderPayments.kind, 'payment'),
+      isNull(orderPayments.codRemittedAt),
+    ];
+    if (filters?.carrier && filters.carrier !== 'all') {
+      conditions.push(eq(orderPayments.gateway, filters.carrier));
+    }
+
+    const result = await db
+      .select({
+        payment: orderPayments,
+        order: {
+          platformOrderId: orders.platformOrderId,
+          platform: orders.platform,
+          customerName: orders.customerName,
+        },
+      })
+      .from(orderPayments)
+      .innerJoin(orders, eq(orders.id, orderPayments.orderId))
+      .where(and(...conditions))
+      .orderBy(orderPayments.occurredAt);
+
+    const now = Date.now();
+    return result.map(r => ({
+      ...r.payment,
+      order: r.order,
+      ageDays: Math.max(Math.floor((now - r.payment.occurredAt.getTime()) / (24 * 60 * 60 * 1000)), 0),
+    }));
+  }
+
+  // Webhook events
+  // Platforms redeliver until they get a 2xx, so the same event id is stored only once
+  async recordWebhookEvent(eventData: InsertWebhookEvent): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const [inserted] = await db
+      .insert(webhookEvents)
+      .values(eventData)
+      .onConflictDoNothing({ target: [webhookEvents.platform, webhookEvents.eventId] })
+      .returning();
+    if (inserted) return { event: inserted, duplicate: false };
+
+    const [existing] = await db
+      .select()
+      .from(webhookEvents)
+      .where(and(eq(webhookEvents.platform, eventData.platform), eq(webhookEvents.eventId, eventData.eventId)));
+    return { event: existing, duplicate: true };
+  }
+
+  async getWebhookEvents(filters?: {
+    platform?: string;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ events: WebhookEvent[]; total: number }> {
+    const conditions = [];
+    if (filters?.platform && filters.platform !== 'all') {
+      conditions.push(eq(webhookEvents.platform, filters.platform as Platform));
+    }
+    if (filters?.status && filters.status !== 'all') {
+      conditions.push(eq(webhookEvents.status, filters.status as WebhookEventStatus));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [eventsResult, totalResult] = await Promise.all([
+      db
+        .select()
+        .from(webhookEvents)
+        .where(whereClause)
+        .orderBy(desc(webhookEvents.receivedAt))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(webhookEvents)
+        .where(whereClause)
+    ]);
+
+    return { events: eventsResult, total: totalResult[0].count };
+  }
+
+  async getWebhookEventById(id: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event;
+  }
+
+  async finishWebhookEvent(id: string, status: WebhookEventStatus, error?: string): Promise<WebhookEvent> {
+    const [event] = await db
+      .update(webhookEvents)
+      .set({
+        status,
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        lastError: error ?? null,
+        processedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  async getSyncRunById(id: string): Promise<SyncRun | undefined> {
+    const [run] = await db.select().from(syncRuns).where(eq(syncRuns.id, id));
+    return run;
+  }
+
+  async createSyncRun(runData: InsertSyncRun): Promise<SyncRun> {
+    const [run] = await db.insert(syncRuns).values(runData).returning();
+    return run;
+  }
+
+  async finishSyncRun(id: string, updates: Partial<InsertSyncRun>): Promise<SyncRun> {
+    const [run] = await db
+      .update(syncRuns)
+      .set({ ...updates, finishedAt: new Date() })
+      .where(eq(syncRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  // Background jobs
+  async getJobs(filters?: {
+    status?: string;
+    type?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ jobs: Job[]; total: number }> {
+    const conditions = [];
+    if (filters?.status && filters.status !== 'all') {
+      conditions.push(eq(jobs.status, filters.status as any));
+    }
+    if (filters?.type && filters.type !== 'all') {
+      conditions.push(eq(jobs.type, filters.type as any));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [jobsResult, totalResult] = await Promise.all([
+      db
+        .select()
+        .from(jobs)
+        .where(whereClause)
+        .orderBy(desc(jobs.createdAt))
+        .limit(filters?.limit || 20)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(jobs)
+        .where(whereClause)
+    ]);
+
+    return { jobs: jobsResult, total: totalResult[0].count };
+  }
+
+  async getJobById(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async enqueueJob(jobData: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(jobData).returning();
+    return job;
+  }
+
+  // SKIP LOCKED lets several app instances poll the same table without claiming the same job
+  async claimNextJob(workerId: string): Promise<Job | undefined> {
+    return await this.transaction(async (tx) => {
+      const now = new Date();
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)))
+        .orderBy(jobs.runAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) return undefined;
+
+      const [job] = await tx
+        .update(jobs)
+        .set({
+          status: 'running',
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: now,
+          lockedBy: workerId,
+          startedAt: now,
+        })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async completeJob(id: string, result: Record<string, unknown>): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: 'succeeded', result, lastError: null, lockedAt: null, lockedBy: null, finishedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // With a retryAt the job goes back on the queue; without one it has failed for good
+  async failJob(id: string, error: string, retryAt?: Date): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set(retryAt
+        ? { status: 'queued', runAt: retryAt, lastError: error, lockedAt: null, lockedBy: null }
+        : { status: 'failed', lastError: error, lockedAt: null, lockedBy: null, finishedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Jobs still marked running after the lock timeout belonged to an instance that stopped mid-job
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const stale = and(eq(jobs.status, 'running'), lte(jobs.lockedAt, lockedBefore));
+    const lastError = "Worker stopped before the job finished";
+
+    const failed = await db
+      .update(jobs)
+      .set({ status: 'failed', lastError, lockedAt: null, lockedBy: null, finishedAt: new Date() })
+      .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)))
+      .returning({ id: jobs.id });
+    const requeued = await db
+      .update(jobs)
+      .set({ status: 'queued', runAt: new Date(), lastError, lockedAt: null, lockedBy: null })
+      .where(stale)
+      .returning({ id: jobs.id });
+    return failed.length + requeued.length;
+  }
+
+  async retryJob(id: string): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: 'queued', attempts: 0, runAt: new Date(), finishedAt: null })
+      .where(and(eq(jobs.id, id), eq(jobs.status, 'failed')))
+      .returning();
+    return job;
+  }
+
+  // Job schedules
+  async getJobSchedules(): Promise<JobSchedule[]> {
+    return await db.select().from(jobSchedules).orderBy(jobSchedules.name);
+  }
+
+  async getJobScheduleById(id: string): Promise<JobSchedule | undefined> {
+    const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.id, id));
+    return schedule;
+  }
+
+  async createJobSchedule(scheduleData: InsertJobSchedule, nextRunAt: Date): Promise<JobSchedule> {
+    const [schedule] = await db
+      .insert(jobSchedules)
+      .values({ ...scheduleData, nextRunAt })
+      .returning();
+    return schedule;
+  }
+
+  // Creates a built-in schedule once; later edits made by admins are left alone
+  async ensureJobSchedule(scheduleData: InsertJobSchedule, nextRunAt: Date): Promise<void> {
+    await db
+      .insert(jobSchedules)
+      .values({ ...scheduleData, nextRunAt })
+      .onConflictDoNothing({ target: jobSchedules.name });
+  }
+
+  async updateJobSchedule(
+    id: string,
+    updates: Partial<InsertJobSchedule> & { nextRunAt?: Date }
+  ): Promise<JobSchedule> {
+    const [schedule] = await db
+      .update(jobSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async deleteJobSchedule(id: string): Promise<void> {
+    await db.delete(jobSchedules).where(eq(jobSchedules.id, id));
+  }
+
+  async getDueJobSchedules(now: Date): Promise<JobSchedule[]> {
+    return await db
+      .select()
+      .from(jobSchedules)
+      .where(and(eq(jobSchedules.isEnabled, true), lte(jobSchedules.nextRunAt, now)));
+  }
+
+  // Advancing nextRunAt is guarded on its old value, so when several instances see the same
+  // due schedule only one of them enqueues the job
+  async enqueueScheduledJob(schedule: JobSchedule, nextRunAt: Date): Promise<Job | undefined> {
+    return await this.transaction(async (tx) => {
+      const [advanced] = await tx
+        .update(jobSchedules)
+        .set({ nextRunAt, lastRunAt: new Date() })
+        .where(and(eq(jobSchedules.id, schedule.id), eq(jobSchedules.nextRunAt, schedule.nextRunAt)))
+        .returning();
+      if (!advanced) return undefined;
+
+      const [job] = await tx
+        .insert(jobs)
+        .values({ type: schedule.type, payload: schedule.payload, scheduleId: schedule.id })
+        .returning();
+      return job;
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,177 @@
+// GST rules for tax invoices: state codes, the place-of-supply split between CGST/SGST and
+// IGST, and backing tax out of marketplace prices that already include it.
+
+import type { InvoiceLine } from "./schema";
+
+type Amount = string | number | null | undefined;
+
+// State codes as used in the first two digits of a GSTIN and for the place of supply
+export const gstStates = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+] as const;
+
+export type GstState = (typeof gstStates)[number];
+
+export const GST_RATES = ["0", "5", "12", "18", "28"] as const;
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Older spellings that still turn up in marketplace address fields
+const stateAliases: Record<string, string> = {
+  orissa: "21",
+  pondicherry: "34",
+  newdelhi: "07",
+  nctofdelhi: "07",
+  uttaranchal: "05",
+  andamanandnicobar: "35",
+};
+
+const normalise = (value: string) => value.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+
+// Accepts a state code or a state name in any case, as marketplaces report either
+export function findGstState(value: string | null | undefined): GstState | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const byCode = gstStates.find((state) => state.code === trimmed.padStart(2, "0"));
+  if (byCode) return byCode;
+
+  const key = normalise(trimmed);
+  return gstStates.find((state) => normalise(state.name) === key || state.code === stateAliases[key]);
+}
+
+// Indian financial years run April to March, e.g. "25-26"
+export function financialYearOf(date: Date): string {
+  // Invoices are dated in IST regardless of the server's time zone
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${String(startYear % 100).padStart(2, "0")}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export interface InvoiceLineInput {
+  productName: string;
+  sku?: string | null;
+  quantity?: number | null;
+  unitPrice: Amount;
+  discountAmount?: Amount;
+  taxAmount?: Amount;
+  hsnCode?: string | null;
+  gstRate?: Amount;
+}
+
+export interface InvoiceTotals {
+  taxableValue: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  total: string;
+}
+
+const toNumber = (value: Amount) => {
+  const parsed = typeof value === "number" ? value : parseFloat(value ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Splits each line into taxable value and GST. A line that carries its own tax amount is taxed on
+ * top of its price; a line without one is treated as GST-inclusive (as marketplaces report prices)
+ * and the tax is backed out at the product's rate. Either way the invoice total is what the
+ * customer paid.
+ */
+export function calculateInvoiceLines(
+  items: InvoiceLineInput[],
+  interState: boolean
+): { lines: InvoiceLine[]; totals: InvoiceTotals } {
+  const totals = { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, total: 0 };
+
+  const lines = items.map((item) => {
+    const quantity = item.quantity ?? 1;
+    const gross = round(quantity * toNumber(item.unitPrice) - toNumber(item.discountAmount));
+    const lineTax = toNumber(item.taxAmount);
+
+    let taxableValue: number;
+    let tax: number;
+    let rate: number;
+    if (lineTax > 0) {
+      taxableValue = gross;
+      tax = round(lineTax);
+      rate = item.gstRate != null ? toNumber(item.gstRate) : gross > 0 ? round((tax / gross) * 100) : 0;
+    } else {
+      rate = toNumber(item.gstRate);
+      taxableValue = round(gross / (1 + rate / 100));
+      tax = round(gross - taxableValue);
+    }
+
+    // Intra-state supplies split the tax equally between the centre and the state
+    const cgst = interState ? 0 : round(tax / 2);
+    const sgst = interState ? 0 : round(tax - cgst);
+    const igst = interState ? tax : 0;
+
+    totals.taxableValue += taxableValue;
+    totals.cgst += cgst;
+    totals.sgst += sgst;
+    totals.igst += igst;
+    totals.total += taxableValue + tax;
+
+    return {
+      description: item.productName,
+      sku: item.sku ?? null,
+      hsnCode: item.hsnCode ?? null,
+      quantity,
+      unitPrice: (quantity > 0 ? taxableValue / quantity : 0).toFixed(2),
+      taxableValue: taxableValue.toFixed(2),
+      gstRate: rate.toFixed(2),
+      cgst: cgst.toFixed(2),
+      sgst: sgst.toFixed(2),
+      igst: igst.toFixed(2),
+      total: (taxableValue + tax).toFixed(2),
+    };
+  });
+
+  return {
+    lines,
+    totals: {
+      taxableValue: totals.taxableValue.toFixed(2),
+      cgst: totals.cgst.toFixed(2),
+      sgst: totals.sgst.toFixed(2),
+      igst: totals.igst.toFixed(2),
+      total: totals.total.toFixed(2),
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type { Order } from "./schema";
+
+export type OrderStatus = Order["status"];
+
+// Allowed forward moves for each order status. Cancelled and returned are terminal.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+};
+
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+  return orderStatusTransitions[status] ?? [];
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
+
+// Shortest chain of legal transitions from one status to another, excluding the
+// starting status. Returns undefined when the target cannot be reached.
+export function findOrderStatusPath(from: OrderStatus, to: OrderStatus): OrderStatus[] | undefined {
+  if (from === to) return [];
+
+  const previous = new Map<OrderStatus, OrderStatus>();
+  const queue: OrderStatus[] = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const next of getNextOrderStatuses(status)) {
+      if (next === from || previous.has(next)) continue;
+      previous.set(next, status);
+      if (next === to) {
+        const path: OrderStatus[] = [to];
+        for (let step = status; step !== from; step = previous.get(step)!) path.unshift(step);
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return undefined;
+}
+
+export function formatOrderStatus(status: string): string {
+  return status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ');
+}
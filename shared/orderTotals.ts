@@ -0,0 +1,64 @@
+// Order totals are always derived from the line items so the header, the
+// order details page and the stats queries agree on revenue and profit.
+
+type Amount = string | number | null | undefined;
+
+export interface OrderLineAmounts {
+  quantity?: number | null;
+  unitPrice: Amount;
+  costPrice?: Amount;
+  taxAmount?: Amount;
+  discountAmount?: Amount;
+}
+
+export interface OrderTotals {
+  subtotal: string;
+  discount: string;
+  tax: string;
+  total: string;
+  cost: string;
+  profit: string;
+  units: number;
+}
+
+const toNumber = (value: Amount) => {
+  const parsed = typeof value === "number" ? value : parseFloat(value ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export function calculateLineTotal(line: OrderLineAmounts): string {
+  const quantity = line.quantity ?? 1;
+  const total = quantity * toNumber(line.unitPrice) - toNumber(line.discountAmount) + toNumber(line.taxAmount);
+  return total.toFixed(2);
+}
+
+export function calculateOrderTotals(lines: OrderLineAmounts[]): OrderTotals {
+  let subtotal = 0;
+  let discount = 0;
+  let tax = 0;
+  let cost = 0;
+  let units = 0;
+
+  for (const line of lines) {
+    const quantity = line.quantity ?? 1;
+    subtotal += quantity * toNumber(line.unitPrice);
+    discount += toNumber(line.discountAmount);
+    tax += toNumber(line.taxAmount);
+    cost += quantity * toNumber(line.costPrice);
+    units += quantity;
+  }
+
+  const total = subtotal - discount + tax;
+  // Tax is collected on behalf of the government, so it is not part of profit
+  const profit = total - tax - cost;
+
+  return {
+    subtotal: subtotal.toFixed(2),
+    discount: discount.toFixed(2),
+    tax: tax.toFixed(2),
+    total: total.toFixed(2),
+    cost: cost.toFixed(2),
+    profit: profit.toFixed(2),
+    units,
+  };
+}
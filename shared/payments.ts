@@ -0,0 +1,93 @@
+// The payment ledger is the record of money actually moved; the order's payment status
+// is read off it so the order list, the details page and refunds never disagree.
+
+import type { Order, OrderPayment, PaymentMethod } from "./schema";
+
+type PaymentStatus = Order["paymentStatus"];
+
+export interface PaymentSummary {
+  collected: string;
+  refunded: string;
+  net: string; // collected less refunded
+  outstanding: string; // still to collect against the order total, never negative
+}
+
+// Paise rounding on sums of decimals would otherwise leave "paid" orders a fraction short
+const EPSILON = 0.005;
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cod: "Cash on delivery",
+  upi: "UPI",
+  card: "Card",
+  netbanking: "Net banking",
+  wallet: "Wallet",
+  bank_transfer: "Bank transfer",
+  marketplace: "Marketplace",
+  other: "Other",
+};
+
+export function summarizePayments(totalAmount: string, entries: Pick<OrderPayment, "kind" | "amount">[]): PaymentSummary {
+  let collected = 0;
+  let refunded = 0;
+  for (const entry of entries) {
+    if (entry.kind === "refund") refunded += parseFloat(entry.amount);
+    else collected += parseFloat(entry.amount);
+  }
+  return {
+    collected: collected.toFixed(2),
+    refunded: refunded.toFixed(2),
+    net: (collected - refunded).toFixed(2),
+    outstanding: Math.max(parseFloat(totalAmount) - collected, 0).toFixed(2),
+  };
+}
+
+// Orders with no ledger entries keep whatever status the platform or import reported
+export function derivePaymentStatus(
+  totalAmount: string,
+  entries: Pick<OrderPayment, "kind" | "amount">[],
+  current: PaymentStatus
+): PaymentStatus {
+  if (entries.length === 0) return current;
+
+  const summary = summarizePayments(totalAmount, entries);
+  const collected = parseFloat(summary.collected);
+  const refunded = parseFloat(summary.refunded);
+  if (refunded > EPSILON) return refunded >= collected - EPSILON ? "refunded" : "partially_refunded";
+  if (collected > EPSILON && parseFloat(summary.outstanding) <= EPSILON) return "paid";
+  return current === "failed" ? "failed" : "pending";
+}
+
+export const isCashOnDelivery = (paymentMethod: string | null | undefined) =>
+  paymentMethod?.trim().toLowerCase() === "cod";
+
+// Outstanding COD is aged from the day the courier collected it
+export const codAgingBuckets = [
+  { key: "0-7", label: "0–7 days", maxDays: 7 },
+  { key: "8-15", label: "8–15 days", maxDays: 15 },
+  { key: "16-30", label: "16–30 days", maxDays: 30 },
+  { key: "30+", label: "Over 30 days", maxDays: Infinity },
+] as const;
+
+export type CodAgingBucket = (typeof codAgingBuckets)[number]["key"];
+
+export interface CodAging {
+  key: CodAgingBucket;
+  label: string;
+  count: number;
+  amount: string;
+}
+
+export const codAgingBucket = (ageDays: number): CodAgingBucket =>
+  codAgingBuckets.find((bucket) => ageDays <= bucket.maxDays)!.key;
+
+export function summarizeCodAging(entries: { amount: string; ageDays: number }[]): CodAging[] {
+  return codAgingBuckets.map(({ key, label }) => {
+    const inBucket = entries.filter((entry) => codAgingBucket(entry.ageDays) === key);
+    return {
+      key,
+      label,
+      count: inBucket.length,
+      amount: inBucket.reduce((sum, entry) => sum + parseFloat(entry.amount), 0).toFixed(2),
+    };
+  });
+}
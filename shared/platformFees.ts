@@ -0,0 +1,68 @@
+// Expected marketplace fees for an order, estimated from the platform's fee rules until the
+// settlement report arrives with what was actually charged.
+
+import type { OrderFeeBreakdown, PlatformFeeRule, ShippingSlab } from "./schema";
+
+type Amount = string | number | null | undefined;
+
+export type FeeRuleAmounts = Pick<
+  PlatformFeeRule,
+  'commissionPercent' | 'fixedFee' | 'shippingSlabs' | 'paymentGatewayPercent' | 'gstOnFeesPercent'
+>;
+
+export interface FeeLine {
+  quantity?: number | null;
+  lineTotal: Amount; // what the customer paid for the line, tax included
+  unitWeightKg?: number | null; // weight of one unit sold, i.e. the whole pack
+  rule?: FeeRuleAmounts;
+}
+
+const toNumber = (value: Amount) => {
+  const parsed = typeof value === "number" ? value : parseFloat(value ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Slabs are matched in ascending weight; a unit with no known weight is charged the lightest slab
+export function shippingFeeForWeight(slabs: ShippingSlab[], weightKg: number | null | undefined): number {
+  if (slabs.length === 0) return 0;
+  const sorted = [...slabs].sort((a, b) => (a.upToKg ?? Infinity) - (b.upToKg ?? Infinity));
+  if (weightKg == null) return sorted[0].fee;
+  const slab = sorted.find((s) => s.upToKg === null || weightKg <= s.upToKg) ?? sorted[sorted.length - 1];
+  return slab.fee;
+}
+
+export function calculateOrderFees(lines: FeeLine[]): OrderFeeBreakdown {
+  let commission = 0;
+  let fixedFee = 0;
+  let shipping = 0;
+  let paymentGateway = 0;
+  let gstOnFees = 0;
+
+  for (const line of lines) {
+    if (!line.rule) continue;
+    const quantity = line.quantity ?? 1;
+    const lineTotal = toNumber(line.lineTotal);
+
+    const lineCommission = lineTotal * toNumber(line.rule.commissionPercent) / 100;
+    const lineFixed = quantity * toNumber(line.rule.fixedFee);
+    const lineShipping = quantity * shippingFeeForWeight(line.rule.shippingSlabs, line.unitWeightKg);
+    const lineGateway = lineTotal * toNumber(line.rule.paymentGatewayPercent) / 100;
+
+    commission += lineCommission;
+    fixedFee += lineFixed;
+    shipping += lineShipping;
+    paymentGateway += lineGateway;
+    // Marketplaces charge GST on their own fees, at the rule's rate
+    gstOnFees += (lineCommission + lineFixed + lineShipping + lineGateway) * toNumber(line.rule.gstOnFeesPercent) / 100;
+  }
+
+  return {
+    source: 'estimated',
+    commission: commission.toFixed(2),
+    fixedFee: fixedFee.toFixed(2),
+    shipping: shipping.toFixed(2),
+    paymentGateway: paymentGateway.toFixed(2),
+    gstOnFees: gstOnFees.toFixed(2),
+    total: (commission + fixedFee + shipping + paymentGateway + gstOnFees).toFixed(2),
+  };
+}
@@ -0,0 +1,37 @@
+import type { PurchaseOrder } from "./schema";
+
+export type PurchaseOrderStatus = PurchaseOrder["status"];
+
+// Allowed moves for each purchase order status. A draft is only ours to change; once sent the
+// supplier is working to it, so it can still be cancelled until goods arrive, after which closing
+// it short is how the rest is given up on.
+export const purchaseOrderStatusTransitions: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'closed', 'cancelled'],
+  partially_received: ['partially_received', 'closed'],
+  closed: [],
+  cancelled: [],
+};
+
+// Statuses whose outstanding lines count as stock on order
+export const openPurchaseOrderStatuses: PurchaseOrderStatus[] = ['sent', 'partially_received'];
+
+// Statuses a purchase order may be in for it to move to the given one
+export function purchaseOrderStatusesBefore(status: PurchaseOrderStatus): PurchaseOrderStatus[] {
+  return (Object.keys(purchaseOrderStatusTransitions) as PurchaseOrderStatus[]).filter(
+    (from) => purchaseOrderStatusTransitions[from].includes(status)
+  );
+}
+
+export function canTransitionPurchaseOrderStatus(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return purchaseOrderStatusTransitions[from]?.includes(to) ?? false;
+}
+
+// What is still to come on a line; over-deliveries never count as negative
+export function outstandingQuantity(line: { quantity: number; receivedQuantity: number }): number {
+  return Math.max(line.quantity - line.receivedQuantity, 0);
+}
+
+export function purchaseOrderTotal(items: { quantity: number; unitCost: string | number }[]): number {
+  return items.reduce((sum, item) => sum + item.quantity * Number(item.unitCost), 0);
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -10,10 +11,14 @@ import {
   decimal,
   pgEnum,
   boolean,
+  unique,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { relations } from 'drizzle-orm';
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { GSTIN_PATTERN, findGstState } from "./gst";
+import { PINCODE_PATTERN } from "./shipping";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -42,10 +47,46 @@ export const users = pgTable("users", {
 // Enums
 export const orderStatusEnum = pgEnum('order_status', ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned']);
 export const platformEnum = pgEnum('platform', ['amazon', 'flipkart', 'meesho', 'website']);
-export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'paid', 'failed', 'refunded']);
+export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'paid', 'failed', 'refunded', 'partially_refunded']);
 export const expenseStatusEnum = pgEnum('expense_status', ['pending', 'approved', 'rejected', 'paid']);
 export const expenseCategoryEnum = pgEnum('expense_category', ['marketing', 'shipping', 'packaging', 'office', 'travel', 'other']);
 export const warehousePermissionEnum = pgEnum('warehouse_permission', ['read', 'write', 'admin']);
+export const syncTriggerEnum = pgEnum('sync_trigger', ['manual', 'scheduled', 'retry']);
+export const syncRunStatusEnum = pgEnum('sync_run_status', ['running', 'succeeded', 'partial', 'failed']);
+export const jobTypeEnum = pgEnum('job_type', ['platform_order_sync', 'inventory_push', 'report_generation', 'shipment_tracking']);
+export const jobStatusEnum = pgEnum('job_status', ['queued', 'running', 'succeeded', 'failed']);
+export const webhookEventStatusEnum = pgEnum('webhook_event_status', ['received', 'processed', 'failed', 'ignored']);
+export const settlementMatchStatusEnum = pgEnum('settlement_match_status', ['matched', 'mismatch', 'unmatched']);
+export const invoiceTypeEnum = pgEnum('invoice_type', ['invoice', 'credit_note']);
+export const documentTypeEnum = pgEnum('document_type', ['invoice', 'credit_note', 'delivery_challan', 'purchase_order', 'goods_receipt']);
+export const carrierEnum = pgEnum('carrier', ['delhivery', 'bluedart', 'xpressbees']);
+export const shipmentStatusEnum = pgEnum('shipment_status', [
+  'booked',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+  'rto_in_transit', // refused or undeliverable, on its way back to the warehouse
+  'rto_delivered',
+  'cancelled',
+]);
+export const returnSourceEnum = pgEnum('return_source', ['customer', 'courier_rto']);
+export const returnStatusEnum = pgEnum('return_status', ['requested', 'received', 'inspected', 'cancelled']);
+export const transferStatusEnum = pgEnum('transfer_status', ['requested', 'approved', 'in_transit', 'partially_received', 'received', 'cancelled']);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['draft', 'sent', 'partially_received', 'closed', 'cancelled']);
+export const returnReasonEnum = pgEnum('return_reason', [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'size_or_fit',
+  'no_longer_needed',
+  'undeliverable', // courier RTO: refused, unreachable or bad address
+  'other',
+]);
+export const inspectionResultEnum = pgEnum('inspection_result', ['restock', 'damaged', 'refurbish']);
+export const refundStatusEnum = pgEnum('refund_status', ['not_required', 'pending', 'refunded']);
+export const paymentKindEnum = pgEnum('payment_kind', ['payment', 'refund']);
+export const paymentMethodEnum = pgEnum('payment_method', ['cod', 'upi', 'card', 'netbanking', 'wallet', 'bank_transfer', 'marketplace', 'other']);
 export const productCategoryEnum = pgEnum('product_category', ['electronics', 'clothing', 'books', 'home', 'beauty', 'sports', 'toys', 'other']);
 
 // Warehouses table
@@ -54,6 +95,27 @@ export const warehouses = pgTable("warehouses", {
   name: varchar("name").notNull(),
   description: text("description"),
   location: varchar("location"),
+  pincode: varchar("pincode", { length: 6 }), // origin pincode for courier rates and serviceability
+  isActive: boolean("is_active").notNull().default(true),
+  // Lets stock go below zero, e.g. where sales are recorded before the goods are counted in
+  allowNegativeStock: boolean("allow_negative_stock").notNull().default(false),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Suppliers table - who we buy stock from
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  contactName: varchar("contact_name"),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  address: text("address"),
+  gstin: varchar("gstin", { length: 15 }),
+  paymentTermsDays: integer("payment_terms_days"), // e.g. 30 for net 30; null when paid in advance
+  leadTimeDays: integer("lead_time_days"), // usual days from order to delivery, used for expected dates
+  notes: text("notes"),
   isActive: boolean("is_active").notNull().default(true),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -70,10 +132,13 @@ export const products = pgTable("products", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
   weight: decimal("weight", { precision: 8, scale: 3 }),
+  hsnCode: varchar("hsn_code"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }), // percent; prices are treated as GST-inclusive at this rate
   dimensions: varchar("dimensions"), // e.g., "10x5x3 cm"
   barcode: varchar("barcode"),
   brand: varchar("brand"),
-  supplier: varchar("supplier"),
+  supplier: varchar("supplier"), // free-text name from before suppliers were tracked; supplierId replaces it
+  supplierId: varchar("supplier_id").references(() => suppliers.id, { onDelete: 'set null' }), // usual supplier, preselected on purchase orders
   isActive: boolean("is_active").notNull().default(true),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -98,16 +163,51 @@ export const orders = pgTable("orders", {
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
-  profit: decimal("profit", { precision: 10, scale: 2 }),
+  platformFees: decimal("platform_fees", { precision: 10, scale: 2 }).notNull().default('0'),
+  feeBreakdown: jsonb("fee_breakdown").$type<OrderFeeBreakdown>(),
+  profit: decimal("profit", { precision: 10, scale: 2 }), // revenue less tax, cost, platform fees and shipping
   status: orderStatusEnum("status").notNull().default('pending'),
   paymentStatus: paymentStatusEnum("payment_status").notNull().default('pending'),
   paymentMethod: varchar("payment_method"),
   transactionId: varchar("transaction_id"),
   shippingAddress: text("shipping_address"),
-  trackingNumber: varchar("tracking_number"),
+  shippingState: varchar("shipping_state"), // ship-to state as reported, decides the place of supply for GST
+  shippingPincode: varchar("shipping_pincode", { length: 6 }),
+  carrier: carrierEnum("carrier"), // set when we book the courier ourselves
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).notNull().default('0'),
+  trackingNumber: varchar("tracking_number"), // the carrier's AWB when booked through us
   notes: text("notes"),
+  needsReview: boolean("needs_review").notNull().default(false), // a line could not be matched to a catalogue product
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("orders_platform_order_idx").on(table.platform, table.platformOrderId)]);
+
+// Marketplace fees charged on an order: estimated from the fee rules, then replaced by the settlement actuals
+export interface OrderFeeBreakdown {
+  source: 'estimated' | 'settlement';
+  commission: string;
+  fixedFee: string;
+  shipping: string;
+  paymentGateway: string;
+  gstOnFees: string;
+  total: string;
+}
+
+// Order line items - one row per SKU on an order
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  productId: varchar("product_id").references(() => products.id),
+  productName: varchar("product_name").notNull(),
+  sku: varchar("sku"),
+  quantity: integer("quantity").notNull().default(1),
+  packSize: integer("pack_size").notNull().default(1), // catalogue units per unit sold, from the listing
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  costPrice: decimal("cost_price", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(), // quantity * unitPrice - discount + tax
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Expenses table
@@ -142,10 +242,11 @@ export const inventory = pgTable("inventory", {
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
   quantity: integer("quantity").notNull().default(0),
   reservedQuantity: integer("reserved_quantity").notNull().default(0), // for pending orders
+  inTransitQuantity: integer("in_transit_quantity").notNull().default(0), // dispatched to this warehouse, not yet received
   minStockLevel: integer("min_stock_level").default(0),
   maxStockLevel: integer("max_stock_level"),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [uniqueIndex("inventory_warehouse_product_idx").on(table.warehouseId, table.productId)]);
 
 // Warehouse permissions - role-based access to warehouses
 export const warehousePermissions = pgTable("warehouse_permissions", {
@@ -168,6 +269,8 @@ export const stockMovements = pgTable("stock_movements", {
   reason: varchar("reason"), // 'purchase', 'sale', 'return', 'damage', 'count_adjustment', 'transfer'
   orderId: varchar("order_id").references(() => orders.id), // link to order if related to sale
   transferId: varchar("transfer_id"), // link transfers together
+  returnId: varchar("return_id").references(() => orderReturns.id), // set for stock booked in by a return inspection
+  goodsReceiptId: varchar("goods_receipt_id").references(() => goodsReceipts.id), // set for stock booked in by a goods receipt
   notes: text("notes"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -178,18 +281,469 @@ export const warehouseTransfers = pgTable("warehouse_transfers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   fromWarehouseId: varchar("from_warehouse_id").notNull().references(() => warehouses.id),
   toWarehouseId: varchar("to_warehouse_id").notNull().references(() => warehouses.id),
-  productId: varchar("product_id").notNull().references(() => products.id),
-  quantity: integer("quantity").notNull(),
-  status: varchar("status").notNull().default('pending'), // 'pending', 'in_transit', 'completed', 'cancelled'
+  status: transferStatusEnum("status").notNull().default('requested'),
+  challanNumber: varchar("challan_number").unique(), // delivery challan issued on dispatch
   requestedBy: varchar("requested_by").notNull().references(() => users.id),
   approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  dispatchedBy: varchar("dispatched_by").references(() => users.id),
   shippedAt: timestamp("shipped_at"),
-  receivedAt: timestamp("received_at"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at"), // when the last receipt closed the transfer
+  varianceNotes: text("variance_notes"), // why the quantities received differ from what was dispatched
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Warehouse transfer items - the products moved on a transfer. Receipts can arrive in several
+// parts, so receivedQuantity accumulates until the transfer is closed.
+export const warehouseTransferItems = pgTable("warehouse_transfer_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferId: varchar("transfer_id").notNull().references(() => warehouseTransfers.id, { onDelete: 'cascade' }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  receivedQuantity: integer("received_quantity").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("warehouse_transfer_items_transfer_product_idx").on(table.transferId, table.productId)]);
+
+// Purchase orders - stock ordered from a supplier for delivery to one warehouse. The PO number is
+// issued when the order is created; lines can only change while it is still a draft.
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: varchar("po_number").notNull().unique(),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id), // deliver to
+  status: purchaseOrderStatusEnum("status").notNull().default('draft'),
+  expectedDate: timestamp("expected_date"),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull().default('0'), // sum of quantity x unit cost over the lines
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("purchase_orders_supplier_idx").on(table.supplierId),
+  index("purchase_orders_status_idx").on(table.status),
+]);
+
+// Purchase order items - receivedQuantity accumulates as deliveries arrive against the line
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(), // agreed with the supplier, before GST
+  receivedQuantity: integer("received_quantity").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("purchase_order_items_order_product_idx").on(table.purchaseOrderId, table.productId)]);
+
+// Goods receipt notes - one delivery of stock booked into a warehouse, against a purchase order or
+// ad hoc (e.g. a local cash purchase). Only accepted units go into stock.
+export const goodsReceipts = pgTable("goods_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  grnNumber: varchar("grn_number").notNull().unique(),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id),
+  supplierInvoiceNumber: varchar("supplier_invoice_number"), // the supplier's invoice or delivery note the goods came with
+  costPriceUpdated: boolean("cost_price_updated").notNull().default(false), // whether product cost prices were set from this receipt
   notes: text("notes"),
+  receivedBy: varchar("received_by").notNull().references(() => users.id),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("goods_receipts_purchase_order_idx").on(table.purchaseOrderId)]);
+
+// Goods receipt items - what arrived of one product: received = accepted + rejected
+export const goodsReceiptItems = pgTable("goods_receipt_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goodsReceiptId: varchar("goods_receipt_id").notNull().references(() => goodsReceipts.id, { onDelete: 'cascade' }),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  receivedQuantity: integer("received_quantity").notNull(),
+  acceptedQuantity: integer("accepted_quantity").notNull(),
+  rejectedQuantity: integer("rejected_quantity").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // the PO line's agreed cost unless the supplier billed differently
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("goods_receipt_items_receipt_idx").on(table.goodsReceiptId)]);
+
+// Product listings - maps a marketplace listing (ASIN, FSN, listing ID) or seller SKU to a catalogue product.
+// A listing can sell a multipack, in which case each unit sold consumes packSize units of the product.
+export const productListings = pgTable("product_listings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  sellerSku: varchar("seller_sku").notNull(),
+  listingId: varchar("listing_id"),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  packSize: integer("pack_size").notNull().default(1),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("product_listings_platform_sku_idx").on(table.platform, table.sellerSku),
+  uniqueIndex("product_listings_platform_listing_idx").on(table.platform, table.listingId),
+  index("product_listings_product_idx").on(table.productId),
+]);
+
+// Platform connections - credentials and incremental sync state per marketplace
+export const platformConnections = pgTable("platform_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull().unique(),
+  credentials: jsonb("credentials").$type<Record<string, string>>().notNull().default({}),
+  syncCursor: varchar("sync_cursor"), // opaque, connector-defined position of the last synced order
+  lastSyncAt: timestamp("last_sync_at"),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  stockBuffer: integer("stock_buffer").notNull().default(0), // units per SKU held back from the channel to avoid oversells
+  webhookSecret: varchar("webhook_secret"), // shared secret for signed webhook deliveries; webhooks are refused without one
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Channel warehouses - which warehouses' stock is offered on each platform. A platform without rows sells from all warehouses.
+export const channelWarehouses = pgTable("channel_warehouses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("channel_warehouses_platform_warehouse_idx").on(table.platform, table.warehouseId)]);
+
+// Channel inventory - the last quantity pushed to a platform for each SKU and whether the push worked
+export const channelInventory = pgTable("channel_inventory", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  sku: varchar("sku").notNull(),
+  lastPushedQuantity: integer("last_pushed_quantity").notNull(),
+  lastStatus: varchar("last_status").notNull(), // 'pushed', 'failed'
+  lastError: text("last_error"),
+  lastPushedAt: timestamp("last_pushed_at").defaultNow(),
+}, (table) => [uniqueIndex("channel_inventory_platform_sku_idx").on(table.platform, table.sku)]);
+
+// Sync runs - one row per platform order sync, with the orders that failed to sync
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  trigger: syncTriggerEnum("trigger").notNull().default('manual'),
+  status: syncRunStatusEnum("status").notNull().default('running'),
+  triggeredBy: varchar("triggered_by").references(() => users.id),
+  retryOfRunId: varchar("retry_of_run_id"),
+  cursorFrom: varchar("cursor_from"),
+  cursorTo: varchar("cursor_to"),
+  ordersCreated: integer("orders_created").notNull().default(0),
+  ordersUpdated: integer("orders_updated").notNull().default(0),
+  ordersSkipped: integer("orders_skipped").notNull().default(0),
+  errors: jsonb("errors").$type<SyncRecordError[]>().notNull().default([]),
+  errorMessage: text("error_message"), // set when the run itself failed, e.g. the platform was unreachable
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [index("sync_runs_platform_started_idx").on(table.platform, table.startedAt)]);
+
+export interface SyncRecordError {
+  platformOrderId: string;
+  message: string;
+}
+
+// Job schedules - cron expressions that enqueue jobs
+export const jobSchedules = pgTable("job_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(),
+  type: jobTypeEnum("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  cronExpression: varchar("cron_expression").notNull(),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Background jobs - a Postgres-backed queue so work survives restarts and is claimed by one instance only
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: jobTypeEnum("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: jobStatusEnum("status").notNull().default('queued'),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // not picked up before this time; pushed back on retry
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by"),
+  scheduleId: varchar("schedule_id").references(() => jobSchedules.id, { onDelete: 'set null' }),
+  result: jsonb("result").$type<Record<string, unknown>>(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [index("jobs_status_run_at_idx").on(table.status, table.runAt)]);
+
+// Webhook events - every verified delivery as received, kept for de-duplication and replay
+export const webhookEvents = pgTable("webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  eventId: varchar("event_id").notNull(), // the platform's own id for the event
+  eventType: varchar("event_type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: webhookEventStatusEnum("status").notNull().default('received'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  uniqueIndex("webhook_events_platform_event_idx").on(table.platform, table.eventId),
+  index("webhook_events_received_at_idx").on(table.receivedAt),
+]);
+
+// Settlements - one imported marketplace payout report, with its totals
+export const settlements = pgTable("settlements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  settlementRef: varchar("settlement_ref").notNull(), // the platform's settlement/NEFT id, or the file name when the report has none
+  fileName: varchar("file_name"),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  saleAmount: decimal("sale_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  fees: decimal("fees", { precision: 12, scale: 2 }).notNull().default('0'), // commission + shipping
+  taxWithheld: decimal("tax_withheld", { precision: 12, scale: 2 }).notNull().default('0'), // TCS + TDS
+  netPayout: decimal("net_payout", { precision: 12, scale: 2 }).notNull().default('0'),
+  matchedCount: integer("matched_count").notNull().default(0),
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  unmatchedCount: integer("unmatched_count").notNull().default(0),
+  importedBy: varchar("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("settlements_platform_ref_idx").on(table.platform, table.settlementRef)]);
+
+// Settlement lines - one row per order transaction in a settlement report. Refunds carry negative amounts.
+export const settlementLines = pgTable("settlement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  settlementId: varchar("settlement_id").notNull().references(() => settlements.id, { onDelete: 'cascade' }),
+  platformOrderId: varchar("platform_order_id").notNull(),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: 'set null' }),
+  transactionType: varchar("transaction_type"),
+  postedAt: timestamp("posted_at"),
+  saleAmount: decimal("sale_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  commission: decimal("commission", { precision: 10, scale: 2 }).notNull().default('0'),
+  shippingFee: decimal("shipping_fee", { precision: 10, scale: 2 }).notNull().default('0'),
+  tcs: decimal("tcs", { precision: 10, scale: 2 }).notNull().default('0'),
+  tds: decimal("tds", { precision: 10, scale: 2 }).notNull().default('0'),
+  netPayout: decimal("net_payout", { precision: 10, scale: 2 }).notNull(),
+  matchStatus: settlementMatchStatusEnum("match_status").notNull(),
+  mismatchReason: text("mismatch_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("settlement_lines_settlement_idx").on(table.settlementId),
+  index("settlement_lines_order_idx").on(table.orderId),
+]);
+
+// Platform fee rules - what a marketplace charges, per platform and optionally per product category
+export const platformFeeRules = pgTable("platform_fee_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: platformEnum("platform").notNull(),
+  category: productCategoryEnum("category"), // null is the platform default for categories without their own rule
+  commissionPercent: decimal("commission_percent", { precision: 5, scale: 2 }).notNull().default('0'),
+  fixedFee: decimal("fixed_fee", { precision: 10, scale: 2 }).notNull().default('0'), // closing fee per unit sold
+  shippingSlabs: jsonb("shipping_slabs").$type<ShippingSlab[]>().notNull().default([]),
+  paymentGatewayPercent: decimal("payment_gateway_percent", { precision: 5, scale: 2 }).notNull().default('0'),
+  gstOnFeesPercent: decimal("gst_on_fees_percent", { precision: 5, scale: 2 }).notNull().default('18'),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("platform_fee_rules_platform_category_key").on(table.platform, table.category).nullsNotDistinct()]);
+
+// Shipping charged per unit sold, by the weight of that unit. The last slab has no upper limit.
+export interface ShippingSlab {
+  upToKg: number | null;
+  fee: number;
+}
+
+// Business settings - the seller details printed on tax invoices. A single row.
+export const businessSettings = pgTable("business_settings", {
+  id: varchar("id").primaryKey().default('default'),
+  legalName: varchar("legal_name").notNull(),
+  gstin: varchar("gstin", { length: 15 }).notNull(),
+  stateCode: varchar("state_code", { length: 2 }).notNull(),
+  address: text("address").notNull(),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Document sequences - the last number issued per document type and financial year. Numbers are
+// taken inside the transaction that stores the document, so a rollback never leaves a gap.
+export const documentSequences = pgTable("document_sequences", {
+  documentType: documentTypeEnum("document_type").notNull(),
+  financialYear: varchar("financial_year").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => [primaryKey({ columns: [table.documentType, table.financialYear] })]);
+
+// Invoices - GST tax invoices and credit notes, with the seller, buyer and lines frozen at issue
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  type: invoiceTypeEnum("type").notNull().default('invoice'),
+  invoiceNumber: varchar("invoice_number").notNull().unique(),
+  financialYear: varchar("financial_year").notNull(),
+  invoiceDate: timestamp("invoice_date").notNull().defaultNow(),
+  originalInvoiceId: varchar("original_invoice_id"), // the invoice a credit note reverses
+  sellerName: varchar("seller_name").notNull(),
+  sellerGstin: varchar("seller_gstin", { length: 15 }).notNull(),
+  sellerStateCode: varchar("seller_state_code", { length: 2 }).notNull(),
+  sellerAddress: text("seller_address").notNull(),
+  customerName: varchar("customer_name").notNull(),
+  billingAddress: text("billing_address"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }).notNull(), // state code
+  isInterState: boolean("is_inter_state").notNull(),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull(),
+  cgst: decimal("cgst", { precision: 10, scale: 2 }).notNull().default('0'),
+  sgst: decimal("sgst", { precision: 10, scale: 2 }).notNull().default('0'),
+  igst: decimal("igst", { precision: 10, scale: 2 }).notNull().default('0'),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  lines: jsonb("lines").$type<InvoiceLine[]>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("invoices_order_type_idx").on(table.orderId, table.type)]);
+
+// Shipments - courier bookings made through a carrier connector. An order has at most one
+// booking that is not cancelled; its AWB is also copied to orders.trackingNumber.
+export const shipments = pgTable("shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  carrier: carrierEnum("carrier").notNull(),
+  service: varchar("service").notNull(),
+  awb: varchar("awb").notNull().unique(),
+  status: shipmentStatusEnum("status").notNull().default('booked'),
+  fromPincode: varchar("from_pincode", { length: 6 }).notNull(),
+  toPincode: varchar("to_pincode", { length: 6 }).notNull(),
+  weightKg: decimal("weight_kg", { precision: 8, scale: 3 }).notNull(),
+  cost: decimal("cost", { precision: 10, scale: 2 }).notNull(),
+  codAmount: decimal("cod_amount", { precision: 10, scale: 2 }), // cash the courier collects, null when prepaid
+  estimatedDeliveryAt: timestamp("estimated_delivery_at"),
+  labelUrl: varchar("label_url"), // carrier-hosted label, when the carrier provides one
+  lastTrackedAt: timestamp("last_tracked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("shipments_active_order_idx").on(table.orderId).where(sql`${table.status} <> 'cancelled'`),
+]);
+
+// Shipment events - carrier tracking checkpoints. Polls return the whole history each time, so
+// a checkpoint already stored is skipped.
+export const shipmentEvents = pgTable("shipment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: varchar("shipment_id").notNull().references(() => shipments.id),
+  status: shipmentStatusEnum("status").notNull(), // what the checkpoint means for the shipment
+  description: varchar("description").notNull(), // the carrier's own wording
+  location: varchar("location"),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("shipment_events_checkpoint_idx").on(table.shipmentId, table.occurredAt, table.description),
+]);
+
+// Returns (RMA) - goods coming back from a customer or a failed delivery. Stock is only
+// booked in once the parcel has been inspected, and only what is fit to sell again.
+export const orderReturns = pgTable("returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  source: returnSourceEnum("source").notNull(),
+  reason: returnReasonEnum("reason").notNull(),
+  notes: text("notes"),
+  status: returnStatusEnum("status").notNull().default('requested'),
+  receivedAt: timestamp("received_at"),
+  inspectedAt: timestamp("inspected_at"),
+  refundStatus: refundStatusEnum("refund_status").notNull().default('not_required'),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  refundReference: varchar("refund_reference"),
+  refundedAt: timestamp("refunded_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Quantities are in order line units, like orderItems.quantity
+export const returnItems = pgTable("return_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").notNull().references(() => orderReturns.id, { onDelete: 'cascade' }),
+  orderItemId: varchar("order_item_id").notNull().references(() => orderItems.id),
+  productId: varchar("product_id").references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  inspectionResult: inspectionResultEnum("inspection_result"),
+  restockedQuantity: integer("restocked_quantity").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payment ledger - money received for an order and paid back. The order's paymentStatus is
+// derived from these entries once it has any; orders without entries keep the reported status.
+export const orderPayments = pgTable("order_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  kind: paymentKindEnum("kind").notNull(),
+  method: paymentMethodEnum("method").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // always positive; the kind gives the direction
+  transactionId: varchar("transaction_id"), // gateway reference, UTR, or the AWB for cash collected on delivery
+  gateway: varchar("gateway"), // e.g. razorpay, a marketplace, or the courier that collected the cash
+  returnId: varchar("return_id").references(() => orderReturns.id), // refunds paid against a return
+  // Cash on delivery sits with the courier until it is remitted to us
+  codRemittedAt: timestamp("cod_remitted_at"),
+  codRemittanceReference: varchar("cod_remittance_reference"),
+  notes: text("notes"),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Recording the same gateway transaction twice would double count it
+  uniqueIndex("order_payments_transaction_idx")
+    .on(table.orderId, table.kind, table.transactionId)
+    .where(sql`${table.transactionId} IS NOT NULL`),
+]);
+
+// COD remittances - one courier remittance (a UTR or remittance batch) imported from the carrier's report
+export const codRemittances = pgTable("cod_remittances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  carrier: carrierEnum("carrier").notNull(),
+  remittanceRef: varchar("remittance_ref").notNull(), // the carrier's UTR or batch id, or the file name when the report has none
+  fileName: varchar("file_name"),
+  remittedAt: timestamp("remitted_at"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  matchedCount: integer("matched_count").notNull().default(0),
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  unmatchedCount: integer("unmatched_count").notNull().default(0),
+  importedBy: varchar("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("cod_remittances_carrier_ref_idx").on(table.carrier, table.remittanceRef)]);
+
+// COD remittance lines - one row per AWB in a remittance, matched to the cash collected on delivery
+export const codRemittanceLines = pgTable("cod_remittance_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  remittanceId: varchar("remittance_id").notNull().references(() => codRemittances.id, { onDelete: 'cascade' }),
+  awb: varchar("awb").notNull(),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: 'set null' }),
+  paymentId: varchar("payment_id").references(() => orderPayments.id, { onDelete: 'set null' }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  expectedAmount: decimal("expected_amount", { precision: 10, scale: 2 }), // the COD collected, when the AWB matched one
+  matchStatus: settlementMatchStatusEnum("match_status").notNull(),
+  mismatchReason: text("mismatch_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("cod_remittance_lines_remittance_idx").on(table.remittanceId),
+  index("cod_remittance_lines_payment_idx").on(table.paymentId),
+]);
+
+export interface InvoiceLine {
+  description: string;
+  sku: string | null;
+  hsnCode: string | null;
+  quantity: number;
+  unitPrice: string; // taxable value per unit
+  taxableValue: string;
+  gstRate: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  total: string;
+}
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   submittedExpenses: many(expenses, { relationName: 'submittedExpenses' }),
@@ -209,13 +763,30 @@ export const warehousesRelations = relations(warehouses, ({ one, many }) => ({
   orders: many(orders),
 }));
 
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  products: many(products),
+  purchaseOrders: many(purchaseOrders),
+}));
+
 export const productsRelations = relations(products, ({ one, many }) => ({
   createdByUser: one(users, {
     fields: [products.createdBy],
     references: [users.id],
   }),
+  supplier: one(suppliers, {
+    fields: [products.supplierId],
+    references: [suppliers.id],
+  }),
   inventory: many(inventory),
   orders: many(orders),
+  listings: many(productListings),
+}));
+
+export const productListingsRelations = relations(productListings, ({ one }) => ({
+  product: one(products, {
+    fields: [productListings.productId],
+    references: [products.id],
+  }),
 }));
 
 export const inventoryRelations = relations(inventory, ({ one }) => ({
@@ -242,6 +813,7 @@ export const warehousePermissionsRelations = relations(warehousePermissions, ({
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   statusHistory: many(orderStatusHistory),
+  items: many(orderItems),
   warehouse: one(warehouses, {
     fields: [orders.warehouseId],
     references: [warehouses.id],
@@ -252,6 +824,24 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   }),
 }));
 
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  product: one(products, {
+    fields: [orderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const syncRunsRelations = relations(syncRuns, ({ one }) => ({
+  triggeredByUser: one(users, {
+    fields: [syncRuns.triggeredBy],
+    references: [users.id],
+  }),
+}));
+
 export const expensesRelations = relations(expenses, ({ one }) => ({
   submittedByUser: one(users, {
     fields: [expenses.submittedBy],
@@ -285,13 +875,17 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
     fields: [stockMovements.orderId],
     references: [orders.id],
   }),
+  goodsReceipt: one(goodsReceipts, {
+    fields: [stockMovements.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
   createdByUser: one(users, {
     fields: [stockMovements.createdBy],
     references: [users.id],
   }),
 }));
 
-export const warehouseTransfersRelations = relations(warehouseTransfers, ({ one }) => ({
+export const warehouseTransfersRelations = relations(warehouseTransfers, ({ one, many }) => ({
   fromWarehouse: one(warehouses, {
     fields: [warehouseTransfers.fromWarehouseId],
     references: [warehouses.id],
@@ -302,10 +896,7 @@ export const warehouseTransfersRelations = relations(warehouseTransfers, ({ one
     references: [warehouses.id],
     relationName: 'toWarehouse',
   }),
-  product: one(products, {
-    fields: [warehouseTransfers.productId],
-    references: [products.id],
-  }),
+  items: many(warehouseTransferItems),
   requestedByUser: one(users, {
     fields: [warehouseTransfers.requestedBy],
     references: [users.id],
@@ -317,6 +908,76 @@ export const warehouseTransfersRelations = relations(warehouseTransfers, ({ one
     relationName: 'approvedBy',
   }),
 }));
+export const warehouseTransferItemsRelations = relations(warehouseTransferItems, ({ one }) => ({
+  transfer: one(warehouseTransfers, {
+    fields: [warehouseTransferItems.transferId],
+    references: [warehouseTransfers.id],
+  }),
+  product: one(products, {
+    fields: [warehouseTransferItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [purchaseOrders.warehouseId],
+    references: [warehouses.id],
+  }),
+  items: many(purchaseOrderItems),
+  receipts: many(goodsReceipts),
+  createdByUser: one(users, {
+    fields: [purchaseOrders.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const goodsReceiptsRelations = relations(goodsReceipts, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [goodsReceipts.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [goodsReceipts.supplierId],
+    references: [suppliers.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [goodsReceipts.warehouseId],
+    references: [warehouses.id],
+  }),
+  items: many(goodsReceiptItems),
+}));
+
+export const goodsReceiptItemsRelations = relations(goodsReceiptItems, ({ one }) => ({
+  goodsReceipt: one(goodsReceipts, {
+    fields: [goodsReceiptItems.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [goodsReceiptItems.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
+  product: one(products, {
+    fields: [goodsReceiptItems.productId],
+    references: [products.id],
+  }),
+}));
+
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -331,12 +992,34 @@ export const upsertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
+// Cost, fees and profit are always derived by storage, never taken from the client
+export const insertOrderSchema = createInsertSchema(orders, {
+  shippingPincode: z.string().regex(PINCODE_PATTERN, "Pincode must be 6 digits").nullish(),
+}).omit({
   id: true,
+  carrier: true,
+  shippingCost: true,
+  totalCost: true,
+  platformFees: true,
+  feeBreakdown: true,
+  profit: true,
+  needsReview: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+  id: true,
+  orderId: true,
+  lineTotal: true,
+  createdAt: true,
+});
+
+// Orders created with line items derive the single-product header fields and totals from the lines
+export const insertOrderWithItemsSchema = insertOrderSchema
+  .partial({ productName: true, unitPrice: true, totalAmount: true })
+  .extend({ items: z.array(insertOrderItemSchema).min(1).optional() });
+
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
   id: true,
   createdAt: true,
@@ -350,14 +1033,25 @@ export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHist
   createdAt: true,
 });
 
-export const insertWarehouseSchema = createInsertSchema(warehouses).omit({
+export const insertWarehouseSchema = createInsertSchema(warehouses, {
+  pincode: z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.string().regex(PINCODE_PATTERN, "Pincode must be 6 digits").nullish()
+  ),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   createdBy: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductSchema = createInsertSchema(products, {
+  // A cleared form field clears the code rather than failing the format check
+  hsnCode: z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.string().regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN code must be 4, 6 or 8 digits").nullish()
+  ),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -379,18 +1073,269 @@ export const insertStockMovementSchema = createInsertSchema(stockMovements).omit
   createdAt: true,
 });
 
-export const insertWarehouseTransferSchema = createInsertSchema(warehouseTransfers).omit({
+export const insertWarehouseTransferSchema = createInsertSchema(warehouseTransfers).pick({
+  fromWarehouseId: true,
+  toWarehouseId: true,
+  requestedBy: true,
+  notes: true,
+}).extend({
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.coerce.number().int().positive("Quantity must be at least 1"),
+  })).min(1, "Add at least one product to transfer"),
+}).refine((transfer) => transfer.fromWarehouseId !== transfer.toWarehouseId, {
+  message: "Source and destination warehouses must differ",
+  path: ["toWarehouseId"],
+}).refine((transfer) => new Set(transfer.items.map(item => item.productId)).size === transfer.items.length, {
+  message: "Each product can only appear once on a transfer",
+  path: ["items"],
+});
+
+// One receipt against an in-transit transfer. Lines not listed received nothing this time; closing
+// says nothing more is coming, so whatever is still short is written off with the reason given.
+export const transferReceiptSchema = z.object({
+  items: z.array(z.object({
+    transferItemId: z.string(),
+    receivedQuantity: z.number().int().min(0),
+  })),
+  close: z.boolean().optional(),
+  varianceNotes: z.string().trim().max(1000).optional(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: z.string().trim().min(1, "Supplier name is required"),
+  gstin: z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.string().trim().toUpperCase().regex(GSTIN_PATTERN, "Invalid GSTIN").nullish()
+  ),
+  email: z.preprocess((value) => (value === "" ? null : value), z.string().email("Enter a valid email").nullish()),
+  paymentTermsDays: z.coerce.number().int().min(0).max(365).nullish(),
+  leadTimeDays: z.coerce.number().int().min(0).max(365).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders, {
+  expectedDate: z.coerce.date().nullish(),
+}).pick({
+  supplierId: true,
+  warehouseId: true,
+  expectedDate: true,
+  notes: true,
+}).extend({
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.coerce.number().int().positive("Quantity must be at least 1"),
+    unitCost: z.coerce.number().min(0, "Unit cost cannot be negative").transform(String),
+  })).min(1, "Add at least one product to order"),
+}).refine((order) => new Set(order.items.map(item => item.productId)).size === order.items.length, {
+  message: "Each product can only appear once on a purchase order",
+  path: ["items"],
+});
+
+// A delivery against a purchase order lists its PO lines; an ad hoc one names the warehouse and
+// products. Closing the order says nothing more is coming, so what is still short stops being on order.
+export const insertGoodsReceiptSchema = createInsertSchema(goodsReceipts).pick({
+  purchaseOrderId: true,
+  supplierId: true,
+  warehouseId: true,
+  supplierInvoiceNumber: true,
+  notes: true,
+}).partial({ warehouseId: true }).extend({
+  updateCostPrice: z.boolean().optional(),
+  closePurchaseOrder: z.boolean().optional(),
+  items: z.array(z.object({
+    purchaseOrderItemId: z.string().nullish(),
+    productId: z.string().nullish(),
+    receivedQuantity: z.coerce.number().int().min(0),
+    acceptedQuantity: z.coerce.number().int().min(0),
+    rejectedQuantity: z.coerce.number().int().min(0).default(0),
+    unitCost: z.coerce.number().min(0, "Unit cost cannot be negative").transform(String).nullish(),
+    rejectionReason: z.string().trim().max(500).nullish(),
+  }).refine((item) => item.acceptedQuantity + item.rejectedQuantity === item.receivedQuantity, {
+    message: "Accepted and rejected units must add up to the units received",
+  }).refine((item) => !!item.purchaseOrderItemId || !!item.productId, {
+    message: "Each line needs a product",
+  }).refine((item) => item.rejectedQuantity === 0 || !!item.rejectionReason, {
+    message: "Give a reason for the rejected units",
+  })).min(1, "Add at least one product received"),
+}).refine((receipt) => !!receipt.purchaseOrderId || !!receipt.warehouseId, {
+  message: "Choose the warehouse the goods were received into",
+  path: ["warehouseId"],
+});
+
+export const insertProductListingSchema = createInsertSchema(productListings, {
+  sellerSku: z.string().trim().min(1),
+  packSize: z.number().int().positive().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPlatformConnectionSchema = createInsertSchema(platformConnections, {
+  credentials: z.record(z.string()),
+}).omit({
+  id: true,
+  syncCursor: true,
+  lastSyncAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSyncRunSchema = createInsertSchema(syncRuns, {
+  errors: z.array(z.object({ platformOrderId: z.string(), message: z.string() })).optional(),
+}).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  payload: z.record(z.unknown()).optional(),
+}).pick({
+  type: true,
+  payload: true,
+  maxAttempts: true,
+  runAt: true,
+  scheduleId: true,
+});
+
+export const insertJobScheduleSchema = createInsertSchema(jobSchedules, {
+  payload: z.record(z.unknown()).optional(),
+}).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents, {
+  payload: z.record(z.unknown()),
+}).pick({
+  platform: true,
+  eventId: true,
+  eventType: true,
+  payload: true,
+});
+
+export const insertSettlementSchema = createInsertSchema(settlements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSettlementLineSchema = createInsertSchema(settlementLines).omit({
+  id: true,
+  settlementId: true,
+  createdAt: true,
+});
+
+const amountBetween = (min: number, max: number) => z.string().refine((value) => {
+  const amount = Number(value);
+  return value.trim() !== '' && amount >= min && amount <= max;
+}, `Must be a number between ${min} and ${max}`);
+
+export const insertPlatformFeeRuleSchema = createInsertSchema(platformFeeRules, {
+  commissionPercent: amountBetween(0, 100).optional(),
+  fixedFee: amountBetween(0, 100000).optional(),
+  paymentGatewayPercent: amountBetween(0, 100).optional(),
+  gstOnFeesPercent: amountBetween(0, 100).optional(),
+  shippingSlabs: z.array(z.object({
+    upToKg: z.number().positive().nullable(),
+    fee: z.number().min(0),
+  })).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertShipmentSchema = createInsertSchema(shipments).omit({
   id: true,
+  status: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertShipmentEventSchema = createInsertSchema(shipmentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReturnSchema = createInsertSchema(orderReturns, {
+  notes: z.string().trim().max(1000).optional(),
+}).pick({
+  orderId: true,
+  source: true,
+  reason: true,
+  notes: true,
+}).extend({
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    quantity: z.number().int().positive(),
+  })).min(1, "Choose at least one item to return"),
+});
+
+export const returnInspectionSchema = z.object({
+  items: z.array(z.object({
+    returnItemId: z.string(),
+    result: z.enum(inspectionResultEnum.enumValues),
+    restockQuantity: z.number().int().min(0),
+  })).min(1),
+});
+
+export const insertOrderPaymentSchema = createInsertSchema(orderPayments, {
+  amount: z.coerce.number().positive("Amount must be positive").transform((value) => value.toFixed(2)),
+  transactionId: z.preprocess((value) => (value === "" ? null : value), z.string().trim().max(100).nullable().optional()),
+  gateway: z.preprocess((value) => (value === "" ? null : value), z.string().trim().max(50).nullable().optional()),
+  occurredAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  orderId: true,
+  returnId: true,
+  codRemittedAt: true,
+  codRemittanceReference: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const insertCodRemittanceSchema = createInsertSchema(codRemittances).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCodRemittanceLineSchema = createInsertSchema(codRemittanceLines).omit({
+  id: true,
+  remittanceId: true,
+  createdAt: true,
+});
+
+export const insertBusinessSettingsSchema = createInsertSchema(businessSettings, {
+  legalName: z.string().trim().min(1),
+  gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, "Invalid GSTIN"),
+  stateCode: z.string().refine((code) => !!findGstState(code), "Unknown state code"),
+  address: z.string().trim().min(1),
+}).omit({
+  id: true,
+  updatedAt: true,
+}).refine((settings) => settings.gstin.startsWith(settings.stateCode), {
+  message: "The GSTIN does not belong to the selected state",
+  path: ["stateCode"],
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
+export type Platform = Order["platform"];
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderWithItems = z.infer<typeof insertOrderWithItemsSchema>;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Expense = typeof expenses.$inferSelect;
 export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
@@ -409,10 +1354,126 @@ export type StockMovement = typeof stockMovements.$inferSelect;
 
 export type InsertWarehouseTransfer = z.infer<typeof insertWarehouseTransferSchema>;
 export type WarehouseTransfer = typeof warehouseTransfers.$inferSelect;
+export type WarehouseTransferItem = typeof warehouseTransferItems.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertGoodsReceipt = z.infer<typeof insertGoodsReceiptSchema>;
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type GoodsReceiptItem = typeof goodsReceiptItems.$inferSelect;
+
+export type InsertProductListing = z.infer<typeof insertProductListingSchema>;
+export type ProductListing = typeof productListings.$inferSelect;
+
+export type InsertPlatformConnection = z.infer<typeof insertPlatformConnectionSchema>;
+export type PlatformConnection = typeof platformConnections.$inferSelect;
+export type ChannelWarehouse = typeof channelWarehouses.$inferSelect;
+export type ChannelInventory = typeof channelInventory.$inferSelect;
+export type InsertSyncRun = z.infer<typeof insertSyncRunSchema>;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type SyncTrigger = SyncRun["trigger"];
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type JobType = Job["type"];
+export type InsertJobSchedule = z.infer<typeof insertJobScheduleSchema>;
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type InsertSettlement = z.infer<typeof insertSettlementSchema>;
+export type Settlement = typeof settlements.$inferSelect;
+export type InsertSettlementLine = z.infer<typeof insertSettlementLineSchema>;
+export type SettlementLine = typeof settlementLines.$inferSelect;
+export type SettlementMatchStatus = SettlementLine["matchStatus"];
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type WebhookEventStatus = WebhookEvent["status"];
+export type InsertPlatformFeeRule = z.infer<typeof insertPlatformFeeRuleSchema>;
+export type InsertBusinessSettings = z.infer<typeof insertBusinessSettingsSchema>;
+export type BusinessSettings = typeof businessSettings.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceType = Invoice["type"];
+export type DocumentType = typeof documentSequences.$inferSelect["documentType"];
+export type InsertShipment = z.infer<typeof insertShipmentSchema>;
+export type Shipment = typeof shipments.$inferSelect;
+export type Carrier = Shipment["carrier"];
+export type ShipmentStatus = Shipment["status"];
+export type InsertShipmentEvent = z.infer<typeof insertShipmentEventSchema>;
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+export type PlatformFeeRule = typeof platformFeeRules.$inferSelect;
+export type InsertReturn = z.infer<typeof insertReturnSchema>;
+export type ReturnInspection = z.infer<typeof returnInspectionSchema>;
+export type TransferReceipt = z.infer<typeof transferReceiptSchema>;
+export type OrderReturn = typeof orderReturns.$inferSelect;
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type ReturnReason = OrderReturn["reason"];
+export type InspectionResult = NonNullable<ReturnItem["inspectionResult"]>;
+export type InsertOrderPayment = z.infer<typeof insertOrderPaymentSchema>;
+export type OrderPayment = typeof orderPayments.$inferSelect;
+export type PaymentMethod = OrderPayment["method"];
+export type InsertCodRemittance = z.infer<typeof insertCodRemittanceSchema>;
+export type CodRemittance = typeof codRemittances.$inferSelect;
+export type InsertCodRemittanceLine = z.infer<typeof insertCodRemittanceLineSchema>;
+export type CodRemittanceLine = typeof codRemittanceLines.$inferSelect;
 
 // Extended types with relations
+export type OrderWithItems = Order & {
+  items: OrderItem[];
+};
+
 export type OrderWithHistory = Order & {
   statusHistory: OrderStatusHistory[];
+  items: OrderItem[];
+};
+
+export type ShipmentWithEvents = Shipment & {
+  events: ShipmentEvent[];
+};
+
+export type ReturnWithDetails = OrderReturn & {
+  order: Pick<Order, 'id' | 'platformOrderId' | 'platform' | 'customerName' | 'status' | 'warehouseId'>;
+  items: (ReturnItem & Pick<OrderItem, 'productName' | 'sku' | 'packSize'>)[];
+};
+
+// Dispatched vs returned for one platform or product: orders for platforms, line units for products
+export interface ReturnRate {
+  key: string;
+  label: string;
+  dispatched: number;
+  returned: number;
+}
+
+export interface ReturnAnalytics {
+  byPlatform: ReturnRate[];
+  byProduct: ReturnRate[];
+  byReason: { reason: ReturnReason; count: number }[];
+}
+
+// Everything printed on packing slips and shipping labels
+export type OrderForShipping = Order & {
+  warehouse: Warehouse | null;
+  items: (OrderItem & { product: Product | null })[];
+};
+
+export type ProductListingWithProduct = ProductListing & {
+  product: Product;
+};
+
+export type SettlementWithLines = Settlement & {
+  lines: SettlementLine[];
+};
+
+export type CodRemittanceWithLines = CodRemittance & {
+  lines: CodRemittanceLine[];
+};
+
+// Cash on delivery the courier collected and has not yet remitted, aged from the day of collection
+export type OutstandingCod = OrderPayment & {
+  order: Pick<Order, "platformOrderId" | "platform" | "customerName">;
+  ageDays: number;
+};
+
+export type SyncRunWithUser = SyncRun & {
+  triggeredByUser?: User;
 };
 
 export type ExpenseWithUsers = Expense & {
@@ -429,6 +1490,7 @@ export type WarehouseWithDetails = Warehouse & {
 export type InventoryWithDetails = Inventory & {
   warehouse: Warehouse;
   product: Product;
+  availableQuantity: number; // quantity - reservedQuantity (available to promise)
 };
 
 export type ProductWithInventory = Product & {
@@ -451,7 +1513,29 @@ export type StockMovementWithDetails = StockMovement & {
 export type WarehouseTransferWithDetails = WarehouseTransfer & {
   fromWarehouse: Warehouse;
   toWarehouse: Warehouse;
-  product: Product;
+  items: (WarehouseTransferItem & { product: Product })[];
   requestedByUser: User;
   approvedByUser?: User;
-};
\ No newline at end of file
+};
+
+export type PurchaseOrderWithDetails = PurchaseOrder & {
+  supplier: Supplier;
+  warehouse: Warehouse;
+  items: (PurchaseOrderItem & { product: Product })[];
+  createdByUser: User;
+};
+
+export type GoodsReceiptWithDetails = GoodsReceipt & {
+  purchaseOrder?: PurchaseOrder;
+  supplier?: Supplier;
+  warehouse: Warehouse;
+  items: (GoodsReceiptItem & { product: Product })[];
+  receivedByUser: User;
+};
+
+// Units ordered but not yet received on open purchase orders, per product
+export type OnOrderLine = {
+  product: Product;
+  quantity: number;
+  orders: { id: string; poNumber: string; supplierId: string; supplierName: string; expectedDate: Date | null; quantity: number }[];
+};
@@ -0,0 +1,50 @@
+// Parcel details shared by shipping documents and courier bookings: where it goes and what it weighs.
+
+import type { Carrier } from "./schema";
+
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+export const carrierLabels: Record<Carrier, string> = {
+  delhivery: "Delhivery",
+  bluedart: "Blue Dart",
+  xpressbees: "Xpressbees",
+};
+
+interface ShipToAddress {
+  shippingPincode?: string | null;
+  shippingAddress?: string | null;
+  customerAddress?: string | null;
+}
+
+// Marketplaces don't always report the pincode separately, but Indian addresses end with it
+export function findPincode(order: ShipToAddress): string | undefined {
+  if (order.shippingPincode && PINCODE_PATTERN.test(order.shippingPincode)) return order.shippingPincode;
+
+  for (const address of [order.shippingAddress, order.customerAddress]) {
+    const matches = address?.match(/\b[1-9]\d{2}\s?\d{3}\b/g);
+    if (matches) return matches[matches.length - 1].replace(/\s/, "");
+  }
+  return undefined;
+}
+
+interface ParcelLine {
+  quantity: number;
+  packSize: number;
+  product?: { weight: string | null } | null;
+}
+
+// Product weights are per single item, so packs and quantities multiply up
+export function lineWeightKg(line: ParcelLine): number | null {
+  return line.product?.weight ? parseFloat(line.product.weight) * line.quantity * line.packSize : null;
+}
+
+// Null when any line's product has no weight, since the total would understate the parcel
+export function parcelWeightKg(lines: ParcelLine[]): number | null {
+  let total = 0;
+  for (const line of lines) {
+    const weight = lineWeightKg(line);
+    if (weight === null) return null;
+    total += weight;
+  }
+  return total;
+}
@@ -0,0 +1,28 @@
+import type { WarehouseTransfer } from "./schema";
+
+export type TransferStatus = WarehouseTransfer["status"];
+
+// Allowed moves for each transfer status. Goods can arrive in several receipts. Only a transfer that
+// has not been dispatched can be cancelled; once the goods have left, closing it short is how
+// anything lost on the way is recorded.
+export const transferStatusTransitions: Record<TransferStatus, TransferStatus[]> = {
+  requested: ['approved', 'cancelled'],
+  approved: ['in_transit', 'cancelled'],
+  in_transit: ['partially_received', 'received'],
+  partially_received: ['partially_received', 'received'],
+  received: [],
+  cancelled: [],
+};
+
+export const openTransferStatuses: TransferStatus[] = ['requested', 'approved', 'in_transit', 'partially_received'];
+
+// Statuses a transfer may be in for it to move to the given one
+export function transferStatusesBefore(status: TransferStatus): TransferStatus[] {
+  return (Object.keys(transferStatusTransitions) as TransferStatus[]).filter(
+    (from) => transferStatusTransitions[from].includes(status)
+  );
+}
+
+export function canTransitionTransferStatus(from: TransferStatus, to: TransferStatus): boolean {
+  return transferStatusTransitions[from]?.includes(to) ?? false;
+}